@@ -1,5 +1,5 @@
-import { useState, useRef, useCallback } from 'react'
-import { FileText } from 'lucide-react'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import { FileText, PanelLeftClose, PanelLeftOpen } from 'lucide-react'
 import { EditorLayout } from './components/EditorLayout'
 import { MarkdownEditor, type MarkdownEditorRef } from './components/MarkdownEditor'
 import { MarkdownPreview } from './components/MarkdownPreview'
@@ -7,9 +7,30 @@ import { SaveStatusIndicator } from './components/SaveStatusIndicator'
 import { FormattingToolbar } from './components/FormattingToolbar'
 import { DocumentManager } from './components/DocumentManager'
 import { ConfirmDialog } from './components/ConfirmDialog'
-import { useDocuments } from './hooks/useDocuments'
+import { HistoryPanel } from './components/HistoryPanel'
+import { AttachmentsPanel } from './components/AttachmentsPanel'
+import { ImportDialog } from './components/ImportDialog'
+import { RestoreDialog, type RestoreContents } from './components/RestoreDialog'
+import { SyncConflictNotice } from './components/SyncConflictNotice'
+import { FindReplaceBar } from './components/FindReplaceBar'
+import { FolderTree } from './components/FolderTree'
+import { BacklinksPanel } from './components/BacklinksPanel'
+import { OutlinePanel } from './components/OutlinePanel'
+import { useAssets } from './hooks/useAssets'
+import { useDocuments, type RestoreMode } from './hooks/useDocuments'
+import { useFindReplace } from './hooks/useFindReplace'
 import { useTheme } from './hooks/useTheme'
+import type { Asset, DocumentSnapshot, DocumentStore } from './storage/types'
+import { exportBackup, readBackup } from './utils/backup'
 import { exportAsMarkdown, exportAsHtml } from './utils/export'
+import {
+  isImportableFile, readImportFiles, resolveImports, type DuplicateResolution, type ImportCandidate,
+} from './utils/importFiles'
+import type { SearchRange } from './utils/search'
+import { findBacklinks, findHeading, resolveWikiLink } from './utils/wikiLinks'
+import { moveSection, parseOutline, type OutlineHeading } from './utils/outline'
+import { toggleTask } from './utils/tasks'
+import { exportWorkspace, parseWorkspace } from './utils/workspace'
 import './App.css'
 
 const placeholderText = `# Welcome to Markdown Notepad
@@ -33,7 +54,8 @@ Start typing your markdown here...
 1. Numbered list
 2. Second item
 
-[Link text](https://example.com)
+[Link text](https://example.com)  
+[[Another document]]
 
 \`inline code\`
 
@@ -52,48 +74,385 @@ code block
 - [ ] Task item
 - [x] Completed task`
 
-function App() {
-  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
-  const [documentToDelete, setDocumentToDelete] = useState<string | null>(null)
-  const [editorScroll, setEditorScroll] = useState(0)
+const SIDEBAR_STORAGE_KEY = 'markdown-notepad-sidebar'
+const SCROLL_SYNC_STORAGE_KEY = 'markdown-notepad-scroll-sync'
+const OUTLINE_STORAGE_KEY = 'markdown-notepad-outline'
+
+interface ScrollPosition {
+  documentId: string | null
+  line: number
+}
+
+const TOP_OF_DOCUMENT: ScrollPosition = { documentId: null, line: 0 }
+
+interface AppProps {
+  /** Persistence backend for documents; defaults to the store selected at startup */
+  documentStore?: DocumentStore
+  /** Days a deleted document stays in the trash before it is purged */
+  trashRetentionDays?: number
+}
+
+function App({ documentStore, trashRetentionDays = 30 }: AppProps = {}) {
+  // A trashed document id, 'all' for emptying the trash, or null
+  const [purgeTarget, setPurgeTarget] = useState<string | null>(null)
+  // Source lines at the top of the editor and preview
+  const [editorScroll, setEditorScroll] = useState<ScrollPosition>(TOP_OF_DOCUMENT)
+  const [previewScroll, setPreviewScroll] = useState<ScrollPosition>(TOP_OF_DOCUMENT)
+  const [scrollSync, setScrollSync] = useState(() => {
+    try {
+      return localStorage.getItem(SCROLL_SYNC_STORAGE_KEY) !== 'off'
+    } catch {
+      // localStorage not available
+      return true
+    }
+  })
+  const [showHistory, setShowHistory] = useState(false)
+  const [showAttachments, setShowAttachments] = useState(false)
+  // Snapshots checked for attachments they use, or null while loading
+  const [attachmentSnapshots, setAttachmentSnapshots] = useState<DocumentSnapshot[] | null>(null)
+  // Imported files waiting for a decision about duplicates
+  const [pendingImport, setPendingImport] = useState<ImportCandidate[] | null>(null)
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  // Backup or workspace file picked for restoring, or the reason it could not be read
+  const [pendingRestore, setPendingRestore] = useState<{
+    fileName: string
+    contents: (RestoreContents & { assets?: Asset[] }) | null
+    error: string | null
+  } | null>(null)
+  const [showSidebar, setShowSidebar] = useState(() => {
+    try {
+      return localStorage.getItem(SIDEBAR_STORAGE_KEY) !== 'closed'
+    } catch {
+      // localStorage not available
+      return true
+    }
+  })
+  const [showOutline, setShowOutline] = useState(() => {
+    try {
+      return localStorage.getItem(OUTLINE_STORAGE_KEY) === 'open'
+    } catch {
+      // localStorage not available
+      return false
+    }
+  })
   const editorRef = useRef<MarkdownEditorRef>(null)
   
-  const { isDark, toggleTheme } = useTheme()
+  const { theme, isDark, toggleTheme, setLightTheme, setDarkTheme } = useTheme()
+  const {
+    isSupported: canStoreImages, assets, addImages, resolveAssetUrl, loadAsset, deleteAssets, restoreAssets,
+  } = useAssets({ store: documentStore })
   
   const {
     documents,
+    trashedDocuments,
     activeDocumentId,
     activeDocument,
+    folders,
     setActiveDocument,
     createDocument,
+    importDocuments,
+    restoreBackup,
     renameDocument,
+    setDocumentTags,
+    renameTag,
     deleteDocument,
+    restoreDocument,
+    purgeDocument,
+    emptyTrash,
+    moveDocument,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
     updateDocumentContent,
     saveNow,
+    history,
+    restoreSnapshot,
+    listAllSnapshots,
+    conflicts,
+    resolveConflict,
     status,
     error,
+    isStorageFull,
     saveFeedback,
-  } = useDocuments({ debounceMs: 400 })
+  } = useDocuments({ debounceMs: 400, store: documentStore, trashRetentionDays })
+
+  // Permanent deletion from the trash asks for confirmation
+  const handleConfirmPurge = useCallback(() => {
+    if (purgeTarget === 'all') {
+      emptyTrash()
+    } else if (purgeTarget) {
+      purgeDocument(purgeTarget)
+    }
+    setPurgeTarget(null)
+  }, [purgeTarget, emptyTrash, purgeDocument])
+
+  const handleCancelPurge = useCallback(() => {
+    setPurgeTarget(null)
+  }, [])
+
+  // Persist whether the sidebar is shown
+  useEffect(() => {
+    try {
+      localStorage.setItem(SIDEBAR_STORAGE_KEY, showSidebar ? 'open' : 'closed')
+    } catch {
+      // localStorage not available
+    }
+  }, [showSidebar])
+
+  const handleToggleSidebar = useCallback(() => {
+    setShowSidebar(prev => !prev)
+  }, [])
+
+  // Persist whether the editor and preview scroll together
+  useEffect(() => {
+    try {
+      localStorage.setItem(SCROLL_SYNC_STORAGE_KEY, scrollSync ? 'on' : 'off')
+    } catch {
+      // localStorage not available
+    }
+  }, [scrollSync])
+
+  const handleToggleScrollSync = useCallback(() => {
+    setScrollSync(prev => !prev)
+  }, [])
+
+  // With sync on, scrolling either pane moves the other to the same line
+  const handleEditorScrollLine = useCallback((line: number) => {
+    const position = { documentId: activeDocumentId, line }
+    setEditorScroll(position)
+    if (scrollSync) setPreviewScroll(position)
+  }, [activeDocumentId, scrollSync])
+
+  const handlePreviewScrollLine = useCallback((line: number) => {
+    const position = { documentId: activeDocumentId, line }
+    setPreviewScroll(position)
+    if (scrollSync) setEditorScroll(position)
+  }, [activeDocumentId, scrollSync])
+
+  // Another document starts at the top until it is scrolled
+  const lineOf = (position: ScrollPosition) => position.documentId === activeDocumentId ? position.line : 0
+  const editorScrollLine = lineOf(editorScroll)
+  const previewScrollLine = lineOf(previewScroll)
+
+  // Persist whether the outline is shown
+  useEffect(() => {
+    try {
+      localStorage.setItem(OUTLINE_STORAGE_KEY, showOutline ? 'open' : 'closed')
+    } catch {
+      // localStorage not available
+    }
+  }, [showOutline])
 
-  // Handle document deletion with confirmation
-  const handleDeleteRequest = useCallback((id: string) => {
-    setDocumentToDelete(id)
-    setShowDeleteConfirm(true)
+  const handleToggleOutline = useCallback(() => {
+    setShowOutline(prev => !prev)
   }, [])
 
-  const handleConfirmDelete = useCallback(() => {
-    if (documentToDelete) {
-      deleteDocument(documentToDelete)
+  const activeContent = activeDocument?.content || ''
+  const headings = useMemo(() => parseOutline(activeContent), [activeContent])
+
+  // Show a heading at the top of both panes
+  const handleSelectHeading = useCallback((heading: OutlineHeading) => {
+    const position = { documentId: activeDocumentId, line: heading.line }
+    setEditorScroll(position)
+    setPreviewScroll(position)
+  }, [activeDocumentId])
+
+  const handleMoveSection = useCallback((from: number, to: number | null) => {
+    updateDocumentContent(moveSection(activeContent, headings, from, to))
+  }, [activeContent, headings, updateDocumentContent])
+
+  const handleToggleTask = useCallback((line: number, checked: boolean) => {
+    updateDocumentContent(toggleTask(activeContent, line, checked))
+  }, [activeContent, updateDocumentContent])
+
+  const handleShowAttachments = useCallback(() => {
+    setShowAttachments(true)
+    setAttachmentSnapshots(null)
+    listAllSnapshots()
+      .then(setAttachmentSnapshots)
+      .catch(err => console.error('Failed to load history for attachments:', err))
+  }, [listAllSnapshots])
+
+  const handleRemoveUnusedAssets = useCallback((ids: string[]) => {
+    deleteAssets(ids).catch(err => console.error('Failed to remove attachments:', err))
+  }, [deleteAssets])
+
+  // Files without duplicates are imported right away, otherwise the user decides what to do
+  const handleImportFiles = useCallback(async (files: File[]) => {
+    const importable = files.filter(isImportableFile)
+    if (importable.length === 0) return
+    try {
+      const candidates = await readImportFiles(importable, documents)
+      if (candidates.some(candidate => candidate.duplicate)) {
+        setPendingImport(candidates)
+      } else {
+        importDocuments(resolveImports(candidates, [], documents))
+      }
+    } catch (err) {
+      console.error('Failed to import files:', err)
     }
-    setShowDeleteConfirm(false)
-    setDocumentToDelete(null)
-  }, [documentToDelete, deleteDocument])
+  }, [documents, importDocuments])
 
-  const handleCancelDelete = useCallback(() => {
-    setShowDeleteConfirm(false)
-    setDocumentToDelete(null)
+  const handleConfirmImport = useCallback((resolutions: DuplicateResolution[]) => {
+    if (pendingImport) {
+      importDocuments(resolveImports(pendingImport, resolutions, documents))
+    }
+    setPendingImport(null)
+  }, [pendingImport, documents, importDocuments])
+
+  const handleExportAll = useCallback(async () => {
+    try {
+      const loaded = await Promise.all(assets.map(asset => loadAsset(asset.id)))
+      exportBackup({
+        documents: [...documents, ...trashedDocuments],
+        folders,
+        assets: loaded.filter((asset): asset is Asset => asset !== null),
+      })
+    } catch (err) {
+      console.error('Failed to back up documents:', err)
+    }
+  }, [assets, documents, trashedDocuments, folders, loadAsset])
+
+  const handleExportWorkspace = useCallback(async () => {
+    try {
+      const loaded = await Promise.all(assets.map(asset => loadAsset(asset.id)))
+      exportWorkspace({
+        documents: [...documents, ...trashedDocuments],
+        folders,
+        assets: loaded.filter((asset): asset is Asset => asset !== null),
+        settings: { theme, layout: { showSidebar, showOutline, scrollSync } },
+      })
+    } catch (err) {
+      console.error('Failed to export workspace:', err)
+    }
+  }, [assets, documents, trashedDocuments, folders, loadAsset, theme, showSidebar, showOutline, scrollSync])
+
+  // ZIP backups and JSON workspace files are both restored through the same dialog
+  const handleRestoreFile = useCallback(async (file: File) => {
+    try {
+      if (file.name.toLowerCase().endsWith('.json')) {
+        const { exportedAt, ...workspace } = parseWorkspace(await file.text())
+        setPendingRestore({ fileName: file.name, contents: { createdAt: exportedAt, ...workspace }, error: null })
+      } else {
+        const backup = readBackup(new Uint8Array(await file.arrayBuffer()))
+        setPendingRestore({ fileName: file.name, contents: backup, error: null })
+      }
+    } catch (err) {
+      console.error('Failed to read file to restore:', err)
+      const error = err instanceof Error ? err.message : 'This file could not be read'
+      setPendingRestore({ fileName: file.name, contents: null, error })
+    }
   }, [])
 
+  const handleConfirmRestore = useCallback((mode: RestoreMode) => {
+    const contents = pendingRestore?.contents
+    setPendingRestore(null)
+    if (!contents) return
+    restoreBackup(contents, mode)
+    if (contents.assets && canStoreImages) {
+      restoreAssets(contents.assets, mode).catch(err => console.error('Failed to restore attachments:', err))
+    }
+    if (contents.settings) {
+      const { theme: restoredTheme, layout } = contents.settings
+      if (restoredTheme === 'dark') {
+        setDarkTheme()
+      } else {
+        setLightTheme()
+      }
+      setShowSidebar(layout.showSidebar)
+      setShowOutline(layout.showOutline)
+      setScrollSync(layout.scrollSync)
+    }
+  }, [pendingRestore, restoreBackup, restoreAssets, canStoreImages, setDarkTheme, setLightTheme])
+
+  // Files other than images, which the editor embeds, can be dropped anywhere to import them
+  const handleAppDragOver = useCallback((e: React.DragEvent) => {
+    const hasFiles = Array.from(e.dataTransfer.items ?? [])
+      .some(item => item.kind === 'file' && !item.type.startsWith('image/'))
+    if (!hasFiles) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setIsDraggingFiles(true)
+  }, [])
+
+  const handleAppDragLeave = useCallback((e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDraggingFiles(false)
+    }
+  }, [])
+
+  const handleAppDrop = useCallback((e: React.DragEvent) => {
+    setIsDraggingFiles(false)
+    // Already handled, like images dropped into the editor
+    if (e.defaultPrevented) return
+    const files = Array.from(e.dataTransfer.files).filter(isImportableFile)
+    if (files.length === 0) return
+    e.preventDefault()
+    handleImportFiles(files)
+  }, [handleImportFiles])
+
+  const handleCreateDocumentInFolder = useCallback((folderId: string | null) => {
+    createDocument(undefined, folderId)
+  }, [createDocument])
+
+  // Select find matches without taking focus from the find bar,
+  // after the editor has rendered any replaced content
+  const handleRevealMatch = useCallback((range: SearchRange) => {
+    setTimeout(() => {
+      editorRef.current?.selectRange(range.start, range.end, false)
+    }, 0)
+  }, [])
+
+  const find = useFindReplace({
+    content: activeDocument?.content || '',
+    onChange: updateDocumentContent,
+    onRevealMatch: handleRevealMatch,
+  })
+  const { open: openFind, close: closeFind } = find
+
+  // Start searching for the selected text, if it fits on one line
+  const handleOpenFind = useCallback((withReplace: boolean) => {
+    const selected = editorRef.current?.getSelection().text
+    openFind(withReplace, selected && !selected.includes('\n') ? selected : undefined)
+  }, [openFind])
+
+  const handleCloseFind = useCallback(() => {
+    closeFind()
+    editorRef.current?.focus()
+  }, [closeFind])
+
+  // Open a search result and select the match once the document is shown
+  const handleOpenSearchResult = useCallback((id: string, range?: SearchRange) => {
+    setActiveDocument(id)
+    if (range) {
+      setTimeout(() => {
+        editorRef.current?.selectRange(range.start, range.end)
+      }, 0)
+    }
+  }, [setActiveDocument])
+
+  // Follow a [[wiki link]], creating the document when none has that name
+  const handleWikiLinkClick = useCallback((target: string, heading?: string) => {
+    const linked = resolveWikiLink(documents, target)
+    if (!linked) {
+      createDocument(target)
+      return
+    }
+    const range = heading ? findHeading(linked.content, heading) : null
+    handleOpenSearchResult(linked.id, range ?? undefined)
+  }, [documents, createDocument, handleOpenSearchResult])
+
+  const wikiLinkExists = useCallback(
+    (target: string) => resolveWikiLink(documents, target) !== undefined,
+    [documents]
+  )
+
+  const backlinks = useMemo(
+    () => activeDocument ? findBacklinks(documents, activeDocument) : [],
+    [documents, activeDocument]
+  )
+
   // Formatting handlers
   const handleBold = useCallback(() => {
     editorRef.current?.insertText('**', '**', 'bold text')
@@ -149,14 +508,18 @@ function App() {
     }
   }, [activeDocument])
 
-  const handleExportHtml = useCallback(() => {
-    if (activeDocument) {
-      exportAsHtml({
+  const handleExportHtml = useCallback(async () => {
+    if (!activeDocument) return
+    try {
+      await exportAsHtml({
         content: activeDocument.content,
         filename: activeDocument.name,
+        loadAsset,
       })
+    } catch (err) {
+      console.error('Failed to export HTML:', err)
     }
-  }, [activeDocument])
+  }, [activeDocument, loadAsset])
 
   const editor = (
     <div className="editor-wrapper">
@@ -171,9 +534,16 @@ function App() {
         onQuote={handleQuote}
         onExportMarkdown={handleExportMarkdown}
         onExportHtml={handleExportHtml}
+        onShowHistory={() => setShowHistory(true)}
+        onShowAttachments={canStoreImages ? handleShowAttachments : undefined}
+        onToggleScrollSync={handleToggleScrollSync}
+        isScrollSyncEnabled={scrollSync}
+        onToggleOutline={handleToggleOutline}
+        isOutlineOpen={showOutline}
         onToggleTheme={toggleTheme}
         isDark={isDark}
       />
+      <FindReplaceBar find={find} onClose={handleCloseFind} />
       <MarkdownEditor
         ref={editorRef}
         value={activeDocument?.content || ''}
@@ -183,22 +553,60 @@ function App() {
         onBold={handleBold}
         onItalic={handleItalic}
         onSave={handleManualSave}
-        onScroll={(scrollTop) => setEditorScroll(scrollTop)}
+        scrollLine={editorScrollLine}
+        onScrollLine={handleEditorScrollLine}
+        onFind={() => handleOpenFind(false)}
+        onFindReplace={() => handleOpenFind(true)}
+        highlights={find.isOpen ? find.matches : undefined}
+        activeHighlight={find.activeIndex}
+        onImageFiles={activeDocument && canStoreImages ? addImages : undefined}
       />
     </div>
   )
 
   const preview = (
-    <MarkdownPreview 
-      content={activeDocument?.content || ''}
-      scrollPosition={editorScroll}
-    />
+    <div className="preview-wrapper">
+      <MarkdownPreview 
+        content={activeDocument?.content || ''}
+        scrollLine={previewScrollLine}
+        onScroll={handlePreviewScrollLine}
+        highlight={find.activeQuery}
+        wikiLinkExists={wikiLinkExists}
+        onWikiLinkClick={handleWikiLinkClick}
+        onToggleTask={activeDocument ? handleToggleTask : undefined}
+        resolveAssetUrl={resolveAssetUrl}
+        theme={theme}
+      />
+      <BacklinksPanel backlinks={backlinks} onOpenDocument={setActiveDocument} />
+    </div>
   )
 
   return (
-    <div className="app">
+    <div
+      className="app"
+      onDragOver={handleAppDragOver}
+      onDragLeave={handleAppDragLeave}
+      onDrop={handleAppDrop}
+    >
+      {isDraggingFiles && (
+        <div className="app-drop-overlay" aria-hidden="true">
+          Drop .md or .txt files to import them
+        </div>
+      )}
       <header className="header">
         <div className="logo">
+          <button
+            className="theme-toggle sidebar-toggle"
+            onClick={handleToggleSidebar}
+            aria-label={showSidebar ? 'Hide sidebar' : 'Show sidebar'}
+            title={showSidebar ? 'Hide sidebar' : 'Show sidebar'}
+          >
+            {showSidebar ? (
+              <PanelLeftClose className="icon" aria-hidden="true" />
+            ) : (
+              <PanelLeftOpen className="icon" aria-hidden="true" />
+            )}
+          </button>
           <FileText className="logo-icon" aria-hidden="true" />
           <h1>Markdown Notepad</h1>
         </div>
@@ -210,8 +618,20 @@ function App() {
             error={error}
             onSelectDocument={setActiveDocument}
             onCreateDocument={createDocument}
+            onImportFiles={handleImportFiles}
+            onExportAll={handleExportAll}
+            onExportWorkspace={handleExportWorkspace}
+            onRestoreBackup={handleRestoreFile}
             onRenameDocument={renameDocument}
-            onDeleteDocument={handleDeleteRequest}
+            onDeleteDocument={deleteDocument}
+            trashedDocuments={trashedDocuments}
+            onRestoreDocument={restoreDocument}
+            onPurgeDocument={setPurgeTarget}
+            onEmptyTrash={() => setPurgeTarget('all')}
+            trashRetentionDays={trashRetentionDays}
+            onOpenSearchResult={handleOpenSearchResult}
+            onSetDocumentTags={setDocumentTags}
+            onRenameTag={renameTag}
           />
         </div>
         <div className="header-actions">
@@ -220,21 +640,89 @@ function App() {
               {saveFeedback.message}
             </span>
           )}
-          <SaveStatusIndicator status={status} error={error} />
+          <SaveStatusIndicator
+            status={status}
+            error={error}
+            onManageStorage={isStorageFull && canStoreImages ? handleShowAttachments : undefined}
+          />
         </div>
       </header>
+      <SyncConflictNotice conflicts={conflicts} onResolve={resolveConflict} />
       <main className="main">
-        <EditorLayout editor={editor} preview={preview} />
+        {showSidebar && (
+          <FolderTree
+            folders={folders}
+            documents={documents}
+            activeDocumentId={activeDocumentId}
+            onSelectDocument={setActiveDocument}
+            onCreateDocument={handleCreateDocumentInFolder}
+            onCreateFolder={createFolder}
+            onRenameFolder={renameFolder}
+            onDeleteFolder={deleteFolder}
+            onMoveDocument={moveDocument}
+            onMoveFolder={moveFolder}
+          />
+        )}
+        <div className="main-content">
+          <EditorLayout editor={editor} preview={preview} />
+        </div>
+        {showOutline && (
+          <OutlinePanel
+            headings={headings}
+            activeLine={previewScrollLine}
+            onSelectHeading={handleSelectHeading}
+            onMoveSection={handleMoveSection}
+          />
+        )}
       </main>
       
       <ConfirmDialog
-        isOpen={showDeleteConfirm}
-        title="Delete Document"
-        message="Are you sure you want to delete this document? This action cannot be undone."
+        isOpen={purgeTarget !== null}
+        title={purgeTarget === 'all' ? 'Empty Trash' : 'Delete Permanently'}
+        message={purgeTarget === 'all'
+          ? 'Are you sure you want to permanently delete all documents in the trash? This action cannot be undone.'
+          : 'Are you sure you want to permanently delete this document? This action cannot be undone.'}
         confirmLabel="Delete"
         cancelLabel="Cancel"
-        onConfirm={handleConfirmDelete}
-        onCancel={handleCancelDelete}
+        onConfirm={handleConfirmPurge}
+        onCancel={handleCancelPurge}
+      />
+      
+      <HistoryPanel
+        isOpen={showHistory}
+        snapshots={history}
+        currentContent={activeDocument?.content || ''}
+        onRestore={restoreSnapshot}
+        onClose={() => setShowHistory(false)}
+      />
+
+      {pendingImport && (
+        <ImportDialog
+          candidates={pendingImport}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {pendingRestore && (
+        <RestoreDialog
+          fileName={pendingRestore.fileName}
+          contents={pendingRestore.contents}
+          error={pendingRestore.error}
+          onRestore={handleConfirmRestore}
+          onCancel={() => setPendingRestore(null)}
+        />
+      )}
+
+      <AttachmentsPanel
+        isOpen={showAttachments}
+        assets={assets}
+        // Documents in the trash keep their attachments, so they can still be restored
+        documents={[...documents, ...trashedDocuments]}
+        snapshots={attachmentSnapshots}
+        onOpenDocument={setActiveDocument}
+        onRemoveUnused={handleRemoveUnusedAssets}
+        onClose={() => setShowAttachments(false)}
       />
     </div>
   )
@@ -1,6 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { render, screen, waitFor, within, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
 import App from '../App'
+import { createMemoryStore } from '../storage/memoryStore'
+import { createBackup } from '../utils/backup'
+import { serializeWorkspace } from '../utils/workspace'
 
 describe('App', () => {
   beforeEach(() => {
@@ -69,7 +73,7 @@ describe('App', () => {
     expect(screen.getByTestId('toolbar-quote')).toBeInTheDocument()
   })
 
-  it('loads saved content from localStorage on mount', () => {
+  it('loads saved content from localStorage on mount', async () => {
     const savedDocuments = [
       {
         id: 'test-doc-1',
@@ -83,7 +87,7 @@ describe('App', () => {
     render(<App />)
     
     const editor = screen.getByRole('textbox', { name: /markdown editor/i })
-    expect(editor).toHaveValue('# Previously saved markdown')
+    expect(await screen.findByDisplayValue('# Previously saved markdown')).toBe(editor)
   })
 
   it('handles localStorage errors gracefully', () => {
@@ -98,4 +102,322 @@ describe('App', () => {
     // App should still render
     expect(screen.getByText('Markdown Notepad')).toBeInTheDocument()
   })
+
+  it('uses the document store passed as a prop', async () => {
+    const store = createMemoryStore([
+      { id: 'mem-1', name: 'In Memory', content: '# From memory store', updatedAt: Date.now() },
+    ])
+
+    render(<App documentStore={store} />)
+
+    expect(await screen.findByDisplayValue('# From memory store')).toBeInTheDocument()
+    expect(screen.getByLabelText('Manage documents')).toHaveTextContent('In Memory')
+  })
+
+  it('opens a search result and selects the match in the editor', async () => {
+    const store = createMemoryStore([
+      { id: 'a', name: 'Active', content: 'Nothing here', updatedAt: Date.now() },
+      { id: 'b', name: 'Notes', content: 'First line\nThe answer is 42', updatedAt: Date.now() - 1000 },
+    ])
+
+    render(<App documentStore={store} />)
+    await screen.findByDisplayValue('Nothing here')
+
+    await userEvent.click(screen.getByLabelText('Manage documents'))
+    await userEvent.type(screen.getByLabelText('Search documents'), 'answer')
+    await userEvent.click(screen.getByLabelText('Notes, line 2: The answer is 42'))
+
+    const textarea = screen.getByTestId('markdown-editor-textarea') as HTMLTextAreaElement
+    await waitFor(() => {
+      expect(textarea).toHaveValue('First line\nThe answer is 42')
+      expect(textarea).toHaveFocus()
+    })
+    expect(textarea.selectionStart).toBe(15)
+    expect(textarea.selectionEnd).toBe(21)
+  })
+
+  it('finds text with Ctrl+F and highlights it in the preview', async () => {
+    const store = createMemoryStore([
+      { id: 'a', name: 'Doc', content: 'Find the needle in the needle stack', updatedAt: Date.now() },
+    ])
+
+    render(<App documentStore={store} />)
+    const textarea = await screen.findByDisplayValue('Find the needle in the needle stack')
+
+    textarea.focus()
+    await userEvent.keyboard('{Control>}f{/Control}')
+    expect(screen.getByRole('search', { name: 'Find and replace' })).toBeInTheDocument()
+
+    await userEvent.type(screen.getByLabelText('Find'), 'needle')
+
+    expect(screen.getByTestId('find-match-count')).toHaveTextContent('1 of 2')
+    expect(screen.getByTestId('markdown-editor-highlights').querySelectorAll('mark')).toHaveLength(2)
+    expect(screen.getByTestId('markdown-preview').querySelectorAll('mark.find-highlight')).toHaveLength(2)
+
+    await userEvent.keyboard('{Escape}')
+
+    expect(screen.queryByRole('search')).not.toBeInTheDocument()
+    expect(screen.queryByTestId('markdown-editor-highlights')).not.toBeInTheDocument()
+    expect(textarea).toHaveFocus()
+  })
+
+  it('opens documents from the folder sidebar', async () => {
+    const store = createMemoryStore(
+      [
+        { id: 'a', name: 'Active', content: 'Top level', updatedAt: Date.now() },
+        { id: 'b', name: 'Filed', content: 'In a folder', updatedAt: Date.now() - 1000, folderId: 'f' },
+      ],
+      [{ id: 'f', name: 'Projects', parentId: null, updatedAt: Date.now() }]
+    )
+
+    render(<App documentStore={store} />)
+    await screen.findByDisplayValue('Top level')
+
+    const sidebar = screen.getByRole('complementary', { name: 'Notebooks' })
+    expect(within(sidebar).getByRole('treeitem', { name: 'Projects' })).toBeInTheDocument()
+
+    await userEvent.click(within(sidebar).getByText('Filed'))
+
+    expect(await screen.findByDisplayValue('In a folder')).toBeInTheDocument()
+  })
+
+  it('follows wiki links and lists backlinks', async () => {
+    const store = createMemoryStore([
+      { id: 'a', name: 'Journal', content: 'Read [[Plan#Goals]] and [[Ideas]]', updatedAt: Date.now() },
+      { id: 'b', name: 'Plan', content: '# Plan\n\n## Goals\nShip it', updatedAt: Date.now() - 1000 },
+    ])
+
+    render(<App documentStore={store} />)
+    await screen.findByDisplayValue('Read [[Plan#Goals]] and [[Ideas]]')
+
+    const preview = screen.getByTestId('markdown-preview')
+    expect(within(preview).getByRole('link', { name: 'Ideas' })).toHaveClass('wiki-link-missing')
+    await userEvent.click(within(preview).getByRole('link', { name: 'Plan › Goals' }))
+
+    const textarea = screen.getByTestId('markdown-editor-textarea') as HTMLTextAreaElement
+    await waitFor(() => {
+      expect(textarea).toHaveValue('# Plan\n\n## Goals\nShip it')
+      expect(textarea.selectionStart).toBe(11)
+    })
+    expect(textarea.selectionEnd).toBe(16)
+
+    const backlinks = screen.getByRole('region', { name: 'Backlinks' })
+    await userEvent.click(within(backlinks).getByRole('button', { name: 'Open Journal' }))
+    expect(await screen.findByDisplayValue('Read [[Plan#Goals]] and [[Ideas]]')).toBeInTheDocument()
+  })
+
+  it('creates the document for a missing wiki link', async () => {
+    const store = createMemoryStore([
+      { id: 'a', name: 'Journal', content: 'Start [[Ideas]]', updatedAt: Date.now() },
+    ])
+
+    render(<App documentStore={store} />)
+    await screen.findByDisplayValue('Start [[Ideas]]')
+
+    await userEvent.click(within(screen.getByTestId('markdown-preview')).getByRole('link', { name: 'Ideas' }))
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Manage documents')).toHaveTextContent('Ideas')
+    })
+    expect(within(screen.getByRole('region', { name: 'Backlinks' })).getByRole('button', { name: 'Open Journal' }))
+      .toBeInTheDocument()
+  })
+
+  it('hides the sidebar and remembers the choice', async () => {
+    const { unmount } = render(<App documentStore={createMemoryStore()} />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Hide sidebar' }))
+
+    expect(screen.queryByRole('complementary', { name: 'Notebooks' })).not.toBeInTheDocument()
+    unmount()
+
+    render(<App documentStore={createMemoryStore()} />)
+    expect(screen.getByRole('button', { name: 'Show sidebar' })).toBeInTheDocument()
+    expect(screen.queryByRole('complementary', { name: 'Notebooks' })).not.toBeInTheDocument()
+  })
+
+  it('turns scroll sync off and remembers the choice', async () => {
+    const { unmount } = render(<App documentStore={createMemoryStore()} />)
+
+    const toggle = screen.getByRole('button', { name: 'Sync scrolling' })
+    expect(toggle).toHaveAttribute('aria-pressed', 'true')
+    await userEvent.click(toggle)
+    expect(toggle).toHaveAttribute('aria-pressed', 'false')
+    unmount()
+
+    render(<App documentStore={createMemoryStore()} />)
+    expect(screen.getByRole('button', { name: 'Sync scrolling' })).toHaveAttribute('aria-pressed', 'false')
+  })
+
+  it('shows an outline of the document and moves sections from it', async () => {
+    const store = createMemoryStore([
+      { id: 'a', name: 'Guide', content: '# Guide\n## Install\nRun it\n## Usage\nUse it', updatedAt: Date.now() },
+    ])
+
+    render(<App documentStore={store} />)
+    const textarea = screen.getByTestId('markdown-editor-textarea')
+    await waitFor(() => expect(textarea).toHaveValue('# Guide\n## Install\nRun it\n## Usage\nUse it'))
+
+    await userEvent.click(screen.getByRole('button', { name: 'Outline' }))
+    const outline = screen.getByRole('complementary', { name: 'Outline' })
+    expect(within(outline).getByRole('button', { name: 'Guide' })).toHaveAttribute('aria-current', 'location')
+
+    const dataTransfer = { setData: vi.fn(), getData: vi.fn(), effectAllowed: 'all', dropEffect: 'none' }
+    fireEvent.dragStart(within(outline).getByRole('button', { name: 'Usage' }), { dataTransfer })
+    fireEvent.drop(within(outline).getByRole('button', { name: 'Install' }), { dataTransfer })
+
+    expect(textarea).toHaveValue('# Guide\n## Usage\nUse it\n## Install\nRun it')
+  })
+
+  it('checks tasks from the preview', async () => {
+    const store = createMemoryStore([
+      { id: 'a', name: 'Today', content: '---\ntitle: Today\n---\n- [ ] Email\n- [x] Call', updatedAt: Date.now() },
+    ])
+
+    render(<App documentStore={store} />)
+    const textarea = screen.getByTestId('markdown-editor-textarea')
+    await waitFor(() => expect(textarea).toHaveValue('---\ntitle: Today\n---\n- [ ] Email\n- [x] Call'))
+
+    const preview = screen.getByTestId('markdown-preview')
+    await userEvent.click(within(preview).getAllByRole('checkbox')[0])
+
+    expect(textarea).toHaveValue('---\ntitle: Today\n---\n- [x] Email\n- [x] Call')
+    expect(within(preview).getAllByRole('checkbox')[0]).toBeChecked()
+  })
+
+  it('logs HTML exports that fail instead of leaving them unhandled', async () => {
+    const store = createMemoryStore([
+      { id: 'a', name: 'Notes', content: '![Chart](notepad-asset://chart)', updatedAt: Date.now() },
+    ])
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    render(<App documentStore={store} />)
+    await waitFor(() => expect(screen.getByTestId('toolbar-export-html')).toBeEnabled())
+    vi.spyOn(window, 'DOMParser').mockImplementation(function () {
+      throw new Error('Parser unavailable')
+    })
+
+    await userEvent.click(screen.getByTestId('toolbar-export-html'))
+
+    await waitFor(() => {
+      expect(consoleError).toHaveBeenCalledWith('Failed to export HTML:', new Error('Parser unavailable'))
+    })
+  })
+
+  it('lists attachments and removes the ones no document uses', async () => {
+    const store = createMemoryStore([
+      { id: 'a', name: 'Notes', content: '![Chart](notepad-asset://used)', updatedAt: Date.now() },
+    ])
+    const asset = { type: 'image/png', size: 3, data: new Uint8Array([1, 2, 3]).buffer, createdAt: 1 }
+    await store.assets!.save({ ...asset, id: 'used', name: 'chart.png' })
+    await store.assets!.save({ ...asset, id: 'unused', name: 'old.png' })
+    await store.assets!.save({ ...asset, id: 'history', name: 'before.png' })
+    await store.saveSnapshot({
+      id: 's1', documentId: 'a', name: 'Notes', content: '![Before](notepad-asset://history)', createdAt: 1, reason: 'auto',
+    })
+
+    render(<App documentStore={store} />)
+    await userEvent.click(screen.getByTestId('toolbar-attachments'))
+
+    const panel = screen.getByRole('dialog', { name: 'Attachments' })
+    await waitFor(() => expect(within(panel).getByText('old.png')).toBeInTheDocument())
+    expect(within(panel).getByRole('button', { name: 'Notes' })).toBeInTheDocument()
+    await waitFor(() => expect(within(panel).getByText('Only used in the history of Notes')).toBeInTheDocument())
+
+    await userEvent.click(within(panel).getByRole('button', { name: /Remove unused/ }))
+    await userEvent.click(within(panel).getByRole('button', { name: 'Delete' }))
+
+    await waitFor(() => expect(within(panel).queryByText('old.png')).not.toBeInTheDocument())
+    expect((await store.assets!.list()).map(stored => stored.id).sort()).toEqual(['history', 'used'])
+  })
+
+  it('imports dropped files, asking about duplicates', async () => {
+    const store = createMemoryStore([
+      { id: 'a', name: 'Notes', content: 'Old notes', updatedAt: Date.now() },
+    ])
+    render(<App documentStore={store} />)
+    const textarea = screen.getByTestId('markdown-editor-textarea')
+    await waitFor(() => expect(textarea).toHaveValue('Old notes'))
+
+    const files = [new File(['New notes'], 'notes.md'), new File(['# Ideas'], 'ideas.txt'), new File([''], 'photo.png')]
+    fireEvent.drop(screen.getByTestId('editor-layout'), { dataTransfer: { files, items: [], types: ['Files'] } })
+
+    const dialog = await screen.findByRole('dialog', { name: 'Import Documents' })
+    fireEvent.change(within(dialog).getByLabelText('Action for notes.md'), { target: { value: 'keep-both' } })
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Import' }))
+
+    await waitFor(async () => {
+      expect((await store.list()).map(doc => doc.name).sort()).toEqual(['Notes', 'ideas', 'notes (2)'])
+    })
+    expect(textarea).toHaveValue('New notes')
+  })
+  it('restores a backup, replacing the current documents', async () => {
+    const store = createMemoryStore([
+      { id: 'a', name: 'Notes', content: 'Current notes', updatedAt: Date.now() },
+    ])
+    const archive = createBackup({
+      createdAt: 1,
+      documents: [{ id: 'b', name: 'Backed up', content: 'From the backup', updatedAt: 1 }],
+      folders: [],
+      assets: [],
+    })
+    render(<App documentStore={store} />)
+    const textarea = screen.getByTestId('markdown-editor-textarea')
+    await waitFor(() => expect(textarea).toHaveValue('Current notes'))
+
+    await userEvent.click(screen.getByLabelText('Manage documents'))
+    fireEvent.change(screen.getByTestId('document-manager-restore-input'), {
+      target: { files: [new File([archive as Uint8Array<ArrayBuffer>], 'backup.zip')] },
+    })
+
+    const dialog = await screen.findByRole('dialog', { name: 'Restore Backup' })
+    await userEvent.click(within(dialog).getByRole('radio', { name: /Replace/ }))
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Replace everything' }))
+
+    await waitFor(() => expect(textarea).toHaveValue('From the backup'))
+    await waitFor(async () => {
+      expect((await store.list()).map(doc => doc.id)).toEqual(['b'])
+    })
+  })
+  it('imports a workspace file with its documents, attachments and settings', async () => {
+    const store = createMemoryStore([
+      { id: 'a', name: 'Notes', content: 'Current notes', updatedAt: Date.now() },
+    ])
+    const file = new File([serializeWorkspace({
+      exportedAt: 1,
+      documents: [{ id: 'b', name: 'Moved', content: 'From the other machine', updatedAt: Date.now() + 1000 }],
+      folders: [],
+      assets: [{ id: 'img', name: 'photo.png', type: 'image/png', size: 3, data: new Uint8Array([1, 2, 3]).buffer, createdAt: 1 }],
+      settings: { theme: 'dark', layout: { showSidebar: false, showOutline: true, scrollSync: true } },
+    })], 'workspace.json', { type: 'application/json' })
+    render(<App documentStore={store} />)
+    await waitFor(() => expect(screen.getByTestId('markdown-editor-textarea')).toHaveValue('Current notes'))
+
+    await userEvent.click(screen.getByLabelText('Manage documents'))
+    fireEvent.change(screen.getByTestId('document-manager-restore-input'), { target: { files: [file] } })
+    const dialog = await screen.findByRole('dialog', { name: 'Import Workspace' })
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Restore' }))
+
+    await waitFor(async () => {
+      expect((await store.list()).map(doc => doc.id).sort()).toEqual(['a', 'b'])
+    })
+    await waitFor(async () => {
+      expect((await store.assets!.list()).map(asset => asset.id)).toEqual(['img'])
+    })
+    expect(document.documentElement).toHaveClass('dark')
+    expect(localStorage.getItem('markdown-notepad-sidebar')).toBe('closed')
+    expect(localStorage.getItem('markdown-notepad-outline')).toBe('open')
+  })
+
+  it('explains why a workspace file cannot be imported', async () => {
+    render(<App documentStore={createMemoryStore()} />)
+
+    await userEvent.click(screen.getByLabelText('Manage documents'))
+    fireEvent.change(screen.getByTestId('document-manager-restore-input'), {
+      target: { files: [new File(['{"format":"markdown-notepad-workspace","version":1}'], 'broken.json')] },
+    })
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'This workspace file is invalid: exportedAt is missing; documents is missing; folders is missing and 1 more'
+    )
+  })
 })
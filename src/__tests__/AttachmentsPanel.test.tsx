@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import { AttachmentsPanel } from '../components/AttachmentsPanel'
+import type { Document } from '../storage/types'
+import type { AssetInfo } from '../utils/assets'
+
+describe('AttachmentsPanel', () => {
+  const assets: AssetInfo[] = [
+    { id: 'a1', name: 'chart.png', type: 'image/png', size: 2048, createdAt: 2 },
+    { id: 'a2', name: 'old.png', type: 'image/png', size: 512, createdAt: 1 },
+    { id: 'a3', name: 'draft.png', type: 'image/png', size: 100, createdAt: 0 },
+  ]
+  const documents: Document[] = [
+    { id: 'd1', name: 'Report', content: '![Chart](notepad-asset://a1)', updatedAt: 1 },
+    { id: 'd2', name: 'Summary', content: 'See ![chart](notepad-asset://a1)', updatedAt: 1 },
+    { id: 'd3', name: 'Draft', content: '![](notepad-asset://a3)', updatedAt: 1, deletedAt: 1 },
+  ]
+
+  const defaultProps = {
+    isOpen: true,
+    assets,
+    documents,
+    snapshots: [],
+    onOpenDocument: vi.fn(),
+    onRemoveUnused: vi.fn(),
+    onClose: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('does not render when closed', () => {
+    render(<AttachmentsPanel {...defaultProps} isOpen={false} />)
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+  })
+
+  it('shows an empty state without attachments', () => {
+    render(<AttachmentsPanel {...defaultProps} assets={[]} />)
+
+    expect(screen.getByText(/No attachments yet/)).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Remove unused' })).toBeDisabled()
+  })
+
+  it('lists attachments with their size and the documents using them', () => {
+    render(<AttachmentsPanel {...defaultProps} />)
+
+    const items = within(screen.getByRole('list', { name: 'Stored attachments' })).getAllByRole('listitem')
+      .filter(item => item.classList.contains('attachments-panel-item'))
+    expect(items).toHaveLength(3)
+    expect(items[0]).toHaveTextContent('chart.png2.0 KB')
+    expect(within(items[0]).getAllByRole('button').map(button => button.textContent)).toEqual(['Report', 'Summary'])
+    expect(items[1]).toHaveTextContent('Not used in any document')
+    expect(items[2]).toHaveTextContent('Draft (in trash)')
+    expect(screen.getByTestId('attachments-summary')).toHaveTextContent('3 attachments, 2.6 KB')
+  })
+
+  it('opens a referencing document and closes', () => {
+    render(<AttachmentsPanel {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Summary' }))
+
+    expect(defaultProps.onOpenDocument).toHaveBeenCalledWith('d2')
+    expect(defaultProps.onClose).toHaveBeenCalled()
+  })
+
+  it('removes unused attachments after confirmation', () => {
+    render(<AttachmentsPanel {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove unused (512 B)' }))
+    expect(screen.getByRole('group', { name: 'Confirm cleanup' })).toHaveTextContent('Delete 1 unused attachment?')
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }))
+
+    expect(defaultProps.onRemoveUnused).toHaveBeenCalledWith(['a2'])
+  })
+
+  it('keeps attachments used only in document history', () => {
+    const snapshots = [
+      { id: 's1', documentId: 'd1', name: 'Report', content: '![Old](notepad-asset://a2)', createdAt: 1, reason: 'auto' as const },
+    ]
+    render(<AttachmentsPanel {...defaultProps} snapshots={snapshots} />)
+
+    expect(screen.getByText('Only used in the history of Report')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Remove unused' })).toBeDisabled()
+  })
+
+  it('waits for document history before cleaning up', () => {
+    render(<AttachmentsPanel {...defaultProps} snapshots={null} />)
+
+    expect(screen.getByRole('button', { name: /Remove unused/ })).toBeDisabled()
+  })
+
+  it('keeps attachments when the cleanup is cancelled', () => {
+    render(<AttachmentsPanel {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /Remove unused/ }))
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }))
+
+    expect(defaultProps.onRemoveUnused).not.toHaveBeenCalled()
+    expect(screen.queryByRole('group', { name: 'Confirm cleanup' })).not.toBeInTheDocument()
+  })
+
+  it('closes on Escape', () => {
+    render(<AttachmentsPanel {...defaultProps} />)
+
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' })
+
+    expect(defaultProps.onClose).toHaveBeenCalled()
+  })
+})
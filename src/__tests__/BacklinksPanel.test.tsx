@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { BacklinksPanel } from '../components/BacklinksPanel'
+import type { Backlink } from '../utils/wikiLinks'
+
+const backlinks: Backlink[] = [
+  { document: { id: 'a', name: 'Journal', content: '', updatedAt: 2000 }, snippet: 'Planned [[Trip]]', count: 1 },
+  { document: { id: 'b', name: 'Ideas', content: '', updatedAt: 1000 }, snippet: 'See [[Trip]]', count: 3 },
+]
+
+describe('BacklinksPanel', () => {
+  it('lists the linking documents with their snippets', () => {
+    render(<BacklinksPanel backlinks={backlinks} onOpenDocument={vi.fn()} />)
+
+    expect(screen.getByRole('button', { name: 'Backlinks (2)' })).toHaveAttribute('aria-expanded', 'true')
+    expect(screen.getByRole('button', { name: 'Open Journal' })).toHaveTextContent('Planned [[Trip]]')
+    expect(screen.getByRole('button', { name: 'Open Ideas' })).toHaveTextContent('3 links')
+  })
+
+  it('opens a linking document', async () => {
+    const onOpenDocument = vi.fn()
+    render(<BacklinksPanel backlinks={backlinks} onOpenDocument={onOpenDocument} />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Open Ideas' }))
+
+    expect(onOpenDocument).toHaveBeenCalledWith('b')
+  })
+
+  it('collapses the list', async () => {
+    render(<BacklinksPanel backlinks={backlinks} onOpenDocument={vi.fn()} />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Backlinks (2)' }))
+
+    expect(screen.getByRole('button', { name: 'Backlinks (2)' })).toHaveAttribute('aria-expanded', 'false')
+    expect(screen.queryByRole('button', { name: 'Open Journal' })).not.toBeInTheDocument()
+  })
+
+  it('says when nothing links to the document', () => {
+    render(<BacklinksPanel backlinks={[]} onOpenDocument={vi.fn()} />)
+    expect(screen.getByText('No other documents link here')).toBeInTheDocument()
+  })
+})
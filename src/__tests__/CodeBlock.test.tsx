@@ -1,14 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { CodeBlock } from '../components/CodeBlock'
+import { loadLanguages } from '../utils/highlight'
 
-// Mock highlight.js
-vi.mock('highlight.js', () => ({
-  default: {
-    registerLanguage: vi.fn(),
-    highlightElement: vi.fn(),
-  },
-  registerLanguage: vi.fn(),
+vi.mock('../utils/highlight', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../utils/highlight')>()
+  return { ...actual, loadLanguages: vi.fn(actual.loadLanguages) }
+})
+
+vi.mock('../utils/mermaid', () => ({
+  renderMermaid: vi.fn().mockResolvedValue('<svg><text>Diagram</text></svg>'),
 }))
 
 describe('CodeBlock', () => {
@@ -107,6 +108,108 @@ describe('CodeBlock', () => {
     })
   })
 
+  describe('lazy-loaded grammars', () => {
+    it('highlights languages once their grammar loads', async () => {
+      render(<CodeBlock className="language-golang">{'func main() {}'}</CodeBlock>)
+
+      expect(screen.getByText('func main() {}')).toBeInTheDocument()
+      await waitFor(() => {
+        expect(screen.getByTestId('code-content').querySelector('.hljs-keyword')).toHaveTextContent('func')
+      })
+      expect(screen.getByTestId('code-language')).toHaveTextContent('golang')
+    })
+
+    it('detects the language of code without one', async () => {
+      render(<CodeBlock>{'def greet(name):\n    return f"Hello {name}"\n\nclass Greeter:\n    pass'}</CodeBlock>)
+
+      await waitFor(() => expect(screen.getByTestId('code-language')).toHaveTextContent('python'))
+      expect(screen.getByTestId('code-content').querySelector('.hljs-keyword')).toHaveTextContent('def')
+    })
+
+    it('leaves code as plain text when its grammar fails to load', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.mocked(loadLanguages).mockRejectedValueOnce(new Error('Failed to fetch dynamically imported module'))
+      render(<CodeBlock className="language-haskell">{'main = putStrLn "<hi>"'}</CodeBlock>)
+
+      await waitFor(() => expect(consoleError).toHaveBeenCalledWith(
+        'Failed to load code highlighting:', new Error('Failed to fetch dynamically imported module')
+      ))
+      const code = screen.getByTestId('code-content')
+      expect(code).toHaveTextContent('main = putStrLn "<hi>"')
+      expect(code.querySelector('[class^="hljs-"]')).not.toBeInTheDocument()
+    })
+
+    it('leaves unknown languages as plain text', async () => {
+      render(<CodeBlock className="language-nonsense">{'<not> highlighted'}</CodeBlock>)
+
+      const code = screen.getByTestId('code-content')
+      expect(code).toHaveTextContent('<not> highlighted')
+      expect(code.querySelector('[class^="hljs-"]')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('toolbar', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('copies the code and confirms it', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined)
+      vi.stubGlobal('navigator', { ...navigator, clipboard: { writeText } })
+      render(<CodeBlock className="language-nonsense">{'line 1\nline 2\n'}</CodeBlock>)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Copy code' }))
+
+      expect(writeText).toHaveBeenCalledWith('line 1\nline 2')
+      expect(await screen.findByRole('button', { name: 'Copied' })).toBeInTheDocument()
+    })
+
+    it('toggles soft wrapping', () => {
+      render(<CodeBlock>code</CodeBlock>)
+      const toggle = screen.getByRole('button', { name: 'Wrap lines' })
+
+      expect(toggle).toHaveAttribute('aria-pressed', 'false')
+      fireEvent.click(toggle)
+
+      expect(toggle).toHaveAttribute('aria-pressed', 'true')
+      expect(document.querySelector('.code-block-pre')).toHaveClass('is-wrapped')
+    })
+
+    it('toggles line numbers, shown by default when the fence asks for them', () => {
+      render(<CodeBlock meta="showLineNumbers">{'a\nb'}</CodeBlock>)
+      const toggle = screen.getByRole('button', { name: 'Line numbers' })
+
+      expect(toggle).toHaveAttribute('aria-pressed', 'true')
+      expect(document.querySelector('.code-block-pre')).toHaveClass('has-line-numbers')
+      fireEvent.click(toggle)
+
+      expect(document.querySelector('.code-block-pre')).not.toHaveClass('has-line-numbers')
+    })
+  })
+
+  describe('fence options', () => {
+    it('shows the title in the header', () => {
+      render(<CodeBlock className="language-ts" meta='title="api.ts"'>{'export {}'}</CodeBlock>)
+
+      expect(screen.getByTestId('code-title')).toHaveTextContent('api.ts')
+      expect(screen.getByTestId('code-language')).toHaveTextContent('ts')
+    })
+
+    it('highlights the requested lines', () => {
+      render(<CodeBlock meta="{2-3,5}">{'1\n2\n3\n4\n5'}</CodeBlock>)
+
+      const highlighted = document.querySelectorAll('.code-line.is-highlighted')
+      expect([...highlighted].map(line => line.getAttribute('data-line-number'))).toEqual(['2', '3', '5'])
+    })
+
+    it('highlights every line for a range far past the end of the code', () => {
+      render(<CodeBlock meta="{2-99999999}">{'1\n2\n3'}</CodeBlock>)
+
+      const highlighted = document.querySelectorAll('.code-line.is-highlighted')
+      expect([...highlighted].map(line => line.getAttribute('data-line-number'))).toEqual(['2', '3'])
+    })
+  })
+
   describe('component structure', () => {
     it('has wrapper with correct class', () => {
       render(<CodeBlock>code</CodeBlock>)
@@ -153,7 +256,8 @@ describe('CodeBlock', () => {
       it(`renders ${lang} code blocks correctly`, () => {
         render(<CodeBlock className={`language-${lang}`}>{code}</CodeBlock>)
         expect(screen.getByTestId('code-block')).toBeInTheDocument()
-        expect(screen.getByText(code)).toBeInTheDocument()
+        // Highlighting splits the code into tokens once the grammar is loaded
+        expect(screen.getByTestId('code-content')).toHaveTextContent(code)
       })
     })
   })
@@ -188,6 +292,16 @@ describe('CodeBlock', () => {
     })
   })
 
+  describe('mermaid diagrams', () => {
+    it('renders mermaid blocks as diagrams instead of highlighted code', async () => {
+      render(<CodeBlock className="language-mermaid">{'graph TD\n  A-->B'}</CodeBlock>)
+
+      expect(await screen.findByTestId('mermaid-diagram')).toHaveTextContent('Diagram')
+      expect(screen.getByTestId('code-language')).toHaveTextContent('mermaid')
+      expect(screen.queryByTestId('code-content')).not.toBeInTheDocument()
+    })
+  })
+
   describe('accessibility', () => {
     it('code is readable by screen readers', () => {
       render(<CodeBlock>const x = 1</CodeBlock>)
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { DocumentManager } from '../components/DocumentManager'
 import type { Document, DocumentsStatus } from '../hooks/useDocuments'
@@ -68,6 +68,58 @@ describe('DocumentManager', () => {
     expect(onCreateDocument).toHaveBeenCalledTimes(1)
   })
 
+  it('imports the files picked with the import button', async () => {
+    const onImportFiles = vi.fn()
+    render(<DocumentManager {...defaultProps} onImportFiles={onImportFiles} />)
+    await userEvent.click(screen.getByLabelText('Manage documents'))
+
+    const input = screen.getByTestId('document-manager-import-input')
+    expect(input).toHaveAttribute('accept', '.md,.markdown,.txt')
+    expect(input).toHaveAttribute('multiple')
+    const files = [new File(['# A'], 'a.md'), new File(['B'], 'b.txt')]
+    fireEvent.change(input, { target: { files } })
+
+    expect(onImportFiles).toHaveBeenCalledWith(files)
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+  })
+
+  it('hides the import button without a handler', async () => {
+    render(<DocumentManager {...defaultProps} />)
+    await userEvent.click(screen.getByLabelText('Manage documents'))
+
+    expect(screen.queryByLabelText('Import files')).not.toBeInTheDocument()
+  })
+
+  it('backs up all documents and restores a picked backup file', async () => {
+    const onExportAll = vi.fn()
+    const onExportWorkspace = vi.fn()
+    const onRestoreBackup = vi.fn()
+    render(
+      <DocumentManager
+        {...defaultProps}
+        onExportAll={onExportAll}
+        onExportWorkspace={onExportWorkspace}
+        onRestoreBackup={onRestoreBackup}
+      />
+    )
+    await userEvent.click(screen.getByLabelText('Manage documents'))
+
+    await userEvent.click(screen.getByRole('button', { name: 'Back up all' }))
+    expect(onExportAll).toHaveBeenCalled()
+
+    await userEvent.click(screen.getByLabelText('Manage documents'))
+    await userEvent.click(screen.getByRole('button', { name: 'Export workspace' }))
+    expect(onExportWorkspace).toHaveBeenCalled()
+
+    await userEvent.click(screen.getByLabelText('Manage documents'))
+    const input = screen.getByTestId('document-manager-restore-input')
+    expect(input).toHaveAttribute('accept', '.zip,application/zip,.json,application/json')
+    const file = new File(['zip'], 'backup.zip', { type: 'application/zip' })
+    fireEvent.change(input, { target: { files: [file] } })
+
+    expect(onRestoreBackup).toHaveBeenCalledWith(file)
+  })
+
   it('should show empty state when no documents', async () => {
     render(<DocumentManager {...defaultProps} documents={[]} />)
     
@@ -233,4 +285,264 @@ describe('DocumentManager', () => {
     
     expect(onCreateDocument).toHaveBeenCalledTimes(1)
   })
+
+  describe('trash', () => {
+    const trashedDocuments: Document[] = [
+      { id: '3', name: 'Old Notes', content: '', updatedAt: Date.now(), deletedAt: Date.now() },
+    ]
+
+    it('should not show the trash section when the trash is empty', async () => {
+      render(<DocumentManager {...defaultProps} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+
+      expect(screen.queryByLabelText(/Trash \(/)).not.toBeInTheDocument()
+    })
+
+    it('should list trashed documents when the trash is expanded', async () => {
+      render(<DocumentManager {...defaultProps} trashedDocuments={trashedDocuments} trashRetentionDays={30} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      const toggle = screen.getByLabelText('Trash (1)')
+      expect(toggle).toHaveAttribute('aria-expanded', 'false')
+      expect(screen.queryByText('Old Notes')).not.toBeInTheDocument()
+
+      await userEvent.click(toggle)
+
+      expect(screen.getByText('Old Notes')).toBeInTheDocument()
+      expect(screen.getByText(/deleted permanently after 30 days/)).toBeInTheDocument()
+    })
+
+    it('should restore a trashed document', async () => {
+      const onRestoreDocument = vi.fn()
+      render(<DocumentManager {...defaultProps} trashedDocuments={trashedDocuments} onRestoreDocument={onRestoreDocument} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      await userEvent.click(screen.getByLabelText('Trash (1)'))
+      await userEvent.click(screen.getByLabelText('Restore Old Notes'))
+
+      expect(onRestoreDocument).toHaveBeenCalledWith('3')
+    })
+
+    it('should permanently delete a trashed document', async () => {
+      const onPurgeDocument = vi.fn()
+      render(<DocumentManager {...defaultProps} trashedDocuments={trashedDocuments} onPurgeDocument={onPurgeDocument} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      await userEvent.click(screen.getByLabelText('Trash (1)'))
+      await userEvent.click(screen.getByLabelText('Delete Old Notes permanently'))
+
+      expect(onPurgeDocument).toHaveBeenCalledWith('3')
+    })
+
+    it('should empty the trash', async () => {
+      const onEmptyTrash = vi.fn()
+      render(<DocumentManager {...defaultProps} trashedDocuments={trashedDocuments} onEmptyTrash={onEmptyTrash} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      await userEvent.click(screen.getByLabelText('Trash (1)'))
+      await userEvent.click(screen.getByText('Empty trash'))
+
+      expect(onEmptyTrash).toHaveBeenCalled()
+    })
+  })
+
+  describe('tags', () => {
+    const taggedDocs: Document[] = [
+      { id: '1', name: 'Plan', content: 'Ship it #work', updatedAt: Date.now(), tags: ['urgent'] },
+      { id: '2', name: 'Trip', content: '---\ntags: [travel, work]\n---\n', updatedAt: Date.now() - 1000 },
+      { id: '3', name: 'Diary', content: 'No tags', updatedAt: Date.now() - 2000 },
+    ]
+
+    it('should list tags with counts', async () => {
+      render(<DocumentManager {...defaultProps} documents={taggedDocs} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+
+      const filters = screen.getByRole('group', { name: 'Filter by tag' })
+      expect(Array.from(filters.querySelectorAll('button'), button => button.getAttribute('aria-label')))
+        .toEqual(['#travel (1)', '#urgent (1)', '#work (2)'])
+    })
+
+    it('should filter documents by every selected tag', async () => {
+      render(<DocumentManager {...defaultProps} documents={taggedDocs} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      await userEvent.click(screen.getByRole('button', { name: '#work (2)' }))
+
+      expect(screen.getAllByRole('option')).toHaveLength(2)
+      expect(screen.getByRole('button', { name: '#work (2)' })).toHaveAttribute('aria-pressed', 'true')
+
+      await userEvent.click(screen.getByRole('button', { name: '#travel (1)' }))
+      expect(screen.getAllByRole('option')).toHaveLength(1)
+      expect(screen.getByRole('option')).toHaveTextContent('Trip')
+
+      await userEvent.click(screen.getByRole('button', { name: /Clear filter/ }))
+      expect(screen.getAllByRole('option')).toHaveLength(3)
+    })
+
+    it('should edit the tags of a document', async () => {
+      const onSetDocumentTags = vi.fn()
+      render(<DocumentManager {...defaultProps} documents={taggedDocs} onSetDocumentTags={onSetDocumentTags} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      await userEvent.click(screen.getByLabelText('Edit tags for Plan'))
+
+      const input = screen.getByLabelText('Tags for Plan')
+      expect(input).toHaveValue('urgent')
+      await userEvent.type(input, ', #Later{Enter}')
+
+      expect(onSetDocumentTags).toHaveBeenCalledWith('1', ['urgent', 'later'])
+    })
+
+    it('should rename the selected tag', async () => {
+      const onRenameTag = vi.fn()
+      render(<DocumentManager {...defaultProps} documents={taggedDocs} onRenameTag={onRenameTag} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      await userEvent.click(screen.getByRole('button', { name: '#work (2)' }))
+      await userEvent.click(screen.getByRole('button', { name: 'Rename or merge #work' }))
+
+      const input = screen.getByLabelText('New name for #work')
+      await userEvent.clear(input)
+      await userEvent.type(input, 'Office{Enter}')
+
+      expect(onRenameTag).toHaveBeenCalledWith('work', 'office')
+    })
+  })
+
+  describe('front matter', () => {
+    const docs: Document[] = [
+      { id: '1', name: 'notes-1', content: '---\ntitle: Zoo visit\ndate: 2024-03-01\n---\n', updatedAt: 3000 },
+      { id: '2', name: 'Apples', content: 'No front matter', updatedAt: 2000 },
+      { id: '3', name: 'notes-3', content: '---\ntitle: Market day\ndate: 2024-06-15\n---\n', updatedAt: 1000 },
+    ]
+
+    const listedNames = () => screen.getAllByRole('option').map(option =>
+      option.querySelector('.document-manager-item-name')?.textContent
+    )
+
+    it('should show front matter titles', async () => {
+      render(<DocumentManager {...defaultProps} documents={docs} activeDocumentId="1" />)
+
+      expect(screen.getByLabelText('Manage documents')).toHaveTextContent('Zoo visit')
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      expect(listedNames()).toEqual(['Zoo visit', 'Apples', 'Market day'])
+    })
+
+    it('should sort by title and by date', async () => {
+      render(<DocumentManager {...defaultProps} documents={docs} activeDocumentId="1" />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+
+      await userEvent.click(screen.getByRole('button', { name: 'Title' }))
+      expect(screen.getByRole('button', { name: 'Title' })).toHaveAttribute('aria-pressed', 'true')
+      expect(listedNames()).toEqual(['Apples', 'Market day', 'Zoo visit'])
+
+      // Newest date first, undated documents last
+      await userEvent.click(screen.getByRole('button', { name: 'Date' }))
+      expect(listedNames()).toEqual(['Market day', 'Zoo visit', 'Apples'])
+    })
+  })
+
+  describe('task progress', () => {
+    it('shows how many tasks each document has done', async () => {
+      const docs: Document[] = [
+        { id: '1', name: 'Today', content: '- [x] Email\n- [ ] Call\n- [X] Shop', updatedAt: 2000 },
+        { id: '2', name: 'Done', content: '- [x] All', updatedAt: 1000 },
+        { id: '3', name: 'Notes', content: 'No tasks\n\n```\n- [ ] code\n```', updatedAt: 500 },
+      ]
+      render(<DocumentManager {...defaultProps} documents={docs} activeDocumentId="1" />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+
+      const [today, done, notes] = screen.getAllByRole('option')
+      expect(within(today).getByRole('img', { name: '2 of 3 tasks done' })).toHaveTextContent('2/3')
+      expect(within(done).getByRole('img', { name: '1 of 1 tasks done' })).toHaveClass('complete')
+      expect(within(notes).queryByRole('img')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('search', () => {
+    const searchDocs: Document[] = [
+      { id: '1', name: 'Recipes', content: 'Pancakes\nAdd the eggs and milk', updatedAt: Date.now() },
+      { id: '2', name: 'Groceries', content: 'Eggs\nFlour', updatedAt: Date.now() - 1000 },
+    ]
+
+    it('should show matching documents with highlighted snippets', async () => {
+      render(<DocumentManager {...defaultProps} documents={searchDocs} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      await userEvent.type(screen.getByLabelText('Search documents'), 'milk')
+
+      const results = screen.getByLabelText('Search results')
+      expect(results).toHaveTextContent('Recipes')
+      expect(results).not.toHaveTextContent('Groceries')
+      const match = screen.getByLabelText('Recipes, line 2: Add the eggs and milk')
+      expect(match.querySelector('mark')).toHaveTextContent('milk')
+    })
+
+    it('should show an empty state when nothing matches', async () => {
+      render(<DocumentManager {...defaultProps} documents={searchDocs} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      await userEvent.type(screen.getByLabelText('Search documents'), 'chocolate')
+
+      expect(screen.getByText('No matches for "chocolate"')).toBeInTheDocument()
+    })
+
+    it('should open the picked match', async () => {
+      const onOpenSearchResult = vi.fn()
+      render(<DocumentManager {...defaultProps} documents={searchDocs} onOpenSearchResult={onOpenSearchResult} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      await userEvent.type(screen.getByLabelText('Search documents'), 'eggs')
+      await userEvent.click(screen.getByLabelText('Groceries, line 1: Eggs'))
+
+      expect(onOpenSearchResult).toHaveBeenCalledWith('2', expect.objectContaining({ line: 1, start: 0, end: 4 }))
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    })
+
+    it('should open the first result on Enter', async () => {
+      const onOpenSearchResult = vi.fn()
+      render(<DocumentManager {...defaultProps} documents={searchDocs} onOpenSearchResult={onOpenSearchResult} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      await userEvent.type(screen.getByLabelText('Search documents'), 'flour{Enter}')
+
+      expect(onOpenSearchResult).toHaveBeenCalledWith('2', expect.objectContaining({ line: 2 }))
+    })
+
+    it('should fall back to selecting the document without onOpenSearchResult', async () => {
+      render(<DocumentManager {...defaultProps} documents={searchDocs} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      await userEvent.type(screen.getByLabelText('Search documents'), 'flour')
+      await userEvent.click(screen.getByLabelText('Groceries, line 2: Flour'))
+
+      expect(defaultProps.onSelectDocument).toHaveBeenCalledWith('2')
+    })
+
+    it('should clear the search on Escape', async () => {
+      render(<DocumentManager {...defaultProps} documents={searchDocs} />)
+
+      await userEvent.click(screen.getByLabelText('Manage documents'))
+      const input = screen.getByLabelText('Search documents')
+      await userEvent.type(input, 'eggs')
+      await userEvent.keyboard('{Escape}')
+
+      expect(input).toHaveValue('')
+      expect(screen.getAllByRole('option')).toHaveLength(2)
+    })
+
+    it('should open and focus the search box with Ctrl+Shift+F', async () => {
+      render(<DocumentManager {...defaultProps} documents={searchDocs} />)
+
+      fireEvent.keyDown(document, { key: 'F', ctrlKey: true, shiftKey: true })
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Search documents')).toHaveFocus()
+      })
+    })
+  })
 })
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useState } from 'react'
+import { FindReplaceBar } from '../components/FindReplaceBar'
+import { useFindReplace } from '../hooks/useFindReplace'
+
+const revealMatch = () => {}
+
+function Harness({ initialContent, showReplace = false, onClose = () => {} }: {
+  initialContent: string
+  showReplace?: boolean
+  onClose?: () => void
+}) {
+  const [content, setContent] = useState(initialContent)
+  const find = useFindReplace({ content, onChange: setContent, onRevealMatch: revealMatch })
+
+  return (
+    <>
+      <button onClick={() => find.open(showReplace)}>Open find</button>
+      <FindReplaceBar find={find} onClose={onClose} />
+      <output data-testid="content">{content}</output>
+    </>
+  )
+}
+
+function renderBar(props: Parameters<typeof Harness>[0]) {
+  const result = render(<Harness {...props} />)
+  fireEvent.click(screen.getByText('Open find'))
+  return result
+}
+
+describe('FindReplaceBar', () => {
+  it('does not render until opened', () => {
+    render(<Harness initialContent="text" />)
+
+    expect(screen.queryByRole('search')).not.toBeInTheDocument()
+  })
+
+  it('focuses the find field when opened', () => {
+    renderBar({ initialContent: 'text' })
+
+    expect(screen.getByLabelText('Find')).toHaveFocus()
+  })
+
+  it('shows the match count and current match', async () => {
+    renderBar({ initialContent: 'cat cat cat' })
+
+    await userEvent.type(screen.getByLabelText('Find'), 'cat')
+    expect(screen.getByTestId('find-match-count')).toHaveTextContent('1 of 3')
+
+    await userEvent.keyboard('{Enter}')
+    expect(screen.getByTestId('find-match-count')).toHaveTextContent('2 of 3')
+
+    await userEvent.keyboard('{Shift>}{Enter}{/Shift}')
+    expect(screen.getByTestId('find-match-count')).toHaveTextContent('1 of 3')
+
+    await userEvent.click(screen.getByLabelText('Previous match'))
+    expect(screen.getByTestId('find-match-count')).toHaveTextContent('3 of 3')
+  })
+
+  it('shows when nothing matches', async () => {
+    renderBar({ initialContent: 'cat' })
+
+    await userEvent.type(screen.getByLabelText('Find'), 'dog')
+
+    expect(screen.getByTestId('find-match-count')).toHaveTextContent('No results')
+    expect(screen.getByLabelText('Next match')).toBeDisabled()
+  })
+
+  it('toggles search options', async () => {
+    renderBar({ initialContent: 'Cat cat' })
+
+    await userEvent.type(screen.getByLabelText('Find'), 'Cat')
+    await userEvent.click(screen.getByLabelText('Match case'))
+
+    expect(screen.getByLabelText('Match case')).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByTestId('find-match-count')).toHaveTextContent('1 of 1')
+  })
+
+  it('flags invalid regular expressions', async () => {
+    renderBar({ initialContent: 'text' })
+
+    await userEvent.click(screen.getByLabelText('Use regular expression'))
+    await userEvent.type(screen.getByLabelText('Find'), '[[')
+
+    expect(screen.getByTestId('find-match-count')).toHaveTextContent('Invalid regex')
+    expect(screen.getByLabelText('Find')).toHaveAttribute('aria-invalid', 'true')
+  })
+
+  it('hides the replace row until toggled', async () => {
+    renderBar({ initialContent: 'text' })
+
+    expect(screen.queryByLabelText('Replace with')).not.toBeInTheDocument()
+
+    await userEvent.click(screen.getByLabelText('Toggle replace'))
+
+    expect(screen.getByLabelText('Replace with')).toBeInTheDocument()
+  })
+
+  it('replaces the current match and all matches', async () => {
+    renderBar({ initialContent: 'cat cat cat', showReplace: true })
+
+    await userEvent.type(screen.getByLabelText('Find'), 'cat')
+    await userEvent.type(screen.getByLabelText('Replace with'), 'dog')
+    await userEvent.click(screen.getByRole('button', { name: 'Replace' }))
+
+    expect(screen.getByTestId('content')).toHaveTextContent('dog cat cat')
+
+    await userEvent.click(screen.getByRole('button', { name: 'Replace all' }))
+
+    expect(screen.getByTestId('content')).toHaveTextContent('dog dog dog')
+  })
+
+  it('closes on Escape', async () => {
+    const onClose = vi.fn()
+    renderBar({ initialContent: 'text', onClose })
+
+    await userEvent.keyboard('{Escape}')
+
+    expect(onClose).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { FolderTree } from '../components/FolderTree'
+import type { Document, Folder } from '../hooks/useDocuments'
+
+describe('FolderTree', () => {
+  const folders: Folder[] = [
+    { id: 'work', name: 'Work', parentId: null, updatedAt: 1000 },
+    { id: 'meetings', name: 'Meetings', parentId: 'work', updatedAt: 1000 },
+    { id: 'personal', name: 'Personal', parentId: null, updatedAt: 1000 },
+  ]
+  const documents: Document[] = [
+    { id: 'd1', name: 'Standup', content: '', updatedAt: 1000, folderId: 'meetings' },
+    { id: 'd2', name: 'Loose note', content: '', updatedAt: 1000 },
+  ]
+
+  const handlers = {
+    onSelectDocument: vi.fn(),
+    onCreateDocument: vi.fn(),
+    onCreateFolder: vi.fn(() => 'new-folder'),
+    onRenameFolder: vi.fn(),
+    onDeleteFolder: vi.fn(),
+    onMoveDocument: vi.fn(),
+    onMoveFolder: vi.fn(),
+  }
+
+  function renderTree(props: Partial<React.ComponentProps<typeof FolderTree>> = {}) {
+    return render(
+      <FolderTree
+        folders={folders}
+        documents={documents}
+        activeDocumentId="d1"
+        {...handlers}
+        {...props}
+      />
+    )
+  }
+
+  // A minimal DataTransfer, which jsdom does not provide
+  function createDataTransfer() {
+    const data: Record<string, string> = {}
+    return {
+      setData: (type: string, value: string) => { data[type] = value },
+      getData: (type: string) => data[type] ?? '',
+      effectAllowed: 'all',
+      dropEffect: 'none',
+    }
+  }
+
+  function dragAndDrop(source: HTMLElement, target: HTMLElement) {
+    const dataTransfer = createDataTransfer()
+    fireEvent.dragStart(source, { dataTransfer })
+    fireEvent.dragOver(target, { dataTransfer })
+    fireEvent.drop(target, { dataTransfer })
+    fireEvent.dragEnd(source, { dataTransfer })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('shows nested folders and documents', () => {
+    renderTree()
+
+    const work = screen.getByRole('treeitem', { name: 'Work' })
+    const meetings = within(work).getByRole('treeitem', { name: 'Meetings' })
+    expect(within(meetings).getByRole('treeitem', { name: 'Standup' })).toHaveAttribute('aria-selected', 'true')
+    expect(screen.getByRole('treeitem', { name: 'Loose note' })).toHaveAttribute('aria-level', '1')
+  })
+
+  it('lists folders before documents at each level', () => {
+    renderTree()
+
+    const tree = screen.getByRole('tree')
+    const topLevel = Array.from(tree.children).map(item => item.getAttribute('aria-label') ?? item.textContent)
+    expect(topLevel).toEqual(['Personal', 'Work', 'Loose note'])
+  })
+
+  it('collapses and expands folders', async () => {
+    const user = userEvent.setup()
+    renderTree()
+
+    const work = screen.getByRole('treeitem', { name: 'Work' })
+    await user.click(screen.getByText('Work'))
+
+    expect(work).toHaveAttribute('aria-expanded', 'false')
+    expect(screen.queryByRole('treeitem', { name: 'Meetings' })).not.toBeInTheDocument()
+
+    work.focus()
+    await user.keyboard('{ArrowRight}')
+    expect(work).toHaveAttribute('aria-expanded', 'true')
+  })
+
+  it('selects documents by click and keyboard', async () => {
+    const user = userEvent.setup()
+    renderTree()
+
+    await user.click(screen.getByText('Loose note'))
+    expect(handlers.onSelectDocument).toHaveBeenCalledWith('d2')
+
+    screen.getByRole('treeitem', { name: 'Standup' }).focus()
+    await user.keyboard('{Enter}')
+    expect(handlers.onSelectDocument).toHaveBeenCalledWith('d1')
+  })
+
+  it('creates documents at the top level and inside folders', async () => {
+    const user = userEvent.setup()
+    renderTree()
+
+    await user.click(screen.getByRole('button', { name: 'New document' }))
+    expect(handlers.onCreateDocument).toHaveBeenCalledWith(null)
+
+    await user.click(screen.getByRole('button', { name: 'New document in Meetings' }))
+    expect(handlers.onCreateDocument).toHaveBeenCalledWith('meetings')
+  })
+
+  it('creates a folder and starts renaming it', async () => {
+    const user = userEvent.setup()
+    const { rerender } = renderTree()
+
+    await user.click(screen.getByRole('button', { name: 'New folder in Work' }))
+    expect(handlers.onCreateFolder).toHaveBeenCalledWith('New Folder', 'work')
+
+    rerender(
+      <FolderTree
+        folders={[...folders, { id: 'new-folder', name: 'New Folder', parentId: 'work', updatedAt: 2000 }]}
+        documents={documents}
+        activeDocumentId="d1"
+        {...handlers}
+      />
+    )
+
+    const input = screen.getByRole('textbox', { name: 'Folder name' })
+    expect(input).toHaveFocus()
+    await user.clear(input)
+    await user.type(input, 'Ideas{Enter}')
+
+    expect(handlers.onRenameFolder).toHaveBeenCalledWith('new-folder', 'Ideas')
+  })
+
+  it('renames a folder and cancels with Escape', async () => {
+    const user = userEvent.setup()
+    renderTree()
+
+    await user.click(screen.getByRole('button', { name: 'Rename folder Personal' }))
+    await user.type(screen.getByRole('textbox', { name: 'Folder name' }), ' stuff{Escape}')
+
+    expect(screen.queryByRole('textbox', { name: 'Folder name' })).not.toBeInTheDocument()
+    expect(handlers.onRenameFolder).not.toHaveBeenCalled()
+  })
+
+  it('deletes a folder', async () => {
+    const user = userEvent.setup()
+    renderTree()
+
+    await user.click(screen.getByRole('button', { name: 'Delete folder Personal' }))
+
+    expect(handlers.onDeleteFolder).toHaveBeenCalledWith('personal')
+  })
+
+  describe('drag and drop', () => {
+    it('moves a document into a folder', () => {
+      renderTree()
+
+      dragAndDrop(
+        screen.getByRole('treeitem', { name: 'Loose note' }),
+        screen.getByTestId('folder-row-personal')
+      )
+
+      expect(handlers.onMoveDocument).toHaveBeenCalledWith('d2', 'personal')
+    })
+
+    it('moves a document to the top level', () => {
+      renderTree()
+
+      dragAndDrop(screen.getByRole('treeitem', { name: 'Standup' }), screen.getByTestId('folder-tree-root'))
+
+      expect(handlers.onMoveDocument).toHaveBeenCalledWith('d1', null)
+    })
+
+    it('moves a document into the folder of the document it is dropped on', () => {
+      renderTree()
+
+      dragAndDrop(
+        screen.getByRole('treeitem', { name: 'Loose note' }),
+        screen.getByRole('treeitem', { name: 'Standup' })
+      )
+
+      expect(handlers.onMoveDocument).toHaveBeenCalledWith('d2', 'meetings')
+    })
+
+    it('nests a folder in another folder', () => {
+      renderTree()
+
+      dragAndDrop(screen.getByTestId('folder-row-personal'), screen.getByTestId('folder-row-meetings'))
+
+      expect(handlers.onMoveFolder).toHaveBeenCalledWith('personal', 'meetings')
+    })
+
+    it('does not drop a folder into itself or its subfolders', () => {
+      renderTree()
+
+      dragAndDrop(screen.getByTestId('folder-row-work'), screen.getByTestId('folder-row-meetings'))
+      dragAndDrop(screen.getByTestId('folder-row-work'), screen.getByTestId('folder-row-work'))
+
+      expect(handlers.onMoveFolder).not.toHaveBeenCalled()
+    })
+
+    it('highlights the folder under the dragged item', () => {
+      renderTree()
+      const dataTransfer = createDataTransfer()
+      const target = screen.getByTestId('folder-row-personal')
+
+      fireEvent.dragStart(screen.getByRole('treeitem', { name: 'Loose note' }), { dataTransfer })
+      fireEvent.dragOver(target, { dataTransfer })
+
+      expect(target).toHaveClass('drop-target')
+    })
+  })
+})
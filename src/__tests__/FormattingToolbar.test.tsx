@@ -221,4 +221,42 @@ describe('FormattingToolbar', () => {
     expect(screen.getByLabelText('Switch to dark mode')).toBeInTheDocument()
     expect(screen.getByTestId('toolbar-theme-toggle')).toHaveAttribute('title', 'Switch to dark mode')
   })
+
+  it('calls onShowHistory when history button is clicked', async () => {
+    const user = userEvent.setup()
+    const onShowHistory = vi.fn()
+    render(<FormattingToolbar {...defaultProps} onShowHistory={onShowHistory} />)
+
+    await user.click(screen.getByTestId('toolbar-history'))
+    expect(onShowHistory).toHaveBeenCalledTimes(1)
+  })
+
+  it('disables history button when handler is not provided', () => {
+    render(<FormattingToolbar {...defaultProps} />)
+
+    expect(screen.getByTestId('toolbar-history')).toBeDisabled()
+  })
+
+  it('opens attachments, disabled without a handler', async () => {
+    const user = userEvent.setup()
+    const onShowAttachments = vi.fn()
+    const { rerender } = render(<FormattingToolbar {...defaultProps} />)
+    expect(screen.getByTestId('toolbar-attachments')).toBeDisabled()
+
+    rerender(<FormattingToolbar {...defaultProps} onShowAttachments={onShowAttachments} />)
+    await user.click(screen.getByTestId('toolbar-attachments'))
+    expect(onShowAttachments).toHaveBeenCalledTimes(1)
+  })
+
+  it('toggles scroll sync and shows whether it is on', async () => {
+    const user = userEvent.setup()
+    const onToggleScrollSync = vi.fn()
+    render(<FormattingToolbar {...defaultProps} onToggleScrollSync={onToggleScrollSync} isScrollSyncEnabled />)
+
+    const toggle = screen.getByRole('button', { name: 'Sync scrolling' })
+    expect(toggle).toHaveAttribute('aria-pressed', 'true')
+
+    await user.click(toggle)
+    expect(onToggleScrollSync).toHaveBeenCalledTimes(1)
+  })
 })
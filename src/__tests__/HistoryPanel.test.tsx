@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { HistoryPanel } from '../components/HistoryPanel'
+import type { DocumentSnapshot } from '../storage/types'
+
+describe('HistoryPanel', () => {
+  const snapshots: DocumentSnapshot[] = [
+    { id: 's2', documentId: 'd1', name: 'Doc', content: 'line 1\nline 2', createdAt: 2000, reason: 'manual' },
+    { id: 's1', documentId: 'd1', name: 'Doc', content: 'line 1', createdAt: 1000, reason: 'auto' },
+  ]
+
+  const defaultProps = {
+    isOpen: true,
+    snapshots,
+    currentContent: 'line 1\nline 2\nline 3',
+    onRestore: vi.fn(),
+    onClose: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('does not render when closed', () => {
+    render(<HistoryPanel {...defaultProps} isOpen={false} />)
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+  })
+
+  it('shows an empty state without snapshots', () => {
+    render(<HistoryPanel {...defaultProps} snapshots={[]} />)
+
+    expect(screen.getByText(/No versions yet/)).toBeInTheDocument()
+  })
+
+  it('lists snapshots with their reason', () => {
+    render(<HistoryPanel {...defaultProps} />)
+
+    const options = screen.getAllByRole('option')
+    expect(options).toHaveLength(2)
+    expect(options[0]).toHaveTextContent('Manual save')
+    expect(options[1]).toHaveTextContent('Auto snapshot')
+  })
+
+  it('shows the diff for the newest snapshot by default', () => {
+    render(<HistoryPanel {...defaultProps} />)
+
+    expect(screen.getAllByRole('option')[0]).toHaveAttribute('aria-selected', 'true')
+    expect(screen.getByTestId('history-diff-summary')).toHaveTextContent('+1 -0')
+    expect(screen.getByTestId('history-diff')).toHaveTextContent('line 3')
+  })
+
+  it('updates the diff when another snapshot is selected', async () => {
+    render(<HistoryPanel {...defaultProps} />)
+
+    await userEvent.click(screen.getAllByRole('option')[1])
+
+    expect(screen.getByTestId('history-diff-summary')).toHaveTextContent('+2 -0')
+  })
+
+  it('restores the selected snapshot and closes', async () => {
+    render(<HistoryPanel {...defaultProps} />)
+
+    await userEvent.click(screen.getAllByRole('option')[1])
+    await userEvent.click(screen.getByLabelText('Restore this version'))
+
+    expect(defaultProps.onRestore).toHaveBeenCalledWith('s1')
+    expect(defaultProps.onClose).toHaveBeenCalled()
+  })
+
+  it('closes on Escape', () => {
+    render(<HistoryPanel {...defaultProps} />)
+
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' })
+
+    expect(defaultProps.onClose).toHaveBeenCalled()
+  })
+
+  it('closes when the close button is clicked', async () => {
+    render(<HistoryPanel {...defaultProps} />)
+
+    await userEvent.click(screen.getByLabelText('Close history'))
+
+    expect(defaultProps.onClose).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ImportDialog } from '../components/ImportDialog'
+import type { Document } from '../storage/types'
+import type { ImportCandidate } from '../utils/importFiles'
+
+describe('ImportDialog', () => {
+  const notes: Document = { id: '1', name: 'Notes', content: 'Old', updatedAt: 1 }
+  const plan: Document = { id: '2', name: 'Plan', content: 'Old plan', updatedAt: 1 }
+  const candidates: ImportCandidate[] = [
+    { fileName: 'notes.md', name: 'Notes', content: 'New', duplicate: notes },
+    { fileName: 'fresh.md', name: 'Fresh', content: 'Fresh' },
+    { fileName: 'plan.md', name: 'Plan', content: 'New plan', duplicate: plan },
+  ]
+
+  const defaultProps = {
+    candidates,
+    onConfirm: vi.fn(),
+    onCancel: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('lists the duplicates and counts new files', () => {
+    render(<ImportDialog {...defaultProps} />)
+
+    expect(screen.getByRole('dialog', { name: 'Import Documents' })).toHaveTextContent(
+      '2 files match existing documents. 1 new file will be added.'
+    )
+    expect(screen.getByText('notes.md')).toBeInTheDocument()
+    expect(screen.getByText('matches “Plan”')).toBeInTheDocument()
+    expect(screen.queryByText('fresh.md')).not.toBeInTheDocument()
+  })
+
+  it('skips duplicates unless another action is chosen', () => {
+    render(<ImportDialog {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Action for plan.md'), { target: { value: 'overwrite' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }))
+
+    expect(defaultProps.onConfirm).toHaveBeenCalledWith(['skip', 'skip', 'overwrite'])
+  })
+
+  it('applies an action to every duplicate', () => {
+    render(<ImportDialog {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Apply to all'), { target: { value: 'keep-both' } })
+
+    expect(screen.getByLabelText('Action for notes.md')).toHaveValue('keep-both')
+    expect(screen.getByLabelText('Action for plan.md')).toHaveValue('keep-both')
+  })
+
+  it('cancels with the button or Escape', () => {
+    render(<ImportDialog {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }))
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' })
+
+    expect(defaultProps.onCancel).toHaveBeenCalledTimes(2)
+    expect(defaultProps.onConfirm).not.toHaveBeenCalled()
+  })
+})
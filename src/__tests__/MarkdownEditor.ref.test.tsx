@@ -139,6 +139,31 @@ describe('MarkdownEditor Ref Methods', () => {
     })
   })
 
+  it('selectRange selects and focuses the given range', async () => {
+    const onChange = vi.fn()
+    const onInsertText = vi.fn((ref) => {
+      ref?.selectRange(12, 17)
+    })
+
+    render(
+      <TestWrapper 
+        value={'first line\nsecond line'} 
+        onChange={onChange}
+        onInsertText={onInsertText}
+      />
+    )
+
+    fireEvent.click(screen.getByTestId('trigger-insert'))
+
+    const textarea = screen.getByTestId('markdown-editor-textarea') as HTMLTextAreaElement
+    await waitFor(() => {
+      expect(document.activeElement).toBe(textarea)
+    })
+    expect(textarea.selectionStart).toBe(12)
+    expect(textarea.selectionEnd).toBe(17)
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
   it('insertText inserts bold markdown (**text**)', async () => {
     const onChange = vi.fn()
     const onInsertText = vi.fn((ref) => {
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { render, screen, fireEvent } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { MarkdownEditor } from '../components/MarkdownEditor'
 
@@ -221,4 +221,131 @@ describe('MarkdownEditor', () => {
     expect(placeholderAttr).toContain('**Bold**')
     expect(placeholderAttr).toContain('*Italic*')
   })
+
+  it('calls onFind and onFindReplace for Ctrl+F and Ctrl+H', () => {
+    const onFind = vi.fn()
+    const onFindReplace = vi.fn()
+    render(<MarkdownEditor value="" onChange={() => {}} onFind={onFind} onFindReplace={onFindReplace} />)
+
+    const textarea = screen.getByTestId('markdown-editor-textarea')
+    fireEvent.keyDown(textarea, { key: 'f', ctrlKey: true })
+    fireEvent.keyDown(textarea, { key: 'h', ctrlKey: true })
+
+    expect(onFind).toHaveBeenCalledTimes(1)
+    expect(onFindReplace).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not render a highlight backdrop without highlights', () => {
+    render(<MarkdownEditor value="text" onChange={() => {}} />)
+
+    expect(screen.queryByTestId('markdown-editor-highlights')).not.toBeInTheDocument()
+    expect(screen.getByTestId('markdown-editor-textarea')).not.toHaveClass('has-highlights')
+  })
+
+  it('marks highlighted ranges behind the textarea', () => {
+    render(
+      <MarkdownEditor
+        value="one two one"
+        onChange={() => {}}
+        highlights={[{ start: 0, end: 3 }, { start: 8, end: 11 }]}
+        activeHighlight={1}
+      />
+    )
+
+    const backdrop = screen.getByTestId('markdown-editor-highlights')
+    const marks = backdrop.querySelectorAll('mark')
+    expect(backdrop).toHaveAttribute('aria-hidden', 'true')
+    expect(marks).toHaveLength(2)
+    expect(marks[0]).toHaveTextContent('one')
+    expect(marks[0]).not.toHaveClass('active')
+    expect(marks[1]).toHaveClass('active')
+    expect(screen.getByTestId('markdown-editor-textarea')).toHaveClass('has-highlights')
+  })
+
+  describe('images', () => {
+    const image = new File([new Uint8Array([1])], 'shot.png', { type: 'image/png' })
+
+    it('inserts markdown for pasted images at the cursor', async () => {
+      const onChange = vi.fn()
+      const onImageFiles = vi.fn(async () => '![shot](notepad-asset://a1)')
+      render(<MarkdownEditor value="before after" onChange={onChange} onImageFiles={onImageFiles} />)
+      const textarea = screen.getByTestId('markdown-editor-textarea') as HTMLTextAreaElement
+      textarea.setSelectionRange(7, 7)
+
+      const notCancelled = fireEvent.paste(textarea, { clipboardData: { files: [image] } })
+
+      expect(notCancelled).toBe(false)
+      expect(onImageFiles).toHaveBeenCalledWith([image])
+      await waitFor(() => {
+        expect(onChange).toHaveBeenCalledWith('before ![shot](notepad-asset://a1)after')
+      })
+    })
+
+    it('inserts markdown for dropped images in place of the selection', async () => {
+      const onChange = vi.fn()
+      render(<MarkdownEditor value="one two" onChange={onChange} onImageFiles={async () => '![shot](notepad-asset://a1)'} />)
+      const textarea = screen.getByTestId('markdown-editor-textarea') as HTMLTextAreaElement
+      textarea.setSelectionRange(4, 7)
+
+      fireEvent.drop(textarea, { dataTransfer: { files: [image], types: ['Files'] } })
+
+      await waitFor(() => {
+        expect(onChange).toHaveBeenCalledWith('one ![shot](notepad-asset://a1)')
+      })
+    })
+
+    it('leaves pasted text and other files to the browser', () => {
+      const onImageFiles = vi.fn(async () => '')
+      render(<MarkdownEditor value="" onChange={() => {}} onImageFiles={onImageFiles} />)
+      const textarea = screen.getByTestId('markdown-editor-textarea')
+      const text = new File(['hi'], 'notes.txt', { type: 'text/plain' })
+
+      expect(fireEvent.paste(textarea, { clipboardData: { files: [] } })).toBe(true)
+      expect(fireEvent.drop(textarea, { dataTransfer: { files: [text], types: ['Files'] } })).toBe(true)
+      expect(onImageFiles).not.toHaveBeenCalled()
+    })
+
+    it('inserts nothing when the images cannot be stored', async () => {
+      const onChange = vi.fn()
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const onImageFiles = vi.fn(async () => {
+        throw new Error('Quota exceeded')
+      })
+      render(<MarkdownEditor value="" onChange={onChange} onImageFiles={onImageFiles} />)
+
+      fireEvent.paste(screen.getByTestId('markdown-editor-textarea'), { clipboardData: { files: [image] } })
+
+      await waitFor(() => {
+        expect(error).toHaveBeenCalled()
+      })
+      expect(onChange).not.toHaveBeenCalled()
+      error.mockRestore()
+    })
+  })
+
+  describe('scroll sync', () => {
+    // Without layout, lines are measured at the fallback height of 24px
+    const value = 'one\ntwo\nthree\nfour'
+
+    it('reports the source line at the top when scrolled', () => {
+      const onScrollLine = vi.fn()
+      render(<MarkdownEditor value={value} onChange={() => {}} onScrollLine={onScrollLine} />)
+
+      fireEvent.scroll(screen.getByTestId('markdown-editor-textarea'), { target: { scrollTop: 36 } })
+
+      expect(onScrollLine).toHaveBeenCalledWith(1.5)
+    })
+
+    it('scrolls to a source line without reporting it back', () => {
+      const onScrollLine = vi.fn()
+      const { rerender } = render(<MarkdownEditor value={value} onChange={() => {}} onScrollLine={onScrollLine} />)
+      const textarea = screen.getByTestId('markdown-editor-textarea')
+
+      rerender(<MarkdownEditor value={value} onChange={() => {}} onScrollLine={onScrollLine} scrollLine={2} />)
+      expect(textarea.scrollTop).toBe(48)
+      fireEvent.scroll(textarea)
+
+      expect(onScrollLine).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -1,11 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { render, screen, fireEvent } from '@testing-library/react'
 import { MarkdownPreview } from '../components/MarkdownPreview'
 
 // Mock the CodeBlock component
 vi.mock('../components/CodeBlock', () => ({
-  CodeBlock: ({ children, className }: { children: string; className?: string }) => (
-    <div data-testid="code-block" className={className}>
+  CodeBlock: ({ children, className, theme }: { children: string; className?: string; theme?: string }) => (
+    <div data-testid="code-block" className={className} data-theme={theme}>
       <pre data-testid="code-pre">{children}</pre>
     </div>
   ),
@@ -132,6 +132,15 @@ Second paragraph`} />)
       rerender(<MarkdownPreview content={"```css\n.class { color: red; }\n```"} />)
       expect(screen.getByTestId('code-block')).toHaveClass('language-css')
     })
+
+    it('passes the theme to code blocks for diagrams', () => {
+      const content = "```mermaid\ngraph TD\n```"
+      const { rerender } = render(<MarkdownPreview content={content} theme="light" />)
+      expect(screen.getByTestId('code-block')).toHaveAttribute('data-theme', 'light')
+
+      rerender(<MarkdownPreview content={content} theme="dark" />)
+      expect(screen.getByTestId('code-block')).toHaveAttribute('data-theme', 'dark')
+    })
   })
 
   describe('links and images', () => {
@@ -161,6 +170,20 @@ Second paragraph`} />)
       expect(img).toBeInTheDocument()
       expect(img).toHaveAttribute('alt', '')
     })
+
+    it('displays stored images through their resolved URL', async () => {
+      const resolveAssetUrl = vi.fn(async () => 'blob:shot')
+      render(<MarkdownPreview content="![Shot](notepad-asset://a1)" resolveAssetUrl={resolveAssetUrl} />)
+
+      expect(await screen.findByRole('img', { name: 'Shot' })).toHaveAttribute('src', 'blob:shot')
+      expect(resolveAssetUrl).toHaveBeenCalledWith('a1')
+    })
+
+    it('marks stored images that no longer exist', async () => {
+      render(<MarkdownPreview content="![Shot](notepad-asset://a1)" resolveAssetUrl={async () => null} />)
+
+      expect(await screen.findByText('Image not found: Shot')).toHaveClass('md-img-missing')
+    })
   })
 
   describe('blockquotes', () => {
@@ -188,6 +211,140 @@ Second paragraph`} />)
     })
   })
 
+  describe('front matter', () => {
+    it('hides the front matter and shows it as metadata', () => {
+      render(<MarkdownPreview content={'---\ntitle: Trip plan\ntags: [travel]\n---\n# Day 1'} />)
+
+      const panel = screen.getByRole('region', { name: 'Document metadata' })
+      expect(panel).toHaveTextContent('Trip plan')
+      expect(panel).toHaveTextContent('#travel')
+      expect(document.querySelector('.md-hr')).not.toBeInTheDocument()
+      expect(screen.getByRole('heading', { name: 'Day 1' })).toBeInTheDocument()
+      expect(screen.queryByText(/title: Trip plan/)).not.toBeInTheDocument()
+    })
+
+    it('reports front matter that is not valid YAML', () => {
+      render(<MarkdownPreview content={'---\ntitle: [oops\n---\nBody'} />)
+
+      expect(screen.getByRole('note')).toHaveTextContent('Front matter could not be read')
+      expect(screen.getByText('Body')).toBeInTheDocument()
+    })
+  })
+
+  describe('wiki links', () => {
+    it('renders links to documents with their label', () => {
+      render(<MarkdownPreview content={'See [[Plan]] and [[Trip#Day 1|the first day]], not `[[Code]]`'} />)
+
+      expect(screen.getByRole('link', { name: 'Plan' })).toHaveClass('wiki-link')
+      expect(screen.getByRole('link', { name: 'the first day' })).toBeInTheDocument()
+      expect(screen.getByText('[[Code]]')).toBeInTheDocument()
+    })
+
+    it('opens the target and heading when clicked', () => {
+      const onWikiLinkClick = vi.fn()
+      render(<MarkdownPreview content="[[Trip#Day 1]]" onWikiLinkClick={onWikiLinkClick} />)
+
+      fireEvent.click(screen.getByRole('link', { name: 'Trip › Day 1' }))
+
+      expect(onWikiLinkClick).toHaveBeenCalledWith('Trip', 'Day 1')
+    })
+
+    it('marks links to missing documents', () => {
+      render(
+        <MarkdownPreview
+          content="[[Plan]] [[Missing]]"
+          wikiLinkExists={target => target === 'Plan'}
+        />
+      )
+
+      expect(screen.getByRole('link', { name: 'Plan' })).not.toHaveClass('wiki-link-missing')
+      const missing = screen.getByRole('link', { name: 'Missing' })
+      expect(missing).toHaveClass('wiki-link-missing')
+      expect(missing).toHaveAttribute('title', 'Create "Missing"')
+    })
+  })
+
+  describe('heading anchors', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('gives headings prefixed GitHub-style ids with suffixes for duplicates', () => {
+      render(<MarkdownPreview content={'# Getting Started!\n\n## Notes\n\n## Notes'} />)
+
+      expect(screen.getByRole('heading', { name: 'Getting Started!' })).toHaveAttribute('id', 'user-content-getting-started')
+      const notes = screen.getAllByRole('heading', { name: 'Notes' })
+      expect(notes.map(heading => heading.id)).toEqual(['user-content-notes', 'user-content-notes-1'])
+    })
+
+    it('does not reuse ids of the app for headings', () => {
+      render(
+        <div id="root">
+          <MarkdownPreview content="# Root" />
+        </div>
+      )
+
+      expect(document.querySelectorAll('#root')).toHaveLength(1)
+      expect(screen.getByRole('heading', { name: 'Root' })).toHaveAttribute('id', 'user-content-root')
+    })
+
+    it('copies a link to the heading from its permalink', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined)
+      vi.stubGlobal('navigator', { ...navigator, clipboard: { writeText } })
+      render(<MarkdownPreview content="## Setup" />)
+
+      const permalink = screen.getByRole('link', { name: 'Copy link to #setup' })
+      expect(permalink).toHaveAttribute('href', '#setup')
+      fireEvent.click(permalink)
+
+      expect(writeText).toHaveBeenCalledWith('#setup')
+      expect(await screen.findByRole('link', { name: 'Link copied' })).toBeInTheDocument()
+    })
+
+    it('smoothly scrolls to the heading when a fragment link is clicked', () => {
+      // jsdom has no scrollIntoView
+      const scrollIntoView = vi.fn()
+      Element.prototype.scrollIntoView = scrollIntoView
+      render(<MarkdownPreview content={'[Jump](#details)\n\n## Details'} />)
+
+      fireEvent.click(screen.getByRole('link', { name: 'Jump' }))
+
+      expect(scrollIntoView).toHaveBeenCalledWith({ behavior: 'smooth', block: 'start' })
+      expect(scrollIntoView.mock.contexts[0]).toBe(screen.getByRole('heading', { name: 'Details' }))
+      delete (Element.prototype as Partial<Element>).scrollIntoView
+    })
+
+    it('scrolls to footnotes, whose ids are linked to with the prefix', () => {
+      const scrollIntoView = vi.fn()
+      Element.prototype.scrollIntoView = scrollIntoView
+      render(<MarkdownPreview content={'Claim[^1]\n\n[^1]: Source'} />)
+
+      fireEvent.click(screen.getByRole('link', { name: '1' }))
+
+      expect(scrollIntoView.mock.contexts[0]).toHaveAttribute('id', 'user-content-fn-1')
+      delete (Element.prototype as Partial<Element>).scrollIntoView
+    })
+  })
+
+  describe('math', () => {
+    it('typesets inline and block math', () => {
+      const { container } = render(<MarkdownPreview content={'Energy $E = mc^2$\n\n$$\n\\int_0^1 x\\,dx\n$$'} />)
+
+      expect(container.querySelectorAll('.katex')).toHaveLength(2)
+      expect(container.querySelector('.katex-display')).toBeInTheDocument()
+      expect(container.querySelector('annotation')).toHaveTextContent('E = mc^2')
+    })
+
+    it('shows formulas that fail to parse in place', () => {
+      const { container } = render(<MarkdownPreview content={'Broken $\\frac{1}$ formula'} />)
+
+      const error = container.querySelector('.katex-error')
+      expect(error).toHaveTextContent('\\frac{1}')
+      expect(error).toHaveAttribute('title', expect.stringContaining('ParseError'))
+      expect(screen.getByText(/formula/)).toBeInTheDocument()
+    })
+  })
+
   describe('tables (GFM)', () => {
     it('renders tables', () => {
       render(
@@ -241,31 +398,85 @@ Second paragraph`} />)
       expect(checkboxes[0]).not.toBeChecked()
       expect(checkboxes[1]).toBeChecked()
     })
+
+    it('is read-only without a toggle handler', () => {
+      render(<MarkdownPreview content="- [ ] Todo" />)
+
+      expect(screen.getByRole('checkbox')).toHaveAttribute('readonly')
+    })
+
+    it('reports the source line of a toggled task', () => {
+      const onToggleTask = vi.fn()
+      render(<MarkdownPreview content={'# List\n\n- [ ] One\n- [x] Two'} onToggleTask={onToggleTask} />)
+
+      const [one, two] = screen.getAllByRole('checkbox')
+      fireEvent.click(one)
+      fireEvent.click(two)
+
+      expect(onToggleTask).toHaveBeenNthCalledWith(1, 2, true)
+      expect(onToggleTask).toHaveBeenNthCalledWith(2, 3, false)
+    })
+
+    it('finds the line of tasks in loose and nested lists', () => {
+      const onToggleTask = vi.fn()
+      render(<MarkdownPreview content={'- [ ] Loose\n\n- [ ] Parent\n  - [ ] Child'} onToggleTask={onToggleTask} />)
+
+      screen.getAllByRole('checkbox').forEach(checkbox => fireEvent.click(checkbox))
+
+      expect(onToggleTask.mock.calls.map(([line]) => line)).toEqual([0, 2, 3])
+    })
   })
 
   describe('scroll sync', () => {
-    it('calls onScroll when scrolled', () => {
+    // Blocks on lines 0, 2 and 4 laid out at 0, 100 and 400px, as if line 2 were a tall image
+    const blockTops: Record<string, number> = { 0: 0, 2: 100, 4: 400 }
+    const content = 'First\n\nSecond\n\nThird'
+
+    beforeEach(() => {
+      vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+        const line = this.dataset.sourceLine
+        const preview = this.closest<HTMLElement>('[data-testid="markdown-preview"]')
+        const top = line !== undefined && preview ? blockTops[line] - preview.scrollTop : 0
+        return { top, bottom: top, left: 0, right: 0, width: 0, height: 0, x: 0, y: top, toJSON: () => ({}) }
+      })
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('marks rendered blocks with their source line', () => {
+      render(<MarkdownPreview content={'---\ntitle: A\n---\n# Title\n\n- one\n- two\n\n```js\ncode\n```'} />)
+
+      expect(screen.getByRole('heading', { name: 'Title' })).toHaveAttribute('data-source-line', '3')
+      expect(screen.getByText('two').closest('li')).toHaveAttribute('data-source-line', '6')
+      expect(screen.getByTestId('code-block').parentElement).toHaveAttribute('data-source-line', '8')
+    })
+
+    it('reports the source line at the top when scrolled', () => {
       const onScroll = vi.fn()
-      render(<MarkdownPreview content={`Line 1
+      render(<MarkdownPreview content={content} onScroll={onScroll} />)
 
-Line 2
+      fireEvent.scroll(screen.getByTestId('markdown-preview'), { target: { scrollTop: 250 } })
 
-Line 3`} onScroll={onScroll} />)
-      
-      const preview = screen.getByTestId('markdown-preview')
-      
-      // Simulate scroll
-      fireEvent.scroll(preview, { target: { scrollTop: 50 } })
-      
-      // onScroll should be called (debounced)
-      expect(onScroll).toHaveBeenCalled()
+      expect(onScroll).toHaveBeenCalledWith(3)
     })
 
-    it('accepts scrollPosition prop', () => {
-      render(
-        <MarkdownPreview content="Content" scrollPosition={50} />)
+    it('scrolls to the block of a source line', () => {
+      render(<MarkdownPreview content={content} scrollLine={3} />)
+      expect(screen.getByTestId('markdown-preview').scrollTop).toBe(250)
+    })
+
+    it('does not report scrolling to a source line back', () => {
+      const onScroll = vi.fn()
+      const { rerender } = render(<MarkdownPreview content={content} onScroll={onScroll} />)
       const preview = screen.getByTestId('markdown-preview')
-      expect(preview).toBeInTheDocument()
+
+      rerender(<MarkdownPreview content={content} onScroll={onScroll} scrollLine={1} />)
+      expect(preview.scrollTop).toBe(50)
+      fireEvent.scroll(preview)
+
+      expect(onScroll).not.toHaveBeenCalled()
     })
   })
 
@@ -374,4 +585,42 @@ console.log(greeting);
       expect(document.querySelector('.md-table')).toBeInTheDocument()
     })
   })
+
+  describe('find highlighting', () => {
+    const highlight = { query: 'note', caseSensitive: false, wholeWord: false, regex: false }
+
+    it('marks matches in the rendered text', () => {
+      render(<MarkdownPreview content={'# Notes\n\nA **note** about notes'} highlight={highlight} />)
+
+      const marks = document.querySelectorAll('mark.find-highlight')
+      expect([...marks].map(mark => mark.textContent)).toEqual(['Note', 'note', 'note'])
+      expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent('Notes')
+    })
+
+    it('does not mark text inside code blocks', () => {
+      render(<MarkdownPreview content={'note\n\n```\nnote\n```'} highlight={highlight} />)
+
+      expect(document.querySelectorAll('mark.find-highlight')).toHaveLength(1)
+      expect(screen.getByTestId('code-pre')).toHaveTextContent('note')
+    })
+
+    it('ignores invalid regular expressions', () => {
+      render(<MarkdownPreview content="text" highlight={{ ...highlight, query: '(', regex: true }} />)
+
+      expect(document.querySelector('mark')).not.toBeInTheDocument()
+      expect(screen.getByText('text')).toBeInTheDocument()
+    })
+
+    it('does not mark text inside typeset math', () => {
+      render(<MarkdownPreview content={'note $note$'} highlight={highlight} />)
+
+      expect(document.querySelectorAll('mark.find-highlight')).toHaveLength(1)
+    })
+
+    it('renders no marks without a highlight', () => {
+      render(<MarkdownPreview content="note" />)
+
+      expect(document.querySelector('mark')).not.toBeInTheDocument()
+    })
+  })
 })
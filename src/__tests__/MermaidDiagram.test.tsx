@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { MermaidDiagram } from '../components/MermaidDiagram'
+import { renderMermaid } from '../utils/mermaid'
+
+vi.mock('../utils/mermaid', () => ({
+  renderMermaid: vi.fn(),
+}))
+
+const mockRenderMermaid = vi.mocked(renderMermaid)
+
+describe('MermaidDiagram', () => {
+  beforeEach(() => {
+    mockRenderMermaid.mockReset()
+  })
+
+  it('renders the diagram as SVG', async () => {
+    mockRenderMermaid.mockResolvedValue('<svg><text>A to B</text></svg>')
+    render(<MermaidDiagram source={'graph TD\n  A-->B'} />)
+
+    expect(screen.getByText('Rendering diagram…')).toBeInTheDocument()
+    const diagram = await screen.findByTestId('mermaid-diagram')
+    expect(diagram.querySelector('svg')).toHaveTextContent('A to B')
+    expect(mockRenderMermaid).toHaveBeenCalledWith('graph TD\n  A-->B', 'default')
+  })
+
+  it('uses the dark theme in dark mode', async () => {
+    mockRenderMermaid.mockResolvedValue('<svg></svg>')
+    render(<MermaidDiagram source="graph TD" theme="dark" />)
+
+    await screen.findByTestId('mermaid-diagram')
+    expect(mockRenderMermaid).toHaveBeenCalledWith('graph TD', 'dark')
+  })
+
+  it('renders again when the theme changes', async () => {
+    mockRenderMermaid.mockResolvedValueOnce('<svg><text>Light</text></svg>')
+    const { rerender } = render(<MermaidDiagram source="graph TD" theme="light" />)
+    expect(await screen.findByText('Light')).toBeInTheDocument()
+
+    mockRenderMermaid.mockResolvedValueOnce('<svg><text>Dark</text></svg>')
+    rerender(<MermaidDiagram source="graph TD" theme="dark" />)
+
+    expect(await screen.findByText('Dark')).toBeInTheDocument()
+    expect(mockRenderMermaid).toHaveBeenLastCalledWith('graph TD', 'dark')
+  })
+
+  it('shows why a diagram could not be rendered', async () => {
+    mockRenderMermaid.mockRejectedValue(new Error('Parse error on line 2'))
+    render(<MermaidDiagram source={'graph TD\n  A-->'} />)
+
+    expect(await screen.findByText('Diagram could not be rendered')).toBeInTheDocument()
+    expect(screen.getByText('Parse error on line 2')).toBeInTheDocument()
+  })
+
+  it('toggles between the diagram and its source', async () => {
+    mockRenderMermaid.mockResolvedValue('<svg></svg>')
+    render(<MermaidDiagram source={'sequenceDiagram\n  A->>B: Hi'} />)
+    await screen.findByTestId('mermaid-diagram')
+
+    const toggle = screen.getByRole('button', { name: 'Source' })
+    expect(toggle).toHaveAttribute('aria-pressed', 'false')
+    fireEvent.click(toggle)
+
+    expect(screen.getByTestId('code-content')).toHaveTextContent('sequenceDiagram A->>B: Hi')
+    expect(screen.queryByTestId('mermaid-diagram')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Diagram' }))
+    expect(screen.getByTestId('mermaid-diagram')).toBeInTheDocument()
+  })
+
+  it('keeps the latest diagram when edits render out of order', async () => {
+    let resolveFirst: (svg: string) => void = () => {}
+    mockRenderMermaid
+      .mockReturnValueOnce(new Promise(resolve => { resolveFirst = resolve }))
+      .mockResolvedValueOnce('<svg><text>second</text></svg>')
+    const { rerender } = render(<MermaidDiagram source="graph TD" />)
+    rerender(<MermaidDiagram source={'graph TD\n  A'} />)
+
+    expect(await screen.findByText('second')).toBeInTheDocument()
+    resolveFirst('<svg><text>first</text></svg>')
+    await Promise.resolve()
+    expect(screen.queryByText('first')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { MetadataPanel } from '../components/MetadataPanel'
+
+describe('MetadataPanel', () => {
+  it('renders nothing without metadata', () => {
+    const { container } = render(<MetadataPanel metadata={null} />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('renders nothing for empty front matter', () => {
+    const { container } = render(<MetadataPanel metadata={{ tags: [], fields: [] }} />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('shows the title, date, tags and custom fields', () => {
+    render(
+      <MetadataPanel
+        metadata={{
+          title: 'Trip plan',
+          date: '2024-05-01',
+          tags: ['travel', 'summer'],
+          fields: [
+            { key: 'author', value: 'Sam' },
+            { key: 'people', value: ['Ana', 'Li'] },
+            { key: 'budget', value: { total: 300 } },
+          ],
+        }}
+      />
+    )
+
+    const panel = screen.getByRole('region', { name: 'Document metadata' })
+    expect(panel).toHaveTextContent('Trip plan')
+    expect(screen.getByText('#travel')).toBeInTheDocument()
+    expect(screen.getByText('#summer')).toBeInTheDocument()
+    expect(panel.querySelector('time')).toHaveAttribute('dateTime', '2024-05-01')
+    expect(screen.getByText('author').nextElementSibling).toHaveTextContent('Sam')
+    expect(screen.getByText('people').nextElementSibling).toHaveTextContent('Ana, Li')
+    expect(screen.getByText('budget').nextElementSibling).toHaveTextContent('{"total":300}')
+  })
+
+  it('shows dates that are not plain days as written', () => {
+    render(<MetadataPanel metadata={{ date: 'last spring', tags: [], fields: [] }} />)
+    expect(screen.getByText('last spring')).toBeInTheDocument()
+  })
+
+  it('shows why the front matter could not be read', () => {
+    render(<MetadataPanel metadata={null} error="Unexpected end of flow sequence" />)
+    expect(screen.getByRole('note')).toHaveTextContent('Unexpected end of flow sequence')
+  })
+})
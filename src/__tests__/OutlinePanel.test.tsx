@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { OutlinePanel } from '../components/OutlinePanel'
+import { parseOutline } from '../utils/outline'
+
+const headings = parseOutline('# Guide\n## Install\ntext\n## Usage\ntext\n# Appendix')
+
+function createDataTransfer() {
+  const data = new Map<string, string>()
+  return {
+    setData: (type: string, value: string) => data.set(type, value),
+    getData: (type: string) => data.get(type) ?? '',
+    effectAllowed: 'all',
+    dropEffect: 'none',
+  }
+}
+
+function renderOutline(props: Partial<React.ComponentProps<typeof OutlinePanel>> = {}) {
+  const handlers = { onSelectHeading: vi.fn(), onMoveSection: vi.fn() }
+  render(<OutlinePanel headings={headings} activeLine={0} {...handlers} {...props} />)
+  return handlers
+}
+
+describe('OutlinePanel', () => {
+  it('shows headings as a nested list', () => {
+    renderOutline()
+
+    const outline = screen.getByRole('navigation', { name: 'Document outline' })
+    const guide = screen.getByRole('button', { name: 'Guide' }).closest('li')!
+    expect(within(guide).getByRole('button', { name: 'Install' })).toBeInTheDocument()
+    expect(within(outline).getAllByRole('button')).toHaveLength(4)
+  })
+
+  it('highlights the section at the active line', () => {
+    renderOutline({ activeLine: 4 })
+
+    expect(screen.getByRole('button', { name: 'Usage' })).toHaveAttribute('aria-current', 'location')
+    expect(screen.getByRole('button', { name: 'Guide' })).not.toHaveAttribute('aria-current')
+  })
+
+  it('selects a heading on click', async () => {
+    const { onSelectHeading } = renderOutline()
+
+    await userEvent.click(screen.getByRole('button', { name: 'Usage' }))
+
+    expect(onSelectHeading).toHaveBeenCalledWith(headings[2])
+  })
+
+  it('moves a section dropped on another heading', () => {
+    const { onMoveSection } = renderOutline()
+    const dataTransfer = createDataTransfer()
+
+    fireEvent.dragStart(screen.getByRole('button', { name: 'Usage' }), { dataTransfer })
+    fireEvent.dragOver(screen.getByRole('button', { name: 'Install' }), { dataTransfer })
+    expect(screen.getByRole('button', { name: 'Install' })).toHaveClass('drop-target')
+    fireEvent.drop(screen.getByRole('button', { name: 'Install' }), { dataTransfer })
+
+    expect(onMoveSection).toHaveBeenCalledWith(2, 1)
+  })
+
+  it('moves a section to the end of the document', () => {
+    const { onMoveSection } = renderOutline()
+    const dataTransfer = createDataTransfer()
+
+    fireEvent.dragStart(screen.getByRole('button', { name: 'Install' }), { dataTransfer })
+    fireEvent.drop(screen.getByTestId('outline-end'), { dataTransfer })
+
+    expect(onMoveSection).toHaveBeenCalledWith(1, null)
+  })
+
+  it('does not move a section into itself', () => {
+    const { onMoveSection } = renderOutline()
+    const dataTransfer = createDataTransfer()
+
+    fireEvent.dragStart(screen.getByRole('button', { name: 'Guide' }), { dataTransfer })
+    fireEvent.dragOver(screen.getByRole('button', { name: 'Install' }), { dataTransfer })
+    expect(screen.getByRole('button', { name: 'Install' })).not.toHaveClass('drop-target')
+    fireEvent.drop(screen.getByRole('button', { name: 'Install' }), { dataTransfer })
+
+    expect(onMoveSection).not.toHaveBeenCalled()
+  })
+
+  it('explains an empty outline', () => {
+    renderOutline({ headings: [] })
+    expect(screen.getByText('Add headings to build an outline')).toBeInTheDocument()
+  })
+})
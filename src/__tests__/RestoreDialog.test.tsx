@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { RestoreDialog } from '../components/RestoreDialog'
+import type { Backup } from '../utils/backup'
+
+describe('RestoreDialog', () => {
+  const backup: Backup = {
+    createdAt: Date.UTC(2024, 2, 5, 12),
+    documents: [
+      { id: '1', name: 'Notes', content: '', updatedAt: 1 },
+      { id: '2', name: 'Old', content: '', updatedAt: 1, deletedAt: 2 },
+    ],
+    folders: [{ id: 'f', name: 'Work', parentId: null, updatedAt: 1 }],
+    assets: [],
+  }
+
+  const defaultProps = {
+    fileName: 'markdown-notepad-backup-2024-03-05.zip',
+    contents: backup,
+    onRestore: vi.fn(),
+    onCancel: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('summarizes the backup', () => {
+    render(<RestoreDialog {...defaultProps} />)
+
+    const dialog = screen.getByRole('dialog', { name: 'Restore Backup' })
+    expect(dialog).toHaveTextContent('markdown-notepad-backup-2024-03-05.zip')
+    expect(dialog).toHaveTextContent('2 documents (1 in the trash), 1 folder and 0 attachments.')
+  })
+
+  it('summarizes a workspace file, which has settings and no attachments', () => {
+    render(
+      <RestoreDialog
+        {...defaultProps}
+        fileName="workspace.json"
+        contents={{
+          createdAt: backup.createdAt,
+          documents: backup.documents,
+          folders: backup.folders,
+          settings: { theme: 'dark', layout: { showSidebar: true, showOutline: false, scrollSync: true } },
+        }}
+      />
+    )
+
+    const dialog = screen.getByRole('dialog', { name: 'Import Workspace' })
+    expect(dialog).toHaveTextContent(
+      '2 documents (1 in the trash) and 1 folder. The theme and layout settings will be applied.'
+    )
+    expect(dialog).toHaveTextContent('Replace all documents and folders with the ones in the workspace.')
+  })
+
+  it('merges by default', () => {
+    render(<RestoreDialog {...defaultProps} />)
+
+    expect(screen.getByRole('radio', { name: /Merge/ })).toBeChecked()
+    fireEvent.click(screen.getByRole('button', { name: 'Restore' }))
+
+    expect(defaultProps.onRestore).toHaveBeenCalledWith('merge')
+  })
+
+  it('replaces everything when chosen', () => {
+    render(<RestoreDialog {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('radio', { name: /Replace/ }))
+    fireEvent.click(screen.getByRole('button', { name: 'Replace everything' }))
+
+    expect(defaultProps.onRestore).toHaveBeenCalledWith('replace')
+  })
+
+  it('shows why a file cannot be restored', () => {
+    render(<RestoreDialog {...defaultProps} contents={null} error="This file is not a Markdown Notepad backup" />)
+
+    expect(screen.getByRole('alert')).toHaveTextContent('This file is not a Markdown Notepad backup')
+    expect(screen.queryByRole('button', { name: 'Restore' })).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }))
+    expect(defaultProps.onCancel).toHaveBeenCalled()
+  })
+
+  it('cancels on Escape', () => {
+    render(<RestoreDialog {...defaultProps} />)
+
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' })
+
+    expect(defaultProps.onCancel).toHaveBeenCalled()
+  })
+})
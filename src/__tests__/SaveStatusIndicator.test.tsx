@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
 import { SaveStatusIndicator } from '../components/SaveStatusIndicator'
 
 describe('SaveStatusIndicator', () => {
@@ -45,6 +45,17 @@ describe('SaveStatusIndicator', () => {
     expect(screen.getByText(errorMessage)).toBeInTheDocument()
   })
   
+  it('offers to manage attachments when saving fails', () => {
+    const onManageStorage = vi.fn()
+    const { rerender } = render(<SaveStatusIndicator status="saved" onManageStorage={onManageStorage} />)
+    expect(screen.queryByRole('button', { name: 'Manage attachments' })).not.toBeInTheDocument()
+
+    rerender(<SaveStatusIndicator status="error" error="Storage is full" onManageStorage={onManageStorage} />)
+    fireEvent.click(screen.getByRole('button', { name: 'Manage attachments' }))
+
+    expect(onManageStorage).toHaveBeenCalledTimes(1)
+  })
+  
   it('has correct role for accessibility', () => {
     render(<SaveStatusIndicator status="saved" />)
     
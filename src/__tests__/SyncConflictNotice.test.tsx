@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { SyncConflictNotice } from '../components/SyncConflictNotice'
+import type { SyncConflict } from '../hooks/useDocuments'
+
+describe('SyncConflictNotice', () => {
+  const conflicts: SyncConflict[] = [
+    { documentId: 'd1', theirs: { id: 'd1', name: 'Meeting Notes', content: 'Theirs', updatedAt: 2000 } },
+    { documentId: 'd2', theirs: { id: 'd2', name: 'Todo', content: 'Theirs', updatedAt: 3000 } },
+  ]
+
+  const onResolve = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('does not render without conflicts', () => {
+    render(<SyncConflictNotice conflicts={[]} onResolve={onResolve} />)
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+  })
+
+  it('names the first conflicting document', () => {
+    render(<SyncConflictNotice conflicts={conflicts.slice(0, 1)} onResolve={onResolve} />)
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Meeting Notes was changed in another tab')
+    expect(screen.queryByText(/more conflict/)).not.toBeInTheDocument()
+  })
+
+  it('mentions how many more conflicts are waiting', () => {
+    render(<SyncConflictNotice conflicts={conflicts} onResolve={onResolve} />)
+
+    expect(screen.getByText(/1 more conflict waiting/)).toBeInTheDocument()
+  })
+
+  it('resolves with the other tab\'s version', async () => {
+    render(<SyncConflictNotice conflicts={conflicts} onResolve={onResolve} />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Load their version' }))
+
+    expect(onResolve).toHaveBeenCalledWith('d1', 'theirs')
+  })
+
+  it('resolves with the local version', async () => {
+    render(<SyncConflictNotice conflicts={conflicts} onResolve={onResolve} />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Keep my version' }))
+
+    expect(onResolve).toHaveBeenCalledWith('d1', 'mine')
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import {
+  assetImageMarkdown, assetToDataUri, assetUrl, createAsset, embedAssets, findAssetReferences, findAssetUsage,
+  formatBytes, parseAssetUrl,
+} from '../utils/assets'
+import type { Asset, Document } from '../storage/types'
+
+function makeAsset(id: string, bytes: number[]): Asset {
+  return { id, name: `${id}.png`, type: 'image/png', size: bytes.length, data: new Uint8Array(bytes).buffer, createdAt: 1 }
+}
+
+describe('asset URLs', () => {
+  it('round-trips asset ids', () => {
+    expect(assetUrl('123-abc')).toBe('notepad-asset://123-abc')
+    expect(parseAssetUrl('notepad-asset://123-abc')).toBe('123-abc')
+  })
+
+  it('ignores other URLs', () => {
+    expect(parseAssetUrl('https://example.com/a.png')).toBeNull()
+    expect(parseAssetUrl('notepad-asset://')).toBeNull()
+    expect(parseAssetUrl('notepad-asset://a/b')).toBeNull()
+  })
+})
+
+describe('findAssetReferences', () => {
+  it('finds images and links to assets once each', () => {
+    const content = '![One](notepad-asset://a1)\n[file](notepad-asset://a2) and ![again](notepad-asset://a1)'
+
+    expect(findAssetReferences(content)).toEqual(['a1', 'a2'])
+  })
+
+  it('finds reference definitions and raw HTML images', () => {
+    const content = '![chart][c]\n\n[c]: notepad-asset://a1 "Chart"\n\n<img src="notepad-asset://a2" alt="">'
+
+    expect(findAssetReferences(content)).toEqual(['a1', 'a2'])
+  })
+
+  it('skips references in code', () => {
+    const content = '`![x](notepad-asset://a1)`\n```\n![y](notepad-asset://a2)\n```\n![z](<notepad-asset://a3>)'
+
+    expect(findAssetReferences(content)).toEqual(['a3'])
+  })
+})
+
+describe('findAssetUsage', () => {
+  it('lists the documents referencing each asset', () => {
+    const documents: Document[] = [
+      { id: 'd1', name: 'One', content: '![](notepad-asset://a1)', updatedAt: 1 },
+      { id: 'd2', name: 'Two', content: '![](notepad-asset://a1) ![](notepad-asset://a2)', updatedAt: 1, deletedAt: 2 },
+    ]
+    const assets = ['a1', 'a2', 'a3'].map(id => ({ id, name: id, type: 'image/png', size: 1, createdAt: 1 }))
+
+    const usage = findAssetUsage(assets, documents)
+
+    expect(usage.map(entry => [entry.asset.id, entry.documents.map(doc => doc.id)])).toEqual([
+      ['a1', ['d1', 'd2']],
+      ['a2', ['d2']],
+      ['a3', []],
+    ])
+  })
+
+  it('lists the snapshots referencing each asset', () => {
+    const assets = ['a1', 'a2'].map(id => ({ id, name: id, type: 'image/png', size: 1, createdAt: 1 }))
+    const snapshot = { id: 's1', documentId: 'd1', name: 'One', content: '![](notepad-asset://a2)', createdAt: 1, reason: 'auto' as const }
+
+    const usage = findAssetUsage(assets, [], [snapshot])
+
+    expect(usage.map(entry => [entry.asset.id, entry.snapshots.map(s => s.id)])).toEqual([['a1', []], ['a2', ['s1']]])
+  })
+})
+
+describe('formatBytes', () => {
+  it('uses the largest unit below 1024', () => {
+    expect(formatBytes(0)).toBe('0 B')
+    expect(formatBytes(1023)).toBe('1023 B')
+    expect(formatBytes(1536)).toBe('1.5 KB')
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB')
+    expect(formatBytes(3 * 1024 ** 3)).toBe('3.0 GB')
+  })
+})
+
+describe('assetImageMarkdown', () => {
+  it('uses the file name without its extension as alt text', () => {
+    expect(assetImageMarkdown({ id: 'a1', name: 'Screenshot 2024.png' })).toBe('![Screenshot 2024](notepad-asset://a1)')
+  })
+
+  it('escapes brackets in the alt text', () => {
+    expect(assetImageMarkdown({ id: 'a1', name: 'chart [v2].svg' })).toBe('![chart \\[v2\\]](notepad-asset://a1)')
+  })
+})
+
+describe('createAsset', () => {
+  it('reads the file data, name and type', async () => {
+    const file = new File([new Uint8Array([1, 2, 3])], 'shot.png', { type: 'image/png' })
+
+    const asset = await createAsset(file, 'a1')
+
+    expect(asset).toMatchObject({ id: 'a1', name: 'shot.png', type: 'image/png', size: 3 })
+    expect(Array.from(new Uint8Array(asset.data))).toEqual([1, 2, 3])
+  })
+})
+
+describe('assetToDataUri', () => {
+  it('encodes the data as base64', () => {
+    expect(assetToDataUri(makeAsset('a1', [1, 2, 3]))).toBe('data:image/png;base64,AQID')
+  })
+})
+
+describe('embedAssets', () => {
+  it('replaces asset images with data URIs and keeps others', async () => {
+    const html = '<p><img src="notepad-asset://a1" alt="One"><img src="https://example.com/b.png" alt="Two"></p>'
+
+    const embedded = await embedAssets(html, async id => makeAsset(id, [1, 2, 3]))
+
+    expect(embedded).toBe('<p><img src="data:image/png;base64,AQID" alt="One"><img src="https://example.com/b.png" alt="Two"></p>')
+  })
+
+  it('keeps the URL of assets that are missing or fail to load', async () => {
+    const html = '<img src="notepad-asset://a1" alt=""><img src="notepad-asset://a2" alt="">'
+
+    const embedded = await embedAssets(html, async id => {
+      if (id === 'a1') return null
+      throw new Error('Read failed')
+    })
+
+    expect(embedded).toBe(html)
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
+import { BACKUP_FORMAT, createBackup, exportBackup, readBackup, type Backup } from '../utils/backup'
+import type { Asset, Folder } from '../storage/types'
+
+const folders: Folder[] = [
+  { id: 'work', name: 'Work', parentId: null, updatedAt: 100 },
+  { id: 'meetings', name: 'Meetings', parentId: 'work', updatedAt: 200 },
+]
+
+const asset: Asset = {
+  id: 'a1', name: 'chart.png', type: 'image/png', size: 3, data: new Uint8Array([1, 2, 3]).buffer, createdAt: 300,
+}
+
+const backup: Backup = {
+  createdAt: 1700000000000,
+  documents: [
+    { id: 'd1', name: 'Standup', content: '# Standup\n\n![](notepad-asset://a1)', updatedAt: 1000, folderId: 'meetings', tags: ['daily'] },
+    { id: 'd2', name: 'Standup', content: 'Second', updatedAt: 2000, folderId: 'meetings' },
+    { id: 'd3', name: 'Ideas', content: 'Top level', updatedAt: 3000 },
+    { id: 'd4', name: 'Old', content: 'Gone', updatedAt: 4000, deletedAt: 5000 },
+  ],
+  folders,
+  assets: [asset],
+}
+
+function readManifest(archive: Uint8Array) {
+  return JSON.parse(strFromU8(unzipSync(archive)['manifest.json']))
+}
+
+describe('createBackup', () => {
+  it('stores documents as markdown files in their folders', () => {
+    const files = unzipSync(createBackup(backup))
+
+    expect(Object.keys(files).sort()).toEqual([
+      'assets/a1-chart.png',
+      'documents/Ideas.md',
+      'documents/Work/Meetings/Standup (2).md',
+      'documents/Work/Meetings/Standup.md',
+      'manifest.json',
+      'trash/Old.md',
+    ])
+    expect(strFromU8(files['documents/Ideas.md'])).toBe('Top level')
+    expect(Array.from(files['assets/a1-chart.png'])).toEqual([1, 2, 3])
+  })
+
+  it('writes a manifest with ids, timestamps and metadata', () => {
+    const manifest = readManifest(createBackup(backup))
+
+    expect(manifest).toMatchObject({ format: BACKUP_FORMAT, version: 1, createdAt: 1700000000000, folders })
+    expect(manifest.documents[0]).toEqual({
+      id: 'd1',
+      name: 'Standup',
+      updatedAt: 1000,
+      folderId: 'meetings',
+      tags: ['daily'],
+      path: 'documents/Work/Meetings/Standup.md',
+    })
+    expect(manifest.assets).toEqual([
+      { id: 'a1', name: 'chart.png', type: 'image/png', size: 3, createdAt: 300, path: 'assets/a1-chart.png' },
+    ])
+  })
+})
+
+describe('readBackup', () => {
+  it('reads back everything that was backed up', () => {
+    const restored = readBackup(createBackup(backup))
+
+    expect(restored).toEqual({ ...backup, assets: [expect.objectContaining({ id: 'a1', size: 3 })] })
+    expect(Array.from(new Uint8Array(restored.assets[0].data))).toEqual([1, 2, 3])
+  })
+
+  it('rejects files that are not backups', () => {
+    expect(() => readBackup(strToU8('# Notes'))).toThrow('This file is not a valid ZIP archive')
+    expect(() => readBackup(zipSync({ 'notes.md': strToU8('# Notes') })))
+      .toThrow('This file is not a Markdown Notepad backup')
+    expect(() => readBackup(zipSync({ 'manifest.json': strToU8('{"format":"other"}') })))
+      .toThrow('This file is not a Markdown Notepad backup')
+  })
+
+  it('rejects backups from newer versions', () => {
+    const manifest = { format: BACKUP_FORMAT, version: 2, createdAt: 1, documents: [], folders: [] }
+
+    expect(() => readBackup(zipSync({ 'manifest.json': strToU8(JSON.stringify(manifest)) })))
+      .toThrow('This backup was made by a newer version of Markdown Notepad')
+  })
+
+  // NaN is written to JSON as null
+  it.each([0, -1, 1.5, NaN, '1'])('rejects backups with version %s', (version) => {
+    const manifest = { format: BACKUP_FORMAT, version, createdAt: 1, documents: [], folders: [] }
+
+    expect(() => readBackup(zipSync({ 'manifest.json': strToU8(JSON.stringify(manifest)) })))
+      .toThrow('This backup has no valid version')
+  })
+
+  it('reports damaged manifests and missing files', () => {
+    const files = unzipSync(createBackup(backup))
+
+    expect(() => readBackup(zipSync({ ...files, 'manifest.json': strToU8('{') })))
+      .toThrow('The backup manifest is damaged')
+    expect(() => readBackup(zipSync({
+      ...files,
+      'manifest.json': strToU8(JSON.stringify({ ...readManifest(createBackup(backup)), documents: [{ id: 'd1' }] })),
+    }))).toThrow('The backup manifest is damaged: documents[0].name is missing')
+
+    const manifest = readManifest(createBackup(backup))
+    expect(() => readBackup(zipSync({
+      ...files,
+      'manifest.json': strToU8(JSON.stringify({ ...manifest, documents: [manifest.documents[0], manifest.documents[0]] })),
+    }))).toThrow('The backup manifest is damaged: documents[1].id "d1" is used more than once')
+
+    delete files['trash/Old.md']
+    expect(() => readBackup(zipSync(files))).toThrow('The backup is missing trash/Old.md')
+  })
+})
+
+describe('exportBackup', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('downloads a ZIP named after the date', () => {
+    const createObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:backup')
+    URL.createObjectURL = createObjectURL
+    URL.revokeObjectURL = vi.fn()
+    const anchor = { href: '', download: '', style: { display: '' }, click: vi.fn() }
+    vi.spyOn(document, 'createElement').mockReturnValue(anchor as unknown as HTMLAnchorElement)
+    vi.spyOn(document.body, 'appendChild').mockImplementation(() => anchor as unknown as Node)
+    vi.spyOn(document.body, 'removeChild').mockImplementation(() => anchor as unknown as Node)
+    vi.spyOn(Date, 'now').mockReturnValue(Date.UTC(2024, 2, 5, 12))
+
+    exportBackup({ documents: backup.documents, folders, assets: [] })
+
+    expect(anchor.download).toBe('markdown-notepad-backup-2024-03-05.zip')
+    expect(anchor.click).toHaveBeenCalled()
+    expect(createObjectURL.mock.calls[0][0].type).toBe('application/zip')
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { isLineInRanges, parseCodeMeta } from '../utils/codeMeta'
+
+describe('parseCodeMeta', () => {
+  it('returns defaults without meta', () => {
+    expect(parseCodeMeta(undefined)).toEqual({
+      title: undefined,
+      highlightLines: [],
+      showLineNumbers: false,
+    })
+  })
+
+  it('reads quoted and bare titles', () => {
+    expect(parseCodeMeta('title="my api.ts"').title).toBe('my api.ts')
+    expect(parseCodeMeta("title='api.ts'").title).toBe('api.ts')
+    expect(parseCodeMeta('filename=api.ts {1}').title).toBe('api.ts')
+  })
+
+  it('reads line numbers and ranges to highlight', () => {
+    expect(parseCodeMeta('{3-5, 8}').highlightLines).toEqual([[3, 5], [8, 8]])
+  })
+
+  it('ignores malformed ranges', () => {
+    expect(parseCodeMeta('{0,-2,4,7-5}').highlightLines).toEqual([[4, 4]])
+  })
+
+  it('keeps huge ranges as ranges instead of listing every line', () => {
+    const { highlightLines } = parseCodeMeta('{1-99999999}')
+
+    expect(highlightLines).toEqual([[1, 99999999]])
+    expect(isLineInRanges(highlightLines, 3)).toBe(true)
+    expect(isLineInRanges(highlightLines, 100000000)).toBe(false)
+  })
+
+  it('reads the line numbers flag', () => {
+    expect(parseCodeMeta('title="a" showLineNumbers').showLineNumbers).toBe(true)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines, summarizeDiff } from '../utils/diff'
+
+describe('diffLines', () => {
+  it('marks identical text as unchanged', () => {
+    const diff = diffLines('a\nb', 'a\nb')
+
+    expect(diff).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'unchanged', text: 'b' },
+    ])
+  })
+
+  it('detects added lines', () => {
+    const diff = diffLines('a\nc', 'a\nb\nc')
+
+    expect(diff).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'added', text: 'b' },
+      { type: 'unchanged', text: 'c' },
+    ])
+  })
+
+  it('detects removed lines', () => {
+    const diff = diffLines('a\nb\nc', 'a\nc')
+
+    expect(diff).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'unchanged', text: 'c' },
+    ])
+  })
+
+  it('detects changed lines as a removal and an addition', () => {
+    const diff = diffLines('a\nold\nc', 'a\nnew\nc')
+
+    expect(diff).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'removed', text: 'old' },
+      { type: 'added', text: 'new' },
+      { type: 'unchanged', text: 'c' },
+    ])
+  })
+
+  it('keeps common lines between scattered edits', () => {
+    const diff = diffLines('1\n2\n3\n4\n5', '1\nx\n3\n4\ny\n5')
+
+    expect(diff.filter(line => line.type === 'unchanged').map(line => line.text)).toEqual(['1', '3', '4', '5'])
+    expect(summarizeDiff(diff)).toEqual({ added: 2, removed: 1 })
+  })
+
+  it('handles a complete replacement', () => {
+    const diff = diffLines('old content', 'something else')
+
+    expect(summarizeDiff(diff)).toEqual({ added: 1, removed: 1 })
+  })
+})
+
+describe('summarizeDiff', () => {
+  it('counts nothing for identical text', () => {
+    expect(summarizeDiff(diffLines('same', 'same'))).toEqual({ added: 0, removed: 0 })
+  })
+})
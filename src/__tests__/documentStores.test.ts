@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { IDBFactory } from 'fake-indexeddb'
+import { createDocumentStore } from '../storage'
+import { createIndexedDbStore } from '../storage/indexedDbStore'
+import { createLocalStorageStore, LOCAL_STORAGE_KEY } from '../storage/localStorageStore'
+import { createMemoryStore } from '../storage/memoryStore'
+import type { Asset, Document, DocumentStore } from '../storage/types'
+
+function makeDoc(id: string, content = ''): Document {
+  return { id, name: `Doc ${id}`, content, updatedAt: Date.now() }
+}
+
+function makeAsset(id: string, bytes: number[] = [1, 2, 3]): Asset {
+  return { id, name: `${id}.png`, type: 'image/png', size: bytes.length, data: new Uint8Array(bytes).buffer, createdAt: 1 }
+}
+
+const implementations: [string, () => DocumentStore][] = [
+  ['memory', () => createMemoryStore()],
+  ['localStorage', () => createLocalStorageStore()],
+  ['IndexedDB', () => createIndexedDbStore()],
+]
+
+describe.each(implementations)('%s document store', (_name, createStore) => {
+  let store: DocumentStore
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    localStorage.clear()
+    store = createStore()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('starts with no documents', async () => {
+    expect(await store.list()).toEqual([])
+  })
+
+  it('saves and lists documents', async () => {
+    await store.save(makeDoc('1'))
+    await store.save(makeDoc('2'))
+
+    const docs = await store.list()
+    expect(docs.map(doc => doc.id).sort()).toEqual(['1', '2'])
+  })
+
+  it('loads a single document', async () => {
+    await store.save(makeDoc('1', 'hello'))
+
+    expect((await store.load('1'))?.content).toBe('hello')
+    expect(await store.load('missing')).toBeNull()
+  })
+
+  it('replaces an existing document without touching others', async () => {
+    await store.save(makeDoc('1', 'one'))
+    await store.save(makeDoc('2', 'two'))
+    await store.save(makeDoc('2', 'changed'))
+
+    expect((await store.load('1'))?.content).toBe('one')
+    expect((await store.load('2'))?.content).toBe('changed')
+    expect(await store.list()).toHaveLength(2)
+  })
+
+  it('deletes documents', async () => {
+    await store.save(makeDoc('1'))
+    await store.save(makeDoc('2'))
+    await store.delete('1')
+
+    expect((await store.list()).map(doc => doc.id)).toEqual(['2'])
+  })
+
+  it('ignores deleting a missing document', async () => {
+    await expect(store.delete('missing')).resolves.toBeUndefined()
+  })
+
+  it('saves, lists and deletes snapshots per document', async () => {
+    await store.saveSnapshot({ id: 's1', documentId: '1', name: 'Doc 1', content: 'v1', createdAt: 1, reason: 'auto' })
+    await store.saveSnapshot({ id: 's2', documentId: '1', name: 'Doc 1', content: 'v2', createdAt: 2, reason: 'manual' })
+    await store.saveSnapshot({ id: 's3', documentId: '2', name: 'Doc 2', content: 'other', createdAt: 3, reason: 'auto' })
+
+    const snapshots = await store.listSnapshots('1')
+    expect(snapshots.map(snapshot => snapshot.id).sort()).toEqual(['s1', 's2'])
+
+    await store.deleteSnapshot('s1')
+    expect((await store.listSnapshots('1')).map(snapshot => snapshot.id)).toEqual(['s2'])
+  })
+
+  it('saves, lists and deletes folders', async () => {
+    const folder = { id: 'f1', name: 'Work', parentId: null, updatedAt: Date.now() }
+    await store.saveFolder(folder)
+    await store.saveFolder({ id: 'f2', name: 'Notes', parentId: 'f1', updatedAt: Date.now() })
+    await store.saveFolder({ ...folder, name: 'Projects' })
+
+    const folders = await store.listFolders()
+    expect(folders.map(f => f.name).sort()).toEqual(['Notes', 'Projects'])
+
+    await store.deleteFolder('f1')
+    expect((await store.listFolders()).map(f => f.id)).toEqual(['f2'])
+  })
+
+  it('keeps the folder of a document', async () => {
+    await store.save({ ...makeDoc('1'), folderId: 'f1' })
+    expect((await store.load('1'))?.folderId).toBe('f1')
+  })
+
+  it('does not share mutable references with callers', async () => {
+    const doc = makeDoc('1', 'original')
+    await store.save(doc)
+    doc.content = 'mutated'
+
+    expect((await store.load('1'))?.content).toBe('original')
+  })
+})
+
+describe.each(implementations.filter(([name]) => name !== 'localStorage'))('%s asset store', (_name, createStore) => {
+  let store: DocumentStore
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    store = createStore()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('saves, loads and lists assets with their data', async () => {
+    await store.assets!.save(makeAsset('a1', [137, 80, 78, 71]))
+    await store.assets!.save(makeAsset('a2'))
+
+    const loaded = await store.assets!.load('a1')
+    expect(loaded).toMatchObject({ id: 'a1', name: 'a1.png', type: 'image/png', size: 4 })
+    expect(Array.from(new Uint8Array(loaded!.data))).toEqual([137, 80, 78, 71])
+    expect((await store.assets!.list()).map(asset => asset.id).sort()).toEqual(['a1', 'a2'])
+    expect(await store.assets!.load('missing')).toBeNull()
+  })
+
+  it('deletes assets without touching documents', async () => {
+    await store.save(makeDoc('1'))
+    await store.assets!.save(makeAsset('a1'))
+    await store.assets!.delete('a1')
+
+    expect(await store.assets!.list()).toEqual([])
+    expect(await store.list()).toHaveLength(1)
+    await expect(store.assets!.delete('missing')).resolves.toBeUndefined()
+  })
+})
+
+it('leaves assets out of the localStorage store', () => {
+  expect(createLocalStorageStore().assets).toBeUndefined()
+})
+
+describe('IndexedDB document store', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('migrates documents from localStorage and removes the legacy key', async () => {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify([makeDoc('1', 'legacy')]))
+
+    const store = createIndexedDbStore()
+
+    const docs = await store.list()
+    expect(docs[0].content).toBe('legacy')
+    expect(localStorage.getItem(LOCAL_STORAGE_KEY)).toBeNull()
+  })
+
+  it.each([
+    ['invalid JSON', 'invalid json'],
+    ['documents without ids', JSON.stringify([{ name: 'No id' }])],
+    ['a value other than a list', JSON.stringify({ id: '1' })],
+  ])('keeps the legacy key and still works when the data is %s', async (_case, legacy) => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    localStorage.setItem(LOCAL_STORAGE_KEY, legacy)
+
+    const store = createIndexedDbStore()
+
+    expect(await store.list()).toEqual([])
+    await store.save(makeDoc('1', 'new'))
+    expect(await store.load('1')).toMatchObject({ content: 'new' })
+    expect(localStorage.getItem(LOCAL_STORAGE_KEY)).toBe(legacy)
+  })
+})
+
+describe('createDocumentStore', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    localStorage.clear()
+  })
+
+  it('creates an in-memory store', async () => {
+    const store = createDocumentStore('memory')
+    await store.save(makeDoc('1'))
+
+    expect(localStorage.getItem(LOCAL_STORAGE_KEY)).toBeNull()
+    expect(await store.list()).toHaveLength(1)
+  })
+
+  it('creates a localStorage store', async () => {
+    const store = createDocumentStore('localstorage')
+    await store.save(makeDoc('1'))
+
+    expect(JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) ?? '[]')).toHaveLength(1)
+  })
+
+  it('falls back to localStorage when IndexedDB is unavailable', async () => {
+    vi.stubGlobal('indexedDB', undefined)
+
+    const store = createDocumentStore('indexeddb')
+    await store.save(makeDoc('1'))
+
+    expect(localStorage.getItem(LOCAL_STORAGE_KEY)).not.toBeNull()
+  })
+})
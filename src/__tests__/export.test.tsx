@@ -1,5 +1,18 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { exportAsMarkdown, exportAsHtml } from '../utils/export'
+import { loadLanguages } from '../utils/highlight'
+
+vi.mock('../utils/highlight', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../utils/highlight')>()
+  return { ...actual, loadLanguages: vi.fn(actual.loadLanguages) }
+})
+
+vi.mock('mermaid', () => ({
+  default: {
+    initialize: vi.fn(),
+    render: vi.fn().mockResolvedValue({ svg: '<svg><text>Start</text></svg>', diagramType: 'flowchart' }),
+  },
+}))
 
 describe('Export Utils', () => {
   // Mock URL and anchor element methods
@@ -105,22 +118,22 @@ describe('Export Utils', () => {
   })
 
   describe('exportAsHtml', () => {
-    it('exports content as HTML file', () => {
+    it('exports content as HTML file', async () => {
       const content = '# Hello World'
       const filename = 'Test Document'
 
-      exportAsHtml({ content, filename })
+      await exportAsHtml({ content, filename })
 
       expect(mockCreateObjectURL).toHaveBeenCalled()
       const blobArg = mockCreateObjectURL.mock.calls[0][0] as Blob
       expect(blobArg.type).toBe('text/html;charset=utf-8')
     })
 
-    it('uses .html extension', () => {
+    it('uses .html extension', async () => {
       const content = 'Test'
       const filename = 'MyDoc'
 
-      exportAsHtml({ content, filename })
+      await exportAsHtml({ content, filename })
 
       const anchor = document.createElement('a') as unknown as { download: string }
       expect(anchor.download).toBe('MyDoc.html')
@@ -130,7 +143,7 @@ describe('Export Utils', () => {
       const content = '# Hello\n\nWorld'
       const filename = 'Test'
 
-      exportAsHtml({ content, filename })
+      await exportAsHtml({ content, filename })
 
       const blobArg = mockCreateObjectURL.mock.calls[0][0] as Blob
       const text = await blobArg.text()
@@ -141,11 +154,83 @@ describe('Export Utils', () => {
       expect(text).toContain('<body>')
     })
 
+    it('renders markdown instead of embedding the source', async () => {
+      const content = '# Hello\n\n| A | B |\n|---|---|\n| 1 | 2 |'
+      const filename = 'Test'
+
+      await exportAsHtml({ content, filename })
+
+      const blobArg = mockCreateObjectURL.mock.calls[0][0] as Blob
+      const text = await blobArg.text()
+
+      expect(text).toContain('<h1 id="hello">Hello</h1>')
+      expect(text).toContain('<table>')
+      expect(text).not.toContain('# Hello')
+    })
+
+    it('embeds mermaid diagrams as SVG', async () => {
+      const content = '```mermaid\ngraph TD\n  Start-->End\n```'
+
+      await exportAsHtml({ content, filename: 'Test' })
+
+      const blobArg = mockCreateObjectURL.mock.calls[0][0] as Blob
+      const text = await blobArg.text()
+
+      expect(text).toContain('<div class="mermaid-diagram"><svg><text>Start</text></svg></div>')
+      expect(text).not.toContain('language-mermaid')
+    })
+
+    it('embeds stored images as data URIs', async () => {
+      const loadAsset = vi.fn(async (id: string) => id === 'a1'
+        ? { id, name: 'shot.png', type: 'image/png', size: 3, data: new Uint8Array([1, 2, 3]).buffer, createdAt: 1 }
+        : null)
+
+      await exportAsHtml({
+        content: '![Shot](notepad-asset://a1)\n\n![Gone](notepad-asset://a2)',
+        filename: 'Test',
+        loadAsset,
+      })
+
+      const blobArg = mockCreateObjectURL.mock.calls[0][0] as Blob
+      const text = await blobArg.text()
+
+      expect(text).toContain('<img src="data:image/png;base64,AQID" alt="Shot">')
+      expect(text).toContain('<img src="notepad-asset://a2" alt="Gone">')
+      expect(loadAsset).toHaveBeenCalledWith('a2')
+    })
+
+    it('inlines styles for highlighted code blocks', async () => {
+      const content = '```js\nconst x = 1\n```'
+      const filename = 'Test'
+
+      await exportAsHtml({ content, filename })
+
+      const blobArg = mockCreateObjectURL.mock.calls[0][0] as Blob
+      const text = await blobArg.text()
+
+      expect(text).toContain('<style>')
+      expect(text).toContain('.hljs-keyword')
+      expect(text).toContain('<span class="hljs-keyword">const</span>')
+    })
+
+    it('exports code as plain text when its grammar fails to load', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      vi.mocked(loadLanguages).mockRejectedValueOnce(new Error('Failed to fetch dynamically imported module'))
+
+      await exportAsHtml({ content: '```haskell\nmain = putStrLn "<hi>"\n```', filename: 'Test' })
+
+      const blobArg = mockCreateObjectURL.mock.calls[0][0] as Blob
+      const text = await blobArg.text()
+
+      expect(text).toContain('main = putStrLn &quot;&lt;hi&gt;&quot;')
+      expect(text).not.toContain('<span class="hljs-')
+    })
+
     it('escapes HTML special characters in content', async () => {
       const content = '<script>alert("xss")</script>'
       const filename = 'Test'
 
-      exportAsHtml({ content, filename })
+      await exportAsHtml({ content, filename })
 
       const blobArg = mockCreateObjectURL.mock.calls[0][0] as Blob
       const text = await blobArg.text()
@@ -158,7 +243,7 @@ describe('Export Utils', () => {
       const content = 'Test content'
       const filename = 'My Document'
 
-      exportAsHtml({ content, filename })
+      await exportAsHtml({ content, filename })
 
       const blobArg = mockCreateObjectURL.mock.calls[0][0] as Blob
       const text = await blobArg.text()
@@ -166,32 +251,63 @@ describe('Export Utils', () => {
       expect(text).toContain('<title>My Document</title>')
     })
 
-    it('uses sanitized filename for HTML export', () => {
+    it('uses sanitized filename for HTML export', async () => {
       const content = 'Test'
       const filename = 'Doc <invalid>'
 
-      exportAsHtml({ content, filename })
+      await exportAsHtml({ content, filename })
 
       const anchor = document.createElement('a') as unknown as { download: string }
       expect(anchor.download).toBe('Doc invalid.html')
     })
 
-    it('triggers download by clicking anchor', () => {
+    it('triggers download by clicking anchor', async () => {
       const content = 'Test'
       const filename = 'Test'
 
-      exportAsHtml({ content, filename })
+      await exportAsHtml({ content, filename })
 
       expect(mockClick).toHaveBeenCalled()
     })
 
-    it('cleans up blob URL after download', () => {
+    it('cleans up blob URL after download', async () => {
       const content = 'Test'
       const filename = 'Test'
 
-      exportAsHtml({ content, filename })
+      await exportAsHtml({ content, filename })
 
       expect(mockRevokeObjectURL).toHaveBeenCalledWith('blob:mock-url')
     })
   })
-})
\ No newline at end of file
+
+  describe('front matter', () => {
+    const content = '---\ntitle: "Trip: Day 1"\ntags: [travel, summer]\ndescription: Notes from the road\n---\n# Arrival'
+
+    it('names the markdown file after the front matter title', () => {
+      exportAsMarkdown({ content: '---\ntitle: Trip plan\n---\nBody', filename: 'Untitled' })
+
+      const anchor = document.createElement('a') as unknown as { download: string }
+      expect(anchor.download).toBe('Trip plan.md')
+    })
+
+    it('uses the title for the HTML title and filename', async () => {
+      await exportAsHtml({ content, filename: 'Untitled' })
+
+      const anchor = document.createElement('a') as unknown as { download: string }
+      expect(anchor.download).toBe('Trip Day 1.html')
+      const text = await (mockCreateObjectURL.mock.calls[0][0] as Blob).text()
+      expect(text).toContain('<title>Trip: Day 1</title>')
+    })
+
+    it('adds tags and description as metadata instead of rendering the front matter', async () => {
+      await exportAsHtml({ content, filename: 'Untitled' })
+
+      const text = await (mockCreateObjectURL.mock.calls[0][0] as Blob).text()
+      expect(text).toContain('<meta name="keywords" content="travel, summer">')
+      expect(text).toContain('<meta name="description" content="Notes from the road">')
+      expect(text).not.toContain('<hr')
+      expect(text).not.toContain('tags:')
+      expect(text).toContain('<h1 id="arrival">Arrival</h1>')
+    })
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { createFindPattern, findMatches, replaceMatch, replaceAllMatches, type FindQuery } from '../utils/find'
+
+function query(text: string, options: Partial<FindQuery> = {}): FindQuery {
+  return { query: text, caseSensitive: false, wholeWord: false, regex: false, ...options }
+}
+
+describe('createFindPattern', () => {
+  it('escapes special characters in plain queries', () => {
+    expect(createFindPattern(query('a.b*')).test('a.b*')).toBe(true)
+    expect(createFindPattern(query('a.b*')).test('axbb')).toBe(false)
+  })
+
+  it('throws for invalid regular expressions', () => {
+    expect(() => createFindPattern(query('(', { regex: true }))).toThrow(SyntaxError)
+  })
+})
+
+describe('findMatches', () => {
+  const text = 'Cat catalog\ncat Cat'
+
+  it('returns no matches for an empty query', () => {
+    expect(findMatches(text, query(''))).toEqual({ ranges: [], error: null })
+  })
+
+  it('ignores case by default', () => {
+    expect(findMatches(text, query('cat')).ranges).toEqual([
+      { start: 0, end: 3 },
+      { start: 4, end: 7 },
+      { start: 12, end: 15 },
+      { start: 16, end: 19 },
+    ])
+  })
+
+  it('matches case when requested', () => {
+    expect(findMatches(text, query('Cat', { caseSensitive: true })).ranges).toEqual([
+      { start: 0, end: 3 },
+      { start: 16, end: 19 },
+    ])
+  })
+
+  it('matches whole words only when requested', () => {
+    expect(findMatches(text, query('cat', { wholeWord: true })).ranges).toHaveLength(3)
+  })
+
+  it('supports regular expressions with line anchors', () => {
+    expect(findMatches(text, query('^cat', { regex: true })).ranges).toEqual([
+      { start: 0, end: 3 },
+      { start: 12, end: 15 },
+    ])
+  })
+
+  it('skips zero-length matches', () => {
+    expect(findMatches('abc', query('x*', { regex: true })).ranges).toEqual([])
+  })
+
+  it('reports invalid regular expressions', () => {
+    const result = findMatches(text, query('[', { regex: true }))
+
+    expect(result.ranges).toEqual([])
+    expect(result.error).toEqual(expect.any(String))
+  })
+})
+
+describe('replaceMatch', () => {
+  it('replaces a single match', () => {
+    expect(replaceMatch('one two one', { start: 8, end: 11 }, query('one'), '1')).toBe('one two 1')
+  })
+
+  it('inserts plain replacements literally', () => {
+    expect(replaceMatch('price', { start: 0, end: 5 }, query('price'), '$&$1')).toBe('$&$1')
+  })
+
+  it('expands capture groups in regex mode', () => {
+    const find = query('(\\w+)@(\\w+)', { regex: true })
+
+    expect(replaceMatch('a@b c@d', { start: 4, end: 7 }, find, '$2@$1')).toBe('a@b d@c')
+  })
+})
+
+describe('replaceAllMatches', () => {
+  it('replaces every match and counts them', () => {
+    expect(replaceAllMatches('a-a-a', query('a'), 'b')).toEqual({ text: 'b-b-b', count: 3 })
+  })
+
+  it('expands capture groups for each match', () => {
+    const result = replaceAllMatches('x=1, y=2', query('(\\w)=(\\d)', { regex: true }), '$2=$1')
+
+    expect(result.text).toBe('1=x, 2=y')
+  })
+
+  it.each(['$2-$1', '$&!', '$$', '[$`|$\']', '$<key>:$<missing>', '$0', '$3', '$10', '$01', '$<', 'a$'])(
+    'expands %s like String.prototype.replace',
+    (replacement) => {
+      const text = 'id=7, ok=1\nx=2'
+      const source = '(?<key>\\w+)=(\\d)'
+
+      expect(replaceAllMatches(text, query(source, { regex: true }), replacement).text)
+        .toBe(text.replace(new RegExp(source, 'gim'), replacement))
+    }
+  )
+
+  it('leaves zero-length matches as they are', () => {
+    expect(replaceAllMatches('ab', query('b*', { regex: true }), '[$&]')).toEqual({ text: 'a[b]', count: 1 })
+  })
+
+  it('leaves the text unchanged for invalid regular expressions', () => {
+    expect(replaceAllMatches('a(b', query('(', { regex: true }), 'x')).toEqual({ text: 'a(b', count: 0 })
+  })
+
+  it('leaves the text unchanged without matches', () => {
+    expect(replaceAllMatches('abc', query('z'), 'y')).toEqual({ text: 'abc', count: 0 })
+  })
+})
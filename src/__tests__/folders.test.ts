@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { buildFolderTree, getFolderPath, isWithinFolder } from '../utils/folders'
+import type { Document, Folder } from '../storage/types'
+
+function makeFolder(id: string, name: string, parentId: string | null = null): Folder {
+  return { id, name, parentId, updatedAt: 1000 }
+}
+
+function makeDoc(id: string, name: string, folderId?: string): Document {
+  return { id, name, content: '', updatedAt: 1000, ...(folderId ? { folderId } : {}) }
+}
+
+describe('getFolderPath', () => {
+  it('lists folder names from the top level down', () => {
+    const folders = [makeFolder('a', 'A'), makeFolder('b', 'B', 'a'), makeFolder('c', 'C', 'b')]
+
+    expect(getFolderPath(folders, 'c')).toEqual(['A', 'B', 'C'])
+    expect(getFolderPath(folders, null)).toEqual([])
+    expect(getFolderPath(folders, 'missing')).toEqual([])
+  })
+
+  it('stops at cycles', () => {
+    const folders = [makeFolder('a', 'A', 'b'), makeFolder('b', 'B', 'a')]
+
+    expect(getFolderPath(folders, 'a')).toEqual(['B', 'A'])
+  })
+})
+
+describe('isWithinFolder', () => {
+  const folders = [
+    makeFolder('a', 'A'),
+    makeFolder('b', 'B', 'a'),
+    makeFolder('c', 'C', 'b'),
+    makeFolder('d', 'D'),
+  ]
+
+  it('matches the folder itself and its descendants', () => {
+    expect(isWithinFolder(folders, 'a', 'a')).toBe(true)
+    expect(isWithinFolder(folders, 'b', 'a')).toBe(true)
+    expect(isWithinFolder(folders, 'c', 'a')).toBe(true)
+  })
+
+  it('does not match unrelated folders, ancestors or the top level', () => {
+    expect(isWithinFolder(folders, 'd', 'a')).toBe(false)
+    expect(isWithinFolder(folders, 'a', 'c')).toBe(false)
+    expect(isWithinFolder(folders, null, 'a')).toBe(false)
+  })
+
+  it('stops on cycles', () => {
+    const cyclic = [makeFolder('x', 'X', 'y'), makeFolder('y', 'Y', 'x')]
+    expect(isWithinFolder(cyclic, 'x', 'z')).toBe(false)
+  })
+})
+
+describe('buildFolderTree', () => {
+  it('nests folders and documents sorted by name', () => {
+    const tree = buildFolderTree(
+      [makeFolder('w', 'Work'), makeFolder('p', 'Personal'), makeFolder('m', 'Meetings', 'w')],
+      [
+        makeDoc('1', 'Zebra'),
+        makeDoc('2', 'apple'),
+        makeDoc('3', 'Standup', 'm'),
+        makeDoc('4', 'Budget', 'w'),
+      ]
+    )
+
+    expect(tree.folders.map(node => node.folder.name)).toEqual(['Personal', 'Work'])
+    expect(tree.documents.map(doc => doc.name)).toEqual(['apple', 'Zebra'])
+
+    const work = tree.folders[1]
+    expect(work.documents.map(doc => doc.name)).toEqual(['Budget'])
+    expect(work.children.map(node => node.folder.name)).toEqual(['Meetings'])
+    expect(work.children[0].documents.map(doc => doc.name)).toEqual(['Standup'])
+  })
+
+  it('sorts numbered names naturally', () => {
+    const tree = buildFolderTree([], [makeDoc('1', 'Note 10'), makeDoc('2', 'Note 2')])
+    expect(tree.documents.map(doc => doc.name)).toEqual(['Note 2', 'Note 10'])
+  })
+
+  it('places items with a missing folder at the top level', () => {
+    const tree = buildFolderTree(
+      [makeFolder('a', 'Orphan', 'gone')],
+      [makeDoc('1', 'Lost', 'gone')]
+    )
+
+    expect(tree.folders.map(node => node.folder.name)).toEqual(['Orphan'])
+    expect(tree.documents.map(doc => doc.name)).toEqual(['Lost'])
+  })
+
+  it('places folders in a cycle at the top level', () => {
+    const tree = buildFolderTree([makeFolder('x', 'X', 'y'), makeFolder('y', 'Y', 'x')], [])
+    expect(tree.folders.map(node => node.folder.name)).toEqual(['X', 'Y'])
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { parseDocument } from 'yaml'
+import { extractFrontMatter, findFrontMatter, getDocumentTitle, parseFrontMatter, replaceFrontMatter } from '../utils/frontMatter'
+
+describe('findFrontMatter', () => {
+  it('finds a block at the start of the content', () => {
+    const content = '---\ntitle: Notes\n---\n# Body'
+    expect(findFrontMatter(content)).toEqual({ source: 'title: Notes', start: 0, end: 21 })
+  })
+
+  it('accepts an empty block and the ... terminator', () => {
+    expect(findFrontMatter('---\n---\nBody')?.source).toBe('')
+    expect(findFrontMatter('---\na: 1\n...\nBody')?.source).toBe('a: 1')
+  })
+
+  it('ignores content that does not start with a delimiter', () => {
+    expect(findFrontMatter('# Title\n---\na: 1\n---')).toBeNull()
+  })
+})
+
+describe('parseFrontMatter', () => {
+  it('parses a YAML mapping', () => {
+    expect(parseFrontMatter('---\ntitle: Notes\ncount: 2\n---\n')?.toJS()).toEqual({ title: 'Notes', count: 2 })
+  })
+
+  it('returns null for invalid YAML or other values', () => {
+    expect(parseFrontMatter('---\ntitle: [oops\n---\n')).toBeNull()
+    expect(parseFrontMatter('---\njust text\n---\n')).toBeNull()
+    expect(parseFrontMatter('No front matter')).toBeNull()
+  })
+})
+
+describe('replaceFrontMatter', () => {
+  it('replaces an existing block and keeps the body', () => {
+    const doc = parseDocument('title: New')
+    expect(replaceFrontMatter('---\ntitle: Old\n---\nBody', doc)).toBe('---\ntitle: New\n---\nBody')
+  })
+
+  it('adds a block to content without one', () => {
+    expect(replaceFrontMatter('Body', parseDocument('a: 1'))).toBe('---\na: 1\n---\nBody')
+  })
+})
+
+describe('extractFrontMatter', () => {
+  it('reads the title, tags, date and other fields', () => {
+    const content = '---\ntitle: Trip plan\ndate: 2024-05-01\ntags: [travel, summer]\nauthor: Sam\ndraft: true\n---\n# Day 1'
+    const { metadata, error } = extractFrontMatter(content)
+
+    expect(error).toBeNull()
+    expect(metadata).toEqual({
+      title: 'Trip plan',
+      date: '2024-05-01',
+      tags: ['travel', 'summer'],
+      fields: [{ key: 'author', value: 'Sam' }, { key: 'draft', value: true }],
+    })
+  })
+
+  it('blanks out the front matter but keeps line numbers', () => {
+    const { body } = extractFrontMatter('---\ntitle: A\n---\n# Body\ntext')
+    expect(body).toBe('\n\n\n# Body\ntext')
+  })
+
+  it('hides invalid front matter and reports the error', () => {
+    const { metadata, error, body } = extractFrontMatter('---\ntitle: [oops\n---\nBody')
+
+    expect(metadata).toBeNull()
+    expect(error).toEqual(expect.any(String))
+    expect(body).toBe('\n\n\nBody')
+  })
+
+  it('leaves a thematic break followed by text as markdown', () => {
+    const content = '---\nJust a heading\n---\nBody'
+    expect(extractFrontMatter(content)).toEqual({ metadata: null, error: null, body: content })
+  })
+
+  it('returns the content unchanged without front matter', () => {
+    expect(extractFrontMatter('# Title')).toEqual({ metadata: null, error: null, body: '# Title' })
+  })
+})
+
+describe('getDocumentTitle', () => {
+  it('prefers the front matter title', () => {
+    expect(getDocumentTitle('---\ntitle: Real title\n---\n', 'file name')).toBe('Real title')
+    expect(getDocumentTitle('# Heading', 'file name')).toBe('file name')
+  })
+})
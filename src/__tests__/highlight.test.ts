@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { highlightCode, isLanguageReady, loadLanguages, resolveLanguage, splitHighlightedLines } from '../utils/highlight'
+
+describe('resolveLanguage', () => {
+  it('maps fence languages to grammars', () => {
+    expect(resolveLanguage('go')).toBe('go')
+    expect(resolveLanguage('golang')).toBe('go')
+    expect(resolveLanguage('yml')).toBe('yaml')
+    expect(resolveLanguage('tsx')).toBe('typescript')
+    expect(resolveLanguage('Rust')).toBe('rust')
+  })
+
+  it('returns undefined for languages without a grammar', () => {
+    expect(resolveLanguage('mermaid')).toBeUndefined()
+    expect(resolveLanguage('constructor')).toBeUndefined()
+  })
+})
+
+describe('loadLanguages', () => {
+  it('loads grammars on demand', async () => {
+    expect(isLanguageReady('sql')).toBe(false)
+
+    await loadLanguages(['sql'])
+
+    expect(isLanguageReady('sql')).toBe(true)
+    expect(highlightCode('SELECT 1', 'sql').html).toContain('<span class="hljs-keyword">SELECT</span>')
+  })
+
+  it('treats languages without a grammar as ready', () => {
+    expect(isLanguageReady('mermaid')).toBe(true)
+  })
+
+  it('loads the auto-detected languages for code without one', async () => {
+    await loadLanguages([''])
+
+    expect(isLanguageReady()).toBe(true)
+    expect(isLanguageReady('rust')).toBe(true)
+  })
+})
+
+describe('highlightCode', () => {
+  it('highlights through aliases', async () => {
+    await loadLanguages(['yml'])
+
+    expect(highlightCode('key: value', 'yml').html).toContain('hljs-attr')
+  })
+
+  it('escapes code in unknown languages', () => {
+    expect(highlightCode('<b>', 'nonsense')).toEqual({ html: '&lt;b&gt;' })
+  })
+
+  it('detects the language of code without one', async () => {
+    await loadLanguages([''])
+
+    const result = highlightCode('package main\n\nimport "fmt"\n\nfunc main() {\n  fmt.Println("hi")\n}')
+    expect(result.language).toBe('go')
+    expect(result.html).toContain('hljs-keyword')
+  })
+
+  it('leaves short ambiguous code plain', async () => {
+    await loadLanguages([''])
+
+    expect(highlightCode('hello')).toEqual({ html: 'hello' })
+  })
+})
+
+describe('splitHighlightedLines', () => {
+  it('splits plain lines', () => {
+    expect(splitHighlightedLines('a\nb\n')).toEqual(['a', 'b', ''])
+  })
+
+  it('closes and reopens spans that cross lines', () => {
+    const html = 'x <span class="hljs-comment">/* one\ntwo */</span> y'
+
+    expect(splitHighlightedLines(html)).toEqual([
+      'x <span class="hljs-comment">/* one</span>',
+      '<span class="hljs-comment">two */</span> y',
+    ])
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { findDuplicate, isImportableFile, readImportFiles, resolveImports, uniqueName } from '../utils/importFiles'
+import type { Document } from '../storage/types'
+
+function makeDoc(id: string, name: string, content = ''): Document {
+  return { id, name, content, updatedAt: 1 }
+}
+
+describe('isImportableFile', () => {
+  it('accepts markdown and text files by extension', () => {
+    expect(isImportableFile(new File([''], 'notes.md'))).toBe(true)
+    expect(isImportableFile(new File([''], 'README.MARKDOWN'))).toBe(true)
+    expect(isImportableFile(new File([''], 'todo.txt'))).toBe(true)
+    expect(isImportableFile(new File([''], 'photo.png'))).toBe(false)
+    expect(isImportableFile(new File([''], 'md'))).toBe(false)
+  })
+})
+
+describe('readImportFiles', () => {
+  it('names documents after the front matter title or the file name', async () => {
+    const files = [
+      new File(['---\ntitle: Weekly Plan\n---\nBody'], 'plan.md'),
+      new File(['Line one\r\nLine two'], 'todo.list.txt'),
+    ]
+
+    const candidates = await readImportFiles(files, [])
+
+    expect(candidates).toEqual([
+      { fileName: 'plan.md', name: 'Weekly Plan', content: '---\ntitle: Weekly Plan\n---\nBody' },
+      { fileName: 'todo.list.txt', name: 'todo.list', content: 'Line one\nLine two' },
+    ])
+  })
+
+  it('marks files that duplicate a document', async () => {
+    const existing = makeDoc('1', 'Notes', 'Hello')
+
+    const [byName, byContent, fresh] = await readImportFiles([
+      new File(['Other'], 'notes.md'),
+      new File(['Hello\n'], 'greeting.md'),
+      new File(['New'], 'new.md'),
+    ], [existing])
+
+    expect(byName.duplicate).toBe(existing)
+    expect(byContent.duplicate).toBe(existing)
+    expect(fresh.duplicate).toBeUndefined()
+  })
+})
+
+describe('findDuplicate', () => {
+  it('matches names and front matter titles regardless of case', () => {
+    const titled = makeDoc('1', 'Untitled Document', '---\ntitle: Plan\n---\n')
+
+    expect(findDuplicate({ name: 'plan', content: 'x' }, [titled])).toBe(titled)
+    expect(findDuplicate({ name: 'untitled document', content: 'x' }, [titled])).toBe(titled)
+  })
+
+  it('does not treat empty files as duplicates of empty documents', () => {
+    expect(findDuplicate({ name: 'Empty', content: '' }, [makeDoc('1', 'Blank')])).toBeUndefined()
+  })
+})
+
+describe('uniqueName', () => {
+  it('numbers copies of taken names', () => {
+    const documents = [makeDoc('1', 'Notes'), makeDoc('2', 'Notes (2)')]
+
+    expect(uniqueName('Ideas', documents)).toBe('Ideas')
+    expect(uniqueName('notes', documents)).toBe('notes (3)')
+  })
+})
+
+describe('resolveImports', () => {
+  const existing = makeDoc('1', 'Notes', 'Old')
+  const candidates = [
+    { fileName: 'a.md', name: 'Notes', content: 'A', duplicate: existing },
+    { fileName: 'b.md', name: 'Fresh', content: 'B' },
+  ]
+
+  it('skips duplicates by default', () => {
+    expect(resolveImports(candidates, [], [existing])).toEqual([{ name: 'Fresh', content: 'B' }])
+  })
+
+  it('overwrites the duplicated document', () => {
+    expect(resolveImports(candidates, ['overwrite'], [existing])).toEqual([
+      { name: 'Notes', content: 'A', replaceId: '1' },
+      { name: 'Fresh', content: 'B' },
+    ])
+  })
+
+  it('keeps both under a new name, unique within the import too', () => {
+    const twice = [candidates[0], { ...candidates[0], fileName: 'c.md', content: 'C' }]
+
+    expect(resolveImports(twice, ['keep-both', 'keep-both'], [existing])).toEqual([
+      { name: 'Notes (2)', content: 'A' },
+      { name: 'Notes (3)', content: 'C' },
+    ])
+  })
+})
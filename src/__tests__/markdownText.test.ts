@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { findCodeLanguages, findInProse } from '../utils/markdownText'
+
+describe('findInProse', () => {
+  it('skips front matter, fenced code and inline code', () => {
+    const content = '---\ntitle: #a\n---\n#b `#c`\n```\n#d\n```\n#e'
+
+    const matches = findInProse(content, /#\w/g)
+
+    expect(matches.map(({ match }) => match[0])).toEqual(['#b', '#e'])
+    expect(matches[1].line).toBe(7)
+  })
+})
+
+describe('findCodeLanguages', () => {
+  it('lists the language of each fenced block', () => {
+    const content = '```go\nfunc main() {}\n```\n\n~~~ yaml\na: 1\n~~~\n\n```\nplain\n```'
+
+    expect(findCodeLanguages(content)).toEqual(['go', 'yaml', ''])
+  })
+
+  it('ignores fences nested in a longer fence', () => {
+    const content = '````markdown\n```js\nx\n```\n````'
+
+    expect(findCodeLanguages(content)).toEqual(['markdown'])
+  })
+})
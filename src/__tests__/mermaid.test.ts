@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import mermaid from 'mermaid'
+import { embedMermaidDiagrams, renderMermaid } from '../utils/mermaid'
+
+// Mermaid needs a browser layout engine to measure diagrams
+vi.mock('mermaid', () => ({
+  default: {
+    initialize: vi.fn(),
+    render: vi.fn(),
+  },
+}))
+
+const mockRender = vi.mocked(mermaid.render)
+
+describe('renderMermaid', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('renders a definition to SVG with the requested theme', async () => {
+    mockRender.mockResolvedValue({ svg: '<svg id="d"></svg>', diagramType: 'flowchart' })
+
+    await expect(renderMermaid('graph TD', 'dark')).resolves.toBe('<svg id="d"></svg>')
+    expect(mermaid.initialize).toHaveBeenCalledWith(expect.objectContaining({
+      startOnLoad: false,
+      securityLevel: 'strict',
+      theme: 'dark',
+    }))
+    expect(mockRender).toHaveBeenCalledWith(expect.stringMatching(/^mermaid-diagram-\d+$/), 'graph TD')
+  })
+
+  it('gives each diagram a unique id', async () => {
+    mockRender.mockResolvedValue({ svg: '<svg></svg>', diagramType: 'flowchart' })
+
+    await renderMermaid('graph TD')
+    await renderMermaid('graph TD')
+
+    const [first, second] = mockRender.mock.calls.map(([id]) => id)
+    expect(first).not.toBe(second)
+  })
+
+  it('rejects with the syntax error', async () => {
+    mockRender.mockRejectedValue(new Error('Parse error on line 1'))
+
+    await expect(renderMermaid('graph ??')).rejects.toThrow('Parse error on line 1')
+  })
+
+  it('renders each diagram in its own theme when renders overlap', async () => {
+    const themes: unknown[] = []
+    vi.mocked(mermaid.initialize).mockImplementation(config => {
+      themes.push(config.theme)
+    })
+    mockRender.mockImplementation(async (id) => {
+      // Give the other render a chance to change the theme mid-render
+      await new Promise(resolve => setTimeout(resolve, 10))
+      return { svg: `<svg data-theme="${themes.at(-1)}" id="${id}"></svg>`, diagramType: 'flowchart' }
+    })
+
+    const [dark, light] = await Promise.all([renderMermaid('graph TD', 'dark'), renderMermaid('graph TD', 'default')])
+
+    expect(dark).toContain('data-theme="dark"')
+    expect(light).toContain('data-theme="default"')
+  })
+
+  it('keeps rendering after a diagram fails', async () => {
+    mockRender.mockRejectedValueOnce(new Error('Parse error'))
+    mockRender.mockResolvedValueOnce({ svg: '<svg></svg>', diagramType: 'flowchart' })
+
+    const failed = renderMermaid('graph ??')
+    const next = renderMermaid('graph TD')
+
+    await expect(failed).rejects.toThrow('Parse error')
+    await expect(next).resolves.toBe('<svg></svg>')
+  })
+})
+
+describe('embedMermaidDiagrams', () => {
+  const block = (source: string) =>
+    `<div class="code-block"><div class="code-block-header">mermaid</div><pre><code class="hljs language-mermaid">${source}</code></pre></div>`
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('replaces diagram code blocks with their SVG', async () => {
+    mockRender.mockResolvedValue({ svg: '<svg><text>A</text></svg>', diagramType: 'flowchart' })
+
+    const html = await embedMermaidDiagrams(`<p>Intro</p>${block('graph TD\n  A--&gt;B')}`)
+
+    expect(html).toBe('<p>Intro</p><div class="mermaid-diagram"><svg><text>A</text></svg></div>')
+    expect(mockRender).toHaveBeenCalledWith(expect.any(String), 'graph TD\n  A-->B')
+  })
+
+  it('keeps the source of diagrams that fail to render', async () => {
+    mockRender.mockRejectedValue(new Error('Parse error'))
+
+    const html = block('graph ??')
+    await expect(embedMermaidDiagrams(html)).resolves.toBe(html)
+  })
+
+  it('leaves documents without diagrams untouched', async () => {
+    const html = '<pre><code class="hljs language-js">x</code></pre>'
+
+    await expect(embedMermaidDiagrams(html)).resolves.toBe(html)
+    expect(mockRender).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildOutlineTree, canMoveSection, findHeadingAtLine, getSectionEnd, moveSection, parseOutline,
+} from '../utils/outline'
+
+const content = [
+  '# Guide',
+  'Intro',
+  '## Install',
+  'Run it',
+  '### Windows',
+  '## Usage',
+  'Use it',
+  '# Appendix',
+].join('\n')
+
+describe('parseOutline', () => {
+  it('finds headings with their level, line and text offsets', () => {
+    const headings = parseOutline(content)
+
+    expect(headings.map(({ level, text, line }) => [level, text, line])).toEqual([
+      [1, 'Guide', 0],
+      [2, 'Install', 2],
+      [3, 'Windows', 4],
+      [2, 'Usage', 5],
+      [1, 'Appendix', 7],
+    ])
+    expect(content.slice(headings[1].start, headings[1].end)).toBe('Install')
+  })
+
+  it('removes inline markup and closing hashes', () => {
+    const headings = parseOutline('## The **fast** [path](#p) `api` ##\n# [[Plan|Our plan]]')
+    expect(headings.map(heading => heading.text)).toEqual(['The fast path api', 'Our plan'])
+  })
+
+  it('ignores headings in code and front matter', () => {
+    const headings = parseOutline('---\ntitle: x\n---\n```\n# Code\n```\n#not a heading\n# Real')
+    expect(headings.map(heading => heading.text)).toEqual(['Real'])
+  })
+})
+
+describe('buildOutlineTree', () => {
+  it('nests headings under higher levels', () => {
+    const tree = buildOutlineTree(parseOutline(content))
+
+    expect(tree.map(node => node.heading.text)).toEqual(['Guide', 'Appendix'])
+    expect(tree[0].children.map(node => node.heading.text)).toEqual(['Install', 'Usage'])
+    expect(tree[0].children[0].children[0]).toMatchObject({ index: 2, heading: { text: 'Windows' } })
+  })
+
+  it('nests skipped levels one step deeper', () => {
+    const tree = buildOutlineTree(parseOutline('# A\n### B\n## C'))
+    expect(tree[0].children.map(node => node.heading.text)).toEqual(['B', 'C'])
+  })
+})
+
+describe('sections', () => {
+  const headings = parseOutline(content)
+
+  it('ends a section at the next heading of the same or a higher level', () => {
+    expect(getSectionEnd(headings, 1)).toBe(3)
+    expect(getSectionEnd(headings, 4)).toBe(5)
+  })
+
+  it('finds the heading whose section contains a line', () => {
+    expect(findHeadingAtLine(headings, 3)).toBe(1)
+    expect(findHeadingAtLine(parseOutline('Preamble\n# A'), 0)).toBe(-1)
+  })
+
+  it('does not move a section into itself or where it is', () => {
+    expect(canMoveSection(headings, 1, 2)).toBe(false)
+    expect(canMoveSection(headings, 1, 3)).toBe(false)
+    expect(canMoveSection(headings, 1, 1)).toBe(false)
+    expect(canMoveSection(headings, 3, 1)).toBe(true)
+    expect(canMoveSection(headings, 4, null)).toBe(false)
+  })
+
+  it('moves a section with its subsections before another heading', () => {
+    expect(moveSection(content, headings, 3, 1).split('\n')).toEqual([
+      '# Guide', 'Intro', '## Usage', 'Use it', '## Install', 'Run it', '### Windows', '# Appendix',
+    ])
+  })
+
+  it('moves a section to the end and keeps the trailing newline', () => {
+    const withNewline = `${content}\n`
+    expect(moveSection(withNewline, parseOutline(withNewline), 1, null)).toBe(
+      '# Guide\nIntro\n## Usage\nUse it\n# Appendix\n## Install\nRun it\n### Windows\n'
+    )
+  })
+
+  it('leaves the content unchanged for an invalid move', () => {
+    expect(moveSection(content, headings, 0, 2)).toBe(content)
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { loadLanguages } from '../utils/highlight'
+import { renderMarkdownToHtml } from '../utils/renderMarkdown'
+
+describe('renderMarkdownToHtml', () => {
+  it('renders headings and paragraphs', () => {
+    const html = renderMarkdownToHtml('# Title\n\nSome **bold** text')
+
+    expect(html).toContain('<h1 id="title">Title</h1>')
+    expect(html).toContain('<p>Some <strong>bold</strong> text</p>')
+  })
+
+  it('keeps heading ids for links to sections', () => {
+    const html = renderMarkdownToHtml('# Notes\n\n## Notes\n\n[Back](#notes)')
+
+    expect(html).toContain('<h1 id="notes">Notes</h1>')
+    expect(html).toContain('<h2 id="notes-1">Notes</h2>')
+    expect(html).toContain('<a href="#notes">Back</a>')
+  })
+
+  it('renders math as MathML without KaTeX markup that needs its stylesheet', () => {
+    const html = renderMarkdownToHtml('Inline $x^2$\n\n$$\n\\sqrt{2}\n$$')
+
+    expect(html).toContain('<math')
+    expect(html).toContain('display="block"')
+    expect(html).toContain('<msqrt>')
+    expect(html).not.toContain('katex-html')
+  })
+
+  it('renders GFM tables', () => {
+    const html = renderMarkdownToHtml('| A | B |\n|---|---|\n| 1 | 2 |')
+
+    expect(html).toContain('<div class="table-wrapper"><table>')
+    expect(html).toContain('<th>A</th>')
+    expect(html).toContain('<td>2</td>')
+  })
+
+  it('renders task lists with checkboxes', () => {
+    const html = renderMarkdownToHtml('- [ ] Todo\n- [x] Done')
+
+    expect(html).toContain('class="task-list-item"')
+    expect(html).toMatch(/<input type="checkbox" disabled=""\/?>/)
+    expect(html).toMatch(/<input type="checkbox" disabled="" checked=""\/?>/)
+  })
+
+  it('highlights fenced code blocks in loaded languages', async () => {
+    await loadLanguages(['javascript'])
+    const html = renderMarkdownToHtml('```javascript\nconst x = 1\n```')
+
+    expect(html).toContain('class="code-block"')
+    expect(html).toContain('<div class="code-block-header">javascript</div>')
+    expect(html).toContain('<span class="hljs-keyword">const</span>')
+  })
+
+  it('renders fence titles and highlighted lines', () => {
+    const html = renderMarkdownToHtml('```txt title="notes.txt" {2}\none\ntwo\n```')
+
+    expect(html).toContain('<span class="code-block-title">notes.txt</span>')
+    expect(html).toContain('<span class="code-line" data-line-number="1">one\n</span>')
+    expect(html).toContain('<span class="code-line highlighted" data-line-number="2">two\n</span>')
+  })
+
+  it('escapes code in unknown languages', () => {
+    const html = renderMarkdownToHtml('```\n<div>\n```')
+
+    expect(html).toContain('plain text')
+    expect(html).toContain('&lt;div&gt;')
+  })
+
+  it('renders inline code without a code block wrapper', () => {
+    const html = renderMarkdownToHtml('Use `npm test` here')
+
+    expect(html).toContain('<code>npm test</code>')
+    expect(html).not.toContain('code-block')
+  })
+
+  it('does not render raw HTML from the source', () => {
+    const html = renderMarkdownToHtml('<script>alert("xss")</script>')
+
+    expect(html).not.toContain('<script>')
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { lineAtOffset, measurePreviewLines, measureTextareaLines, offsetOfLine, type LineAnchor } from '../utils/scrollSync'
+
+// A heading, a tall image on line 2 and a paragraph
+const anchors: LineAnchor[] = [
+  { line: 1, top: 20 },
+  { line: 2, top: 60 },
+  { line: 4, top: 460 },
+]
+
+describe('lineAtOffset', () => {
+  it('interpolates between anchors', () => {
+    expect(lineAtOffset(anchors, 60)).toBe(2)
+    expect(lineAtOffset(anchors, 260)).toBe(3)
+  })
+
+  it('starts from the first line at the top', () => {
+    expect(lineAtOffset(anchors, 10)).toBe(0.5)
+  })
+
+  it('stays on the last anchor past the end', () => {
+    expect(lineAtOffset(anchors, 900)).toBe(4)
+  })
+})
+
+describe('offsetOfLine', () => {
+  it('is the inverse of lineAtOffset', () => {
+    [0.5, 2, 3, 3.75].forEach(line => {
+      expect(lineAtOffset(anchors, offsetOfLine(anchors, line))).toBeCloseTo(line)
+    })
+  })
+
+  it('stays on the last anchor past the end', () => {
+    expect(offsetOfLine(anchors, 10)).toBe(460)
+  })
+
+  it('returns the top without anchors', () => {
+    expect(offsetOfLine([], 5)).toBe(0)
+  })
+})
+
+describe('measureTextareaLines', () => {
+  it('falls back to a fixed line height without layout', () => {
+    const textarea = document.createElement('textarea')
+    textarea.value = 'a\nb\nc'
+
+    expect(measureTextareaLines(textarea)).toEqual([
+      { line: 0, top: 0 },
+      { line: 1, top: 24 },
+      { line: 2, top: 48 },
+    ])
+    expect(document.body).toBeEmptyDOMElement()
+  })
+})
+
+describe('measurePreviewLines', () => {
+  it('skips anchors that do not move forward', () => {
+    const container = document.createElement('div')
+    container.innerHTML = '<ul data-source-line="0"><li data-source-line="0"></li><li data-source-line="1"></li></ul>'
+
+    expect(measurePreviewLines(container)).toEqual([{ line: 0, top: 0 }, { line: 1, top: 0 }])
+  })
+})
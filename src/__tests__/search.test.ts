@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { searchDocuments } from '../utils/search'
+import type { Document } from '../storage/types'
+
+function makeDoc(id: string, name: string, content: string, updatedAt = 1000): Document {
+  return { id, name, content, updatedAt }
+}
+
+describe('searchDocuments', () => {
+  const documents: Document[] = [
+    makeDoc('1', 'Shopping list', 'Milk\nEggs\nBread'),
+    makeDoc('2', 'Meeting notes', 'Discussed the budget\nNext meeting on Friday\nBudget approved', 2000),
+    makeDoc('3', 'Budget', 'Quarterly numbers'),
+  ]
+
+  it('returns nothing for an empty query', () => {
+    expect(searchDocuments(documents, '')).toEqual([])
+    expect(searchDocuments(documents, '   ')).toEqual([])
+  })
+
+  it('matches names and content case-insensitively', () => {
+    const results = searchDocuments(documents, 'EGGS')
+
+    expect(results).toHaveLength(1)
+    expect(results[0].document.id).toBe('1')
+  })
+
+  it('requires every term to match somewhere in the document', () => {
+    expect(searchDocuments(documents, 'budget friday').map(r => r.document.id)).toEqual(['2'])
+    expect(searchDocuments(documents, 'budget milk')).toEqual([])
+  })
+
+  it('ranks name matches above content matches', () => {
+    const results = searchDocuments(documents, 'budget')
+
+    expect(results.map(r => r.document.id)).toEqual(['3', '2'])
+    expect(results[0].nameHighlights).toEqual([{ start: 0, end: 6 }])
+  })
+
+  it('ranks documents with more matches higher', () => {
+    const results = searchDocuments([
+      makeDoc('a', 'A', 'todo'),
+      makeDoc('b', 'B', 'todo\ntodo todo'),
+    ], 'todo')
+
+    expect(results.map(r => r.document.id)).toEqual(['b', 'a'])
+  })
+
+  it('breaks ties with the most recently updated document', () => {
+    const results = searchDocuments([
+      makeDoc('old', 'A', 'note', 1000),
+      makeDoc('new', 'B', 'note', 2000),
+    ], 'note')
+
+    expect(results.map(r => r.document.id)).toEqual(['new', 'old'])
+  })
+
+  it('reports matching lines with line numbers and content offsets', () => {
+    const [result] = searchDocuments(documents, 'meeting')
+
+    expect(result.matchCount).toBe(1)
+    expect(result.matches).toEqual([
+      {
+        line: 2,
+        start: 'Discussed the budget\n'.length + 5,
+        end: 'Discussed the budget\n'.length + 12,
+        snippet: 'Next meeting on Friday',
+        highlights: [{ start: 5, end: 12 }],
+      },
+    ])
+  })
+
+  it('highlights every term on a matching line', () => {
+    const [result] = searchDocuments(documents, 'next friday')
+
+    expect(result.matches[0].highlights).toEqual([
+      { start: 0, end: 4 },
+      { start: 16, end: 22 },
+    ])
+  })
+
+  it('merges overlapping highlights', () => {
+    const [result] = searchDocuments([makeDoc('1', 'Doc', 'markdown')], 'mark down markdown')
+
+    expect(result.matches[0].highlights).toEqual([{ start: 0, end: 8 }])
+  })
+
+  it('limits the number of returned matches but counts all of them', () => {
+    const content = Array.from({ length: 10 }, (_, i) => `item ${i}`).join('\n')
+    const [result] = searchDocuments([makeDoc('1', 'Doc', content)], 'item', { maxMatches: 2 })
+
+    expect(result.matches.map(m => m.line)).toEqual([1, 2])
+    expect(result.matchCount).toBe(10)
+  })
+
+  it('shortens long lines around the match', () => {
+    const line = `${'a '.repeat(60)}needle${' b'.repeat(60)}`
+    const [result] = searchDocuments([makeDoc('1', 'Doc', line)], 'needle')
+    const { snippet, highlights } = result.matches[0]
+
+    expect(snippet.startsWith('…')).toBe(true)
+    expect(snippet.endsWith('…')).toBe(true)
+    expect(snippet.slice(highlights[0].start, highlights[0].end)).toBe('needle')
+  })
+
+  it('returns documents that only match by name without line matches', () => {
+    const [result] = searchDocuments(documents, 'shopping')
+
+    expect(result.matches).toEqual([])
+    expect(result.matchCount).toBe(0)
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { waitFor } from '@testing-library/react'
+import { IDBFactory } from 'fake-indexeddb'
+import { createSyncChannel } from '../storage/syncChannel'
+import { createIndexedDbStore } from '../storage/indexedDbStore'
+import { createLocalStorageStore } from '../storage/localStorageStore'
+import type { Document, DocumentStoreChange } from '../storage/types'
+
+function makeDoc(id: string): Document {
+  return { id, name: `Doc ${id}`, content: '', updatedAt: Date.now() }
+}
+
+describe('createSyncChannel', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    localStorage.clear()
+  })
+
+  it('delivers changes to other channels with the same name', async () => {
+    const sender = createSyncChannel('test-sync')
+    const receiver = createSyncChannel('test-sync')
+    const listener = vi.fn()
+    const unsubscribe = receiver.subscribe(listener)
+    const change: DocumentStoreChange = { saved: [makeDoc('1')], removed: [] }
+
+    sender.publish(change)
+
+    await waitFor(() => {
+      expect(listener).toHaveBeenCalledWith(change)
+    })
+    unsubscribe()
+  })
+
+  it('does not deliver changes to channels with another name', async () => {
+    const sender = createSyncChannel('test-sync-a')
+    const other = createSyncChannel('test-sync-b')
+    const receiver = createSyncChannel('test-sync-a')
+    const otherListener = vi.fn()
+    const listener = vi.fn()
+    const unsubscribeOther = other.subscribe(otherListener)
+    const unsubscribe = receiver.subscribe(listener)
+
+    sender.publish({ saved: [], removed: ['1'] })
+
+    await waitFor(() => {
+      expect(listener).toHaveBeenCalled()
+    })
+    expect(otherListener).not.toHaveBeenCalled()
+    unsubscribe()
+    unsubscribeOther()
+  })
+
+  it('stops delivering after unsubscribing', async () => {
+    const sender = createSyncChannel('test-sync')
+    const receiver = createSyncChannel('test-sync')
+    const first = vi.fn()
+    const second = vi.fn()
+    const unsubscribeFirst = receiver.subscribe(first)
+    const unsubscribeSecond = receiver.subscribe(second)
+
+    unsubscribeFirst()
+    sender.publish({ saved: [], removed: ['1'] })
+
+    await waitFor(() => {
+      expect(second).toHaveBeenCalled()
+    })
+    expect(first).not.toHaveBeenCalled()
+    unsubscribeSecond()
+  })
+
+  describe('without BroadcastChannel', () => {
+    it('receives changes through storage events', () => {
+      vi.stubGlobal('BroadcastChannel', undefined)
+      const channel = createSyncChannel('test-sync')
+      const listener = vi.fn()
+      const unsubscribe = channel.subscribe(listener)
+      const change: DocumentStoreChange = { saved: [makeDoc('1')], removed: [] }
+
+      window.dispatchEvent(new StorageEvent('storage', {
+        key: 'test-sync:sync',
+        newValue: JSON.stringify({ change, nonce: 1 }),
+      }))
+      // Removal of the message key is ignored
+      window.dispatchEvent(new StorageEvent('storage', { key: 'test-sync:sync', newValue: null }))
+      window.dispatchEvent(new StorageEvent('storage', { key: 'unrelated', newValue: '{}' }))
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith(change)
+      unsubscribe()
+    })
+
+    it('publishes without leaving the message in localStorage', () => {
+      vi.stubGlobal('BroadcastChannel', undefined)
+      const setItem = vi.spyOn(Storage.prototype, 'setItem')
+      const channel = createSyncChannel('test-sync')
+
+      channel.publish({ saved: [], removed: ['1'] })
+
+      expect(setItem).toHaveBeenCalledWith('test-sync:sync', expect.stringContaining('"removed":["1"]'))
+      expect(localStorage.getItem('test-sync:sync')).toBeNull()
+      setItem.mockRestore()
+    })
+  })
+})
+
+describe.each([
+  ['localStorage', () => createLocalStorageStore()],
+  ['IndexedDB', () => createIndexedDbStore()],
+])('%s store sync', (_name, createStore) => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    localStorage.clear()
+  })
+
+  it('notifies other store instances of saves and deletes', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    const tabA = createStore()
+    const tabB = createStore()
+    const listener = vi.fn()
+    const unsubscribe = tabB.subscribe!(listener)
+
+    await tabA.save(makeDoc('1'))
+    await waitFor(() => {
+      expect(listener).toHaveBeenCalledWith({ saved: [expect.objectContaining({ id: '1' })], removed: [] })
+    })
+
+    await tabA.delete('1')
+    await waitFor(() => {
+      expect(listener).toHaveBeenCalledWith({ saved: [], removed: ['1'] })
+    })
+    unsubscribe()
+  })
+
+  it('does not notify the instance that made the change', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    const tabA = createStore()
+    const tabB = createStore()
+    const ownListener = vi.fn()
+    const otherListener = vi.fn()
+    const unsubscribeOwn = tabA.subscribe!(ownListener)
+    const unsubscribeOther = tabB.subscribe!(otherListener)
+
+    await tabA.save(makeDoc('1'))
+
+    await waitFor(() => {
+      expect(otherListener).toHaveBeenCalled()
+    })
+    expect(ownListener).not.toHaveBeenCalled()
+    unsubscribeOwn()
+    unsubscribeOther()
+  })
+})
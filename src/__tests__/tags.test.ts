@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { countTags, getDocumentTags, normalizeTag, parseTagInput, renameTagInDocument } from '../utils/tags'
+import type { Document } from '../storage/types'
+
+function makeDoc(id: string, content: string, tags?: string[]): Document {
+  return { id, name: `Doc ${id}`, content, updatedAt: 1000, ...(tags ? { tags } : {}) }
+}
+
+describe('normalizeTag', () => {
+  it('lowercases, strips the hash and replaces spaces', () => {
+    expect(normalizeTag('  #Work ')).toBe('work')
+    expect(normalizeTag('Road Trip')).toBe('road-trip')
+  })
+})
+
+describe('parseTagInput', () => {
+  it('splits on commas and spaces and removes duplicates', () => {
+    expect(parseTagInput('work, #Ideas  work,,later')).toEqual(['work', 'ideas', 'later'])
+  })
+})
+
+describe('getDocumentTags', () => {
+  it('combines explicit tags, hashtags and front matter tags', () => {
+    const doc = makeDoc('1', '---\ntags: [Project, draft]\n---\n# Title\n\nNotes for #meeting and #project', ['Work'])
+    expect(getDocumentTags(doc)).toEqual(['draft', 'meeting', 'project', 'work'])
+  })
+
+  it('reads front matter tags as a list or a comma separated string', () => {
+    expect(getDocumentTags(makeDoc('1', '---\ntags:\n  - one\n  - two\n---\n'))).toEqual(['one', 'two'])
+    expect(getDocumentTags(makeDoc('2', '---\ntags: one, two\n---\n'))).toEqual(['one', 'two'])
+  })
+
+  it('ignores invalid front matter', () => {
+    expect(getDocumentTags(makeDoc('1', '---\ntags: [unclosed\n---\n'))).toEqual([])
+  })
+
+  it('does not treat headings, anchors, entities or numbers as hashtags', () => {
+    const content = [
+      '# Heading',
+      '## Another',
+      'See [the section](#details) or https://example.com/#top',
+      'Issue #42 and &#169;',
+      'word#inside',
+    ].join('\n')
+    expect(getDocumentTags(makeDoc('1', content))).toEqual([])
+  })
+
+  it('ignores hashtags in code', () => {
+    const content = 'Use `#notatag` here\n```\n#include <stdio.h>\n```\n#real'
+    expect(getDocumentTags(makeDoc('1', content))).toEqual(['real'])
+  })
+
+  it('supports nested and non-ASCII tags', () => {
+    expect(getDocumentTags(makeDoc('1', '#projects/web and #café'))).toEqual(['café', 'projects/web'])
+  })
+})
+
+describe('countTags', () => {
+  it('counts documents per tag', () => {
+    expect(countTags([
+      makeDoc('1', '#a #b #a'),
+      makeDoc('2', '#b', ['c']),
+    ])).toEqual([
+      { tag: 'a', count: 1 },
+      { tag: 'b', count: 2 },
+      { tag: 'c', count: 1 },
+    ])
+  })
+})
+
+describe('renameTagInDocument', () => {
+  it('returns the same document when it does not have the tag', () => {
+    const doc = makeDoc('1', '#other', ['more'])
+    expect(renameTagInDocument(doc, 'missing', 'new')).toBe(doc)
+  })
+
+  it('renames hashtags in the content', () => {
+    const doc = makeDoc('1', '#todo first\nthen #TODO again, not #todos or `#todo`')
+    expect(renameTagInDocument(doc, 'todo', 'next').content)
+      .toBe('#next first\nthen #next again, not #todos or `#todo`')
+  })
+
+  it('renames explicit tags and merges duplicates', () => {
+    const doc = makeDoc('1', '', ['draft', 'review'])
+    expect(renameTagInDocument(doc, 'draft', 'Review').tags).toEqual(['review'])
+  })
+
+  it('renames front matter tags in lists and strings', () => {
+    const list = makeDoc('1', '---\ntitle: Plan\ntags: [draft, work]\n---\nBody')
+    expect(renameTagInDocument(list, 'draft', 'final').content).toBe('---\ntitle: Plan\ntags: [ final, work ]\n---\nBody')
+
+    const text = makeDoc('2', '---\ntags: draft, work\n---\nBody')
+    expect(renameTagInDocument(text, 'draft', 'final').content).toBe('---\ntags: final, work\n---\nBody')
+  })
+
+  it('merges front matter tags into an existing one', () => {
+    const doc = makeDoc('1', '---\ntags:\n  - draft\n  - final\n---\n')
+    expect(getDocumentTags(renameTagInDocument(doc, 'draft', 'final'))).toEqual(['final'])
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { countTasks, toggleTask } from '../utils/tasks'
+
+describe('toggleTask', () => {
+  it('checks and unchecks the task on a line', () => {
+    const content = '- [ ] One\n- [x] Two'
+
+    expect(toggleTask(content, 0, true)).toBe('- [x] One\n- [x] Two')
+    expect(toggleTask(content, 1, false)).toBe('- [ ] One\n- [ ] Two')
+  })
+
+  it('handles other list markers, nesting and blockquotes', () => {
+    expect(toggleTask('  * [ ] nested', 0, true)).toBe('  * [x] nested')
+    expect(toggleTask('3. [ ] ordered', 0, true)).toBe('3. [x] ordered')
+    expect(toggleTask('> - [X] quoted', 0, false)).toBe('> - [ ] quoted')
+  })
+
+  it('leaves lines without a task unchanged', () => {
+    const content = 'Text [ ] here\n- [ ]no space\n- [link](url)'
+
+    expect(toggleTask(content, 0, true)).toBe(content)
+    expect(toggleTask(content, 1, true)).toBe(content)
+    expect(toggleTask(content, 2, true)).toBe(content)
+    expect(toggleTask(content, 5, true)).toBe(content)
+  })
+})
+
+describe('countTasks', () => {
+  it('counts checked and total tasks', () => {
+    expect(countTasks('- [x] a\n- [ ] b\n  - [X] c\n- plain')).toEqual({ done: 2, total: 3 })
+  })
+
+  it('ignores tasks in code blocks and front matter', () => {
+    const content = '---\nnote: "- [ ] no"\n---\n```md\n- [ ] example\n```\n- [ ] real'
+
+    expect(countTasks(content)).toEqual({ done: 0, total: 1 })
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { useAssets } from '../hooks/useAssets'
+import { createLocalStorageStore } from '../storage/localStorageStore'
+import { createMemoryStore } from '../storage/memoryStore'
+import type { DocumentStore } from '../storage/types'
+
+describe('useAssets', () => {
+  let store: DocumentStore
+  let createObjectURL: ReturnType<typeof vi.fn<(blob: Blob) => string>>
+  let revokeObjectURL: ReturnType<typeof vi.fn<(url: string) => void>>
+
+  beforeEach(() => {
+    store = createMemoryStore()
+    createObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:asset')
+    revokeObjectURL = vi.fn<(url: string) => void>()
+    URL.createObjectURL = createObjectURL
+    URL.revokeObjectURL = revokeObjectURL
+  })
+
+  it('stores images and returns markdown referencing them', async () => {
+    const { result } = renderHook(() => useAssets({ store }))
+    const files = [
+      new File([new Uint8Array([1, 2])], 'first.png', { type: 'image/png' }),
+      new File([new Uint8Array([3])], 'second.jpg', { type: 'image/jpeg' }),
+    ]
+
+    let markdown = ''
+    await act(async () => {
+      markdown = await result.current.addImages(files)
+    })
+
+    const assets = await store.assets!.list()
+    expect(assets.map(asset => asset.name).sort()).toEqual(['first.png', 'second.jpg'])
+    const first = assets.find(asset => asset.name === 'first.png')!
+    const second = assets.find(asset => asset.name === 'second.jpg')!
+    expect(markdown).toBe(`![first](notepad-asset://${first.id})\n![second](notepad-asset://${second.id})`)
+  })
+
+  it('resolves assets to object URLs once and revokes them on unmount', async () => {
+    await store.assets!.save({ id: 'a1', name: 'a.png', type: 'image/png', size: 1, data: new Uint8Array([1]).buffer, createdAt: 1 })
+    const { result, unmount } = renderHook(() => useAssets({ store }))
+
+    expect(await result.current.resolveAssetUrl('a1')).toBe('blob:asset')
+    expect(await result.current.resolveAssetUrl('a1')).toBe('blob:asset')
+    expect(createObjectURL).toHaveBeenCalledTimes(1)
+    expect(createObjectURL.mock.calls[0][0].type).toBe('image/png')
+    expect(await result.current.resolveAssetUrl('missing')).toBeNull()
+
+    unmount()
+    await Promise.resolve()
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:asset')
+  })
+
+  it('lists stored assets newest first and removes deleted ones', async () => {
+    const data = new Uint8Array([1]).buffer
+    await store.assets!.save({ id: 'old', name: 'old.png', type: 'image/png', size: 1, data, createdAt: 1 })
+    await store.assets!.save({ id: 'new', name: 'new.png', type: 'image/png', size: 1, data, createdAt: 2 })
+    const { result } = renderHook(() => useAssets({ store }))
+
+    await waitFor(() => {
+      expect(result.current.assets.map(asset => asset.id)).toEqual(['new', 'old'])
+    })
+    expect(result.current.assets[0]).not.toHaveProperty('data')
+
+    await act(async () => {
+      await result.current.deleteAssets(['old'])
+    })
+
+    expect(result.current.assets.map(asset => asset.id)).toEqual(['new'])
+    expect(await store.assets!.load('old')).toBeNull()
+  })
+
+  it('restores missing assets when merging and drops the others when replacing', async () => {
+    const data = new Uint8Array([1]).buffer
+    await store.assets!.save({ id: 'kept', name: 'kept.png', type: 'image/png', size: 1, data, createdAt: 1 })
+    const { result } = renderHook(() => useAssets({ store }))
+    await waitFor(() => {
+      expect(result.current.assets).toHaveLength(1)
+    })
+    const backedUp = { id: 'backup', name: 'backup.png', type: 'image/png', size: 1, data, createdAt: 2 }
+
+    await act(async () => {
+      await result.current.restoreAssets([backedUp], 'merge')
+    })
+    expect(result.current.assets.map(asset => asset.id)).toEqual(['backup', 'kept'])
+
+    await act(async () => {
+      await result.current.restoreAssets([backedUp], 'replace')
+    })
+    expect(result.current.assets.map(asset => asset.id)).toEqual(['backup'])
+    expect((await store.assets!.list()).map(asset => asset.id)).toEqual(['backup'])
+  })
+
+  it('reports stores that cannot hold assets', async () => {
+    const { result } = renderHook(() => useAssets({ store: createLocalStorageStore() }))
+
+    expect(result.current.isSupported).toBe(false)
+    expect(await result.current.loadAsset('a1')).toBeNull()
+    await expect(result.current.addImages([])).rejects.toThrow('Images cannot be stored in this browser')
+  })
+})
@@ -1,29 +1,32 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { renderHook, act, waitFor } from '@testing-library/react'
-import { useDocuments } from '../hooks/useDocuments'
-
-// Mock localStorage
-const localStorageMock = {
-  getItem: vi.fn(),
-  setItem: vi.fn(),
-  removeItem: vi.fn(),
+import { useDocuments, type Document, type Folder } from '../hooks/useDocuments'
+import { createMemoryStore } from '../storage/memoryStore'
+import { createLocalStorageStore, LOCAL_STORAGE_KEY } from '../storage/localStorageStore'
+import type { DocumentStore } from '../storage/types'
+
+async function renderDocuments(store: DocumentStore, debounceMs?: number) {
+  const hook = renderHook(() => useDocuments({ store, debounceMs }))
+  await waitFor(() => {
+    expect(hook.result.current.activeDocumentId).not.toBeNull()
+  })
+  return hook
 }
-Object.defineProperty(window, 'localStorage', {
-  value: localStorageMock,
-})
 
 describe('useDocuments', () => {
+  let store: DocumentStore
+
   beforeEach(() => {
-    vi.clearAllMocks()
-    localStorageMock.getItem.mockReturnValue(null)
+    store = createMemoryStore()
   })
 
   afterEach(() => {
     vi.useRealTimers()
+    vi.restoreAllMocks()
   })
 
-  it('should create initial document when localStorage is empty', () => {
-    const { result } = renderHook(() => useDocuments())
+  it('should create initial document when the store is empty', async () => {
+    const { result } = await renderDocuments(store)
 
     expect(result.current.documents).toHaveLength(1)
     expect(result.current.documents[0].name).toBe('Welcome')
@@ -31,33 +34,34 @@ describe('useDocuments', () => {
     expect(result.current.activeDocument).toBeDefined()
   })
 
-  it('should load documents from localStorage', () => {
-    const storedDocs = [
-      { id: '1', name: 'Doc 1', content: 'Content 1', updatedAt: Date.now() },
+  it('should load documents from the store', async () => {
+    const storedDocs: Document[] = [
       { id: '2', name: 'Doc 2', content: 'Content 2', updatedAt: Date.now() - 1000 },
+      { id: '1', name: 'Doc 1', content: 'Content 1', updatedAt: Date.now() },
     ]
-    localStorageMock.getItem.mockReturnValue(JSON.stringify(storedDocs))
+    store = createMemoryStore(storedDocs)
 
-    const { result } = renderHook(() => useDocuments())
+    const { result } = await renderDocuments(store)
 
     expect(result.current.documents).toHaveLength(2)
+    // Most recent document should be listed first and active
     expect(result.current.documents[0].name).toBe('Doc 1')
     expect(result.current.documents[1].name).toBe('Doc 2')
-    // Most recent document should be active
     expect(result.current.activeDocumentId).toBe('1')
   })
 
-  it('should handle localStorage parse errors gracefully', () => {
-    localStorageMock.getItem.mockReturnValue('invalid json')
+  it('should handle store load errors gracefully', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(store, 'list').mockRejectedValue(new Error('Broken'))
 
-    const { result } = renderHook(() => useDocuments())
+    const { result } = await renderDocuments(store)
 
     expect(result.current.documents).toHaveLength(1)
     expect(result.current.error).toBe('Failed to load documents')
   })
 
-  it('should create a new document', () => {
-    const { result } = renderHook(() => useDocuments())
+  it('should create a new document', async () => {
+    const { result } = await renderDocuments(store)
 
     act(() => {
       result.current.createDocument('New Document')
@@ -68,8 +72,8 @@ describe('useDocuments', () => {
     expect(result.current.activeDocumentId).toBe(result.current.documents[0].id)
   })
 
-  it('should create document with default name when no name provided', () => {
-    const { result } = renderHook(() => useDocuments())
+  it('should create document with default name when no name provided', async () => {
+    const { result } = await renderDocuments(store)
 
     act(() => {
       result.current.createDocument()
@@ -78,8 +82,8 @@ describe('useDocuments', () => {
     expect(result.current.documents[0].name).toBe('Untitled Document')
   })
 
-  it('should switch between documents', () => {
-    const { result } = renderHook(() => useDocuments())
+  it('should switch between documents', async () => {
+    const { result } = await renderDocuments(store)
 
     act(() => {
       result.current.createDocument('Second Doc')
@@ -98,8 +102,8 @@ describe('useDocuments', () => {
     expect(result.current.activeDocument?.name).toBe('Welcome')
   })
 
-  it('should rename a document', () => {
-    const { result } = renderHook(() => useDocuments())
+  it('should rename a document', async () => {
+    const { result } = await renderDocuments(store)
     const docId = result.current.documents[0].id
 
     act(() => {
@@ -109,8 +113,8 @@ describe('useDocuments', () => {
     expect(result.current.documents[0].name).toBe('Renamed Document')
   })
 
-  it('should not rename with empty name', () => {
-    const { result } = renderHook(() => useDocuments())
+  it('should not rename with empty name', async () => {
+    const { result } = await renderDocuments(store)
     const originalName = result.current.documents[0].name
     const docId = result.current.documents[0].id
 
@@ -121,8 +125,8 @@ describe('useDocuments', () => {
     expect(result.current.documents[0].name).toBe(originalName)
   })
 
-  it('should trim whitespace from renamed document', () => {
-    const { result } = renderHook(() => useDocuments())
+  it('should trim whitespace from renamed document', async () => {
+    const { result } = await renderDocuments(store)
     const docId = result.current.documents[0].id
 
     act(() => {
@@ -132,8 +136,44 @@ describe('useDocuments', () => {
     expect(result.current.documents[0].name).toBe('New Name')
   })
 
-  it('should delete a document', () => {
-    const { result } = renderHook(() => useDocuments())
+  it('should update wiki links to a renamed document', async () => {
+    store = createMemoryStore([
+      { id: 'a', name: 'Plan', content: 'The plan', updatedAt: 1000 },
+      { id: 'b', name: 'Notes', content: 'See [[plan#Goals|goals]] and `[[Plan]]`', updatedAt: 2000 },
+      { id: 'c', name: 'Other', content: 'Nothing linked', updatedAt: 3000 },
+    ])
+    const saveSpy = vi.spyOn(store, 'save')
+    const { result } = await renderDocuments(store, 10)
+
+    act(() => {
+      result.current.renameDocument('a', 'Roadmap')
+    })
+
+    expect(result.current.documents.find(doc => doc.id === 'b')?.content)
+      .toBe('See [[Roadmap#Goals|goals]] and `[[Plan]]`')
+    await waitFor(() => {
+      expect(result.current.status).toBe('saved')
+    })
+    expect(saveSpy.mock.calls.map(([doc]) => doc.id).sort()).toEqual(['a', 'b'])
+  })
+
+  it('should keep links when another document still has the old name', async () => {
+    store = createMemoryStore([
+      { id: 'a', name: 'Plan', content: '', updatedAt: 1000 },
+      { id: 'b', name: 'plan', content: '', updatedAt: 2000 },
+      { id: 'c', name: 'Notes', content: '[[Plan]]', updatedAt: 3000 },
+    ])
+    const { result } = await renderDocuments(store, 10)
+
+    act(() => {
+      result.current.renameDocument('a', 'Roadmap')
+    })
+
+    expect(result.current.documents.find(doc => doc.id === 'c')?.content).toBe('[[Plan]]')
+  })
+
+  it('should delete a document', async () => {
+    const { result } = await renderDocuments(store)
 
     act(() => {
       result.current.createDocument('Second Doc')
@@ -151,8 +191,8 @@ describe('useDocuments', () => {
     expect(result.current.documents[0].name).toBe('Welcome')
   })
 
-  it('should create new document when last document is deleted', () => {
-    const { result } = renderHook(() => useDocuments())
+  it('should create new document when last document is deleted', async () => {
+    const { result } = await renderDocuments(store)
     const docId = result.current.documents[0].id
 
     act(() => {
@@ -163,8 +203,8 @@ describe('useDocuments', () => {
     expect(result.current.documents[0].name).toBe('Untitled Document')
   })
 
-  it('should switch to another document when active document is deleted', () => {
-    const { result } = renderHook(() => useDocuments())
+  it('should switch to another document when active document is deleted', async () => {
+    const { result } = await renderDocuments(store)
 
     act(() => {
       result.current.createDocument('Second Doc')
@@ -186,7 +226,7 @@ describe('useDocuments', () => {
 
   it('should update document content', async () => {
     vi.useFakeTimers({ shouldAdvanceTime: true })
-    const { result } = renderHook(() => useDocuments({ debounceMs: 100 }))
+    const { result } = await renderDocuments(store, 100)
 
     act(() => {
       result.current.updateDocumentContent('New content')
@@ -205,9 +245,10 @@ describe('useDocuments', () => {
     expect(result.current.documents[0].content).toBe('New content')
   })
 
-  it('should save documents to localStorage with debounce', async () => {
+  it('should save documents to the store with debounce', async () => {
     vi.useFakeTimers({ shouldAdvanceTime: true })
-    const { result } = renderHook(() => useDocuments({ debounceMs: 400 }))
+    const saveSpy = vi.spyOn(store, 'save')
+    const { result } = await renderDocuments(store, 400)
 
     act(() => {
       result.current.updateDocumentContent('Content 1')
@@ -218,29 +259,90 @@ describe('useDocuments', () => {
     })
 
     // Should not have saved yet
-    expect(localStorageMock.setItem).not.toHaveBeenCalled()
+    expect(saveSpy).not.toHaveBeenCalled()
 
     act(() => {
       vi.advanceTimersByTime(200)
     })
 
     await waitFor(() => {
-      expect(localStorageMock.setItem).toHaveBeenCalled()
+      expect(saveSpy).toHaveBeenCalled()
+    })
+
+    expect(saveSpy.mock.calls[0][0].content).toBe('Content 1')
+  })
+
+  it('should write only the changed document', async () => {
+    store = createMemoryStore([
+      { id: 'a', name: 'First', content: 'one', updatedAt: 1000 },
+      { id: 'b', name: 'Second', content: 'two', updatedAt: 2000 },
+    ])
+    const saveSpy = vi.spyOn(store, 'save')
+    const { result } = await renderDocuments(store, 10)
+
+    act(() => {
+      result.current.updateDocumentContent('changed')
+    })
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('saved')
+    })
+    expect(saveSpy).toHaveBeenCalledTimes(1)
+    expect(saveSpy.mock.calls[0][0]).toMatchObject({ id: 'b', content: 'changed' })
+    expect((await store.load('a'))?.content).toBe('one')
+  })
+
+  it('should keep deleted documents in the store until purged', async () => {
+    store = createMemoryStore([
+      { id: 'a', name: 'First', content: '', updatedAt: 1000 },
+      { id: 'b', name: 'Second', content: '', updatedAt: 2000 },
+    ])
+    const { result } = await renderDocuments(store, 10)
+
+    act(() => {
+      result.current.deleteDocument('a')
+    })
+
+    await waitFor(async () => {
+      expect((await store.load('a'))?.deletedAt).toBeDefined()
+    })
+
+    act(() => {
+      result.current.purgeDocument('a')
     })
 
-    const savedData = JSON.parse(localStorageMock.setItem.mock.calls[0][1])
-    expect(savedData[0].content).toBe('Content 1')
+    await waitFor(async () => {
+      expect((await store.list()).map(doc => doc.id)).toEqual(['b'])
+    })
+  })
+
+  it('should save pending changes immediately with saveNow', async () => {
+    const { result } = await renderDocuments(store, 10000)
+
+    act(() => {
+      result.current.updateDocumentContent('Saved right away')
+    })
+
+    act(() => {
+      result.current.saveNow()
+    })
+
+    await waitFor(async () => {
+      expect((await store.list())[0]?.content).toBe('Saved right away')
+    })
+    expect(result.current.saveFeedback).toEqual({ show: true, message: 'Saved!' })
   })
 
   it('should handle storage quota exceeded error', async () => {
     vi.useFakeTimers({ shouldAdvanceTime: true })
-    localStorageMock.setItem.mockImplementation(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(store, 'save').mockImplementation(async () => {
       const error = new Error('Quota exceeded')
       error.name = 'QuotaExceededError'
       throw error
     })
 
-    const { result } = renderHook(() => useDocuments({ debounceMs: 100 }))
+    const { result } = await renderDocuments(store, 100)
 
     act(() => {
       result.current.updateDocumentContent('Content')
@@ -252,14 +354,76 @@ describe('useDocuments', () => {
 
     await waitFor(() => {
       expect(result.current.status).toBe('error')
-      expect(result.current.error).toBe('Storage is full. Please delete some documents.')
+      expect(result.current.error).toMatch(
+        /^Storage is full: documents use \d+ B and attachments use 0 B\. Please delete some documents or unused attachments\.$/
+      )
+      expect(result.current.isStorageFull).toBe(true)
     })
   })
 
+  it('reports the space taken by attachments when storage is full', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    await store.assets!.save({ id: 'a1', name: 'a.png', type: 'image/png', size: 3 * 1024 * 1024, data: new ArrayBuffer(1), createdAt: 1 })
+    vi.spyOn(store, 'save').mockImplementation(async () => {
+      const error = new Error('Quota exceeded')
+      error.name = 'QuotaExceededError'
+      throw error
+    })
+
+    const { result } = await renderDocuments(store, 10)
+    act(() => {
+      result.current.updateDocumentContent('Content')
+    })
+
+    await waitFor(() => {
+      expect(result.current.error).toContain('attachments use 3.0 MB')
+    })
+  })
+
+  it('only marks quota errors as storage being full', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(store, 'save').mockRejectedValue(new Error('Offline'))
+
+    const { result } = await renderDocuments(store, 10)
+    act(() => {
+      result.current.updateDocumentContent('Content')
+    })
+
+    await waitFor(() => {
+      expect(result.current.error).toBe('Failed to save documents')
+    })
+    expect(result.current.isStorageFull).toBe(false)
+  })
+
+  it('should retry failed changes on the next save', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const saveSpy = vi.spyOn(store, 'save').mockRejectedValueOnce(new Error('Offline'))
+    const { result } = await renderDocuments(store, 10)
+    const firstId = result.current.documents[0].id
+
+    act(() => {
+      result.current.updateDocumentContent('First attempt')
+    })
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('error')
+    })
+
+    act(() => {
+      result.current.createDocument('Another')
+    })
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('saved')
+    })
+    expect(saveSpy.mock.calls.map(([doc]) => doc.id)).toContain(firstId)
+    expect((await store.load(firstId))?.content).toBe('First attempt')
+  })
+
   it('should update updatedAt timestamp when content changes', async () => {
     vi.useFakeTimers({ shouldAdvanceTime: true })
-    const { result } = renderHook(() => useDocuments({ debounceMs: 100 }))
-    
+    const { result } = await renderDocuments(store, 100)
+
     const originalTimestamp = result.current.documents[0].updatedAt
 
     // Wait a bit to ensure timestamp changes
@@ -280,9 +444,9 @@ describe('useDocuments', () => {
     })
   })
 
-  it('should update updatedAt timestamp when renamed', () => {
+  it('should update updatedAt timestamp when renamed', async () => {
     vi.useFakeTimers({ shouldAdvanceTime: true })
-    const { result } = renderHook(() => useDocuments())
+    const { result } = await renderDocuments(store)
     const originalTimestamp = result.current.documents[0].updatedAt
     const docId = result.current.documents[0].id
 
@@ -297,4 +461,737 @@ describe('useDocuments', () => {
 
     expect(result.current.documents[0].updatedAt).toBeGreaterThan(originalTimestamp)
   })
+
+  describe('version history', () => {
+    it('should snapshot the active document on saveNow', async () => {
+      const { result } = await renderDocuments(store, 10)
+
+      act(() => {
+        result.current.updateDocumentContent('Version 1')
+      })
+      act(() => {
+        result.current.saveNow()
+      })
+
+      expect(result.current.history).toHaveLength(1)
+      expect(result.current.history[0]).toMatchObject({ content: 'Version 1', reason: 'manual' })
+      await waitFor(async () => {
+        expect(await store.listSnapshots(result.current.activeDocumentId!)).toHaveLength(1)
+      })
+    })
+
+    it('should not snapshot unchanged content twice', async () => {
+      const { result } = await renderDocuments(store, 10)
+
+      act(() => {
+        result.current.updateDocumentContent('Same')
+      })
+      act(() => {
+        result.current.saveNow()
+      })
+      act(() => {
+        result.current.saveNow()
+      })
+
+      expect(result.current.history).toHaveLength(1)
+    })
+
+    it('should snapshot the previous content periodically while typing', async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true })
+      store = createMemoryStore([
+        { id: 'a', name: 'Doc', content: 'Original', updatedAt: 1000 },
+      ])
+      const { result } = await renderDocuments(store, 10)
+
+      act(() => {
+        result.current.updateDocumentContent('Original edited')
+      })
+
+      // The first edit records the content from before the edit
+      expect(result.current.history).toHaveLength(1)
+      expect(result.current.history[0]).toMatchObject({ content: 'Original', reason: 'auto' })
+
+      act(() => {
+        result.current.updateDocumentContent('Original edited again')
+      })
+
+      // Within the interval no new snapshot is taken
+      expect(result.current.history).toHaveLength(1)
+
+      act(() => {
+        vi.advanceTimersByTime(5 * 60 * 1000)
+      })
+      act(() => {
+        result.current.updateDocumentContent('Much later')
+      })
+
+      expect(result.current.history).toHaveLength(2)
+      expect(result.current.history[0].content).toBe('Original edited again')
+    })
+
+    it('should load existing snapshots for the active document', async () => {
+      store = createMemoryStore([
+        { id: 'a', name: 'Doc', content: 'Current', updatedAt: 1000 },
+      ])
+      await store.saveSnapshot({ id: 's1', documentId: 'a', name: 'Doc', content: 'Old', createdAt: 1, reason: 'manual' })
+
+      const { result } = await renderDocuments(store)
+
+      await waitFor(() => {
+        expect(result.current.history).toHaveLength(1)
+      })
+      expect(result.current.history[0].content).toBe('Old')
+    })
+
+    it('should restore a snapshot and keep the replaced content in history', async () => {
+      store = createMemoryStore([
+        { id: 'a', name: 'Doc', content: 'Current', updatedAt: 1000 },
+      ])
+      await store.saveSnapshot({ id: 's1', documentId: 'a', name: 'Doc', content: 'Old', createdAt: 1, reason: 'manual' })
+      const { result } = await renderDocuments(store)
+      await waitFor(() => {
+        expect(result.current.history).toHaveLength(1)
+      })
+
+      act(() => {
+        result.current.restoreSnapshot('s1')
+      })
+
+      expect(result.current.activeDocument?.content).toBe('Old')
+      expect(result.current.history[0]).toMatchObject({ content: 'Current', reason: 'restore' })
+      await waitFor(async () => {
+        expect((await store.load('a'))?.content).toBe('Old')
+      })
+    })
+
+    it('should remove snapshots when a document is purged', async () => {
+      store = createMemoryStore([
+        { id: 'a', name: 'Doc A', content: 'A', updatedAt: 2000 },
+        { id: 'b', name: 'Doc B', content: 'B', updatedAt: 1000 },
+      ])
+      await store.saveSnapshot({ id: 's1', documentId: 'a', name: 'Doc A', content: 'Old', createdAt: 1, reason: 'manual' })
+      const { result } = await renderDocuments(store)
+
+      act(() => {
+        result.current.deleteDocument('a')
+      })
+
+      // Trashed documents keep their history
+      expect(await store.listSnapshots('a')).toHaveLength(1)
+
+      act(() => {
+        result.current.purgeDocument('a')
+      })
+
+      await waitFor(async () => {
+        expect(await store.listSnapshots('a')).toHaveLength(0)
+      })
+    })
+  })
+
+  describe('import', () => {
+    it('adds imported documents and opens the first', async () => {
+      const { result } = await renderDocuments(store, 10)
+
+      let ids: string[] = []
+      act(() => {
+        ids = result.current.importDocuments([
+          { name: 'First', content: '# One' },
+          { name: 'Second', content: '# Two' },
+        ])
+      })
+
+      expect(ids).toHaveLength(2)
+      expect(result.current.documents.slice(0, 2).map(doc => doc.name)).toEqual(['First', 'Second'])
+      expect(result.current.activeDocument?.content).toBe('# One')
+      await waitFor(async () => {
+        expect((await store.load(ids[1]))?.content).toBe('# Two')
+      })
+    })
+
+    it('overwrites a document and keeps its previous content in history', async () => {
+      store = createMemoryStore([{ id: 'a', name: 'Notes', content: 'Old', updatedAt: 1000 }])
+      const { result } = await renderDocuments(store, 10)
+
+      act(() => {
+        result.current.importDocuments([{ name: 'Notes', content: 'New', replaceId: 'a' }])
+      })
+
+      expect(result.current.documents).toHaveLength(1)
+      expect(result.current.activeDocument?.content).toBe('New')
+      expect(result.current.history[0]).toMatchObject({ content: 'Old', reason: 'import' })
+      await waitFor(async () => {
+        expect((await store.load('a'))?.content).toBe('New')
+      })
+    })
+  })
+
+  describe('restore from backup', () => {
+    const work: Folder = { id: 'work', name: 'Work', parentId: null, updatedAt: 1000 }
+
+    beforeEach(() => {
+      store = createMemoryStore([
+        { id: 'a', name: 'Notes', content: 'Local notes', updatedAt: 2000 },
+        { id: 'b', name: 'Plan', content: 'Local plan', updatedAt: 2000 },
+      ], [work])
+    })
+
+    it('merges newer and missing documents and keeps the rest', async () => {
+      const { result } = await renderDocuments(store, 10)
+
+      act(() => {
+        result.current.restoreBackup({
+          documents: [
+            { id: 'a', name: 'Notes', content: 'Older notes', updatedAt: 1000 },
+            { id: 'b', name: 'Plan', content: 'Newer plan', updatedAt: 3000 },
+            { id: 'c', name: 'Ideas', content: 'Ideas', updatedAt: 500, folderId: 'home' },
+          ],
+          folders: [{ id: 'home', name: 'Home', parentId: null, updatedAt: 500 }],
+        }, 'merge')
+      })
+
+      const contents = Object.fromEntries(result.current.documents.map(doc => [doc.id, doc.content]))
+      expect(contents).toEqual({ a: 'Local notes', b: 'Newer plan', c: 'Ideas' })
+      expect(result.current.folders.map(folder => folder.id)).toEqual(['work', 'home'])
+      await waitFor(async () => {
+        expect((await store.load('b'))?.content).toBe('Newer plan')
+        expect(await store.load('c')).not.toBeNull()
+        expect(await store.listSnapshots('b')).toEqual([
+          expect.objectContaining({ content: 'Local plan', reason: 'backup' }),
+        ])
+      })
+    })
+
+    it('replaces every document and folder with those in the backup', async () => {
+      const { result } = await renderDocuments(store, 10)
+
+      act(() => {
+        result.current.restoreBackup({
+          documents: [
+            { id: 'a', name: 'Notes', content: 'Backed up notes', updatedAt: 1000 },
+            { id: 'c', name: 'Old', content: 'Trashed', updatedAt: 500, deletedAt: 600 },
+          ],
+          folders: [],
+        }, 'replace')
+      })
+
+      expect(result.current.documents.map(doc => doc.content)).toEqual(['Backed up notes'])
+      expect(result.current.trashedDocuments.map(doc => doc.id)).toEqual(['c'])
+      expect(result.current.activeDocumentId).toBe('a')
+      expect(result.current.folders).toEqual([])
+      await waitFor(async () => {
+        expect((await store.list()).map(doc => doc.id).sort()).toEqual(['a', 'c'])
+        expect(await store.listFolders()).toEqual([])
+      })
+    })
+
+    it('creates a document when the backup only has trashed ones', async () => {
+      const { result } = await renderDocuments(store, 10)
+
+      act(() => {
+        result.current.restoreBackup({
+          documents: [{ id: 'c', name: 'Old', content: '', updatedAt: 500, deletedAt: 600 }],
+          folders: [],
+        }, 'replace')
+      })
+
+      expect(result.current.documents).toHaveLength(1)
+      expect(result.current.activeDocumentId).toBe(result.current.documents[0].id)
+    })
+  })
+
+  describe('trash', () => {
+    it('should move deleted documents to the trash', async () => {
+      const { result } = await renderDocuments(store)
+
+      act(() => {
+        result.current.createDocument('Second Doc')
+      })
+      const secondId = result.current.documents[0].id
+
+      act(() => {
+        result.current.deleteDocument(secondId)
+      })
+
+      expect(result.current.documents.map(doc => doc.id)).not.toContain(secondId)
+      expect(result.current.trashedDocuments).toHaveLength(1)
+      expect(result.current.trashedDocuments[0].name).toBe('Second Doc')
+      expect(result.current.trashedDocuments[0].deletedAt).toBeDefined()
+    })
+
+    it('should restore a document from the trash', async () => {
+      const { result } = await renderDocuments(store)
+
+      act(() => {
+        result.current.createDocument('Second Doc')
+      })
+      const secondId = result.current.documents[0].id
+
+      act(() => {
+        result.current.deleteDocument(secondId)
+      })
+      act(() => {
+        result.current.restoreDocument(secondId)
+      })
+
+      expect(result.current.trashedDocuments).toHaveLength(0)
+      expect(result.current.documents.map(doc => doc.id)).toContain(secondId)
+      await waitFor(async () => {
+        expect((await store.load(secondId))?.deletedAt).toBeUndefined()
+      })
+    })
+
+    it('should empty the trash', async () => {
+      store = createMemoryStore([
+        { id: 'a', name: 'A', content: '', updatedAt: 3000 },
+        { id: 'b', name: 'B', content: '', updatedAt: 2000, deletedAt: Date.now() },
+        { id: 'c', name: 'C', content: '', updatedAt: 1000, deletedAt: Date.now() },
+      ])
+      const { result } = await renderDocuments(store, 10)
+
+      expect(result.current.trashedDocuments).toHaveLength(2)
+
+      act(() => {
+        result.current.emptyTrash()
+      })
+
+      expect(result.current.trashedDocuments).toHaveLength(0)
+      await waitFor(async () => {
+        expect((await store.list()).map(doc => doc.id)).toEqual(['a'])
+      })
+    })
+
+    it('should not purge documents that are not in the trash', async () => {
+      const { result } = await renderDocuments(store)
+      const docId = result.current.documents[0].id
+
+      act(() => {
+        result.current.purgeDocument(docId)
+      })
+
+      expect(result.current.documents).toHaveLength(1)
+    })
+
+    it('should purge documents older than the retention period on load', async () => {
+      const day = 24 * 60 * 60 * 1000
+      store = createMemoryStore([
+        { id: 'a', name: 'A', content: '', updatedAt: 3000 },
+        { id: 'old', name: 'Old', content: '', updatedAt: 2000, deletedAt: Date.now() - 10 * day },
+        { id: 'recent', name: 'Recent', content: '', updatedAt: 1000, deletedAt: Date.now() - 2 * day },
+      ])
+
+      const hook = renderHook(() => useDocuments({ store, trashRetentionDays: 7 }))
+      await waitFor(() => {
+        expect(hook.result.current.activeDocumentId).toBe('a')
+      })
+
+      expect(hook.result.current.trashedDocuments.map(doc => doc.id)).toEqual(['recent'])
+      await waitFor(async () => {
+        expect(await store.load('old')).toBeNull()
+      })
+    })
+
+    it('should create a new document when only trashed documents exist', async () => {
+      store = createMemoryStore([
+        { id: 'b', name: 'B', content: '', updatedAt: 2000, deletedAt: Date.now() },
+      ])
+
+      const { result } = await renderDocuments(store)
+
+      expect(result.current.documents).toHaveLength(1)
+      expect(result.current.documents[0].name).toBe('Welcome')
+      expect(result.current.trashedDocuments).toHaveLength(1)
+    })
+  })
+
+  describe('folders', () => {
+    beforeEach(() => {
+      store = createMemoryStore(
+        [
+          { id: 'a', name: 'A', content: '', updatedAt: 1000, folderId: 'work' },
+          { id: 'b', name: 'B', content: '', updatedAt: 2000 },
+        ],
+        [
+          { id: 'work', name: 'Work', parentId: null, updatedAt: 1000 },
+          { id: 'meetings', name: 'Meetings', parentId: 'work', updatedAt: 1000 },
+        ]
+      )
+    })
+
+    it('should load folders from the store', async () => {
+      const { result } = await renderDocuments(store)
+
+      expect(result.current.folders.map(folder => folder.name).sort()).toEqual(['Meetings', 'Work'])
+    })
+
+    it('should create, rename and save folders', async () => {
+      const { result } = await renderDocuments(store, 10)
+
+      let id = ''
+      act(() => {
+        id = result.current.createFolder('Ideas', 'work')
+      })
+      act(() => {
+        result.current.renameFolder(id, '  Drafts  ')
+      })
+
+      expect(result.current.folders.find(folder => folder.id === id)).toMatchObject({
+        name: 'Drafts',
+        parentId: 'work',
+      })
+      await waitFor(async () => {
+        const saved = await store.listFolders()
+        expect(saved.find(folder => folder.id === id)?.name).toBe('Drafts')
+      })
+    })
+
+    it('should create documents inside a folder', async () => {
+      const { result } = await renderDocuments(store)
+
+      let id = ''
+      act(() => {
+        id = result.current.createDocument('Agenda', 'meetings')
+      })
+
+      expect(result.current.documents.find(doc => doc.id === id)?.folderId).toBe('meetings')
+    })
+
+    it('should move documents between folders and to the top level', async () => {
+      const { result } = await renderDocuments(store, 10)
+
+      act(() => {
+        result.current.moveDocument('b', 'meetings')
+      })
+      expect(result.current.documents.find(doc => doc.id === 'b')?.folderId).toBe('meetings')
+
+      act(() => {
+        result.current.moveDocument('a', null)
+      })
+      expect(result.current.documents.find(doc => doc.id === 'a')).not.toHaveProperty('folderId')
+
+      await waitFor(async () => {
+        expect((await store.load('b'))?.folderId).toBe('meetings')
+        expect((await store.load('a'))?.folderId).toBeUndefined()
+      })
+    })
+
+    it('should nest folders but not inside themselves', async () => {
+      const { result } = await renderDocuments(store)
+
+      act(() => {
+        result.current.moveFolder('work', 'meetings')
+      })
+      expect(result.current.folders.find(folder => folder.id === 'work')?.parentId).toBeNull()
+
+      act(() => {
+        result.current.moveFolder('meetings', null)
+      })
+      expect(result.current.folders.find(folder => folder.id === 'meetings')?.parentId).toBeNull()
+    })
+
+    it('should move the contents of a deleted folder to its parent', async () => {
+      const { result } = await renderDocuments(store, 10)
+
+      act(() => {
+        result.current.moveDocument('b', 'meetings')
+      })
+      act(() => {
+        result.current.deleteFolder('work')
+      })
+
+      expect(result.current.folders.map(folder => folder.id)).toEqual(['meetings'])
+      expect(result.current.folders[0].parentId).toBeNull()
+      expect(result.current.documents.find(doc => doc.id === 'a')).not.toHaveProperty('folderId')
+      expect(result.current.documents.find(doc => doc.id === 'b')?.folderId).toBe('meetings')
+
+      await waitFor(async () => {
+        expect((await store.listFolders()).map(folder => folder.id)).toEqual(['meetings'])
+        expect((await store.load('a'))?.folderId).toBeUndefined()
+      })
+    })
+  })
+
+  describe('tags', () => {
+    it('should set normalized tags on a document', async () => {
+      const { result } = await renderDocuments(store, 10)
+      const id = result.current.documents[0].id
+
+      act(() => {
+        result.current.setDocumentTags(id, ['#Work', 'work', ' ideas '])
+      })
+
+      expect(result.current.documents[0].tags).toEqual(['work', 'ideas'])
+      await waitFor(async () => {
+        expect((await store.load(id))?.tags).toEqual(['work', 'ideas'])
+      })
+    })
+
+    it('should rename a tag across all documents', async () => {
+      store = createMemoryStore([
+        { id: 'a', name: 'A', content: 'Notes #draft', updatedAt: 1000 },
+        { id: 'b', name: 'B', content: '---\ntags: [draft]\n---\n', updatedAt: 2000, tags: ['final'] },
+        { id: 'c', name: 'C', content: 'Untagged', updatedAt: 3000 },
+      ])
+      const saveSpy = vi.spyOn(store, 'save')
+      const { result } = await renderDocuments(store, 10)
+
+      let changed = 0
+      act(() => {
+        changed = result.current.renameTag('draft', 'final')
+      })
+
+      expect(changed).toBe(2)
+      expect(result.current.documents.find(doc => doc.id === 'a')?.content).toBe('Notes #final')
+      expect(result.current.documents.find(doc => doc.id === 'b')?.content).toBe('---\ntags: [ final ]\n---\n')
+      await waitFor(() => {
+        expect(result.current.status).toBe('saved')
+      })
+      expect(saveSpy.mock.calls.map(([doc]) => doc.id).sort()).toEqual(['a', 'b'])
+    })
+  })
+
+  describe('multi-tab sync', () => {
+    const sharedDoc: Document = { id: 'a', name: 'Shared', content: 'Original', updatedAt: 1000 }
+
+    // Two store instances over the same localStorage behave like two tabs
+    async function renderTabs(debounceA = 10, debounceB = 10) {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify([sharedDoc]))
+      const tabA = await renderDocuments(createLocalStorageStore(), debounceA)
+      const tabB = await renderDocuments(createLocalStorageStore(), debounceB)
+      return { tabA: tabA.result, tabB: tabB.result }
+    }
+
+    afterEach(() => {
+      localStorage.clear()
+    })
+
+    it('should show documents created in another tab', async () => {
+      const { tabA, tabB } = await renderTabs()
+
+      act(() => {
+        tabA.current.createDocument('From A')
+      })
+
+      await waitFor(() => {
+        expect(tabB.current.documents.map(doc => doc.name)).toContain('From A')
+      })
+      // The other tab keeps its own active document
+      expect(tabB.current.activeDocumentId).toBe('a')
+    })
+
+    it('should apply renames and edits from another tab', async () => {
+      const { tabA, tabB } = await renderTabs()
+
+      act(() => {
+        tabA.current.renameDocument('a', 'Renamed')
+      })
+      act(() => {
+        tabA.current.updateDocumentContent('Edited in A')
+      })
+
+      await waitFor(() => {
+        expect(tabB.current.activeDocument?.name).toBe('Renamed')
+        expect(tabB.current.activeDocument?.content).toBe('Edited in A')
+      })
+      expect(tabB.current.conflicts).toEqual([])
+    })
+
+    it('should switch away from a document trashed in another tab', async () => {
+      const { tabA, tabB } = await renderTabs()
+
+      act(() => {
+        tabA.current.createDocument('From A')
+      })
+      await waitFor(() => {
+        expect(tabB.current.documents).toHaveLength(2)
+      })
+
+      act(() => {
+        tabA.current.deleteDocument('a')
+      })
+
+      await waitFor(() => {
+        expect(tabB.current.trashedDocuments.map(doc => doc.id)).toEqual(['a'])
+      })
+      expect(tabB.current.activeDocument?.name).toBe('From A')
+    })
+
+    it('should remove documents purged in another tab', async () => {
+      const { tabA, tabB } = await renderTabs()
+
+      act(() => {
+        tabA.current.createDocument('From A')
+      })
+      act(() => {
+        tabA.current.deleteDocument('a')
+      })
+      await waitFor(() => {
+        expect(tabB.current.trashedDocuments).toHaveLength(1)
+      })
+
+      act(() => {
+        tabA.current.purgeDocument('a')
+      })
+
+      await waitFor(() => {
+        expect(tabB.current.trashedDocuments).toHaveLength(0)
+      })
+    })
+
+    it('should apply folder changes from another tab', async () => {
+      const { tabA, tabB } = await renderTabs()
+
+      let id = ''
+      act(() => {
+        id = tabA.current.createFolder('Shared folder')
+      })
+      act(() => {
+        tabA.current.moveDocument('a', id)
+      })
+
+      await waitFor(() => {
+        expect(tabB.current.folders.map(folder => folder.name)).toEqual(['Shared folder'])
+        expect(tabB.current.activeDocument?.folderId).toBe(id)
+      })
+
+      act(() => {
+        tabA.current.deleteFolder(id)
+      })
+
+      await waitFor(() => {
+        expect(tabB.current.folders).toEqual([])
+      })
+    })
+
+    it('should report a conflict when both tabs edit the same document', async () => {
+      // Tab B's edit is still waiting to be saved when tab A saves
+      const { tabA, tabB } = await renderTabs(10, 60_000)
+
+      act(() => {
+        tabB.current.updateDocumentContent('Edited in B')
+      })
+      act(() => {
+        tabA.current.updateDocumentContent('Edited in A')
+      })
+
+      await waitFor(() => {
+        expect(tabB.current.conflicts).toHaveLength(1)
+      })
+      expect(tabB.current.conflicts[0].documentId).toBe('a')
+      expect(tabB.current.conflicts[0].theirs.content).toBe('Edited in A')
+      // Unsaved local edits are not overwritten
+      expect(tabB.current.activeDocument?.content).toBe('Edited in B')
+    })
+
+    it('should load the other tab\'s version when resolving with theirs', async () => {
+      const { tabA, tabB } = await renderTabs(10, 60_000)
+
+      act(() => {
+        tabB.current.updateDocumentContent('Edited in B')
+      })
+      act(() => {
+        tabA.current.updateDocumentContent('Edited in A')
+      })
+      await waitFor(() => {
+        expect(tabB.current.conflicts).toHaveLength(1)
+      })
+
+      act(() => {
+        tabB.current.resolveConflict('a', 'theirs')
+      })
+
+      expect(tabB.current.conflicts).toEqual([])
+      expect(tabB.current.activeDocument?.content).toBe('Edited in A')
+    })
+
+    it('should hold back conflicting edits until resolved, with a real debounce', async () => {
+      // Both tabs use the app's debounce, so tab B's save runs shortly after tab A's
+      const { tabA, tabB } = await renderTabs(400, 400)
+      const stored = async () => (await createLocalStorageStore().load('a'))?.content
+
+      act(() => {
+        tabA.current.updateDocumentContent('Edited in A')
+      })
+      // Tab A's save reaches tab B while tab B's is still pending
+      await new Promise(resolve => setTimeout(resolve, 100))
+      act(() => {
+        tabB.current.updateDocumentContent('Edited in B')
+      })
+      await waitFor(() => {
+        expect(tabB.current.conflicts).toHaveLength(1)
+      })
+      // Well past tab B's debounced save, which must not have written its version
+      await new Promise(resolve => setTimeout(resolve, 600))
+      expect(await stored()).toBe('Edited in A')
+      expect(tabA.current.activeDocument?.content).toBe('Edited in A')
+      expect(tabB.current.activeDocument?.content).toBe('Edited in B')
+
+      act(() => {
+        tabB.current.resolveConflict('a', 'theirs')
+      })
+      await waitFor(async () => {
+        expect(await stored()).toBe('Edited in A')
+      })
+      expect(tabB.current.activeDocument?.content).toBe('Edited in A')
+
+      act(() => {
+        tabB.current.updateDocumentContent('Edited in B again')
+      })
+      await waitFor(async () => {
+        expect(await stored()).toBe('Edited in B again')
+        expect(tabA.current.activeDocument?.content).toBe('Edited in B again')
+      })
+    })
+
+    it('should write the local version when resolving with mine, with a real debounce', async () => {
+      const { tabA, tabB } = await renderTabs(400, 400)
+      const stored = async () => (await createLocalStorageStore().load('a'))?.content
+
+      act(() => {
+        tabA.current.updateDocumentContent('Edited in A')
+      })
+      // Tab A's save reaches tab B while tab B's is still pending
+      await new Promise(resolve => setTimeout(resolve, 100))
+      act(() => {
+        tabB.current.updateDocumentContent('Edited in B')
+      })
+      await waitFor(() => {
+        expect(tabB.current.conflicts).toHaveLength(1)
+      })
+      await new Promise(resolve => setTimeout(resolve, 600))
+      expect(await stored()).toBe('Edited in A')
+
+      act(() => {
+        tabB.current.resolveConflict('a', 'mine')
+      })
+      await waitFor(async () => {
+        expect(await stored()).toBe('Edited in B')
+        expect(tabA.current.activeDocument?.content).toBe('Edited in B')
+      })
+    })
+
+    it('should save and share the local version when resolving with mine', async () => {
+      const { tabA, tabB } = await renderTabs(10, 60_000)
+
+      act(() => {
+        tabB.current.updateDocumentContent('Edited in B')
+      })
+      act(() => {
+        tabA.current.updateDocumentContent('Edited in A')
+      })
+      await waitFor(() => {
+        expect(tabB.current.conflicts).toHaveLength(1)
+      })
+
+      act(() => {
+        tabB.current.resolveConflict('a', 'mine')
+      })
+
+      expect(tabB.current.conflicts).toEqual([])
+      expect(tabB.current.activeDocument?.content).toBe('Edited in B')
+      await waitFor(() => {
+        expect(tabA.current.activeDocument?.content).toBe('Edited in B')
+      })
+    })
+  })
 })
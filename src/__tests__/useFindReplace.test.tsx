@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useState } from 'react'
+import { useFindReplace } from '../hooks/useFindReplace'
+
+function renderFind(initialContent: string) {
+  const onRevealMatch = vi.fn()
+  const hook = renderHook(() => {
+    const [content, setContent] = useState(initialContent)
+    const find = useFindReplace({ content, onChange: setContent, onRevealMatch })
+    return { content, find }
+  })
+  return { ...hook, onRevealMatch }
+}
+
+describe('useFindReplace', () => {
+  it('starts closed without an active query', () => {
+    const { result } = renderFind('hello')
+
+    expect(result.current.find.isOpen).toBe(false)
+    expect(result.current.find.activeQuery).toBeNull()
+  })
+
+  it('opens with an initial query and reveals the first match', () => {
+    const { result, onRevealMatch } = renderFind('one two one')
+
+    act(() => {
+      result.current.find.open(false, 'one')
+    })
+
+    expect(result.current.find.isOpen).toBe(true)
+    expect(result.current.find.query).toBe('one')
+    expect(result.current.find.matches).toHaveLength(2)
+    expect(result.current.find.activeIndex).toBe(0)
+    expect(onRevealMatch).toHaveBeenCalledWith({ start: 0, end: 3 })
+  })
+
+  it('moves between matches and wraps around', () => {
+    const { result, onRevealMatch } = renderFind('a a a')
+
+    act(() => {
+      result.current.find.open(false)
+    })
+    act(() => {
+      result.current.find.setQuery('a')
+    })
+    act(() => {
+      result.current.find.findNext()
+    })
+    expect(result.current.find.activeIndex).toBe(1)
+
+    act(() => {
+      result.current.find.findNext()
+    })
+    act(() => {
+      result.current.find.findNext()
+    })
+    expect(result.current.find.activeIndex).toBe(0)
+
+    act(() => {
+      result.current.find.findPrevious()
+    })
+    expect(result.current.find.activeIndex).toBe(2)
+    expect(onRevealMatch).toHaveBeenLastCalledWith({ start: 4, end: 5 })
+  })
+
+  it('updates matches when options are toggled', () => {
+    const { result } = renderFind('Word word')
+
+    act(() => {
+      result.current.find.setQuery('Word')
+    })
+    expect(result.current.find.matches).toHaveLength(2)
+
+    act(() => {
+      result.current.find.toggleOption('caseSensitive')
+    })
+    expect(result.current.find.options.caseSensitive).toBe(true)
+    expect(result.current.find.matches).toHaveLength(1)
+  })
+
+  it('reports invalid regular expressions', () => {
+    const { result } = renderFind('text')
+
+    act(() => {
+      result.current.find.open(false)
+    })
+    act(() => {
+      result.current.find.toggleOption('regex')
+    })
+    act(() => {
+      result.current.find.setQuery('(')
+    })
+
+    expect(result.current.find.error).not.toBeNull()
+    expect(result.current.find.activeIndex).toBe(-1)
+    expect(result.current.find.activeQuery).toBeNull()
+  })
+
+  it('replaces the current match and moves to the next one', () => {
+    const { result } = renderFind('cat cat cat')
+
+    act(() => {
+      result.current.find.open(true, 'cat')
+    })
+    act(() => {
+      result.current.find.setReplacement('dog')
+    })
+    act(() => {
+      result.current.find.findNext()
+    })
+    act(() => {
+      result.current.find.replaceCurrent()
+    })
+
+    expect(result.current.content).toBe('cat dog cat')
+    // The next match after the replaced one becomes current
+    expect(result.current.find.matches[result.current.find.activeIndex]).toEqual({ start: 8, end: 11 })
+  })
+
+  it('does not match inside a replacement that contains the query', () => {
+    const { result } = renderFind('a b a')
+
+    act(() => {
+      result.current.find.open(true, 'a')
+    })
+    act(() => {
+      result.current.find.setReplacement('aa')
+    })
+    act(() => {
+      result.current.find.replaceCurrent()
+    })
+
+    expect(result.current.content).toBe('aa b a')
+    expect(result.current.find.matches[result.current.find.activeIndex]).toEqual({ start: 5, end: 6 })
+  })
+
+  it('replaces all matches', () => {
+    const { result } = renderFind('x1 x2 x3')
+
+    act(() => {
+      result.current.find.open(true, 'x')
+    })
+    act(() => {
+      result.current.find.setReplacement('y')
+    })
+    act(() => {
+      result.current.find.replaceAll()
+    })
+
+    expect(result.current.content).toBe('y1 y2 y3')
+    expect(result.current.find.matches).toHaveLength(0)
+  })
+
+  it('exposes the active query only while open', () => {
+    const { result } = renderFind('text')
+
+    act(() => {
+      result.current.find.open(false, 'te')
+    })
+    expect(result.current.find.activeQuery).toEqual(expect.objectContaining({ query: 'te' }))
+
+    act(() => {
+      result.current.find.close()
+    })
+    expect(result.current.find.activeQuery).toBeNull()
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import type { Document } from '../storage/types'
+import {
+  findBacklinks,
+  findHeading,
+  findWikiLinks,
+  matchWikiLinks,
+  renameWikiLinks,
+  resolveWikiLink,
+} from '../utils/wikiLinks'
+
+function doc(id: string, name: string, content: string, extra: Partial<Document> = {}): Document {
+  return { id, name, content, updatedAt: 1000, ...extra }
+}
+
+describe('findWikiLinks', () => {
+  it('finds links with headings and labels', () => {
+    const content = 'See [[Plan]]\nand [[Trip notes#Day 1|the first day]]'
+    expect(findWikiLinks(content)).toEqual([
+      { target: 'Plan', start: 4, end: 12, line: 0 },
+      { target: 'Trip notes', heading: 'Day 1', alias: 'the first day', start: 17, end: 51, line: 1 },
+    ])
+  })
+
+  it('ignores links in code and front matter', () => {
+    const content = '---\nsee: "[[Meta]]"\n---\n`[[Inline]]`\n```\n[[Fenced]]\n```\n[[Real]]'
+    expect(findWikiLinks(content).map(link => link.target)).toEqual(['Real'])
+  })
+
+  it('ignores empty targets', () => {
+    expect(matchWikiLinks('[[ ]] and [[#Heading]]')).toEqual([])
+  })
+})
+
+describe('resolveWikiLink', () => {
+  const documents = [
+    doc('a', 'Trip Notes', ''),
+    doc('b', 'Old', '', { deletedAt: 2000 }),
+  ]
+
+  it('matches document names ignoring case and whitespace', () => {
+    expect(resolveWikiLink(documents, ' trip notes ')?.id).toBe('a')
+  })
+
+  it('does not link to documents in the trash', () => {
+    expect(resolveWikiLink(documents, 'Old')).toBeUndefined()
+  })
+})
+
+describe('renameWikiLinks', () => {
+  it('rewrites links to the old name and keeps headings and labels', () => {
+    const content = '[[plan]], [[Plan#Goals|goals]] and [[Planning]]'
+    expect(renameWikiLinks(content, 'Plan', 'Roadmap')).toBe('[[Roadmap]], [[Roadmap#Goals|goals]] and [[Planning]]')
+  })
+
+  it('leaves links in code alone', () => {
+    const content = '`[[Plan]]`'
+    expect(renameWikiLinks(content, 'Plan', 'Roadmap')).toBe(content)
+  })
+})
+
+describe('findHeading', () => {
+  it('finds the text of a matching heading', () => {
+    const content = 'Intro\n```\n## Goals\n```\n## goals ##\n'
+    expect(findHeading(content, 'Goals')).toEqual({ start: 26, end: 31 })
+  })
+
+  it('returns null when no heading matches', () => {
+    expect(findHeading('# Title', 'Missing')).toBeNull()
+  })
+})
+
+describe('findBacklinks', () => {
+  it('lists other documents linking to a document with the linking line', () => {
+    const target = doc('t', 'Plan', 'Links to [[Plan]] itself')
+    const documents = [
+      target,
+      doc('a', 'A', 'Intro\n  Read [[plan#Goals]] first, then [[Plan]]', { updatedAt: 1000 }),
+      doc('b', 'B', 'Also [[Plan]]', { updatedAt: 3000 }),
+      doc('c', 'C', 'Unrelated [[Other]]'),
+      doc('d', 'D', '[[Plan]]', { deletedAt: 4000 }),
+    ]
+
+    expect(findBacklinks(documents, target)).toEqual([
+      { document: documents[2], snippet: 'Also [[Plan]]', count: 1 },
+      { document: documents[1], snippet: 'Read [[plan#Goals]] first, then [[Plan]]', count: 2 },
+    ])
+  })
+
+  it('shortens long lines around the link', () => {
+    const line = `${'a'.repeat(100)} [[Plan]] ${'b'.repeat(100)}`
+    const [backlink] = findBacklinks([doc('t', 'Plan', ''), doc('a', 'A', line)], doc('t', 'Plan', ''))
+    expect(backlink.snippet).toMatch(/^….*\[\[Plan\]\].*…$/)
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  WORKSPACE_FORMAT, WORKSPACE_VERSION, exportWorkspace, migrateWorkspace, parseWorkspace, serializeWorkspace,
+  type Workspace,
+} from '../utils/workspace'
+
+const workspace: Workspace = {
+  exportedAt: 1700000000000,
+  documents: [
+    { id: 'd1', name: 'Notes', content: '# Notes', updatedAt: 1000, folderId: 'work', tags: ['daily'] },
+    { id: 'd2', name: 'Old', content: 'Gone', updatedAt: 2000, deletedAt: 3000 },
+  ],
+  folders: [{ id: 'work', name: 'Work', parentId: null, updatedAt: 500 }],
+  assets: [{ id: 'a1', name: 'photo.png', type: 'image/png', size: 3, data: new Uint8Array([1, 2, 3]).buffer, createdAt: 100 }],
+  settings: { theme: 'dark', layout: { showSidebar: false, showOutline: true, scrollSync: true } },
+}
+
+function fileWith(changes: Record<string, unknown>): string {
+  return JSON.stringify({ ...JSON.parse(serializeWorkspace(workspace)), ...changes })
+}
+
+describe('serializeWorkspace', () => {
+  it('writes the format and current version', () => {
+    const file = JSON.parse(serializeWorkspace(workspace))
+
+    expect(file).toEqual({
+      format: WORKSPACE_FORMAT,
+      version: WORKSPACE_VERSION,
+      ...workspace,
+      assets: [{ id: 'a1', name: 'photo.png', type: 'image/png', size: 3, data: 'AQID', createdAt: 100 }],
+    })
+  })
+})
+
+describe('parseWorkspace', () => {
+  it('reads back what was serialized', () => {
+    expect(parseWorkspace(serializeWorkspace(workspace))).toEqual(workspace)
+  })
+
+  it('reads files from version 1, which had no attachments', () => {
+    const file = fileWith({ version: 1, assets: undefined })
+
+    expect(parseWorkspace(file)).toEqual({ ...workspace, assets: [] })
+  })
+
+  it('moves documents and folders in a missing folder to the root', () => {
+    const file = fileWith({
+      documents: [{ ...workspace.documents[0], folderId: 'gone' }],
+      folders: [...workspace.folders, { id: 'sub', name: 'Sub', parentId: 'gone', updatedAt: 600 }],
+    })
+
+    const { documents, folders } = parseWorkspace(file)
+
+    expect(documents[0]).not.toHaveProperty('folderId')
+    expect(folders.find(folder => folder.id === 'sub')?.parentId).toBeNull()
+  })
+
+  it('breaks folder loops by moving one folder of each to the root', () => {
+    const file = fileWith({
+      folders: [
+        { id: 'a', name: 'A', parentId: 'b', updatedAt: 1 },
+        { id: 'b', name: 'B', parentId: 'a', updatedAt: 1 },
+        { id: 'c', name: 'C', parentId: 'c', updatedAt: 1 },
+        { id: 'd', name: 'D', parentId: 'a', updatedAt: 1 },
+      ],
+    })
+
+    const parents = parseWorkspace(file).folders.map(folder => [folder.id, folder.parentId])
+
+    expect(parents).toEqual([['a', null], ['b', 'a'], ['c', null], ['d', 'a']])
+  })
+
+  it('rejects attachments whose data is not base64', () => {
+    const file = fileWith({ assets: [{ ...JSON.parse(serializeWorkspace(workspace)).assets[0], data: 'not base64!' }] })
+
+    expect(() => parseWorkspace(file)).toThrow('This workspace file is invalid: assets[0].data must be base64')
+  })
+
+  it('drops fields the schema does not know', () => {
+    const file = fileWith({ documents: [{ ...workspace.documents[0], color: 'red' }] })
+
+    expect(parseWorkspace(file).documents[0]).not.toHaveProperty('color')
+  })
+
+  it('rejects files that are not workspaces', () => {
+    expect(() => parseWorkspace('# Notes')).toThrow('This file is not valid JSON')
+    expect(() => parseWorkspace('[]')).toThrow('This file is not a Markdown Notepad workspace')
+    expect(() => parseWorkspace(fileWith({ version: '1' }))).toThrow('This workspace file has no valid version')
+    expect(() => parseWorkspace(fileWith({ version: WORKSPACE_VERSION + 1 })))
+      .toThrow('This workspace was exported by a newer version of Markdown Notepad')
+  })
+
+  it('names the fields that do not match the schema', () => {
+    const file = fileWith({
+      documents: [{ id: 'd1', name: 3, content: '', updatedAt: 1, tags: 'daily' }, 'note'],
+      settings: { theme: 'blue', layout: { showSidebar: true, showOutline: false, scrollSync: true } },
+    })
+
+    expect(() => parseWorkspace(file)).toThrow(
+      'This workspace file is invalid: documents[0].name must be a string; ' +
+      'documents[0].tags must be a list of strings; documents[1] must be an object and 1 more'
+    )
+  })
+
+  it('reports missing sections and duplicate ids', () => {
+    expect(() => parseWorkspace(fileWith({ folders: undefined, settings: undefined })))
+      .toThrow('This workspace file is invalid: folders is missing; settings is missing')
+    expect(() => parseWorkspace(fileWith({ documents: [workspace.documents[0], workspace.documents[0]] })))
+      .toThrow('This workspace file is invalid: documents[1].id "d1" is used more than once')
+    expect(() => parseWorkspace(fileWith({ settings: { theme: 'light', layout: { showSidebar: true } } })))
+      .toThrow('settings.layout.showOutline is missing; settings.layout.scrollSync is missing')
+  })
+})
+
+describe('migrateWorkspace', () => {
+  const migrations = [
+    // Version 1 called documents "notes"
+    (file: Record<string, unknown>) => ({ ...file, documents: file.notes, notes: undefined }),
+    (file: Record<string, unknown>) => ({ ...file, migratedToThree: true }),
+  ]
+
+  it('applies the migrations from the file version onwards in order', () => {
+    expect(migrateWorkspace({ notes: [] }, 1, migrations)).toEqual({ documents: [], notes: undefined, migratedToThree: true })
+    expect(migrateWorkspace({ documents: [] }, 2, migrations)).toEqual({ documents: [], migratedToThree: true })
+    expect(migrateWorkspace({ documents: [] }, 3, migrations)).toEqual({ documents: [] })
+  })
+})
+
+describe('exportWorkspace', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('downloads JSON named after the date', async () => {
+    const createObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:workspace')
+    URL.createObjectURL = createObjectURL
+    URL.revokeObjectURL = vi.fn()
+    const anchor = { href: '', download: '', style: { display: '' }, click: vi.fn() }
+    vi.spyOn(document, 'createElement').mockReturnValue(anchor as unknown as HTMLAnchorElement)
+    vi.spyOn(document.body, 'appendChild').mockImplementation(() => anchor as unknown as Node)
+    vi.spyOn(document.body, 'removeChild').mockImplementation(() => anchor as unknown as Node)
+    vi.spyOn(Date, 'now').mockReturnValue(Date.UTC(2024, 2, 5, 12))
+
+    exportWorkspace({
+      documents: workspace.documents, folders: workspace.folders, assets: workspace.assets, settings: workspace.settings,
+    })
+
+    expect(anchor.download).toBe('markdown-notepad-workspace-2024-03-05.json')
+    const blob = createObjectURL.mock.calls[0][0]
+    expect(blob.type).toBe('application/json;charset=utf-8')
+    expect(parseWorkspace(await blob.text())).toEqual({ ...workspace, exportedAt: Date.UTC(2024, 2, 5, 12) })
+  })
+})
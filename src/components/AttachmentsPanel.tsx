@@ -0,0 +1,167 @@
+import { useState, useMemo } from 'react'
+import { Paperclip, Trash2, X } from 'lucide-react'
+import type { Document, DocumentSnapshot } from '../storage/types'
+import { findAssetUsage, formatBytes, type AssetInfo } from '../utils/assets'
+import './AttachmentsPanel.css'
+
+interface AttachmentsPanelProps {
+  isOpen: boolean
+  assets: AssetInfo[]
+  /** Every document, including those in the trash, whose references keep assets in use */
+  documents: Document[]
+  /** Snapshots of every document, or null while they load; restoring one needs its assets */
+  snapshots: DocumentSnapshot[] | null
+  onOpenDocument: (id: string) => void
+  /** Permanently delete assets that no document or snapshot references */
+  onRemoveUnused: (ids: string[]) => void
+  onClose: () => void
+}
+
+/**
+ * Attachment manager listing stored assets with their size and the documents
+ * referencing them, with a cleanup of assets that are no longer used
+ */
+export function AttachmentsPanel({
+  isOpen,
+  assets,
+  documents,
+  snapshots,
+  onOpenDocument,
+  onRemoveUnused,
+  onClose,
+}: AttachmentsPanelProps) {
+  const [isConfirming, setIsConfirming] = useState(false)
+
+  // Reading references parses every document, so it waits until the panel is shown
+  const usage = useMemo(
+    () => (isOpen ? findAssetUsage(assets, documents, snapshots ?? []) : []),
+    [isOpen, assets, documents, snapshots]
+  )
+  const unused = usage
+    .filter(entry => entry.documents.length === 0 && entry.snapshots.length === 0)
+    .map(entry => entry.asset)
+  const totalSize = assets.reduce((total, asset) => total + asset.size, 0)
+  const unusedSize = unused.reduce((total, asset) => total + asset.size, 0)
+
+  if (!isOpen) return null
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose()
+    }
+  }
+
+  const handleClose = () => {
+    setIsConfirming(false)
+    onClose()
+  }
+
+  const handleRemoveUnused = () => {
+    setIsConfirming(false)
+    onRemoveUnused(unused.map(asset => asset.id))
+  }
+
+  return (
+    <div
+      className="attachments-panel-overlay"
+      onClick={handleClose}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="attachments-panel-title"
+    >
+      <div className="attachments-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="attachments-panel-header">
+          <h2 id="attachments-panel-title" className="attachments-panel-title">
+            <Paperclip aria-hidden="true" />
+            Attachments
+          </h2>
+          <button
+            className="attachments-panel-close"
+            onClick={handleClose}
+            aria-label="Close attachments"
+          >
+            <X aria-hidden="true" />
+          </button>
+        </div>
+
+        {assets.length === 0 ? (
+          <div className="attachments-panel-empty">
+            No attachments yet. Paste or drop an image into the editor to add one.
+          </div>
+        ) : (
+          <ul className="attachments-panel-list" aria-label="Stored attachments">
+            {usage.map(({ asset, documents: referencing, snapshots: inHistory }) => (
+              <li
+                key={asset.id}
+                className={`attachments-panel-item ${referencing.length === 0 && inHistory.length === 0 ? 'unused' : ''}`}
+              >
+                <div className="attachments-panel-item-header">
+                  <span className="attachments-panel-item-name" title={asset.name}>{asset.name}</span>
+                  <span className="attachments-panel-item-size">{formatBytes(asset.size)}</span>
+                </div>
+                {referencing.length === 0 && inHistory.length > 0 ? (
+                  <span className="attachments-panel-item-history">
+                    Only used in the history of {[...new Set(inHistory.map(snapshot => snapshot.name))].join(', ')}
+                  </span>
+                ) : referencing.length === 0 ? (
+                  <span className="attachments-panel-item-unused">Not used in any document</span>
+                ) : (
+                  <ul className="attachments-panel-references" aria-label={`Documents using ${asset.name}`}>
+                    {referencing.map(doc => (
+                      <li key={doc.id}>
+                        {doc.deletedAt === undefined ? (
+                          <button
+                            className="attachments-panel-reference"
+                            onClick={() => {
+                              onOpenDocument(doc.id)
+                              handleClose()
+                            }}
+                          >
+                            {doc.name}
+                          </button>
+                        ) : (
+                          <span className="attachments-panel-reference is-trashed">{doc.name} (in trash)</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="attachments-panel-footer">
+          <span className="attachments-panel-summary" data-testid="attachments-summary">
+            {assets.length} {assets.length === 1 ? 'attachment' : 'attachments'}, {formatBytes(totalSize)}
+          </span>
+          {isConfirming ? (
+            <div className="attachments-panel-confirm" role="group" aria-label="Confirm cleanup">
+              <span>
+                Delete {unused.length} unused {unused.length === 1 ? 'attachment' : 'attachments'}?
+                Attachments used in document history are kept. This cannot be undone.
+              </span>
+              <button className="attachments-panel-button" onClick={() => setIsConfirming(false)}>
+                Cancel
+              </button>
+              <button className="attachments-panel-button danger" onClick={handleRemoveUnused}>
+                Delete
+              </button>
+            </div>
+          ) : (
+            <button
+              className="attachments-panel-button"
+              onClick={() => setIsConfirming(true)}
+              // Snapshots may still need attachments, so cleanup waits until they are loaded
+              disabled={unused.length === 0 || snapshots === null}
+            >
+              <Trash2 aria-hidden="true" />
+              Remove unused{unused.length > 0 ? ` (${formatBytes(unusedSize)})` : ''}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Link2 } from 'lucide-react'
+import type { Backlink } from '../utils/wikiLinks'
+import './BacklinksPanel.css'
+
+interface BacklinksPanelProps {
+  backlinks: Backlink[]
+  onOpenDocument: (id: string) => void
+}
+
+/**
+ * Collapsible list below the preview of the documents linking to the current one,
+ * each with the line containing its link
+ */
+export function BacklinksPanel({ backlinks, onOpenDocument }: BacklinksPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(true)
+
+  return (
+    <section className="backlinks-panel" aria-label="Backlinks">
+      <button
+        className="backlinks-panel-toggle"
+        onClick={() => setIsExpanded(prev => !prev)}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? (
+          <ChevronDown className="backlinks-panel-icon" aria-hidden="true" />
+        ) : (
+          <ChevronRight className="backlinks-panel-icon" aria-hidden="true" />
+        )}
+        <Link2 className="backlinks-panel-icon" aria-hidden="true" />
+        <span>Backlinks ({backlinks.length})</span>
+      </button>
+      {isExpanded && (
+        backlinks.length === 0 ? (
+          <p className="backlinks-panel-empty">No other documents link here</p>
+        ) : (
+          <ul className="backlinks-panel-list">
+            {backlinks.map(({ document, snippet, count }) => (
+              <li key={document.id}>
+                <button
+                  className="backlinks-panel-item"
+                  onClick={() => onOpenDocument(document.id)}
+                  aria-label={`Open ${document.name}`}
+                >
+                  <span className="backlinks-panel-name">
+                    {document.name}
+                    {count > 1 && <span className="backlinks-panel-count"> · {count} links</span>}
+                  </span>
+                  <span className="backlinks-panel-snippet">{snippet}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </section>
+  )
+}
@@ -1,61 +1,133 @@
-import { useEffect, useRef } from 'react'
-import hljs from 'highlight.js'
+import { useEffect, useMemo, useState } from 'react'
+import { Check, Copy, ListOrdered, WrapText } from 'lucide-react'
+import { escapeHtml, highlightCode, isLanguageReady, loadLanguages, splitHighlightedLines } from '../utils/highlight'
+import { isLineInRanges, parseCodeMeta } from '../utils/codeMeta'
+import type { Theme } from '../hooks/useTheme'
+import { MermaidDiagram } from './MermaidDiagram'
 import './CodeBlock.css'
 
-// Import common languages
-import javascript from 'highlight.js/lib/languages/javascript'
-import typescript from 'highlight.js/lib/languages/typescript'
-import python from 'highlight.js/lib/languages/python'
-import xml from 'highlight.js/lib/languages/xml'
-import css from 'highlight.js/lib/languages/css'
-import json from 'highlight.js/lib/languages/json'
-import bash from 'highlight.js/lib/languages/bash'
-
-// Register languages
-hljs.registerLanguage('javascript', javascript)
-hljs.registerLanguage('js', javascript)
-hljs.registerLanguage('typescript', typescript)
-hljs.registerLanguage('ts', typescript)
-hljs.registerLanguage('python', python)
-hljs.registerLanguage('py', python)
-hljs.registerLanguage('html', xml)
-hljs.registerLanguage('css', css)
-hljs.registerLanguage('json', json)
-hljs.registerLanguage('bash', bash)
-hljs.registerLanguage('sh', bash)
-hljs.registerLanguage('shell', bash)
-
 interface CodeBlockProps {
   children: string
   className?: string
+  /** Fence options after the language, like title="api.ts" {3-5} */
+  meta?: string | null
+  /** Color theme of the app, for diagrams */
+  theme?: Theme
 }
 
-export function CodeBlock({ children, className }: CodeBlockProps) {
-  const codeRef = useRef<HTMLElement>(null)
-  
+const COPIED_FEEDBACK_MS = 2000
+
+export function CodeBlock({ children, className, meta, theme }: CodeBlockProps) {
   // Extract language from className (e.g., "language-javascript")
-  const language = className?.replace('language-', '') || 'text'
-  
+  const language = className?.replace('language-', '') || undefined
+  const code = children.replace(/\n$/, '')
+  const { title, highlightLines, showLineNumbers: metaLineNumbers } = useMemo(() => parseCodeMeta(meta), [meta])
+  const [loadedLanguage, setLoadedLanguage] = useState<string | null>(null)
+  const [lineNumbers, setLineNumbers] = useState<boolean | null>(null)
+  const [wrap, setWrap] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const ready = loadedLanguage === (language ?? '') || isLanguageReady(language)
+  const showLineNumbers = lineNumbers ?? metaLineNumbers
+
+  // Grammars load on first use; the code shows as plain text until then,
+  // and stays plain if the grammar cannot be loaded
   useEffect(() => {
-    if (codeRef.current) {
-      hljs.highlightElement(codeRef.current)
+    if (ready || language === 'mermaid') return
+    let cancelled = false
+    loadLanguages([language ?? '']).then(() => {
+      if (!cancelled) setLoadedLanguage(language ?? '')
+    }).catch(err => console.error('Failed to load code highlighting:', err))
+    return () => {
+      cancelled = true
     }
-  }, [children, language])
+  }, [language, ready])
+
+  useEffect(() => {
+    if (!copied) return
+    const timeout = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS)
+    return () => clearTimeout(timeout)
+  }, [copied])
+
+  const highlighted = useMemo(
+    () => (ready ? highlightCode(code, language) : null),
+    [code, language, ready],
+  )
+  const lines = useMemo(
+    () => splitHighlightedLines(highlighted?.html ?? escapeHtml(code)),
+    [highlighted, code],
+  )
+
+  if (language === 'mermaid') {
+    return <MermaidDiagram source={children} theme={theme} />
+  }
+
+  const handleCopy = () => {
+    navigator.clipboard?.writeText(code)
+      .then(() => setCopied(true))
+      .catch(() => {
+        // Clipboard access denied; the code can still be selected and copied
+      })
+  }
+
+  const label = language ?? highlighted?.language ?? 'text'
 
   return (
     <div className="code-block-wrapper" data-testid="code-block">
       <div className="code-block-header">
-        <span className="code-block-language" data-testid="code-language">
-          {language === 'text' ? 'plain text' : language}
-        </span>
+        <div className="code-block-info">
+          <span className="code-block-language" data-testid="code-language">
+            {label === 'text' ? 'plain text' : label}
+          </span>
+          {title && <span className="code-block-title" data-testid="code-title">{title}</span>}
+        </div>
+        <div className="code-block-actions">
+          <button
+            type="button"
+            className="code-block-action"
+            aria-label="Line numbers"
+            title="Line numbers"
+            aria-pressed={showLineNumbers}
+            onClick={() => setLineNumbers(!showLineNumbers)}
+          >
+            <ListOrdered aria-hidden="true" />
+          </button>
+          <button
+            type="button"
+            className="code-block-action"
+            aria-label="Wrap lines"
+            title="Wrap lines"
+            aria-pressed={wrap}
+            onClick={() => setWrap(value => !value)}
+          >
+            <WrapText aria-hidden="true" />
+          </button>
+          <button
+            type="button"
+            className={`code-block-action${copied ? ' is-copied' : ''}`}
+            aria-label={copied ? 'Copied' : 'Copy code'}
+            title={copied ? 'Copied' : 'Copy code'}
+            onClick={handleCopy}
+          >
+            {copied ? <Check aria-hidden="true" /> : <Copy aria-hidden="true" />}
+          </button>
+        </div>
       </div>
-      <pre className="code-block-pre">
-        <code 
-          ref={codeRef}
-          className={`hljs ${className || ''}`}
-          data-testid="code-content"
-        >
-          {children}
+      <pre
+        className={[
+          'code-block-pre',
+          wrap ? 'is-wrapped' : '',
+          showLineNumbers ? 'has-line-numbers' : '',
+        ].filter(Boolean).join(' ')}
+      >
+        <code className={`hljs ${className || ''}`} data-testid="code-content">
+          {lines.map((html, index) => (
+            <span
+              key={index}
+              className={`code-line${isLineInRanges(highlightLines, index + 1) ? ' is-highlighted' : ''}`}
+              data-line-number={index + 1}
+              dangerouslySetInnerHTML={{ __html: `${html}\n` }}
+            />
+          ))}
         </code>
       </pre>
     </div>
@@ -1,6 +1,11 @@
-import { useState, useRef, useEffect, useCallback } from 'react'
-import { FileText, Plus, Pencil, Trash2, ChevronDown } from 'lucide-react'
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
+import { Archive, ArchiveRestore, FileBraces, FileText, FileUp, Plus, Pencil, Trash2, ChevronDown, ChevronRight, RotateCcw, X, Search, Tag } from 'lucide-react'
 import type { Document, DocumentsStatus } from '../hooks/useDocuments'
+import { IMPORT_EXTENSIONS } from '../utils/importFiles'
+import { searchDocuments, type SearchRange } from '../utils/search'
+import { countTags, getDocumentTags, normalizeTag, parseTagInput } from '../utils/tags'
+import { countTasks, type TaskProgress } from '../utils/tasks'
+import { extractFrontMatter, getDocumentTitle, type DocumentMetadata } from '../utils/frontMatter'
 import './DocumentManager.css'
 
 interface DocumentManagerProps {
@@ -10,13 +15,93 @@ interface DocumentManagerProps {
   error: string | null
   onSelectDocument: (id: string) => void
   onCreateDocument: () => void
+  /** Create documents from markdown and text files picked by the user */
+  onImportFiles?: (files: File[]) => void
+  /** Download a ZIP backup of every document, folder and attachment */
+  onExportAll?: () => void
+  /** Download documents, folders and settings as a workspace file */
+  onExportWorkspace?: () => void
+  /** Restore from a backup or workspace file picked by the user */
+  onRestoreBackup?: (file: File) => void
   onRenameDocument: (id: string, newName: string) => void
   onDeleteDocument: (id: string) => void
+  trashedDocuments?: Document[]
+  onRestoreDocument?: (id: string) => void
+  onPurgeDocument?: (id: string) => void
+  onEmptyTrash?: () => void
+  /** Days before trashed documents are purged, shown as a hint */
+  trashRetentionDays?: number
+  /** Open a document from search results, selecting the picked match */
+  onOpenSearchResult?: (id: string, range?: SearchRange) => void
+  /** Replace the tags set on a document */
+  onSetDocumentTags?: (id: string, tags: string[]) => void
+  /** Rename a tag in every document, merging it into an existing tag of that name */
+  onRenameTag?: (from: string, to: string) => void
+}
+
+type SortOrder = 'updated' | 'title' | 'date'
+
+const SORT_ORDERS: { value: SortOrder; label: string }[] = [
+  { value: 'updated', label: 'Last edited' },
+  { value: 'title', label: 'Title' },
+  { value: 'date', label: 'Date' },
+]
+
+const byTitle = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true })
+
+/**
+ * Timestamp of a front matter date, or null when missing or unreadable
+ */
+function parseMetadataDate(metadata: DocumentMetadata | null | undefined): number | null {
+  if (!metadata?.date) return null
+  const time = Date.parse(metadata.date)
+  return Number.isNaN(time) ? null : time
+}
+
+/**
+ * Checked and total tasks of a document, as a count with a bar
+ */
+function TaskProgressBadge({ progress }: { progress: TaskProgress | undefined }) {
+  if (!progress?.total) return null
+  const { done, total } = progress
+  return (
+    <span
+      className={`document-manager-item-progress ${done === total ? 'complete' : ''}`}
+      role="img"
+      aria-label={`${done} of ${total} tasks done`}
+      title={`${done} of ${total} tasks done`}
+    >
+      <span className="document-manager-item-progress-bar">
+        <span style={{ width: `${(done / total) * 100}%` }} />
+      </span>
+      {done}/{total}
+    </span>
+  )
+}
+
+/**
+ * Render text with the given ranges wrapped in <mark>
+ */
+function HighlightedText({ text, ranges }: { text: string; ranges: SearchRange[] }) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  ranges.forEach((range, index) => {
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start))
+    parts.push(<mark key={index}>{text.slice(range.start, range.end)}</mark>)
+    cursor = range.end
+  })
+  parts.push(text.slice(cursor))
+  return <>{parts}</>
 }
 
 /**
  * Document manager component for creating, selecting, renaming, and deleting documents.
- * Displays as a dropdown with a list of all documents.
+ * Displays as a dropdown with a list of all documents and a trash section
+ * for restoring or permanently deleting removed documents.
+ * The search box (Ctrl+Shift+F) searches names and content of every document.
+ * Tags from the documents and their #hashtags or front matter filter the list.
+ * Documents are shown by their front matter title and can be sorted by its date.
  */
 export function DocumentManager({
   documents,
@@ -25,16 +110,83 @@ export function DocumentManager({
   error,
   onSelectDocument,
   onCreateDocument,
+  onImportFiles,
+  onExportAll,
+  onExportWorkspace,
+  onRestoreBackup,
   onRenameDocument,
   onDeleteDocument,
+  trashedDocuments = [],
+  onRestoreDocument,
+  onPurgeDocument,
+  onEmptyTrash,
+  trashRetentionDays,
+  onOpenSearchResult,
+  onSetDocumentTags,
+  onRenameTag,
 }: DocumentManagerProps) {
   const [isOpen, setIsOpen] = useState(false)
+  const [isTrashOpen, setIsTrashOpen] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editingName, setEditingName] = useState('')
+  const [query, setQuery] = useState('')
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null)
+  const [editingTags, setEditingTags] = useState('')
+  const [renamingTag, setRenamingTag] = useState<string | null>(null)
+  const [newTagName, setNewTagName] = useState('')
+  const [sortOrder, setSortOrder] = useState<SortOrder>('updated')
   const dropdownRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const restoreInputRef = useRef<HTMLInputElement>(null)
+  // Set by the search shortcut so the search box is focused once the dropdown renders
+  const focusSearchRef = useRef(false)
   
   const activeDocument = documents.find(doc => doc.id === activeDocumentId)
+  const activeTitle = useMemo(
+    () => activeDocument ? getDocumentTitle(activeDocument.content, activeDocument.name) : null,
+    [activeDocument]
+  )
+  
+  const searchResults = useMemo(() => searchDocuments(documents, query), [documents, query])
+  
+  // Tags are only needed while the list is shown
+  const documentTags = useMemo(
+    () => new Map(isOpen ? documents.map(doc => [doc.id, getDocumentTags(doc)]) : []),
+    [isOpen, documents]
+  )
+  const documentTasks = useMemo(
+    () => new Map(isOpen ? documents.map(doc => [doc.id, countTasks(doc.content)]) : []),
+    [isOpen, documents]
+  )
+  const tagCounts = useMemo(() => isOpen ? countTags(documents) : [], [isOpen, documents])
+  // Ignore selected tags that no document uses anymore
+  const activeTags = selectedTags.filter(tag => tagCounts.some(count => count.tag === tag))
+  const metadataById = useMemo(
+    () => new Map(isOpen ? documents.map(doc => [doc.id, extractFrontMatter(doc.content).metadata]) : []),
+    [isOpen, documents]
+  )
+  const titleOf = (doc: Document) => metadataById.get(doc.id)?.title ?? doc.name
+  const visibleDocuments = documents
+    .filter(doc => activeTags.every(tag => documentTags.get(doc.id)?.includes(tag)))
+    .sort((a, b) => {
+      if (sortOrder === 'title') {
+        return byTitle(titleOf(a), titleOf(b))
+      }
+      if (sortOrder === 'date') {
+        // Newest first, undated documents last
+        const dateA = parseMetadataDate(metadataById.get(a.id))
+        const dateB = parseMetadataDate(metadataById.get(b.id))
+        if (dateA !== dateB) {
+          if (dateA === null) return 1
+          if (dateB === null) return -1
+          return dateB - dateA
+        }
+      }
+      return b.updatedAt - a.updatedAt
+    })
   
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -62,6 +214,13 @@ export function DocumentManager({
     }
   }, [editingId])
   
+  useEffect(() => {
+    if (isOpen && focusSearchRef.current) {
+      focusSearchRef.current = false
+      searchInputRef.current?.focus()
+    }
+  }, [isOpen])
+  
   // Handle keyboard shortcuts
   useEffect(() => {
     function handleKeyDown(e: KeyboardEvent) {
@@ -70,6 +229,18 @@ export function DocumentManager({
         e.preventDefault()
         onCreateDocument()
       }
+      
+      // Ctrl/Cmd + Shift + F to search all documents
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault()
+        if (searchInputRef.current) {
+          searchInputRef.current.focus()
+          searchInputRef.current.select()
+        } else {
+          focusSearchRef.current = true
+          setIsOpen(true)
+        }
+      }
     }
     
     document.addEventListener('keydown', handleKeyDown)
@@ -86,10 +257,59 @@ export function DocumentManager({
     setIsOpen(false)
   }
   
+  const handleOpenResult = (id: string, range?: SearchRange) => {
+    if (onOpenSearchResult) {
+      onOpenSearchResult(id, range)
+    } else {
+      onSelectDocument(id)
+    }
+    setIsOpen(false)
+  }
+  
+  const handleSearchKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && searchResults.length > 0) {
+      const [first] = searchResults
+      handleOpenResult(first.document.id, first.matches[0])
+    } else if (e.key === 'Escape') {
+      if (query) {
+        setQuery('')
+      } else {
+        setIsOpen(false)
+      }
+    }
+  }
+  
   const handleCreate = () => {
     onCreateDocument()
     setIsOpen(false)
   }
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    // Cleared so picking the same files again still reports a change
+    e.target.value = ''
+    if (files.length === 0) return
+    onImportFiles?.(files)
+    setIsOpen(false)
+  }
+  
+  const handleRestoreChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    onRestoreBackup?.(file)
+    setIsOpen(false)
+  }
+
+  const handleExportAll = () => {
+    onExportAll?.()
+    setIsOpen(false)
+  }
+
+  const handleExportWorkspace = () => {
+    onExportWorkspace?.()
+    setIsOpen(false)
+  }
   
   const handleStartRename = useCallback((e: React.MouseEvent, doc: Document) => {
     e.stopPropagation()
@@ -112,11 +332,72 @@ export function DocumentManager({
     }
   }, [handleRenameSubmit])
   
+  const handleStartEditTags = useCallback((e: React.MouseEvent, doc: Document) => {
+    e.stopPropagation()
+    setEditingTagsId(doc.id)
+    setEditingTags((doc.tags ?? []).join(', '))
+  }, [])
+  
+  const handleTagsSubmit = () => {
+    if (editingTagsId) {
+      onSetDocumentTags?.(editingTagsId, parseTagInput(editingTags))
+    }
+    setEditingTagsId(null)
+  }
+  
+  const handleTagsKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleTagsSubmit()
+    } else if (e.key === 'Escape') {
+      setEditingTagsId(null)
+    }
+  }
+  
+  const handleToggleTag = (tag: string) => {
+    setSelectedTags(activeTags.includes(tag)
+      ? activeTags.filter(selected => selected !== tag)
+      : [...activeTags, tag])
+    setRenamingTag(null)
+  }
+  
+  const handleStartRenameTag = (tag: string) => {
+    setRenamingTag(tag)
+    setNewTagName(tag)
+  }
+  
+  const handleRenameTagSubmit = () => {
+    const to = normalizeTag(newTagName)
+    if (renamingTag && to && to !== renamingTag) {
+      onRenameTag?.(renamingTag, to)
+      // Keep filtering by the tag under its new name
+      setSelectedTags(activeTags.map(tag => tag === renamingTag ? to : tag))
+    }
+    setRenamingTag(null)
+  }
+  
+  const handleRenameTagKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleRenameTagSubmit()
+    } else if (e.key === 'Escape') {
+      setRenamingTag(null)
+    }
+  }
+  
   const handleDelete = useCallback((e: React.MouseEvent, id: string) => {
     e.stopPropagation()
     onDeleteDocument(id)
   }, [onDeleteDocument])
   
+  const handleRestore = useCallback((e: React.MouseEvent, id: string) => {
+    e.stopPropagation()
+    onRestoreDocument?.(id)
+  }, [onRestoreDocument])
+  
+  const handlePurge = useCallback((e: React.MouseEvent, id: string) => {
+    e.stopPropagation()
+    onPurgeDocument?.(id)
+  }, [onPurgeDocument])
+  
   const getStatusText = () => {
     if (error) return error
     if (status === 'saving') return 'Saving...'
@@ -134,7 +415,7 @@ export function DocumentManager({
       >
         <FileText className="document-manager-trigger-icon" aria-hidden="true" />
         <span className="document-manager-trigger-text">
-          {activeDocument?.name || 'Select Document'}
+          {activeTitle || 'Select Document'}
         </span>
         <ChevronDown 
           className={`document-manager-trigger-chevron ${isOpen ? 'open' : ''}`} 
@@ -150,70 +431,361 @@ export function DocumentManager({
         >
           <div className="document-manager-header">
             <h3 className="document-manager-title">Documents</h3>
-            <button
-              className="document-manager-new-btn"
-              onClick={handleCreate}
-              aria-label="Create new document"
-            >
-              <Plus aria-hidden="true" />
-              New
-            </button>
+            <div className="document-manager-header-actions">
+              {onImportFiles && (
+                <button
+                  className="document-manager-import-btn"
+                  onClick={() => importInputRef.current?.click()}
+                  aria-label="Import files"
+                  title="Import .md, .markdown or .txt files"
+                >
+                  <FileUp aria-hidden="true" />
+                  Import
+                </button>
+              )}
+              <button
+                className="document-manager-new-btn"
+                onClick={handleCreate}
+                aria-label="Create new document"
+              >
+                <Plus aria-hidden="true" />
+                New
+              </button>
+            </div>
+            {onImportFiles && (
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={IMPORT_EXTENSIONS.join(',')}
+                multiple
+                hidden
+                onChange={handleImportChange}
+                data-testid="document-manager-import-input"
+              />
+            )}
           </div>
           
-          <div className="document-manager-list">
-            {documents.length === 0 ? (
-              <div className="document-manager-empty">
-                No documents yet
-              </div>
-            ) : (
-              documents.map((doc) => (
-                <div
-                  key={doc.id}
-                  className={`document-manager-item ${doc.id === activeDocumentId ? 'active' : ''}`}
-                  onClick={() => handleSelect(doc.id)}
-                  role="option"
-                  aria-selected={doc.id === activeDocumentId}
-                >
-                  <FileText className="document-manager-item-icon" aria-hidden="true" />
-                  
-                  {editingId === doc.id ? (
-                    <input
-                      ref={inputRef}
-                      className="document-manager-item-input"
-                      type="text"
-                      value={editingName}
-                      onChange={(e) => setEditingName(e.target.value)}
-                      onBlur={handleRenameSubmit}
-                      onKeyDown={handleRenameKeyDown}
-                      onClick={(e) => e.stopPropagation()}
-                      aria-label="Rename document"
-                    />
-                  ) : (
-                    <span className="document-manager-item-name">{doc.name}</span>
-                  )}
-                  
-                  <div className="document-manager-item-actions">
-                    <button
-                      className="document-manager-item-btn"
-                      onClick={(e) => handleStartRename(e, doc)}
-                      aria-label={`Rename ${doc.name}`}
-                      title="Rename"
-                    >
-                      <Pencil aria-hidden="true" />
-                    </button>
+          <div className="document-manager-search">
+            <Search className="document-manager-search-icon" aria-hidden="true" />
+            <input
+              ref={searchInputRef}
+              className="document-manager-search-input"
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              placeholder="Search all documents"
+              aria-label="Search documents"
+            />
+          </div>
+          
+          {query.trim() ? (
+            <div className="document-manager-list document-manager-search-results" aria-label="Search results">
+              {searchResults.length === 0 ? (
+                <div className="document-manager-empty">
+                  No matches for "{query.trim()}"
+                </div>
+              ) : (
+                searchResults.map((result) => (
+                  <div key={result.document.id} className="document-manager-search-result">
                     <button
-                      className="document-manager-item-btn"
-                      onClick={(e) => handleDelete(e, doc.id)}
-                      aria-label={`Delete ${doc.name}`}
-                      title="Delete"
+                      className="document-manager-search-result-name"
+                      onClick={() => handleOpenResult(result.document.id, result.matches[0])}
                     >
-                      <Trash2 aria-hidden="true" />
+                      <FileText className="document-manager-item-icon" aria-hidden="true" />
+                      <span className="document-manager-item-name">
+                        <HighlightedText text={result.document.name} ranges={result.nameHighlights} />
+                      </span>
+                      {result.matchCount > 0 && (
+                        <span className="document-manager-search-count">
+                          {result.matchCount} line{result.matchCount !== 1 ? 's' : ''}
+                        </span>
+                      )}
                     </button>
+                    {result.matches.map((match) => (
+                      <button
+                        key={match.line}
+                        className="document-manager-search-match"
+                        onClick={() => handleOpenResult(result.document.id, match)}
+                        aria-label={`${result.document.name}, line ${match.line}: ${match.snippet}`}
+                      >
+                        <span className="document-manager-search-line">{match.line}</span>
+                        <span className="document-manager-search-snippet">
+                          <HighlightedText text={match.snippet} ranges={match.highlights} />
+                        </span>
+                      </button>
+                    ))}
                   </div>
+                ))
+              )}
+            </div>
+          ) : (
+            <>
+              <div className="document-manager-sort" role="group" aria-label="Sort documents">
+                <span className="document-manager-sort-label">Sort by</span>
+                {SORT_ORDERS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    className={`document-manager-sort-btn ${sortOrder === value ? 'selected' : ''}`}
+                    onClick={() => setSortOrder(value)}
+                    aria-pressed={sortOrder === value}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {tagCounts.length > 0 && (
+                <div className="document-manager-tags">
+                  <div className="document-manager-tag-list" role="group" aria-label="Filter by tag">
+                    {tagCounts.map(({ tag, count }) => (
+                      <button
+                        key={tag}
+                        className={`document-manager-tag ${activeTags.includes(tag) ? 'selected' : ''}`}
+                        onClick={() => handleToggleTag(tag)}
+                        aria-pressed={activeTags.includes(tag)}
+                        aria-label={`#${tag} (${count})`}
+                      >
+                        #{tag}
+                        <span className="document-manager-tag-count">{count}</span>
+                      </button>
+                    ))}
+                  </div>
+                  {activeTags.length > 0 && (
+                    <div className="document-manager-tag-actions">
+                      {renamingTag ? (
+                        <input
+                          className="document-manager-item-input"
+                          type="text"
+                          value={newTagName}
+                          onChange={(e) => setNewTagName(e.target.value)}
+                          onBlur={handleRenameTagSubmit}
+                          onKeyDown={handleRenameTagKeyDown}
+                          aria-label={`New name for #${renamingTag}`}
+                          title="Use the name of an existing tag to merge them"
+                          autoFocus
+                        />
+                      ) : (
+                        <>
+                          {activeTags.length === 1 && onRenameTag && (
+                            <button
+                              className="document-manager-tag-action"
+                              onClick={() => handleStartRenameTag(activeTags[0])}
+                            >
+                              <Pencil aria-hidden="true" />
+                              Rename or merge #{activeTags[0]}
+                            </button>
+                          )}
+                          <button
+                            className="document-manager-tag-action"
+                            onClick={() => setSelectedTags([])}
+                          >
+                            <X aria-hidden="true" />
+                            Clear filter
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
                 </div>
-              ))
-            )}
-          </div>
+              )}
+              <div className="document-manager-list">
+                {documents.length === 0 ? (
+                  <div className="document-manager-empty">
+                    No documents yet
+                  </div>
+                ) : visibleDocuments.length === 0 ? (
+                  <div className="document-manager-empty">
+                    No documents tagged {activeTags.map(tag => `#${tag}`).join(' and ')}
+                  </div>
+                ) : (
+                  visibleDocuments.map((doc) => (
+                    <div
+                      key={doc.id}
+                      className={`document-manager-item ${doc.id === activeDocumentId ? 'active' : ''}`}
+                      onClick={() => handleSelect(doc.id)}
+                      role="option"
+                      aria-selected={doc.id === activeDocumentId}
+                    >
+                      <FileText className="document-manager-item-icon" aria-hidden="true" />
+                  
+                      {editingId === doc.id ? (
+                        <input
+                          ref={inputRef}
+                          className="document-manager-item-input"
+                          type="text"
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          onBlur={handleRenameSubmit}
+                          onKeyDown={handleRenameKeyDown}
+                          onClick={(e) => e.stopPropagation()}
+                          aria-label="Rename document"
+                        />
+                      ) : editingTagsId === doc.id ? (
+                        <input
+                          className="document-manager-item-input"
+                          type="text"
+                          value={editingTags}
+                          onChange={(e) => setEditingTags(e.target.value)}
+                          onBlur={handleTagsSubmit}
+                          onKeyDown={handleTagsKeyDown}
+                          onClick={(e) => e.stopPropagation()}
+                          placeholder="tag, another-tag"
+                          aria-label={`Tags for ${doc.name}`}
+                          autoFocus
+                        />
+                      ) : (
+                        <span className="document-manager-item-name">
+                          {titleOf(doc)}
+                          {(documentTags.get(doc.id) ?? []).map(tag => (
+                            <span key={tag} className="document-manager-item-tag">#{tag}</span>
+                          ))}
+                        </span>
+                      )}
+
+                      <TaskProgressBadge progress={documentTasks.get(doc.id)} />
+                  
+                      <div className="document-manager-item-actions">
+                        {onSetDocumentTags && (
+                          <button
+                            className="document-manager-item-btn"
+                            onClick={(e) => handleStartEditTags(e, doc)}
+                            aria-label={`Edit tags for ${doc.name}`}
+                            title="Edit tags"
+                          >
+                            <Tag aria-hidden="true" />
+                          </button>
+                        )}
+                        <button
+                          className="document-manager-item-btn"
+                          onClick={(e) => handleStartRename(e, doc)}
+                          aria-label={`Rename ${doc.name}`}
+                          title="Rename"
+                        >
+                          <Pencil aria-hidden="true" />
+                        </button>
+                        <button
+                          className="document-manager-item-btn"
+                          onClick={(e) => handleDelete(e, doc.id)}
+                          aria-label={`Delete ${doc.name}`}
+                          title="Move to trash"
+                        >
+                          <Trash2 aria-hidden="true" />
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </>
+          )}
+          
+          {trashedDocuments.length > 0 && (
+            <div className="document-manager-trash">
+              <div className="document-manager-trash-header">
+                <button
+                  className="document-manager-trash-toggle"
+                  onClick={() => setIsTrashOpen(!isTrashOpen)}
+                  aria-expanded={isTrashOpen}
+                  aria-label={`Trash (${trashedDocuments.length})`}
+                >
+                  {isTrashOpen ? (
+                    <ChevronDown aria-hidden="true" />
+                  ) : (
+                    <ChevronRight aria-hidden="true" />
+                  )}
+                  <Trash2 aria-hidden="true" />
+                  Trash ({trashedDocuments.length})
+                </button>
+                {isTrashOpen && onEmptyTrash && (
+                  <button
+                    className="document-manager-trash-empty-btn"
+                    onClick={onEmptyTrash}
+                  >
+                    Empty trash
+                  </button>
+                )}
+              </div>
+              
+              {isTrashOpen && (
+                <div className="document-manager-trash-list" aria-label="Trash">
+                  {trashRetentionDays !== undefined && (
+                    <div className="document-manager-trash-hint">
+                      Items are deleted permanently after {trashRetentionDays} day{trashRetentionDays !== 1 ? 's' : ''}.
+                    </div>
+                  )}
+                  {trashedDocuments.map((doc) => (
+                    <div key={doc.id} className="document-manager-item document-manager-trash-item">
+                      <FileText className="document-manager-item-icon" aria-hidden="true" />
+                      <span className="document-manager-item-name">{doc.name}</span>
+                      <div className="document-manager-item-actions">
+                        <button
+                          className="document-manager-item-btn"
+                          onClick={(e) => handleRestore(e, doc.id)}
+                          aria-label={`Restore ${doc.name}`}
+                          title="Restore"
+                        >
+                          <RotateCcw aria-hidden="true" />
+                        </button>
+                        <button
+                          className="document-manager-item-btn"
+                          onClick={(e) => handlePurge(e, doc.id)}
+                          aria-label={`Delete ${doc.name} permanently`}
+                          title="Delete permanently"
+                        >
+                          <X aria-hidden="true" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          
+          {(onExportAll || onExportWorkspace || onRestoreBackup) && (
+            <div className="document-manager-backup">
+              {onExportAll && (
+                <button
+                  className="document-manager-import-btn"
+                  onClick={handleExportAll}
+                  title="Download every document, folder and attachment as a ZIP file"
+                >
+                  <Archive aria-hidden="true" />
+                  Back up all
+                </button>
+              )}
+              {onExportWorkspace && (
+                <button
+                  className="document-manager-import-btn"
+                  onClick={handleExportWorkspace}
+                  title="Download documents, folders and settings as a JSON file to set up another machine"
+                >
+                  <FileBraces aria-hidden="true" />
+                  Export workspace
+                </button>
+              )}
+              {onRestoreBackup && (
+                <>
+                  <button
+                    className="document-manager-import-btn"
+                    onClick={() => restoreInputRef.current?.click()}
+                    title="Restore documents from a backup ZIP or workspace JSON file"
+                  >
+                    <ArchiveRestore aria-hidden="true" />
+                    Restore
+                  </button>
+                  <input
+                    ref={restoreInputRef}
+                    type="file"
+                    accept=".zip,application/zip,.json,application/json"
+                    hidden
+                    onChange={handleRestoreChange}
+                    data-testid="document-manager-restore-input"
+                  />
+                </>
+              )}
+            </div>
+          )}
           
           <div className={`document-manager-status ${status === 'saving' ? 'document-manager-status-saving' : ''} ${error ? 'document-manager-status-error' : ''}`}>
             {getStatusText()}
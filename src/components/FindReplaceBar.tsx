@@ -0,0 +1,212 @@
+import { useEffect, useRef } from 'react'
+import {
+  ArrowDown,
+  ArrowUp,
+  CaseSensitive,
+  ChevronDown,
+  ChevronRight,
+  Regex,
+  Replace,
+  ReplaceAll,
+  WholeWord,
+  X,
+} from 'lucide-react'
+import type { FindReplaceState } from '../hooks/useFindReplace'
+import type { FindOptions } from '../utils/find'
+import './FindReplaceBar.css'
+
+interface FindReplaceBarProps {
+  find: FindReplaceState
+  onClose: () => void
+}
+
+const optionToggles: { option: keyof FindOptions; label: string; icon: typeof CaseSensitive }[] = [
+  { option: 'caseSensitive', label: 'Match case', icon: CaseSensitive },
+  { option: 'wholeWord', label: 'Match whole word', icon: WholeWord },
+  { option: 'regex', label: 'Use regular expression', icon: Regex },
+]
+
+/**
+ * Find and replace bar shown above the editor (Ctrl+F / Ctrl+H).
+ * Enter and Shift+Enter move between matches, Escape closes the bar.
+ */
+export function FindReplaceBar({ find, onClose }: FindReplaceBarProps) {
+  const findInputRef = useRef<HTMLInputElement>(null)
+
+  // Focus the search field each time the bar is opened
+  useEffect(() => {
+    if (find.isOpen && findInputRef.current) {
+      findInputRef.current.focus()
+      findInputRef.current.select()
+    }
+  }, [find.isOpen, find.focusToken])
+
+  if (!find.isOpen) return null
+
+  const getMatchLabel = () => {
+    if (find.error) return 'Invalid regex'
+    if (!find.query) return ''
+    if (find.matches.length === 0) return 'No results'
+    return `${find.activeIndex + 1} of ${find.matches.length}`
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    } else if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
+      // Keep the browser's own find from opening over the bar
+      e.preventDefault()
+      findInputRef.current?.focus()
+      findInputRef.current?.select()
+    } else if ((e.ctrlKey || e.metaKey) && e.key === 'h') {
+      e.preventDefault()
+      find.setShowReplace(true)
+    }
+  }
+
+  const handleFindKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (e.shiftKey) {
+        find.findPrevious()
+      } else {
+        find.findNext()
+      }
+    }
+  }
+
+  const handleReplaceKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if ((e.ctrlKey || e.metaKey) && e.altKey) {
+        find.replaceAll()
+      } else {
+        find.replaceCurrent()
+      }
+    }
+  }
+
+  const hasMatches = find.matches.length > 0
+
+  return (
+    <div
+      className="find-replace-bar"
+      role="search"
+      aria-label="Find and replace"
+      onKeyDown={handleKeyDown}
+    >
+      <button
+        className="find-replace-btn find-replace-expand"
+        onClick={() => find.setShowReplace(!find.showReplace)}
+        aria-label="Toggle replace"
+        aria-expanded={find.showReplace}
+        title="Toggle replace (Ctrl+H)"
+      >
+        {find.showReplace ? <ChevronDown aria-hidden="true" /> : <ChevronRight aria-hidden="true" />}
+      </button>
+
+      <div className="find-replace-rows">
+        <div className="find-replace-row">
+          <div className={`find-replace-field ${find.error ? 'has-error' : ''}`}>
+            <input
+              ref={findInputRef}
+              className="find-replace-input"
+              type="text"
+              value={find.query}
+              onChange={(e) => find.setQuery(e.target.value)}
+              onKeyDown={handleFindKeyDown}
+              placeholder="Find"
+              aria-label="Find"
+              aria-invalid={find.error !== null}
+              title={find.error ?? undefined}
+              spellCheck={false}
+            />
+            {optionToggles.map(({ option, label, icon: Icon }) => (
+              <button
+                key={option}
+                className={`find-replace-option ${find.options[option] ? 'active' : ''}`}
+                onClick={() => find.toggleOption(option)}
+                aria-label={label}
+                aria-pressed={find.options[option]}
+                title={label}
+              >
+                <Icon aria-hidden="true" />
+              </button>
+            ))}
+          </div>
+
+          <span
+            className={`find-replace-count ${find.error || (find.query && !hasMatches) ? 'no-results' : ''}`}
+            aria-live="polite"
+            data-testid="find-match-count"
+          >
+            {getMatchLabel()}
+          </span>
+
+          <button
+            className="find-replace-btn"
+            onClick={find.findPrevious}
+            disabled={!hasMatches}
+            aria-label="Previous match"
+            title="Previous match (Shift+Enter)"
+          >
+            <ArrowUp aria-hidden="true" />
+          </button>
+          <button
+            className="find-replace-btn"
+            onClick={find.findNext}
+            disabled={!hasMatches}
+            aria-label="Next match"
+            title="Next match (Enter)"
+          >
+            <ArrowDown aria-hidden="true" />
+          </button>
+          <button
+            className="find-replace-btn"
+            onClick={onClose}
+            aria-label="Close find"
+            title="Close (Escape)"
+          >
+            <X aria-hidden="true" />
+          </button>
+        </div>
+
+        {find.showReplace && (
+          <div className="find-replace-row">
+            <div className="find-replace-field">
+              <input
+                className="find-replace-input"
+                type="text"
+                value={find.replacement}
+                onChange={(e) => find.setReplacement(e.target.value)}
+                onKeyDown={handleReplaceKeyDown}
+                placeholder="Replace"
+                aria-label="Replace with"
+                spellCheck={false}
+              />
+            </div>
+            <button
+              className="find-replace-btn"
+              onClick={find.replaceCurrent}
+              disabled={!hasMatches}
+              aria-label="Replace"
+              title="Replace (Enter)"
+            >
+              <Replace aria-hidden="true" />
+            </button>
+            <button
+              className="find-replace-btn"
+              onClick={find.replaceAll}
+              disabled={!hasMatches}
+              aria-label="Replace all"
+              title="Replace all (Ctrl+Alt+Enter)"
+            >
+              <ReplaceAll aria-hidden="true" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,340 @@
+import { useState, useRef, useMemo, useCallback } from 'react'
+import {
+  ChevronDown, ChevronRight, FileText, FilePlus, Folder as FolderIcon, FolderOpen, FolderPlus, Pencil, Trash2,
+} from 'lucide-react'
+import type { Document, Folder } from '../hooks/useDocuments'
+import { buildFolderTree, isWithinFolder, type FolderTreeNode } from '../utils/folders'
+import './FolderTree.css'
+
+interface FolderTreeProps {
+  folders: Folder[]
+  documents: Document[]
+  activeDocumentId: string | null
+  onSelectDocument: (id: string) => void
+  onCreateDocument: (folderId: string | null) => void
+  /** Create a folder and return its id so it can be renamed right away */
+  onCreateFolder: (name: string, parentId: string | null) => string
+  onRenameFolder: (id: string, newName: string) => void
+  onDeleteFolder: (id: string) => void
+  onMoveDocument: (id: string, folderId: string | null) => void
+  onMoveFolder: (id: string, parentId: string | null) => void
+}
+
+type DragItem = { type: 'document' | 'folder'; id: string }
+
+/** MIME type for items dragged within the tree */
+const DRAG_TYPE = 'application/x-markdown-notepad'
+const NEW_FOLDER_NAME = 'New Folder'
+/** Drop target id for the top level */
+const ROOT_TARGET = ''
+
+/**
+ * Sidebar showing folders and documents as a collapsible tree.
+ * Documents and folders can be dragged onto a folder to move them into it,
+ * or onto empty space in the tree to move them to the top level.
+ */
+export function FolderTree({
+  folders,
+  documents,
+  activeDocumentId,
+  onSelectDocument,
+  onCreateDocument,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  onMoveDocument,
+  onMoveFolder,
+}: FolderTreeProps) {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set())
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+  const dragItemRef = useRef<DragItem | null>(null)
+
+  const tree = useMemo(() => buildFolderTree(folders, documents), [folders, documents])
+
+  const toggleFolder = useCallback((id: string, expanded?: boolean) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev)
+      if (expanded ?? next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }, [])
+
+  const handleCreateFolder = (parentId: string | null) => {
+    const id = onCreateFolder(NEW_FOLDER_NAME, parentId)
+    if (parentId) toggleFolder(parentId, true)
+    setEditingId(id)
+    setEditingName(NEW_FOLDER_NAME)
+  }
+
+  const handleCreateDocument = (folderId: string | null) => {
+    onCreateDocument(folderId)
+    if (folderId) toggleFolder(folderId, true)
+  }
+
+  const handleStartRename = (folder: Folder) => {
+    setEditingId(folder.id)
+    setEditingName(folder.name)
+  }
+
+  const handleRenameSubmit = () => {
+    if (editingId && editingName.trim()) {
+      onRenameFolder(editingId, editingName.trim())
+    }
+    setEditingId(null)
+  }
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation()
+    if (e.key === 'Enter') {
+      handleRenameSubmit()
+    } else if (e.key === 'Escape') {
+      setEditingId(null)
+    }
+  }
+
+  // Whether the dragged item can be moved into the target folder (null for the top level)
+  const canDrop = (item: DragItem, targetId: string | null): boolean => {
+    if (item.type === 'document') {
+      const doc = documents.find(d => d.id === item.id)
+      return !!doc && (doc.folderId ?? null) !== targetId
+    }
+    const folder = folders.find(f => f.id === item.id)
+    if (!folder || folder.parentId === targetId) return false
+    return targetId === null || !isWithinFolder(folders, targetId, item.id)
+  }
+
+  const handleDragStart = (e: React.DragEvent, item: DragItem) => {
+    e.stopPropagation()
+    dragItemRef.current = item
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(item))
+    e.dataTransfer.effectAllowed = 'move'
+  }
+
+  const handleDragEnd = () => {
+    dragItemRef.current = null
+    setDropTargetId(null)
+  }
+
+  const handleDragOver = (e: React.DragEvent, targetId: string | null) => {
+    e.stopPropagation()
+    const item = dragItemRef.current
+    if (!item || !canDrop(item, targetId)) {
+      setDropTargetId(null)
+      return
+    }
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'move'
+    setDropTargetId(targetId ?? ROOT_TARGET)
+  }
+
+  const handleDrop = (e: React.DragEvent, targetId: string | null) => {
+    e.preventDefault()
+    e.stopPropagation()
+    const item = dragItemRef.current
+    handleDragEnd()
+    if (!item || !canDrop(item, targetId)) return
+
+    if (item.type === 'document') {
+      onMoveDocument(item.id, targetId)
+    } else {
+      onMoveFolder(item.id, targetId)
+    }
+    if (targetId) toggleFolder(targetId, true)
+  }
+
+  const handleFolderKeyDown = (e: React.KeyboardEvent, id: string, isExpanded: boolean) => {
+    if (e.target !== e.currentTarget) return
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault()
+      toggleFolder(id)
+    } else if (e.key === 'ArrowRight' && !isExpanded) {
+      e.preventDefault()
+      toggleFolder(id, true)
+    } else if (e.key === 'ArrowLeft' && isExpanded) {
+      e.preventDefault()
+      toggleFolder(id, false)
+    }
+  }
+
+  const handleDocumentKeyDown = (e: React.KeyboardEvent, id: string) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault()
+      onSelectDocument(id)
+    }
+  }
+
+  const indent = (level: number) => ({ paddingLeft: `calc(${level} * var(--space-md))` })
+
+  const renderDocument = (doc: Document, level: number) => {
+    const isActive = doc.id === activeDocumentId
+    return (
+      <li
+        key={doc.id}
+        role="treeitem"
+        aria-level={level}
+        aria-selected={isActive}
+        tabIndex={0}
+        className={`folder-tree-row folder-tree-document ${isActive ? 'active' : ''}`}
+        style={indent(level)}
+        draggable
+        onDragStart={(e) => handleDragStart(e, { type: 'document', id: doc.id })}
+        onDragEnd={handleDragEnd}
+        // Dropping onto a document moves the item next to it
+        onDragOver={(e) => handleDragOver(e, doc.folderId ?? null)}
+        onDrop={(e) => handleDrop(e, doc.folderId ?? null)}
+        onClick={() => onSelectDocument(doc.id)}
+        onKeyDown={(e) => handleDocumentKeyDown(e, doc.id)}
+      >
+        <FileText className="folder-tree-icon" aria-hidden="true" />
+        <span className="folder-tree-name">{doc.name}</span>
+      </li>
+    )
+  }
+
+  const renderFolder = ({ folder, children, documents: folderDocuments }: FolderTreeNode, level: number) => {
+    const isExpanded = !collapsedIds.has(folder.id)
+    const isEmpty = children.length === 0 && folderDocuments.length === 0
+    const Chevron = isExpanded ? ChevronDown : ChevronRight
+    const Icon = isExpanded ? FolderOpen : FolderIcon
+
+    return (
+      <li
+        key={folder.id}
+        role="treeitem"
+        aria-level={level}
+        aria-expanded={isExpanded}
+        aria-label={folder.name}
+        tabIndex={0}
+        className="folder-tree-folder"
+        onKeyDown={(e) => handleFolderKeyDown(e, folder.id, isExpanded)}
+      >
+        <div
+          className={`folder-tree-row ${dropTargetId === folder.id ? 'drop-target' : ''}`}
+          style={indent(level)}
+          draggable={editingId !== folder.id}
+          onDragStart={(e) => handleDragStart(e, { type: 'folder', id: folder.id })}
+          onDragEnd={handleDragEnd}
+          onDragOver={(e) => handleDragOver(e, folder.id)}
+          onDrop={(e) => handleDrop(e, folder.id)}
+          onClick={() => toggleFolder(folder.id)}
+          data-testid={`folder-row-${folder.id}`}
+        >
+          <Chevron className="folder-tree-chevron" aria-hidden="true" />
+          <Icon className="folder-tree-icon" aria-hidden="true" />
+
+          {editingId === folder.id ? (
+            // A new folder may only appear in the next render, so focus on mount
+            <input
+              autoFocus
+              onFocus={(e) => e.target.select()}
+              className="folder-tree-input"
+              type="text"
+              value={editingName}
+              onChange={(e) => setEditingName(e.target.value)}
+              onBlur={handleRenameSubmit}
+              onKeyDown={handleRenameKeyDown}
+              onClick={(e) => e.stopPropagation()}
+              aria-label="Folder name"
+            />
+          ) : (
+            <span className="folder-tree-name">{folder.name}</span>
+          )}
+
+          <div className="folder-tree-actions" onClick={(e) => e.stopPropagation()}>
+            <button
+              className="folder-tree-btn"
+              onClick={() => handleCreateDocument(folder.id)}
+              aria-label={`New document in ${folder.name}`}
+              title="New document"
+            >
+              <FilePlus aria-hidden="true" />
+            </button>
+            <button
+              className="folder-tree-btn"
+              onClick={() => handleCreateFolder(folder.id)}
+              aria-label={`New folder in ${folder.name}`}
+              title="New folder"
+            >
+              <FolderPlus aria-hidden="true" />
+            </button>
+            <button
+              className="folder-tree-btn"
+              onClick={() => handleStartRename(folder)}
+              aria-label={`Rename folder ${folder.name}`}
+              title="Rename"
+            >
+              <Pencil aria-hidden="true" />
+            </button>
+            <button
+              className="folder-tree-btn"
+              onClick={() => onDeleteFolder(folder.id)}
+              aria-label={`Delete folder ${folder.name}`}
+              title="Delete folder (its contents move up a level)"
+            >
+              <Trash2 aria-hidden="true" />
+            </button>
+          </div>
+        </div>
+
+        {isExpanded && (
+          <ul role="group" className="folder-tree-group">
+            {children.map(child => renderFolder(child, level + 1))}
+            {folderDocuments.map(doc => renderDocument(doc, level + 1))}
+            {isEmpty && (
+              <li className="folder-tree-empty" style={indent(level + 1)} role="none">
+                Empty folder
+              </li>
+            )}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <aside className="folder-tree" aria-label="Notebooks">
+      <div className="folder-tree-header">
+        <h2 className="folder-tree-title">Notebooks</h2>
+        <div className="folder-tree-header-actions">
+          <button
+            className="folder-tree-btn"
+            onClick={() => handleCreateDocument(null)}
+            aria-label="New document"
+            title="New document"
+          >
+            <FilePlus aria-hidden="true" />
+          </button>
+          <button
+            className="folder-tree-btn"
+            onClick={() => handleCreateFolder(null)}
+            aria-label="New folder"
+            title="New folder"
+          >
+            <FolderPlus aria-hidden="true" />
+          </button>
+        </div>
+      </div>
+
+      <ul
+        role="tree"
+        aria-label="Folders and documents"
+        className={`folder-tree-list ${dropTargetId === ROOT_TARGET ? 'drop-target' : ''}`}
+        onDragOver={(e) => handleDragOver(e, null)}
+        onDrop={(e) => handleDrop(e, null)}
+        data-testid="folder-tree-root"
+      >
+        {tree.folders.map(node => renderFolder(node, 1))}
+        {tree.documents.map(doc => renderDocument(doc, 1))}
+        {tree.folders.length === 0 && tree.documents.length === 0 && (
+          <li className="folder-tree-empty" role="none">No documents yet</li>
+        )}
+      </ul>
+    </aside>
+  )
+}
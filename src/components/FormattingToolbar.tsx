@@ -9,6 +9,10 @@ import {
   Quote,
   FileDown,
   FileCode,
+  History,
+  Paperclip,
+  ArrowDownUp,
+  ListTree,
   Sun,
   Moon,
 } from 'lucide-react'
@@ -25,6 +29,12 @@ export interface FormattingToolbarProps {
   onQuote: () => void
   onExportMarkdown?: () => void
   onExportHtml?: () => void
+  onShowHistory?: () => void
+  onShowAttachments?: () => void
+  onToggleScrollSync?: () => void
+  isScrollSyncEnabled?: boolean
+  onToggleOutline?: () => void
+  isOutlineOpen?: boolean
   onToggleTheme?: () => void
   isDark?: boolean
   disabled?: boolean
@@ -41,6 +51,12 @@ export function FormattingToolbar({
   onQuote,
   onExportMarkdown,
   onExportHtml,
+  onShowHistory,
+  onShowAttachments,
+  onToggleScrollSync,
+  isScrollSyncEnabled = false,
+  onToggleOutline,
+  isOutlineOpen = false,
   onToggleTheme,
   isDark = false,
   disabled = false,
@@ -165,6 +181,52 @@ export function FormattingToolbar({
       >
         <FileDown className="toolbar-icon" aria-hidden="true" />
       </button>
+      <button
+        type="button"
+        className="toolbar-button"
+        onClick={onShowHistory}
+        disabled={disabled || !onShowHistory}
+        aria-label="Version history"
+        title="Version history"
+        data-testid="toolbar-history"
+      >
+        <History className="toolbar-icon" aria-hidden="true" />
+      </button>
+      <button
+        type="button"
+        className="toolbar-button"
+        onClick={onShowAttachments}
+        disabled={disabled || !onShowAttachments}
+        aria-label="Attachments"
+        title="Attachments"
+        data-testid="toolbar-attachments"
+      >
+        <Paperclip className="toolbar-icon" aria-hidden="true" />
+      </button>
+      <button
+        type="button"
+        className={`toolbar-button ${isScrollSyncEnabled ? 'is-active' : ''}`}
+        onClick={onToggleScrollSync}
+        disabled={disabled || !onToggleScrollSync}
+        aria-label="Sync scrolling"
+        aria-pressed={isScrollSyncEnabled}
+        title={isScrollSyncEnabled ? 'Stop syncing editor and preview scrolling' : 'Sync editor and preview scrolling'}
+        data-testid="toolbar-scroll-sync"
+      >
+        <ArrowDownUp className="toolbar-icon" aria-hidden="true" />
+      </button>
+      <button
+        type="button"
+        className={`toolbar-button ${isOutlineOpen ? 'is-active' : ''}`}
+        onClick={onToggleOutline}
+        disabled={disabled || !onToggleOutline}
+        aria-label="Outline"
+        aria-pressed={isOutlineOpen}
+        title={isOutlineOpen ? 'Hide outline' : 'Show outline'}
+        data-testid="toolbar-outline"
+      >
+        <ListTree className="toolbar-icon" aria-hidden="true" />
+      </button>
       <div className="toolbar-divider toolbar-divider--spaced" role="separator" />
       <button
         type="button"
@@ -0,0 +1,142 @@
+import { useState, useMemo } from 'react'
+import { History, RotateCcw, X } from 'lucide-react'
+import type { DocumentSnapshot, SnapshotReason } from '../storage/types'
+import { diffLines, summarizeDiff } from '../utils/diff'
+import './HistoryPanel.css'
+
+interface HistoryPanelProps {
+  isOpen: boolean
+  snapshots: DocumentSnapshot[]
+  currentContent: string
+  onRestore: (snapshotId: string) => void
+  onClose: () => void
+}
+
+const reasonLabels: Record<SnapshotReason, string> = {
+  manual: 'Manual save',
+  auto: 'Auto snapshot',
+  restore: 'Before restore',
+  import: 'Before import',
+  backup: 'Before backup restore',
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+}
+
+/**
+ * Version history panel listing snapshots of the active document.
+ * Shows a line diff between the selected snapshot and the current content.
+ */
+export function HistoryPanel({
+  isOpen,
+  snapshots,
+  currentContent,
+  onRestore,
+  onClose,
+}: HistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) ?? snapshots[0] ?? null
+
+  const diff = useMemo(
+    () => (selected ? diffLines(selected.content, currentContent) : []),
+    [selected, currentContent]
+  )
+  const summary = summarizeDiff(diff)
+
+  if (!isOpen) return null
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose()
+    }
+  }
+
+  const handleRestore = () => {
+    if (!selected) return
+    onRestore(selected.id)
+    onClose()
+  }
+
+  return (
+    <div
+      className="history-panel-overlay"
+      onClick={onClose}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="history-panel-title"
+    >
+      <div className="history-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="history-panel-header">
+          <h2 id="history-panel-title" className="history-panel-title">
+            <History aria-hidden="true" />
+            Version History
+          </h2>
+          <button
+            className="history-panel-close"
+            onClick={onClose}
+            aria-label="Close history"
+          >
+            <X aria-hidden="true" />
+          </button>
+        </div>
+
+        {snapshots.length === 0 ? (
+          <div className="history-panel-empty">
+            No versions yet. Press Ctrl+S to save a version.
+          </div>
+        ) : (
+          <div className="history-panel-body">
+            <ul className="history-panel-list" role="listbox" aria-label="Versions">
+              {snapshots.map((snapshot) => (
+                <li
+                  key={snapshot.id}
+                  className={`history-panel-item ${snapshot.id === selected?.id ? 'active' : ''}`}
+                  onClick={() => setSelectedId(snapshot.id)}
+                  role="option"
+                  aria-selected={snapshot.id === selected?.id}
+                >
+                  <span className="history-panel-item-time">{formatTimestamp(snapshot.createdAt)}</span>
+                  <span className="history-panel-item-reason">{reasonLabels[snapshot.reason]}</span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="history-panel-detail">
+              <div className="history-panel-detail-header">
+                <span className="history-panel-summary" data-testid="history-diff-summary">
+                  Changes since this version:{' '}
+                  <span className="history-panel-added">+{summary.added}</span>{' '}
+                  <span className="history-panel-removed">-{summary.removed}</span>
+                </span>
+                <button
+                  className="history-panel-restore"
+                  onClick={handleRestore}
+                  aria-label="Restore this version"
+                >
+                  <RotateCcw aria-hidden="true" />
+                  Restore
+                </button>
+              </div>
+              <pre className="history-panel-diff" data-testid="history-diff">
+                {diff.map((line, index) => (
+                  <div key={index} className={`history-diff-line history-diff-${line.type}`}>
+                    <span className="history-diff-marker" aria-hidden="true">
+                      {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                    </span>
+                    {line.text || ' '}
+                  </div>
+                ))}
+              </pre>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { FileUp } from 'lucide-react'
+import type { DuplicateResolution, ImportCandidate } from '../utils/importFiles'
+import './ImportDialog.css'
+
+interface ImportDialogProps {
+  /** Files being imported, some of which duplicate existing documents */
+  candidates: ImportCandidate[]
+  /** Resolutions by candidate index; only duplicates use theirs */
+  onConfirm: (resolutions: DuplicateResolution[]) => void
+  onCancel: () => void
+}
+
+const RESOLUTION_OPTIONS: { value: DuplicateResolution; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'keep-both', label: 'Keep both' },
+]
+
+/**
+ * Asks what to do with imported files that match existing documents,
+ * by name or content: skip them, overwrite the document, or keep both
+ */
+export function ImportDialog({ candidates, onConfirm, onCancel }: ImportDialogProps) {
+  const [resolutions, setResolutions] = useState<DuplicateResolution[]>(() => candidates.map(() => 'skip'))
+
+  const duplicates = candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .filter(({ candidate }) => candidate.duplicate)
+  const newCount = candidates.length - duplicates.length
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel()
+    }
+  }
+
+  const setResolution = (index: number, resolution: DuplicateResolution) => {
+    setResolutions(prev => prev.map((current, i) => i === index ? resolution : current))
+  }
+
+  return (
+    <div
+      className="import-dialog-overlay"
+      onClick={onCancel}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="import-dialog-title"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="import-dialog" onClick={(e) => e.stopPropagation()}>
+        <h2 id="import-dialog-title" className="import-dialog-title">
+          <FileUp aria-hidden="true" />
+          Import Documents
+        </h2>
+        <p className="import-dialog-message">
+          {duplicates.length === 1
+            ? '1 file matches an existing document.'
+            : `${duplicates.length} files match existing documents.`}
+          {newCount > 0 && ` ${newCount} new ${newCount === 1 ? 'file' : 'files'} will be added.`}
+        </p>
+
+        {duplicates.length > 1 && (
+          <label className="import-dialog-all">
+            Apply to all
+            <select
+              className="import-dialog-select"
+              value=""
+              onChange={(e) => {
+                const resolution = e.target.value as DuplicateResolution
+                setResolutions(prev => prev.map(() => resolution))
+              }}
+            >
+              <option value="" disabled>Choose…</option>
+              {RESOLUTION_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <ul className="import-dialog-list">
+          {duplicates.map(({ candidate, index }) => (
+            <li key={index} className="import-dialog-item">
+              <span className="import-dialog-item-text">
+                <span className="import-dialog-file">{candidate.fileName}</span>
+                <span className="import-dialog-match">
+                  matches “{candidate.duplicate!.name}”
+                </span>
+              </span>
+              <select
+                className="import-dialog-select"
+                value={resolutions[index]}
+                onChange={(e) => setResolution(index, e.target.value as DuplicateResolution)}
+                aria-label={`Action for ${candidate.fileName}`}
+              >
+                {RESOLUTION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </li>
+          ))}
+        </ul>
+
+        <div className="import-dialog-actions">
+          <button className="import-dialog-btn import-dialog-btn-secondary" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="import-dialog-btn import-dialog-btn-primary" onClick={() => onConfirm(resolutions)}>
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
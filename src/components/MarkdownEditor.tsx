@@ -1,10 +1,14 @@
 import { useCallback, useState, useRef, useEffect, forwardRef, useImperativeHandle } from 'react'
+import type { SearchRange } from '../utils/search'
+import { lineAtOffset, measureTextareaLines, offsetOfLine, type LineAnchor } from '../utils/scrollSync'
 import './MarkdownEditor.css'
 
 export interface MarkdownEditorRef {
   insertText: (before: string, after?: string, defaultText?: string) => void
   getSelection: () => { start: number; end: number; text: string }
   focus: () => void
+  /** Select a range of the content and scroll it into view */
+  selectRange: (start: number, end: number, focus?: boolean) => void
 }
 
 interface MarkdownEditorProps {
@@ -17,6 +21,38 @@ interface MarkdownEditorProps {
   onItalic?: () => void
   onSave?: () => void
   onScroll?: (scrollTop: number, scrollHeight: number, clientHeight: number) => void
+  /** Source line to scroll to the top, such as the one shown at the top of the preview */
+  scrollLine?: number
+  /** Reports the source line, with a fraction, at the top after the user scrolls */
+  onScrollLine?: (line: number) => void
+  onFind?: () => void
+  onFindReplace?: () => void
+  /** Ranges of the content to highlight, such as find matches */
+  highlights?: SearchRange[]
+  /** Index of the highlight drawn as the current one */
+  activeHighlight?: number
+  /** Store pasted or dropped image files, returning the markdown to insert for them */
+  onImageFiles?: (files: File[]) => Promise<string>
+}
+
+/**
+ * Split the content into plain and highlighted parts for the backdrop
+ */
+function renderHighlights(value: string, highlights: SearchRange[], activeHighlight: number) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  highlights.forEach((range, index) => {
+    parts.push(value.slice(cursor, range.start))
+    parts.push(
+      <mark key={index} className={index === activeHighlight ? 'active' : undefined}>
+        {value.slice(range.start, range.end)}
+      </mark>
+    )
+    cursor = range.end
+  })
+  // A trailing newline needs content after it to take up a line
+  parts.push(`${value.slice(cursor)} `)
+  return parts
 }
 
 export const MarkdownEditor = forwardRef<MarkdownEditorRef, MarkdownEditorProps>(function MarkdownEditor({
@@ -29,9 +65,31 @@ export const MarkdownEditor = forwardRef<MarkdownEditorRef, MarkdownEditorProps>
   onItalic,
   onSave,
   onScroll,
+  scrollLine,
+  onScrollLine,
+  onFind,
+  onFindReplace,
+  highlights = [],
+  activeHighlight = -1,
+  onImageFiles,
 }, ref) {
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const backdropRef = useRef<HTMLDivElement>(null)
   const [isFocused, setIsFocused] = useState(false)
+  const lineAnchorsRef = useRef<{ value: string; width: number; anchors: LineAnchor[] } | null>(null)
+  // Scroll position set by scrollLine, whose scroll event is not reported back
+  const ignoredScrollTopRef = useRef<number | null>(null)
+
+  // Measuring lines lays out a copy of the text, so reuse it until the text or width changes
+  const getLineAnchors = useCallback((textarea: HTMLTextAreaElement) => {
+    const cached = lineAnchorsRef.current
+    if (cached && cached.value === textarea.value && cached.width === textarea.clientWidth) {
+      return cached.anchors
+    }
+    const anchors = measureTextareaLines(textarea)
+    lineAnchorsRef.current = { value: textarea.value, width: textarea.clientWidth, anchors }
+    return anchors
+  }, [])
 
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -71,10 +129,107 @@ export const MarkdownEditor = forwardRef<MarkdownEditorRef, MarkdownEditorProps>
         onSave?.()
         return
       }
+
+      // Ctrl/Cmd + F for find
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key === 'f' && onFind) {
+        e.preventDefault()
+        onFind()
+        return
+      }
+
+      // Ctrl/Cmd + H for find and replace
+      if ((e.ctrlKey || e.metaKey) && e.key === 'h' && onFindReplace) {
+        e.preventDefault()
+        onFindReplace()
+        return
+      }
+    },
+    [onBold, onItalic, onSave, onFind, onFindReplace]
+  )
+
+  // Insert markdown for image files in place of the selection at the time they were added.
+  // Nothing is inserted when they cannot be stored.
+  const insertImageFiles = useCallback(
+    (files: File[]) => {
+      const textarea = textareaRef.current
+      if (!onImageFiles || !textarea) return
+      const { selectionStart: start, selectionEnd: end } = textarea
+
+      onImageFiles(files)
+        .then(markdown => {
+          if (!markdown) return
+          const current = textarea.value
+          onChange(current.slice(0, start) + markdown + current.slice(end))
+          setTimeout(() => {
+            textarea.selectionStart = textarea.selectionEnd = start + markdown.length
+            textarea.focus()
+          }, 0)
+        })
+        .catch(err => console.error('Failed to add images:', err))
     },
-    [onBold, onItalic, onSave]
+    [onImageFiles, onChange]
   )
 
+  const handlePaste = useCallback(
+    (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+      const images = Array.from(e.clipboardData.files).filter(file => file.type.startsWith('image/'))
+      if (!onImageFiles || images.length === 0) return
+      e.preventDefault()
+      insertImageFiles(images)
+    },
+    [onImageFiles, insertImageFiles]
+  )
+
+  const handleDragOver = useCallback(
+    (e: React.DragEvent<HTMLTextAreaElement>) => {
+      if (!onImageFiles || !Array.from(e.dataTransfer.types).includes('Files')) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'copy'
+    },
+    [onImageFiles]
+  )
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLTextAreaElement>) => {
+      const images = Array.from(e.dataTransfer.files).filter(file => file.type.startsWith('image/'))
+      if (!onImageFiles || images.length === 0) return
+      e.preventDefault()
+      insertImageFiles(images)
+    },
+    [onImageFiles, insertImageFiles]
+  )
+
+  const handleScroll = useCallback(
+    (e: React.UIEvent<HTMLTextAreaElement>) => {
+      const { scrollTop, scrollHeight, clientHeight } = e.currentTarget
+      if (backdropRef.current) {
+        backdropRef.current.scrollTop = scrollTop
+      }
+      onScroll?.(scrollTop, scrollHeight, clientHeight)
+
+      const ignored = ignoredScrollTopRef.current
+      ignoredScrollTopRef.current = null
+      if (ignored !== null && Math.abs(scrollTop - ignored) < 1) return
+      onScrollLine?.(lineAtOffset(getLineAnchors(e.currentTarget), scrollTop))
+    },
+    [onScroll, onScrollLine, getLineAnchors]
+  )
+
+  // Follow the line scrolled to elsewhere. Lines keep their place while typing,
+  // so this only runs when the requested line changes.
+  useEffect(() => {
+    const textarea = textareaRef.current
+    if (scrollLine === undefined || !textarea) return
+
+    const top = offsetOfLine(getLineAnchors(textarea), scrollLine)
+    if (Math.abs(textarea.scrollTop - top) < 1) return
+    textarea.scrollTop = top
+    ignoredScrollTopRef.current = textarea.scrollTop
+    if (backdropRef.current) {
+      backdropRef.current.scrollTop = textarea.scrollTop
+    }
+  }, [scrollLine, getLineAnchors])
+
   // Expose imperative methods via ref
   useImperativeHandle(ref, () => ({
     insertText: (before: string, after: string = '', defaultText: string = 'text') => {
@@ -111,6 +266,23 @@ export const MarkdownEditor = forwardRef<MarkdownEditorRef, MarkdownEditorProps>
     focus: () => {
       textareaRef.current?.focus()
     },
+    selectRange: (start: number, end: number, focus: boolean = true) => {
+      const textarea = textareaRef.current
+      if (!textarea) return
+
+      if (focus) {
+        textarea.focus()
+      }
+      textarea.setSelectionRange(start, end)
+
+      // Center the selected line, since focusing does not scroll to the caret
+      const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 24
+      const line = textarea.value.slice(0, start).split('\n').length - 1
+      textarea.scrollTop = Math.max(0, line * lineHeight - textarea.clientHeight / 2)
+      if (backdropRef.current) {
+        backdropRef.current.scrollTop = textarea.scrollTop
+      }
+    },
   }))
 
   // Auto-resize textarea based on content
@@ -127,6 +299,16 @@ export const MarkdownEditor = forwardRef<MarkdownEditorRef, MarkdownEditorProps>
       className={`markdown-editor ${isFocused ? 'is-focused' : ''} ${disabled ? 'is-disabled' : ''}`}
       data-testid="markdown-editor"
     >
+      {highlights.length > 0 && (
+        <div
+          ref={backdropRef}
+          className="markdown-editor-backdrop"
+          aria-hidden="true"
+          data-testid="markdown-editor-highlights"
+        >
+          {renderHighlights(value, highlights, activeHighlight)}
+        </div>
+      )}
       <textarea
         ref={textareaRef}
         value={value}
@@ -134,11 +316,14 @@ export const MarkdownEditor = forwardRef<MarkdownEditorRef, MarkdownEditorProps>
         onFocus={handleFocus}
         onBlur={handleBlur}
         onKeyDown={handleKeyDown}
-        onScroll={(e) => onScroll?.(e.currentTarget.scrollTop, e.currentTarget.scrollHeight, e.currentTarget.clientHeight)}
+        onScroll={handleScroll}
+        onPaste={handlePaste}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
         placeholder={placeholder}
         disabled={disabled}
         aria-label={ariaLabel}
-        className="markdown-editor-textarea"
+        className={`markdown-editor-textarea ${highlights.length > 0 ? 'has-highlights' : ''}`}
         data-testid="markdown-editor-textarea"
         spellCheck={false}
       />
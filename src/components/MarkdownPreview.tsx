@@ -1,62 +1,368 @@
-import { useRef, useEffect, useState, useCallback } from 'react'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
+import { createContext, useContext, useRef, useEffect, useState, useCallback, useMemo } from 'react'
+import ReactMarkdown, { type Components, type ExtraProps, type Options } from 'react-markdown'
+import { Check, Link as LinkIcon } from 'lucide-react'
 import { CodeBlock } from './CodeBlock'
+import { MetadataPanel } from './MetadataPanel'
+import { parseAssetUrl } from '../utils/assets'
+import {
+  HEADING_ID_PREFIX, rehypePlugins as sharedRehypePlugins, remarkPlugins, urlTransform,
+} from '../utils/markdownPlugins'
+import { createFindPattern, type FindQuery } from '../utils/find'
+import { rehypeFindHighlight } from '../utils/rehypeFindHighlight'
+import { rehypeSourceLines } from '../utils/rehypeSourceLines'
+import { lineAtOffset, measurePreviewLines, offsetOfLine } from '../utils/scrollSync'
+import { extractFrontMatter } from '../utils/frontMatter'
+import type { Theme } from '../hooks/useTheme'
+import 'katex/dist/katex.min.css'
 import './MarkdownPreview.css'
 
 interface MarkdownPreviewProps {
   content: string
-  scrollPosition?: number
-  onScroll?: (position: number) => void
+  /** Source line to scroll to the top, such as the one shown at the top of the editor */
+  scrollLine?: number
+  /** Reports the source line, with a fraction, at the top after the user scrolls */
+  onScroll?: (line: number) => void
+  /** Search whose matches are highlighted in the rendered output */
+  highlight?: FindQuery | null
+  /** Whether a [[wiki link]] target names an existing document */
+  wikiLinkExists?: (target: string) => boolean
+  onWikiLinkClick?: (target: string, heading?: string) => void
+  /** Check or uncheck the task list item on a 0-based source line */
+  onToggleTask?: (line: number, checked: boolean) => void
+  /** URL to display a stored asset with, or null when it does not exist */
+  resolveAssetUrl?: (id: string) => Promise<string | null>
+  /** Color theme of the app, which diagrams follow */
+  theme?: Theme
 }
 
-export function MarkdownPreview({ content, scrollPosition, onScroll }: MarkdownPreviewProps) {
-  const containerRef = useRef<HTMLDivElement>(null)
-  const [isScrolling, setIsScrolling] = useState(false)
-  const scrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+type WikiLinkHandlers = Pick<MarkdownPreviewProps, 'wikiLinkExists' | 'onWikiLinkClick'>
+
+// Handlers reach wiki links and task checkboxes through context so the components below
+// stay the same between renders and elements are not remounted while being clicked
+const WikiLinkContext = createContext<WikiLinkHandlers>({})
+
+interface WikiLinkProps {
+  target: string
+  heading?: string
+  children: React.ReactNode
+}
+
+function WikiLink({ target, heading, children }: WikiLinkProps) {
+  const { wikiLinkExists, onWikiLinkClick } = useContext(WikiLinkContext)
+  const exists = wikiLinkExists?.(target) ?? true
+
+  return (
+    <a
+      className={`md-a wiki-link${exists ? '' : ' wiki-link-missing'}`}
+      href="#"
+      title={exists ? undefined : `Create "${target}"`}
+      onClick={(event) => {
+        event.preventDefault()
+        onWikiLinkClick?.(target, heading)
+      }}
+    >
+      {children}
+    </a>
+  )
+}
+
+const COPIED_FEEDBACK_MS = 2000
+
+/**
+ * Icon shown when hovering a heading that copies a link to it, like #installation
+ */
+function HeadingPermalink({ id }: { id: string }) {
+  const [copied, setCopied] = useState(false)
 
-  // Handle incoming scroll position from editor
   useEffect(() => {
-    if (scrollPosition === undefined || !containerRef.current || isScrolling) return
+    if (!copied) return
+    const timeout = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS)
+    return () => clearTimeout(timeout)
+  }, [copied])
 
-    const container = containerRef.current
-    const scrollRatio = scrollPosition / 100
-    const scrollTop = scrollRatio * (container.scrollHeight - container.clientHeight)
-    
-    container.scrollTop = scrollTop
-  }, [scrollPosition, isScrolling])
+  const label = copied ? 'Link copied' : `Copy link to #${id}`
+  return (
+    <a
+      className="md-heading-anchor"
+      href={`#${id}`}
+      aria-label={label}
+      title={label}
+      onClick={(event) => {
+        event.preventDefault()
+        navigator.clipboard?.writeText(`#${id}`)
+          .then(() => setCopied(true))
+          .catch(() => {
+            // Clipboard access denied; the link can still be copied from the context menu
+          })
+      }}
+    >
+      {copied ? <Check aria-hidden="true" /> : <LinkIcon aria-hidden="true" />}
+    </a>
+  )
+}
 
-  // Handle scroll events and report position
-  const handleScroll = useCallback(() => {
-    if (!containerRef.current || !onScroll) return
+type HeadingTag = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6'
 
-    setIsScrolling(true)
-    
-    const container = containerRef.current
-    const scrollRatio = container.scrollTop / (container.scrollHeight - container.clientHeight)
-    const percentage = Math.round(scrollRatio * 100)
-    
-    onScroll(percentage)
+function renderHeading(Tag: HeadingTag, { children, ...props }: React.ComponentProps<HeadingTag> & ExtraProps) {
+  return (
+    <div className="md-heading">
+      <Tag className={`md-${Tag}`} {...props}>{children}</Tag>
+      {props.id && <HeadingPermalink id={props.id.replace(HEADING_ID_PREFIX, '')} />}
+    </div>
+  )
+}
+
+/**
+ * Scroll to the element a #fragment link points to within the same preview
+ */
+function scrollToFragment(link: HTMLAnchorElement, fragment: string): boolean {
+  const id = decodeURIComponent(fragment)
+  // Headings are linked to without the prefix of their id, footnotes with it
+  const ids = [id, HEADING_ID_PREFIX + id]
+  const target = Array.from(link.closest('.markdown-preview')?.querySelectorAll('[id]') ?? [])
+    .find(element => ids.includes(element.id))
+  if (!target) return false
+
+  const reduceMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches
+  target.scrollIntoView({ behavior: reduceMotion ? 'auto' : 'smooth', block: 'start' })
+  return true
+}
+
+const TaskContext = createContext<Pick<MarkdownPreviewProps, 'onToggleTask'>>({})
+
+/**
+ * Checkbox of a task list item, which writes back to the source when the preview can edit it
+ */
+function TaskCheckbox({ checked }: { checked: boolean }) {
+  const { onToggleTask } = useContext(TaskContext)
+
+  if (!onToggleTask) {
+    return <input type="checkbox" checked={checked} readOnly className="md-task-checkbox" />
+  }
+
+  return (
+    <input
+      type="checkbox"
+      checked={checked}
+      className="md-task-checkbox is-interactive"
+      onChange={(event) => {
+        // The list item, or its first paragraph in loose lists, starts on the task's line
+        const line = Number(event.currentTarget.closest<HTMLElement>('[data-source-line]')?.dataset.sourceLine)
+        if (Number.isInteger(line)) onToggleTask(line, event.currentTarget.checked)
+      }}
+    />
+  )
+}
+
+const AssetContext = createContext<Pick<MarkdownPreviewProps, 'resolveAssetUrl'>>({})
+
+/**
+ * Image stored as an asset, shown once its URL is resolved
+ */
+function AssetImage({ id, alt, ...props }: React.ComponentProps<'img'> & { id: string }) {
+  const { resolveAssetUrl } = useContext(AssetContext)
+  const [resolved, setResolved] = useState<{ id: string; url: string | null } | null>(null)
 
-    // Clear existing timeout
-    if (scrollTimeoutRef.current) {
-      clearTimeout(scrollTimeoutRef.current)
+  useEffect(() => {
+    if (!resolveAssetUrl) return
+    let cancelled = false
+    resolveAssetUrl(id)
+      .catch(() => null)
+      .then(url => {
+        if (!cancelled) setResolved({ id, url })
+      })
+    return () => {
+      cancelled = true
     }
+  }, [id, resolveAssetUrl])
+
+  const url = resolved?.id === id ? resolved.url : undefined
+  if (url === null || !resolveAssetUrl) {
+    return <span className="md-img-missing" role="img" aria-label={alt || 'Missing image'}>Image not found{alt ? `: ${alt}` : ''}</span>
+  }
+  return <img className="md-img" alt={alt || ''} {...props} src={url} />
+}
 
-    // Reset scrolling flag after a delay
-    scrollTimeoutRef.current = setTimeout(() => {
-      setIsScrolling(false)
-    }, 150)
+const ThemeContext = createContext<Pick<MarkdownPreviewProps, 'theme'>>({})
+
+/**
+ * Code block in the theme of the preview
+ */
+function ThemedCodeBlock(props: React.ComponentProps<typeof CodeBlock>) {
+  const { theme } = useContext(ThemeContext)
+  return <CodeBlock {...props} theme={theme} />
+}
+
+/**
+ * Elements of the rendered markdown, styled for the preview
+ */
+const previewComponents: Components = {
+  // Custom heading components for better typography, with a permalink to each
+  h1: (props) => renderHeading('h1', props),
+  h2: (props) => renderHeading('h2', props),
+  h3: (props) => renderHeading('h3', props),
+  h4: (props) => renderHeading('h4', props),
+  h5: (props) => renderHeading('h5', props),
+  h6: (props) => renderHeading('h6', props),
+  // Custom paragraph
+  p: ({ children, ...props }) => (
+    <p className="md-p" {...props}>{children}</p>
+  ),
+  // Custom lists
+  ul: ({ children, ...props }) => (
+    <ul className="md-ul" {...props}>{children}</ul>
+  ),
+  ol: ({ children, ...props }) => (
+    <ol className="md-ol" {...props}>{children}</ol>
+  ),
+  li: ({ children, ...props }) => (
+    <li className="md-li" {...props}>{children}</li>
+  ),
+  // Custom code - use CodeBlock for blocks, inline for inline
+  code: ({ children, className, ...props }) => {
+    const codeContent = String(children)
+    // Code blocks have newlines or language class, inline code doesn't
+    const isInline = !className && !codeContent.includes('\n')
+    
+    if (isInline) {
+      return (
+        <code 
+          className="md-code-inline" 
+          {...props}
+        >
+          {children}
+        </code>
+      )
+    }
+    // For code blocks, use the CodeBlock component
+    return (
+      <ThemedCodeBlock className={className} meta={props.node?.data?.meta}>
+        {codeContent.replace(/\n$/, '')}
+      </ThemedCodeBlock>
+    )
+  },
+  // Keep the code block's source line, which CodeBlock does not render
+  pre: ({ children, node }) => (
+    <div className="md-pre" data-source-line={node?.properties.dataSourceLine as number | undefined}>
+      {children}
+    </div>
+  ),
+  // Custom blockquote
+  blockquote: ({ children, ...props }) => (
+    <blockquote className="md-blockquote" {...props}>{children}</blockquote>
+  ),
+  // Custom links, with [[wiki links]] opening other documents
+  a: ({ children, node, ...props }) => {
+    const target = node?.properties.dataWikiTarget
+    if (typeof target !== 'string') {
+      const { href } = props
+      // Links to headings in the document scroll the preview instead of navigating
+      const handleClick = href?.startsWith('#') && href.length > 1
+        ? (event: React.MouseEvent<HTMLAnchorElement>) => {
+            if (scrollToFragment(event.currentTarget, href.slice(1))) event.preventDefault()
+          }
+        : undefined
+      return <a className="md-a" {...props} onClick={handleClick}>{children}</a>
+    }
+    const heading = node?.properties.dataWikiHeading
+    return (
+      <WikiLink target={target} heading={typeof heading === 'string' ? heading : undefined}>
+        {children}
+      </WikiLink>
+    )
+  },
+  // Custom images
+  img: ({ alt, src, ...props }) => {
+    const assetId = typeof src === 'string' ? parseAssetUrl(src) : null
+    if (assetId) {
+      return <AssetImage id={assetId} alt={alt} {...props} />
+    }
+    return <img className="md-img" alt={alt || ''} src={src} {...props} />
+  },
+  // Custom horizontal rule
+  hr: (props) => (
+    <hr className="md-hr" {...props} />
+  ),
+  // Custom tables
+  table: ({ children, ...props }) => (
+    <div className="md-table-wrapper">
+      <table className="md-table" {...props}>{children}</table>
+    </div>
+  ),
+  thead: ({ children, ...props }) => (
+    <thead className="md-thead" {...props}>{children}</thead>
+  ),
+  tbody: ({ children, ...props }) => (
+    <tbody className="md-tbody" {...props}>{children}</tbody>
+  ),
+  tr: ({ children, ...props }) => (
+    <tr className="md-tr" {...props}>{children}</tr>
+  ),
+  th: ({ children, ...props }) => (
+    <th className="md-th" {...props}>{children}</th>
+  ),
+  td: ({ children, ...props }) => (
+    <td className="md-td" {...props}>{children}</td>
+  ),
+  // Task lists (GFM)
+  input: ({ type, checked, ...props }) => {
+    if (type === 'checkbox') {
+      return <TaskCheckbox checked={Boolean(checked)} />
+    }
+    return <input type={type} {...props} />
+  },
+}
+
+export function MarkdownPreview({
+  content,
+  scrollLine,
+  onScroll,
+  highlight,
+  wikiLinkExists,
+  onWikiLinkClick,
+  onToggleTask,
+  resolveAssetUrl,
+  theme,
+}: MarkdownPreviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  // Scroll position set by scrollLine, whose scroll event is not reported back
+  const ignoredScrollTopRef = useRef<number | null>(null)
+
+  // Report the source line at the top when the user scrolls
+  const handleScroll = useCallback(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const ignored = ignoredScrollTopRef.current
+    ignoredScrollTopRef.current = null
+    if (ignored !== null && Math.abs(container.scrollTop - ignored) < 1) return
+    onScroll?.(lineAtOffset(measurePreviewLines(container), container.scrollTop))
   }, [onScroll])
 
-  // Cleanup timeout on unmount
+  // Front matter is shown in the metadata panel instead of as markdown
+  const { metadata, error: frontMatterError, body } = useMemo(() => extractFrontMatter(content), [content])
+
+  // Show the line scrolled to in the editor, again whenever the rendered content changes
   useEffect(() => {
-    return () => {
-      if (scrollTimeoutRef.current) {
-        clearTimeout(scrollTimeoutRef.current)
-      }
+    const container = containerRef.current
+    if (scrollLine === undefined || !container) return
+
+    const top = offsetOfLine(measurePreviewLines(container), scrollLine)
+    if (Math.abs(container.scrollTop - top) < 1) return
+    container.scrollTop = top
+    ignoredScrollTopRef.current = container.scrollTop
+  }, [scrollLine, body])
+
+  const rehypePlugins = useMemo<NonNullable<Options['rehypePlugins']>>(() => {
+    const plugins = [rehypeSourceLines, ...sharedRehypePlugins]
+    if (!highlight?.query) return plugins
+    try {
+      return [...plugins, [rehypeFindHighlight, { pattern: createFindPattern(highlight) }]]
+    } catch {
+      // Invalid regex queries are reported by the find bar
+      return plugins
     }
-  }, [])
+  }, [highlight])
 
   return (
     <div
@@ -66,122 +372,23 @@ export function MarkdownPreview({ content, scrollPosition, onScroll }: MarkdownP
       data-testid="markdown-preview"
     >
       <div className="markdown-preview-content">
-        <ReactMarkdown 
-          remarkPlugins={[remarkGfm]}
-          components={{
-            // Custom heading components for better typography
-            h1: ({ children, ...props }) => (
-              <h1 className="md-h1" {...props}>{children}</h1>
-            ),
-            h2: ({ children, ...props }) => (
-              <h2 className="md-h2" {...props}>{children}</h2>
-            ),
-            h3: ({ children, ...props }) => (
-              <h3 className="md-h3" {...props}>{children}</h3>
-            ),
-            h4: ({ children, ...props }) => (
-              <h4 className="md-h4" {...props}>{children}</h4>
-            ),
-            h5: ({ children, ...props }) => (
-              <h5 className="md-h5" {...props}>{children}</h5>
-            ),
-            h6: ({ children, ...props }) => (
-              <h6 className="md-h6" {...props}>{children}</h6>
-            ),
-            // Custom paragraph
-            p: ({ children, ...props }) => (
-              <p className="md-p" {...props}>{children}</p>
-            ),
-            // Custom lists
-            ul: ({ children, ...props }) => (
-              <ul className="md-ul" {...props}>{children}</ul>
-            ),
-            ol: ({ children, ...props }) => (
-              <ol className="md-ol" {...props}>{children}</ol>
-            ),
-            li: ({ children, ...props }) => (
-              <li className="md-li" {...props}>{children}</li>
-            ),
-            // Custom code - use CodeBlock for blocks, inline for inline
-            code: ({ children, className, ...props }) => {
-              const codeContent = String(children)
-              // Code blocks have newlines or language class, inline code doesn't
-              const isInline = !className && !codeContent.includes('\n')
-              
-              if (isInline) {
-                return (
-                  <code 
-                    className="md-code-inline" 
-                    {...props}
-                  >
-                    {children}
-                  </code>
-                )
-              }
-              // For code blocks, use the CodeBlock component
-              return (
-                <CodeBlock className={className}>
-                  {codeContent.replace(/\n$/, '')}
-                </CodeBlock>
-              )
-            },
-            pre: ({ children }) => <>{children}</>,
-            // Custom blockquote
-            blockquote: ({ children, ...props }) => (
-              <blockquote className="md-blockquote" {...props}>{children}</blockquote>
-            ),
-            // Custom links
-            a: ({ children, ...props }) => (
-              <a className="md-a" {...props}>{children}</a>
-            ),
-            // Custom images
-            img: ({ alt, ...props }) => (
-              <img className="md-img" alt={alt || ''} {...props} />
-            ),
-            // Custom horizontal rule
-            hr: (props) => (
-              <hr className="md-hr" {...props} />
-            ),
-            // Custom tables
-            table: ({ children, ...props }) => (
-              <div className="md-table-wrapper">
-                <table className="md-table" {...props}>{children}</table>
-              </div>
-            ),
-            thead: ({ children, ...props }) => (
-              <thead className="md-thead" {...props}>{children}</thead>
-            ),
-            tbody: ({ children, ...props }) => (
-              <tbody className="md-tbody" {...props}>{children}</tbody>
-            ),
-            tr: ({ children, ...props }) => (
-              <tr className="md-tr" {...props}>{children}</tr>
-            ),
-            th: ({ children, ...props }) => (
-              <th className="md-th" {...props}>{children}</th>
-            ),
-            td: ({ children, ...props }) => (
-              <td className="md-td" {...props}>{children}</td>
-            ),
-            // Task lists (GFM)
-            input: ({ type, checked, ...props }) => {
-              if (type === 'checkbox') {
-                return (
-                  <input
-                    type="checkbox"
-                    checked={checked}
-                    readOnly
-                    className="md-task-checkbox"
-                    {...props}
-                  />
-                )
-              }
-              return <input type={type} {...props} />
-            },
-          }}
-        >
-          {content || ' '}
-        </ReactMarkdown>
+        <MetadataPanel metadata={metadata} error={frontMatterError} />
+        <WikiLinkContext value={{ wikiLinkExists, onWikiLinkClick }}>
+          <TaskContext value={{ onToggleTask }}>
+            <AssetContext value={{ resolveAssetUrl }}>
+              <ThemeContext value={{ theme }}>
+                <ReactMarkdown 
+                  remarkPlugins={remarkPlugins}
+                  rehypePlugins={rehypePlugins}
+                  components={previewComponents}
+                  urlTransform={urlTransform}
+                >
+                  {body || ' '}
+                </ReactMarkdown>
+              </ThemeContext>
+            </AssetContext>
+          </TaskContext>
+        </WikiLinkContext>
       </div>
     </div>
   )
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react'
+import { Code, Workflow } from 'lucide-react'
+import type { Theme } from '../hooks/useTheme'
+import { renderMermaid } from '../utils/mermaid'
+import './MermaidDiagram.css'
+
+interface MermaidDiagramProps {
+  /** Diagram definition from a ```mermaid code block */
+  source: string
+  /** Color theme of the app, which the diagram follows */
+  theme?: Theme
+}
+
+interface DiagramResult {
+  svg?: string
+  error?: string
+}
+
+/**
+ * A mermaid code block rendered as a diagram, with a toggle to view its source
+ */
+export function MermaidDiagram({ source, theme = 'light' }: MermaidDiagramProps) {
+  const [result, setResult] = useState<DiagramResult | null>(null)
+  const [showSource, setShowSource] = useState(false)
+
+  // The previous diagram stays visible while an edited or rethemed one renders
+  useEffect(() => {
+    let cancelled = false
+    renderMermaid(source, theme === 'dark' ? 'dark' : 'default').then(
+      svg => {
+        if (!cancelled) setResult({ svg })
+      },
+      (error: unknown) => {
+        if (!cancelled) setResult({ error: error instanceof Error ? error.message : String(error) })
+      },
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [source, theme])
+
+  const renderBody = () => {
+    if (showSource) {
+      return (
+        <pre className="code-block-pre">
+          <code data-testid="code-content">{source}</code>
+        </pre>
+      )
+    }
+    if (result?.error) {
+      return (
+        <div className="mermaid-error">
+          <p className="mermaid-error-title">Diagram could not be rendered</p>
+          <pre className="mermaid-error-message">{result.error}</pre>
+        </div>
+      )
+    }
+    if (result?.svg) {
+      return (
+        <div
+          className="mermaid-diagram"
+          data-testid="mermaid-diagram"
+          dangerouslySetInnerHTML={{ __html: result.svg }}
+        />
+      )
+    }
+    return <p className="mermaid-loading">Rendering diagram…</p>
+  }
+
+  return (
+    <div className="code-block-wrapper mermaid-block" data-testid="code-block">
+      <div className="code-block-header">
+        <span className="code-block-language" data-testid="code-language">mermaid</span>
+        <button
+          type="button"
+          className="mermaid-toggle"
+          aria-pressed={showSource}
+          onClick={() => setShowSource(show => !show)}
+        >
+          {showSource ? <Workflow aria-hidden="true" /> : <Code aria-hidden="true" />}
+          {showSource ? 'Diagram' : 'Source'}
+        </button>
+      </div>
+      {renderBody()}
+    </div>
+  )
+}
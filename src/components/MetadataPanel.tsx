@@ -0,0 +1,76 @@
+import { AlertTriangle } from 'lucide-react'
+import type { DocumentMetadata } from '../utils/frontMatter'
+import './MetadataPanel.css'
+
+interface MetadataPanelProps {
+  metadata: DocumentMetadata | null
+  /** Why the front matter could not be read */
+  error?: string | null
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+function formatDate(date: string): string {
+  if (!DATE_ONLY.test(date)) return date
+  // Date-only values are days, not instants, so format them without a time zone shift
+  const parsed = new Date(`${date}T00:00:00Z`)
+  return Number.isNaN(parsed.getTime())
+    ? date
+    : parsed.toLocaleDateString(undefined, { dateStyle: 'long', timeZone: 'UTC' })
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (Array.isArray(value)) return value.map(formatValue).join(', ')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * The front matter of a document shown as a card above the preview:
+ * its title, date and tags followed by any other fields.
+ */
+export function MetadataPanel({ metadata, error }: MetadataPanelProps) {
+  if (error) {
+    return (
+      <div className="metadata-panel metadata-panel-error" role="note">
+        <AlertTriangle className="metadata-panel-error-icon" aria-hidden="true" />
+        <span>Front matter could not be read: {error}</span>
+      </div>
+    )
+  }
+
+  if (!metadata) return null
+  const { title, date, tags, fields } = metadata
+  if (!title && !date && tags.length === 0 && fields.length === 0) return null
+
+  return (
+    <section className="metadata-panel" aria-label="Document metadata">
+      {title && <div className="metadata-panel-title">{title}</div>}
+      <dl className="metadata-panel-fields">
+        {date && (
+          <div className="metadata-panel-field">
+            <dt>Date</dt>
+            <dd><time dateTime={date}>{formatDate(date)}</time></dd>
+          </div>
+        )}
+        {tags.length > 0 && (
+          <div className="metadata-panel-field">
+            <dt>Tags</dt>
+            <dd className="metadata-panel-tags">
+              {tags.map(tag => (
+                <span key={tag} className="metadata-panel-tag">#{tag}</span>
+              ))}
+            </dd>
+          </div>
+        )}
+        {fields.map(({ key, value }) => (
+          <div key={key} className="metadata-panel-field">
+            <dt>{key}</dt>
+            <dd>{formatValue(value)}</dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  )
+}
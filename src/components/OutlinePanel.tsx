@@ -0,0 +1,111 @@
+import { useState, useRef, useMemo } from 'react'
+import { ListTree } from 'lucide-react'
+import {
+  buildOutlineTree, canMoveSection, findHeadingAtLine, type OutlineHeading, type OutlineNode,
+} from '../utils/outline'
+import './OutlinePanel.css'
+
+interface OutlinePanelProps {
+  headings: OutlineHeading[]
+  /** Source line at the top of the preview, whose section is highlighted */
+  activeLine: number
+  onSelectHeading: (heading: OutlineHeading) => void
+  /** Move a section before another heading, or to the end for null */
+  onMoveSection: (from: number, to: number | null) => void
+}
+
+/** MIME type for sections dragged within the outline */
+const DRAG_TYPE = 'application/x-markdown-notepad-section'
+/** Drop target for the end of the document */
+const END_TARGET = -1
+
+/**
+ * Sidebar listing the headings of the active document as a nested outline.
+ * Dragging a heading onto another moves its whole section before it.
+ */
+export function OutlinePanel({ headings, activeLine, onSelectHeading, onMoveSection }: OutlinePanelProps) {
+  const [dropTarget, setDropTarget] = useState<number | null>(null)
+  const dragIndexRef = useRef<number | null>(null)
+
+  const tree = useMemo(() => buildOutlineTree(headings), [headings])
+  const activeIndex = findHeadingAtLine(headings, Math.round(activeLine))
+
+  const handleDragStart = (e: React.DragEvent, index: number) => {
+    dragIndexRef.current = index
+    e.dataTransfer.setData(DRAG_TYPE, String(index))
+    e.dataTransfer.effectAllowed = 'move'
+  }
+
+  const handleDragEnd = () => {
+    dragIndexRef.current = null
+    setDropTarget(null)
+  }
+
+  const handleDragOver = (e: React.DragEvent, target: number | null) => {
+    e.stopPropagation()
+    const from = dragIndexRef.current
+    if (from === null || !canMoveSection(headings, from, target)) {
+      setDropTarget(null)
+      return
+    }
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'move'
+    setDropTarget(target ?? END_TARGET)
+  }
+
+  const handleDrop = (e: React.DragEvent, target: number | null) => {
+    e.preventDefault()
+    e.stopPropagation()
+    const from = dragIndexRef.current
+    handleDragEnd()
+    if (from === null || !canMoveSection(headings, from, target)) return
+    onMoveSection(from, target)
+  }
+
+  const renderNode = ({ heading, index, children }: OutlineNode) => (
+    <li key={index}>
+      <button
+        className={[
+          'outline-panel-item',
+          index === activeIndex ? 'active' : '',
+          index === dropTarget ? 'drop-target' : '',
+        ].filter(Boolean).join(' ')}
+        aria-current={index === activeIndex ? 'location' : undefined}
+        title={heading.text}
+        draggable
+        onDragStart={(e) => handleDragStart(e, index)}
+        onDragEnd={handleDragEnd}
+        onDragOver={(e) => handleDragOver(e, index)}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(e) => handleDrop(e, index)}
+        onClick={() => onSelectHeading(heading)}
+      >
+        {heading.text}
+      </button>
+      {children.length > 0 && <ul className="outline-panel-list">{children.map(renderNode)}</ul>}
+    </li>
+  )
+
+  return (
+    <aside className="outline-panel" aria-label="Outline">
+      <div className="outline-panel-header">
+        <ListTree className="outline-panel-icon" aria-hidden="true" />
+        <h2 className="outline-panel-title">Outline</h2>
+      </div>
+      {headings.length === 0 ? (
+        <p className="outline-panel-empty">Add headings to build an outline</p>
+      ) : (
+        <nav className="outline-panel-body" aria-label="Document outline">
+          <ul className="outline-panel-list outline-panel-root">{tree.map(renderNode)}</ul>
+          <div
+            className={`outline-panel-end ${dropTarget === END_TARGET ? 'drop-target' : ''}`}
+            data-testid="outline-end"
+            onDragOver={(e) => handleDragOver(e, null)}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => handleDrop(e, null)}
+          />
+        </nav>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { ArchiveRestore } from 'lucide-react'
+import type { Document, Folder, RestoreMode } from '../hooks/useDocuments'
+import type { AssetInfo } from '../utils/assets'
+import type { WorkspaceSettings } from '../utils/workspace'
+import './RestoreDialog.css'
+
+/** What a backup or workspace file holds */
+export interface RestoreContents {
+  createdAt: number
+  documents: Document[]
+  folders: Folder[]
+  /** Attachments, which files from before they were included do not hold */
+  assets?: AssetInfo[]
+  /** Theme and layout, which only workspace files hold */
+  settings?: WorkspaceSettings
+}
+
+interface RestoreDialogProps {
+  /** Name of the file, shown under the title */
+  fileName: string
+  /** What was read from the file, or null when it could not be read */
+  contents: RestoreContents | null
+  /** Why the file could not be read */
+  error?: string | null
+  onRestore: (mode: RestoreMode) => void
+  onCancel: () => void
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+/**
+ * Summarizes a backup or workspace file and asks whether to merge it with the
+ * current documents or replace them, or explains why the file cannot be restored
+ */
+export function RestoreDialog({ fileName, contents, error, onRestore, onCancel }: RestoreDialogProps) {
+  const [mode, setMode] = useState<RestoreMode>('merge')
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel()
+    }
+  }
+
+  const isWorkspace = Boolean(contents?.settings)
+  const source = isWorkspace ? 'workspace' : 'backup'
+  const trashedCount = contents?.documents.filter(doc => doc.deletedAt !== undefined).length ?? 0
+  const modeOptions: { value: RestoreMode; label: string; description: string }[] = [
+    {
+      value: 'merge',
+      label: 'Merge',
+      description: `Add documents from the ${source} and update those that are newer in the ${source}. Nothing is deleted.`,
+    },
+    {
+      value: 'replace',
+      label: 'Replace',
+      description: `Replace all documents${contents?.assets ? ', folders and attachments' : ' and folders'} with the ones in the ${source}.`,
+    },
+  ]
+
+  return (
+    <div
+      className="restore-dialog-overlay"
+      onClick={onCancel}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="restore-dialog-title"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="restore-dialog" onClick={(e) => e.stopPropagation()}>
+        <h2 id="restore-dialog-title" className="restore-dialog-title">
+          <ArchiveRestore aria-hidden="true" />
+          {isWorkspace ? 'Import Workspace' : 'Restore Backup'}
+        </h2>
+        <p className="restore-dialog-file">{fileName}</p>
+
+        {contents ? (
+          <>
+            <p className="restore-dialog-message">
+              {isWorkspace ? 'Exported' : 'Backed up'} {new Date(contents.createdAt).toLocaleString()}:{' '}
+              {plural(contents.documents.length, 'document')}
+              {trashedCount > 0 && ` (${trashedCount} in the trash)`}
+              {contents.assets ? ', ' : ' and '}
+              {plural(contents.folders.length, 'folder')}
+              {contents.assets && ` and ${plural(contents.assets.length, 'attachment')}`}.
+              {contents.settings && ' The theme and layout settings will be applied.'}
+            </p>
+            <fieldset className="restore-dialog-modes">
+              <legend className="restore-dialog-legend">How to restore</legend>
+              {modeOptions.map(option => (
+                <label key={option.value} className="restore-dialog-mode">
+                  <input
+                    type="radio"
+                    name="restore-mode"
+                    value={option.value}
+                    checked={mode === option.value}
+                    onChange={() => setMode(option.value)}
+                  />
+                  <span>
+                    <span className="restore-dialog-mode-label">{option.label}</span>
+                    <span className="restore-dialog-mode-description">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+          </>
+        ) : (
+          <p className="restore-dialog-error" role="alert">
+            {error ?? 'This backup could not be read.'}
+          </p>
+        )}
+
+        <div className="restore-dialog-actions">
+          <button className="restore-dialog-btn restore-dialog-btn-secondary" onClick={onCancel}>
+            {contents ? 'Cancel' : 'Close'}
+          </button>
+          {contents && (
+            <button
+              className={`restore-dialog-btn ${mode === 'replace' ? 'restore-dialog-btn-danger' : 'restore-dialog-btn-primary'}`}
+              onClick={() => onRestore(mode)}
+            >
+              {mode === 'replace' ? 'Replace everything' : 'Restore'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
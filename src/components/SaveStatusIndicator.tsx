@@ -5,9 +5,11 @@ import './SaveStatusIndicator.css'
 interface SaveStatusIndicatorProps {
   status: SaveStatus
   error?: string | null
+  /** Open the attachment manager, offered while saving fails for lack of space */
+  onManageStorage?: () => void
 }
 
-export function SaveStatusIndicator({ status, error }: SaveStatusIndicatorProps) {
+export function SaveStatusIndicator({ status, error, onManageStorage }: SaveStatusIndicatorProps) {
   const getIcon = () => {
     switch (status) {
       case 'saving':
@@ -54,6 +56,11 @@ export function SaveStatusIndicator({ status, error }: SaveStatusIndicatorProps)
     >
       {getIcon()}
       <span className="status-text">{getLabel()}</span>
+      {status === 'error' && onManageStorage && (
+        <button type="button" className="status-action" onClick={onManageStorage}>
+          Manage attachments
+        </button>
+      )}
     </div>
   )
 }
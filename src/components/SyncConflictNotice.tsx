@@ -0,0 +1,45 @@
+import { AlertTriangle } from 'lucide-react'
+import type { ConflictResolution, SyncConflict } from '../hooks/useDocuments'
+import './SyncConflictNotice.css'
+
+interface SyncConflictNoticeProps {
+  conflicts: SyncConflict[]
+  onResolve: (documentId: string, resolution: ConflictResolution) => void
+}
+
+/**
+ * Banner shown when a document was edited in this tab and another tab at once.
+ * Conflicts are resolved one at a time, oldest first.
+ */
+export function SyncConflictNotice({ conflicts, onResolve }: SyncConflictNoticeProps) {
+  if (conflicts.length === 0) return null
+
+  const [conflict] = conflicts
+  const remaining = conflicts.length - 1
+
+  return (
+    <div className="sync-conflict-notice" role="alert">
+      <AlertTriangle className="sync-conflict-icon" aria-hidden="true" />
+      <p className="sync-conflict-message">
+        <strong>{conflict.theirs.name}</strong> was changed in another tab while you were editing it.
+        {remaining > 0 && (
+          <span className="sync-conflict-more"> {remaining} more {remaining === 1 ? 'conflict' : 'conflicts'} waiting.</span>
+        )}
+      </p>
+      <div className="sync-conflict-actions">
+        <button
+          className="sync-conflict-btn sync-conflict-btn-secondary"
+          onClick={() => onResolve(conflict.documentId, 'theirs')}
+        >
+          Load their version
+        </button>
+        <button
+          className="sync-conflict-btn sync-conflict-btn-primary"
+          onClick={() => onResolve(conflict.documentId, 'mine')}
+        >
+          Keep my version
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { getDefaultDocumentStore } from '../storage'
+import type { Asset, DocumentStore } from '../storage/types'
+import { assetImageMarkdown, createAsset, type AssetInfo } from '../utils/assets'
+import type { RestoreMode } from './useDocuments'
+
+interface UseAssetsOptions {
+  /** Persistence backend; defaults to the store selected at startup */
+  store?: DocumentStore
+}
+
+interface UseAssetsResult {
+  /** Whether the store can hold assets */
+  isSupported: boolean
+  /** Stored assets without their data, newest first */
+  assets: AssetInfo[]
+  /** Store image files and return markdown referencing them, one image per line */
+  addImages: (files: File[]) => Promise<string>
+  /** Object URL to display an asset with, or null when it does not exist */
+  resolveAssetUrl: (id: string) => Promise<string | null>
+  loadAsset: (id: string) => Promise<Asset | null>
+  deleteAssets: (ids: string[]) => Promise<void>
+  /**
+   * Store assets from a backup. Merging adds the ones missing here;
+   * replacing also deletes stored assets the backup does not have.
+   */
+  restoreAssets: (assets: Asset[], mode: RestoreMode) => Promise<void>
+}
+
+function generateAssetId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function toInfo({ id, name, type, size, createdAt }: Asset): AssetInfo {
+  return { id, name, type, size, createdAt }
+}
+
+function revokeUrl(url: Promise<string | null>): void {
+  url.then(resolved => {
+    if (resolved) URL.revokeObjectURL(resolved)
+  }).catch(() => {})
+}
+
+function newestFirst(assets: AssetInfo[]): AssetInfo[] {
+  return [...assets].sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Custom hook for storing files, such as pasted images, alongside documents.
+ *
+ * @param options - Configuration options
+ * @returns Object containing functions to add, read and display assets
+ */
+export function useAssets(options: UseAssetsOptions = {}): UseAssetsResult {
+  const { store = getDefaultDocumentStore() } = options
+  const assetStore = store.assets
+  const [assets, setAssets] = useState<AssetInfo[]>([])
+
+  // List the stored assets when the store changes
+  useEffect(() => {
+    if (!assetStore) return
+    let cancelled = false
+    assetStore.list()
+      .then(stored => {
+        if (!cancelled) setAssets(newestFirst(stored.map(toInfo)))
+      })
+      .catch(err => console.error('Failed to load attachments:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [assetStore])
+
+  // Object URLs by asset id, created once and revoked on unmount
+  const urlsRef = useRef<Map<string, Promise<string | null>>>(new Map())
+
+  useEffect(() => {
+    const urls = urlsRef.current
+    return () => {
+      urls.forEach(revokeUrl)
+      urls.clear()
+    }
+  }, [assetStore])
+
+  const forgetUrls = useCallback((ids: string[]) => {
+    ids.forEach(id => {
+      const url = urlsRef.current.get(id)
+      if (!url) return
+      urlsRef.current.delete(id)
+      revokeUrl(url)
+    })
+  }, [])
+
+  const addImages = useCallback(async (files: File[]) => {
+    if (!assetStore) {
+      throw new Error('Images cannot be stored in this browser')
+    }
+    const created = await Promise.all(files.map(file => createAsset(file, generateAssetId())))
+    await Promise.all(created.map(asset => assetStore.save(asset)))
+    setAssets(current => newestFirst([...current, ...created.map(toInfo)]))
+    return created.map(assetImageMarkdown).join('\n')
+  }, [assetStore])
+
+  const deleteAssets = useCallback(async (ids: string[]) => {
+    if (!assetStore) return
+    await Promise.all(ids.map(id => assetStore.delete(id)))
+    setAssets(current => current.filter(asset => !ids.includes(asset.id)))
+    forgetUrls(ids)
+  }, [assetStore, forgetUrls])
+
+  const restoreAssets = useCallback(async (restored: Asset[], mode: RestoreMode) => {
+    if (!assetStore) {
+      throw new Error('Attachments cannot be stored in this browser')
+    }
+    const stored = await assetStore.list()
+    const saved = mode === 'replace'
+      ? restored
+      : restored.filter(asset => !stored.some(existing => existing.id === asset.id))
+    await Promise.all(saved.map(asset => assetStore.save(asset)))
+    if (mode === 'replace') {
+      await deleteAssets(stored
+        .filter(existing => !restored.some(asset => asset.id === existing.id))
+        .map(existing => existing.id))
+    }
+    // Cached URLs may show what was stored before
+    forgetUrls(saved.map(asset => asset.id))
+    setAssets(current => newestFirst([
+      ...current.filter(asset => !saved.some(restoredAsset => restoredAsset.id === asset.id)),
+      ...saved.map(toInfo),
+    ]))
+  }, [assetStore, deleteAssets, forgetUrls])
+
+  const loadAsset = useCallback(async (id: string) => {
+    return assetStore ? assetStore.load(id) : null
+  }, [assetStore])
+
+  const resolveAssetUrl = useCallback((id: string) => {
+    const urls = urlsRef.current
+    let url = urls.get(id)
+    if (!url) {
+      url = loadAsset(id).then(asset => {
+        if (!asset) {
+          // Not cached, so an asset restored later can still be displayed
+          urls.delete(id)
+          return null
+        }
+        return URL.createObjectURL(new Blob([asset.data], { type: asset.type }))
+      }).catch(err => {
+        urls.delete(id)
+        throw err
+      })
+      urls.set(id, url)
+    }
+    return url
+  }, [loadAsset])
+
+  return {
+    isSupported: Boolean(assetStore),
+    assets,
+    addImages,
+    resolveAssetUrl,
+    loadAsset,
+    deleteAssets,
+    restoreAssets,
+  }
+}
@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { Document, DocumentSnapshot, DocumentStore, SnapshotReason } from '../storage/types'
+
+interface UseDocumentHistoryOptions {
+  store: DocumentStore
+  activeDocumentId: string | null
+  /** Minimum time between automatic snapshots of the same document */
+  intervalMs?: number
+  /** Number of snapshots kept per document; older ones are pruned */
+  maxSnapshots?: number
+}
+
+interface UseDocumentHistoryResult {
+  /** Snapshots of the active document, newest first */
+  snapshots: DocumentSnapshot[]
+  takeSnapshot: (doc: Document, reason: SnapshotReason) => void
+  recordEdit: (previous: Document) => void
+  removeSnapshots: (documentId: string) => void
+}
+
+function generateSnapshotId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+function newestFirst(snapshots: DocumentSnapshot[]): DocumentSnapshot[] {
+  return [...snapshots].sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Custom hook for recording and listing document version snapshots.
+ *
+ * @param options - Configuration options
+ * @returns Object containing the active document's snapshots and recording functions
+ */
+export function useDocumentHistory({
+  store,
+  activeDocumentId,
+  intervalMs = 5 * 60 * 1000,
+  maxSnapshots = 50,
+}: UseDocumentHistoryOptions): UseDocumentHistoryResult {
+  const [history, setHistory] = useState<{ documentId: string | null; snapshots: DocumentSnapshot[] }>({
+    documentId: null,
+    snapshots: [],
+  })
+
+  // Latest snapshot time and content per document recorded in this session
+  const lastSnapshotRef = useRef<Map<string, { createdAt: number; content: string }>>(new Map())
+
+  // Load the active document's snapshots when it changes
+  useEffect(() => {
+    if (!activeDocumentId) return
+    let cancelled = false
+
+    store.listSnapshots(activeDocumentId)
+      .then((snapshots) => {
+        if (cancelled) return
+        const sorted = newestFirst(snapshots)
+        if (sorted.length > 0 && !lastSnapshotRef.current.has(activeDocumentId)) {
+          lastSnapshotRef.current.set(activeDocumentId, sorted[0])
+        }
+        setHistory({ documentId: activeDocumentId, snapshots: sorted })
+      })
+      .catch((err) => {
+        console.warn('Failed to load document history:', err)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [store, activeDocumentId])
+
+  const pruneSnapshots = useCallback(async (documentId: string) => {
+    const snapshots = newestFirst(await store.listSnapshots(documentId))
+    await Promise.all(snapshots.slice(maxSnapshots).map(snapshot => store.deleteSnapshot(snapshot.id)))
+  }, [store, maxSnapshots])
+
+  const takeSnapshot = useCallback((doc: Document, reason: SnapshotReason) => {
+    // Skip snapshots identical to the previous one
+    if (lastSnapshotRef.current.get(doc.id)?.content === doc.content) return
+
+    const snapshot: DocumentSnapshot = {
+      id: generateSnapshotId(),
+      documentId: doc.id,
+      name: doc.name,
+      content: doc.content,
+      createdAt: Date.now(),
+      reason,
+    }
+    lastSnapshotRef.current.set(doc.id, snapshot)
+
+    setHistory(prev => prev.documentId === doc.id
+      ? { ...prev, snapshots: [snapshot, ...prev.snapshots].slice(0, maxSnapshots) }
+      : prev
+    )
+
+    store.saveSnapshot(snapshot)
+      .then(() => pruneSnapshots(doc.id))
+      .catch((err) => {
+        console.error('Failed to save snapshot:', err)
+      })
+  }, [store, maxSnapshots, pruneSnapshots])
+
+  // Snapshot the content from before an edit once the interval has passed
+  const recordEdit = useCallback((previous: Document) => {
+    if (!previous.content) return
+    const last = lastSnapshotRef.current.get(previous.id)
+    if (!last || Date.now() - last.createdAt >= intervalMs) {
+      takeSnapshot(previous, 'auto')
+    }
+  }, [intervalMs, takeSnapshot])
+
+  const removeSnapshots = useCallback((documentId: string) => {
+    lastSnapshotRef.current.delete(documentId)
+    setHistory(prev => prev.documentId === documentId ? { documentId, snapshots: [] } : prev)
+
+    store.listSnapshots(documentId)
+      .then(snapshots => Promise.all(snapshots.map(snapshot => store.deleteSnapshot(snapshot.id))))
+      .catch((err) => {
+        console.error('Failed to delete document history:', err)
+      })
+  }, [store])
+
+  return {
+    snapshots: history.documentId === activeDocumentId ? history.snapshots : [],
+    takeSnapshot,
+    recordEdit,
+    removeSnapshots,
+  }
+}
@@ -1,116 +1,394 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
+import { getDefaultDocumentStore } from '../storage'
+import type { Document, DocumentSnapshot, DocumentStore, DocumentStoreChange, Folder } from '../storage/types'
+import { formatBytes } from '../utils/assets'
+import type { Backup } from '../utils/backup'
+import { isWithinFolder } from '../utils/folders'
+import type { ImportedDocument } from '../utils/importFiles'
+import { normalizeTag, renameTagInDocument } from '../utils/tags'
+import { renameWikiLinks, resolveWikiLink } from '../utils/wikiLinks'
+import { useDocumentHistory } from './useDocumentHistory'
 
-export interface Document {
-  id: string
-  name: string
-  content: string
-  updatedAt: number
-}
+export type { Document, DocumentSnapshot, Folder } from '../storage/types'
 
 export type DocumentsStatus = 'saved' | 'saving' | 'error'
 
+/**
+ * A document that another tab saved while this tab had unsaved edits to it
+ */
+export interface SyncConflict {
+  documentId: string
+  /** The version saved by the other tab */
+  theirs: Document
+}
+
+export type ConflictResolution = 'mine' | 'theirs'
+
+/**
+ * How a backup is restored: merged with the current documents, keeping
+ * whichever version of each is newer, or replacing them entirely
+ */
+export type RestoreMode = 'merge' | 'replace'
+
 interface UseDocumentsOptions {
   debounceMs?: number
+  /** Persistence backend; defaults to the store selected at startup */
+  store?: DocumentStore
+  /** Minimum time between automatic history snapshots while typing */
+  snapshotIntervalMs?: number
+  /** Days a document stays in the trash before it is purged automatically */
+  trashRetentionDays?: number
 }
 
 interface UseDocumentsResult {
+  /** Documents not in the trash */
   documents: Document[]
+  /** Documents in the trash, most recently deleted first */
+  trashedDocuments: Document[]
   activeDocumentId: string | null
   activeDocument: Document | null
+  folders: Folder[]
   setActiveDocument: (id: string) => void
-  createDocument: (name?: string) => string
+  createDocument: (name?: string, folderId?: string | null) => string
+  /**
+   * Add documents read from files, or overwrite existing ones, keeping their previous
+   * content in history. The first one is opened. Returns the ids written.
+   */
+  importDocuments: (imported: ImportedDocument[]) => string[]
+  /** Restore documents and folders from a backup, keeping overwritten content in history */
+  restoreBackup: (backup: Pick<Backup, 'documents' | 'folders'>, mode: RestoreMode) => void
   renameDocument: (id: string, newName: string) => void
+  /** Replace the tags set on a document; tags written in its content are kept */
+  setDocumentTags: (id: string, tags: string[]) => void
+  /**
+   * Rename a tag in every document, merging it into `to` where that tag already exists.
+   * Returns the number of documents changed.
+   */
+  renameTag: (from: string, to: string) => number
+  /** Move a document to the trash */
   deleteDocument: (id: string) => void
+  restoreDocument: (id: string) => void
+  /** Permanently delete a document from the trash */
+  purgeDocument: (id: string) => void
+  emptyTrash: () => void
+  /** Move a document into a folder, or to the top level with null */
+  moveDocument: (id: string, folderId: string | null) => void
+  createFolder: (name?: string, parentId?: string | null) => string
+  renameFolder: (id: string, newName: string) => void
+  /** Nest a folder in another one; moves into the folder itself or its descendants are ignored */
+  moveFolder: (id: string, parentId: string | null) => void
+  /** Delete a folder, moving its documents and subfolders to its parent */
+  deleteFolder: (id: string) => void
   updateDocumentContent: (content: string) => void
   saveNow: () => void
+  /** Snapshots of the active document, newest first */
+  history: DocumentSnapshot[]
+  restoreSnapshot: (snapshotId: string) => void
+  /** Stored snapshots of every document, including those in the trash */
+  listAllSnapshots: () => Promise<DocumentSnapshot[]>
+  /** Documents edited here and in another tab at the same time */
+  conflicts: SyncConflict[]
+  resolveConflict: (documentId: string, resolution: ConflictResolution) => void
   status: DocumentsStatus
   error: string | null
+  /** Whether the last save failed because the storage quota was reached */
+  isStorageFull: boolean
   saveFeedback: { show: boolean; message: string }
 }
 
-const STORAGE_KEY = 'markdown-notepad-documents'
 const DEFAULT_DOCUMENT_NAME = 'Untitled Document'
+const DEFAULT_FOLDER_NAME = 'New Folder'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * What takes up space in the store, to explain a full storage quota
+ */
+async function describeStorageUsage(store: DocumentStore, documents: Document[]): Promise<string> {
+  const documentBytes = new TextEncoder().encode(JSON.stringify(documents)).length
+  if (!store.assets) {
+    return `documents use ${formatBytes(documentBytes)}`
+  }
+  const assets = await store.assets.list().catch(() => [])
+  const assetBytes = assets.reduce((total, asset) => total + asset.size, 0)
+  return `documents use ${formatBytes(documentBytes)} and attachments use ${formatBytes(assetBytes)}`
+}
 
 function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
-function createNewDocument(name: string = DEFAULT_DOCUMENT_NAME): Document {
+/**
+ * Apply documents saved or removed elsewhere to a local document list.
+ * Documents that are new to this tab are added at the top.
+ */
+function mergeDocuments(local: Document[], saved: Document[], removedIds: string[]): Document[] {
+  const merged = local
+    .filter(doc => !removedIds.includes(doc.id))
+    .map(doc => saved.find(incoming => incoming.id === doc.id) ?? doc)
+  const added = saved.filter(incoming => !local.some(doc => doc.id === incoming.id))
+  return [...added, ...merged]
+}
+
+function createNewDocument(name: string = DEFAULT_DOCUMENT_NAME, folderId?: string): Document {
   return {
     id: generateId(),
     name,
     content: '',
     updatedAt: Date.now(),
+    ...(folderId ? { folderId } : {}),
   }
 }
 
+function withFolder(doc: Document, folderId: string | null): Document {
+  const moved = { ...doc }
+  if (folderId) {
+    moved.folderId = folderId
+  } else {
+    delete moved.folderId
+  }
+  return moved
+}
+
 /**
- * Custom hook for managing multiple markdown documents in localStorage.
+ * Custom hook for managing multiple markdown documents.
+ * Documents are persisted one at a time through a DocumentStore.
  * 
  * @param options - Configuration options
  * @returns Object containing documents, active document, and CRUD operations
  */
 export function useDocuments(options: UseDocumentsOptions = {}): UseDocumentsResult {
-  const { debounceMs = 400 } = options
+  const {
+    debounceMs = 400,
+    store = getDefaultDocumentStore(),
+    snapshotIntervalMs,
+    trashRetentionDays = 30,
+  } = options
   
   const [documents, setDocuments] = useState<Document[]>([])
+  const [folders, setFolders] = useState<Folder[]>([])
   const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null)
   const [status, setStatus] = useState<DocumentsStatus>('saved')
   const [error, setError] = useState<string | null>(null)
+  const [isStorageFull, setIsStorageFull] = useState(false)
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
   
   const [saveFeedback, setSaveFeedback] = useState<{ show: boolean; message: string }>({ show: false, message: '' })
   
   const debounceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Ids written or deleted since the last successful save
+  const changedIdsRef = useRef<Set<string>>(new Set())
+  const removedIdsRef = useRef<Set<string>>(new Set())
+  const changedFolderIdsRef = useRef<Set<string>>(new Set())
+  const removedFolderIdsRef = useRef<Set<string>>(new Set())
+  // Documents in conflict with another tab; their local edits are not written until resolved
+  const conflictIdsRef = useRef<Set<string>>(new Set())
+  // Latest documents, for reading the pre-edit state outside of updaters
+  // and for writing the newest version when a debounced save runs
+  const documentsRef = useRef<Document[]>([])
+  // Folders are only changed through updateFolders, which keeps this current
+  const foldersRef = useRef<Folder[]>([])
+  
+  const { snapshots: history, takeSnapshot, recordEdit, removeSnapshots } = useDocumentHistory({
+    store,
+    activeDocumentId,
+    intervalMs: snapshotIntervalMs,
+  })
   
-  // Load documents from localStorage on mount
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY)
-      if (stored) {
-        const parsed = JSON.parse(stored) as Document[]
-        setDocuments(parsed)
-        // Set the most recently updated document as active
-        if (parsed.length > 0) {
-          const mostRecent = parsed.reduce((latest, doc) => 
-            doc.updatedAt > latest.updatedAt ? doc : latest
-          )
-          setActiveDocumentId(mostRecent.id)
+    documentsRef.current = documents
+  }, [documents])
+  
+  // Load documents from the store on mount
+  useEffect(() => {
+    let cancelled = false
+    
+    Promise.all([store.list(), store.listFolders()])
+      .then(([docs, storedFolders]) => {
+        if (cancelled) return
+        
+        foldersRef.current = storedFolders
+        setFolders(storedFolders)
+        
+        // Purge documents that have been in the trash too long
+        const purgeBefore = Date.now() - trashRetentionDays * DAY_MS
+        const expired = docs.filter(doc => doc.deletedAt !== undefined && doc.deletedAt < purgeBefore)
+        expired.forEach(doc => {
+          store.delete(doc.id).catch(err => console.error('Failed to purge document:', err))
+          removeSnapshots(doc.id)
+        })
+        const kept = docs.filter(doc => !expired.includes(doc))
+        const visible = kept.filter(doc => doc.deletedAt === undefined)
+        
+        if (visible.length > 0) {
+          const sorted = [...kept].sort((a, b) => b.updatedAt - a.updatedAt)
+          setDocuments(sorted)
+          // Set the most recently updated document as active
+          setActiveDocumentId(sorted.find(doc => doc.deletedAt === undefined)!.id)
+        } else {
+          // Create initial document if none exist
+          const initialDoc = createNewDocument('Welcome')
+          setDocuments([initialDoc, ...kept])
+          setActiveDocumentId(initialDoc.id)
         }
+      })
+      .catch((err) => {
+        if (cancelled) return
+        console.warn('Failed to load documents:', err)
+        setError('Failed to load documents')
+        // Create a fallback document
+        const fallbackDoc = createNewDocument('Welcome')
+        setDocuments([fallbackDoc])
+        setActiveDocumentId(fallbackDoc.id)
+      })
+    
+    return () => {
+      cancelled = true
+    }
+  }, [store, trashRetentionDays, removeSnapshots])
+  
+  // Merge changes saved by other tabs. Documents with unsaved local edits
+  // are left alone and reported as conflicts instead of being overwritten.
+  const applyRemoteChange = useCallback((change: DocumentStoreChange) => {
+    // Folders take the latest saved version unless they have unsaved local changes
+    const pendingFolderIds = changedFolderIdsRef.current
+    const savedFolders = (change.savedFolders ?? []).filter(folder => !pendingFolderIds.has(folder.id))
+    const removedFolderIds = (change.removedFolders ?? []).filter(id => !pendingFolderIds.has(id))
+    if (savedFolders.length > 0 || removedFolderIds.length > 0) {
+      const current = foldersRef.current
+      const updated = [
+        ...current
+          .filter(folder => !removedFolderIds.includes(folder.id))
+          .map(folder => savedFolders.find(saved => saved.id === folder.id) ?? folder),
+        ...savedFolders.filter(saved => !current.some(folder => folder.id === saved.id)),
+      ]
+      foldersRef.current = updated
+      setFolders(updated)
+    }
+    if (change.saved.length === 0 && change.removed.length === 0) return
+    
+    const isPending = (id: string) => changedIdsRef.current.has(id) || conflictIdsRef.current.has(id)
+    const incoming: Document[] = []
+    const conflicting: Document[] = []
+    
+    change.saved.forEach(doc => {
+      const local = documentsRef.current.find(existing => existing.id === doc.id)
+      if (local && isPending(doc.id)) {
+        if (local.content !== doc.content) conflicting.push(doc)
       } else {
-        // Create initial document if none exist
-        const initialDoc = createNewDocument('Welcome')
-        setDocuments([initialDoc])
-        setActiveDocumentId(initialDoc.id)
+        incoming.push(doc)
       }
-    } catch (err) {
-      console.warn('Failed to load documents:', err)
-      setError('Failed to load documents')
-      // Create a fallback document
-      const fallbackDoc = createNewDocument('Welcome')
-      setDocuments([fallbackDoc])
-      setActiveDocumentId(fallbackDoc.id)
-    }
+    })
+    const removedIds = change.removed.filter(id => !isPending(id))
+    
+    // Hold back the local edits, so the pending save does not overwrite
+    // the other tab's version before the user picks one
+    conflicting.forEach(doc => {
+      conflictIdsRef.current.add(doc.id)
+      changedIdsRef.current.delete(doc.id)
+    })
+    
+    setDocuments(prev => mergeDocuments(prev, incoming, removedIds))
+    
+    // Move off the active document if another tab trashed or removed it
+    const merged = mergeDocuments(documentsRef.current, incoming, removedIds)
+    const visible = merged.filter(doc => doc.deletedAt === undefined)
+    setActiveDocumentId(current =>
+      current && !visible.some(doc => doc.id === current) && visible.length > 0
+        ? visible[0].id
+        : current
+    )
+    
+    setConflicts(prev => {
+      const settledIds = [...incoming.map(doc => doc.id), ...removedIds]
+      const unchanged = prev.filter(conflict =>
+        !settledIds.includes(conflict.documentId) &&
+        !conflicting.some(doc => doc.id === conflict.documentId)
+      )
+      return [...unchanged, ...conflicting.map(doc => ({ documentId: doc.id, theirs: doc }))]
+    })
+  }, [])
+  
+  useEffect(() => {
+    if (!store.subscribe) return
+    return store.subscribe(applyRemoteChange)
+  }, [store, applyRemoteChange])
+  
+  const markChanged = useCallback((id: string) => {
+    changedIdsRef.current.add(id)
+    removedIdsRef.current.delete(id)
+  }, [])
+  
+  const markRemoved = useCallback((id: string) => {
+    removedIdsRef.current.add(id)
+    changedIdsRef.current.delete(id)
+  }, [])
+  
+  const markFolderChanged = useCallback((id: string) => {
+    changedFolderIdsRef.current.add(id)
+    removedFolderIdsRef.current.delete(id)
+  }, [])
+  
+  const markFolderRemoved = useCallback((id: string) => {
+    removedFolderIdsRef.current.add(id)
+    changedFolderIdsRef.current.delete(id)
   }, [])
   
-  // Save documents to localStorage with debounce
-  const saveDocuments = useCallback((docs: Document[], immediate = false) => {
+  // Save documents and folders with debounce, writing only the records that changed.
+  // `docs` is the newest document list when called from a state updater.
+  const saveDocuments = useCallback((docs?: Document[], immediate = false) => {
+    if (docs) {
+      documentsRef.current = docs
+    }
     setStatus('saving')
     
     if (debounceTimeoutRef.current) {
       clearTimeout(debounceTimeoutRef.current)
     }
     
-    const doSave = () => {
+    const doSave = async () => {
+      const changedIds = [...changedIdsRef.current].filter(id => !conflictIdsRef.current.has(id))
+      const removedIds = [...removedIdsRef.current]
+      const changedFolderIds = [...changedFolderIdsRef.current]
+      const removedFolderIds = [...removedFolderIdsRef.current]
+      
+      changedIdsRef.current.clear()
+      removedIdsRef.current.clear()
+      changedFolderIdsRef.current.clear()
+      removedFolderIdsRef.current.clear()
+      
       try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(docs))
+        await Promise.all([
+          ...documentsRef.current.filter(doc => changedIds.includes(doc.id)).map(doc => store.save(doc)),
+          ...removedIds.map(id => store.delete(id)),
+          ...foldersRef.current.filter(folder => changedFolderIds.includes(folder.id)).map(folder => store.saveFolder(folder)),
+          ...removedFolderIds.map(id => store.deleteFolder(id)),
+        ])
         setStatus('saved')
         setError(null)
+        setIsStorageFull(false)
       } catch (err) {
-        if (err instanceof Error && err.name === 'QuotaExceededError') {
-          setError('Storage is full. Please delete some documents.')
+        // Keep failed changes pending so the next save retries them
+        changedIds.forEach(id => {
+          if (!removedIdsRef.current.has(id)) changedIdsRef.current.add(id)
+        })
+        removedIds.forEach(id => {
+          if (!changedIdsRef.current.has(id)) removedIdsRef.current.add(id)
+        })
+        changedFolderIds.forEach(id => {
+          if (!removedFolderIdsRef.current.has(id)) changedFolderIdsRef.current.add(id)
+        })
+        removedFolderIds.forEach(id => {
+          if (!changedFolderIdsRef.current.has(id)) removedFolderIdsRef.current.add(id)
+        })
+        const storageFull = err instanceof Error && err.name === 'QuotaExceededError'
+        if (storageFull) {
+          const usage = await describeStorageUsage(store, documentsRef.current)
+          const remedy = store.assets ? 'documents or unused attachments' : 'documents'
+          setError(`Storage is full: ${usage}. Please delete some ${remedy}.`)
         } else {
           setError('Failed to save documents')
         }
+        setIsStorageFull(storageFull)
         setStatus('error')
         console.error('Failed to save documents:', err)
       }
@@ -121,7 +399,7 @@ export function useDocuments(options: UseDocumentsOptions = {}): UseDocumentsRes
     } else {
       debounceTimeoutRef.current = setTimeout(doSave, debounceMs)
     }
-  }, [debounceMs])
+  }, [debounceMs, store])
   
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -136,8 +414,9 @@ export function useDocuments(options: UseDocumentsOptions = {}): UseDocumentsRes
     setActiveDocumentId(id)
   }, [])
   
-  const createDocument = useCallback((name?: string): string => {
-    const newDoc = createNewDocument(name)
+  const createDocument = useCallback((name?: string, folderId?: string | null): string => {
+    const newDoc = createNewDocument(name, folderId ?? undefined)
+    markChanged(newDoc.id)
     setDocuments(prev => {
       const updated = [newDoc, ...prev]
       saveDocuments(updated)
@@ -145,40 +424,288 @@ export function useDocuments(options: UseDocumentsOptions = {}): UseDocumentsRes
     })
     setActiveDocumentId(newDoc.id)
     return newDoc.id
-  }, [saveDocuments])
+  }, [markChanged, saveDocuments])
   
+  const importDocuments = useCallback((imported: ImportedDocument[]): string[] => {
+    if (imported.length === 0) return []
+
+    const updatedAt = Date.now()
+    const replaced = new Map<string, string>()
+    const added: Document[] = []
+    imported.forEach(({ name, content, replaceId }) => {
+      const existing = replaceId ? documentsRef.current.find(doc => doc.id === replaceId) : undefined
+      if (existing) {
+        takeSnapshot(existing, 'import')
+        replaced.set(existing.id, content)
+      } else {
+        added.push({ ...createNewDocument(name), content, updatedAt })
+      }
+    })
+
+    const ids = [...added.map(doc => doc.id), ...replaced.keys()]
+    ids.forEach(markChanged)
+    setDocuments(prev => {
+      const updated = [
+        ...added,
+        ...prev.map(doc => replaced.has(doc.id) ? { ...doc, content: replaced.get(doc.id)!, updatedAt } : doc),
+      ]
+      saveDocuments(updated, true)
+      return updated
+    })
+    if (ids.length > 0) setActiveDocumentId(ids[0])
+    return ids
+  }, [markChanged, saveDocuments, takeSnapshot])
+
+  const restoreBackup = useCallback((backup: Pick<Backup, 'documents' | 'folders'>, mode: RestoreMode) => {
+    const current = documentsRef.current
+    const restored = mode === 'replace'
+      ? backup.documents
+      : backup.documents.filter(doc => {
+        const existing = current.find(local => local.id === doc.id)
+        return !existing || doc.updatedAt > existing.updatedAt
+      })
+    restored.forEach(doc => {
+      const existing = current.find(local => local.id === doc.id)
+      if (existing && existing.content !== doc.content) {
+        takeSnapshot(existing, 'backup')
+      }
+      markChanged(doc.id)
+    })
+    const kept = mode === 'replace'
+      ? []
+      : current.filter(doc => !restored.some(restoredDoc => restoredDoc.id === doc.id))
+    if (mode === 'replace') {
+      current
+        .filter(doc => !backup.documents.some(backupDoc => backupDoc.id === doc.id))
+        .forEach(doc => {
+          markRemoved(doc.id)
+          removeSnapshots(doc.id)
+        })
+    }
+
+    const restoredFolders = mode === 'replace'
+      ? backup.folders
+      : backup.folders.filter(folder => {
+        const existing = foldersRef.current.find(local => local.id === folder.id)
+        return !existing || folder.updatedAt > existing.updatedAt
+      })
+    if (mode === 'replace') {
+      foldersRef.current
+        .filter(folder => !backup.folders.some(backupFolder => backupFolder.id === folder.id))
+        .forEach(folder => markFolderRemoved(folder.id))
+    }
+    restoredFolders.forEach(folder => markFolderChanged(folder.id))
+    const keptFolders = mode === 'replace'
+      ? []
+      : foldersRef.current.filter(folder => !restoredFolders.some(restoredFolder => restoredFolder.id === folder.id))
+    const updatedFolders = [...keptFolders, ...restoredFolders]
+    foldersRef.current = updatedFolders
+    setFolders(updatedFolders)
+
+    const updated = [...restored, ...kept].sort((a, b) => b.updatedAt - a.updatedAt)
+    let visible = updated.filter(doc => doc.deletedAt === undefined)
+    // A backup with everything in the trash still leaves a document to edit
+    if (visible.length === 0) {
+      const newDoc = createNewDocument()
+      markChanged(newDoc.id)
+      updated.unshift(newDoc)
+      visible = [newDoc]
+    }
+    setDocuments(updated)
+    saveDocuments(updated, true)
+    setActiveDocumentId(active =>
+      active && visible.some(doc => doc.id === active) ? active : visible[0].id
+    )
+  }, [markChanged, markRemoved, markFolderChanged, markFolderRemoved, removeSnapshots, saveDocuments, takeSnapshot])
+
   const renameDocument = useCallback((id: string, newName: string) => {
-    if (!newName.trim()) return
+    const name = newName.trim()
+    if (!name) return
+    
+    // Links to the old name follow the document, unless another document still has that name
+    const oldName = documentsRef.current.find(doc => doc.id === id)?.name ?? name
+    const relink = oldName !== name &&
+      resolveWikiLink(documentsRef.current.filter(doc => doc.id !== id), oldName) === undefined
+    const relinked = (doc: Document) => relink ? renameWikiLinks(doc.content, oldName, name) : doc.content
+    const changedIds = documentsRef.current
+      .filter(doc => doc.id === id || relinked(doc) !== doc.content)
+      .map(doc => doc.id)
+    
+    changedIds.forEach(markChanged)
+    setDocuments(prev => {
+      const updatedAt = Date.now()
+      const updated = prev.map(doc => {
+        const content = relinked(doc)
+        if (doc.id === id) return { ...doc, name, content, updatedAt }
+        return content === doc.content ? doc : { ...doc, content, updatedAt }
+      })
+      saveDocuments(updated)
+      return updated
+    })
+  }, [markChanged, saveDocuments])
+  
+  const setDocumentTags = useCallback((id: string, tags: string[]) => {
+    const normalized = [...new Set(tags.map(normalizeTag).filter(Boolean))]
     
+    markChanged(id)
     setDocuments(prev => {
       const updated = prev.map(doc =>
-        doc.id === id ? { ...doc, name: newName.trim(), updatedAt: Date.now() } : doc
+        doc.id === id ? { ...doc, tags: normalized, updatedAt: Date.now() } : doc
       )
       saveDocuments(updated)
       return updated
     })
-  }, [saveDocuments])
+  }, [markChanged, saveDocuments])
+  
+  const renameTag = useCallback((from: string, to: string): number => {
+    const changedIds = documentsRef.current
+      .filter(doc => renameTagInDocument(doc, from, to) !== doc)
+      .map(doc => doc.id)
+    if (changedIds.length === 0) return 0
+    
+    changedIds.forEach(markChanged)
+    setDocuments(prev => {
+      const updatedAt = Date.now()
+      const updated = prev.map(doc => {
+        const renamed = renameTagInDocument(doc, from, to)
+        return renamed === doc ? doc : { ...renamed, updatedAt }
+      })
+      saveDocuments(updated)
+      return updated
+    })
+    return changedIds.length
+  }, [markChanged, saveDocuments])
   
   const deleteDocument = useCallback((id: string) => {
+    markChanged(id)
     setDocuments(prev => {
-      const updated = prev.filter(doc => doc.id !== id)
+      const deletedAt = Date.now()
+      const updated = prev.map(doc => doc.id === id ? { ...doc, deletedAt } : doc)
+      const remaining = updated.filter(doc => doc.deletedAt === undefined)
       // If we deleted the last document, create a new one
-      if (updated.length === 0) {
+      if (remaining.length === 0) {
         const newDoc = createNewDocument()
-        updated.push(newDoc)
+        markChanged(newDoc.id)
+        updated.unshift(newDoc)
         setActiveDocumentId(newDoc.id)
       } else if (activeDocumentId === id) {
         // Switch to another document if we deleted the active one
-        setActiveDocumentId(updated[0].id)
+        setActiveDocumentId(remaining[0].id)
       }
       saveDocuments(updated)
       return updated
     })
-  }, [activeDocumentId, saveDocuments])
+  }, [activeDocumentId, markChanged, saveDocuments])
+  
+  const restoreDocument = useCallback((id: string) => {
+    markChanged(id)
+    setDocuments(prev => {
+      const updated = prev.map(doc =>
+        doc.id === id ? { ...doc, deletedAt: undefined } : doc
+      )
+      saveDocuments(updated)
+      return updated
+    })
+  }, [markChanged, saveDocuments])
+  
+  const purgeDocuments = useCallback((shouldPurge: (doc: Document) => boolean) => {
+    const purged = documentsRef.current.filter(doc => doc.deletedAt !== undefined && shouldPurge(doc))
+    if (purged.length === 0) return
+    
+    purged.forEach(doc => {
+      markRemoved(doc.id)
+      removeSnapshots(doc.id)
+    })
+    setDocuments(prev => {
+      const updated = prev.filter(doc => !purged.some(p => p.id === doc.id))
+      saveDocuments(updated)
+      return updated
+    })
+  }, [markRemoved, removeSnapshots, saveDocuments])
+  
+  const purgeDocument = useCallback((id: string) => {
+    purgeDocuments(doc => doc.id === id)
+  }, [purgeDocuments])
+  
+  const emptyTrash = useCallback(() => {
+    purgeDocuments(() => true)
+  }, [purgeDocuments])
+  
+  const moveDocument = useCallback((id: string, folderId: string | null) => {
+    markChanged(id)
+    setDocuments(prev => {
+      const updated = prev.map(doc => doc.id === id ? withFolder(doc, folderId) : doc)
+      saveDocuments(updated)
+      return updated
+    })
+  }, [markChanged, saveDocuments])
+  
+  // Apply a change to the folder list and schedule a save
+  const updateFolders = useCallback((apply: (folders: Folder[]) => Folder[]) => {
+    const updated = apply(foldersRef.current)
+    foldersRef.current = updated
+    setFolders(updated)
+    saveDocuments()
+  }, [saveDocuments])
+  
+  const createFolder = useCallback((name: string = DEFAULT_FOLDER_NAME, parentId: string | null = null): string => {
+    const folder: Folder = { id: generateId(), name, parentId, updatedAt: Date.now() }
+    markFolderChanged(folder.id)
+    updateFolders(prev => [...prev, folder])
+    return folder.id
+  }, [markFolderChanged, updateFolders])
+  
+  const renameFolder = useCallback((id: string, newName: string) => {
+    if (!newName.trim()) return
+    
+    markFolderChanged(id)
+    updateFolders(prev => prev.map(folder =>
+      folder.id === id ? { ...folder, name: newName.trim(), updatedAt: Date.now() } : folder
+    ))
+  }, [markFolderChanged, updateFolders])
+  
+  const moveFolder = useCallback((id: string, parentId: string | null) => {
+    if (parentId && isWithinFolder(foldersRef.current, parentId, id)) return
+    
+    markFolderChanged(id)
+    updateFolders(prev => prev.map(folder =>
+      folder.id === id ? { ...folder, parentId, updatedAt: Date.now() } : folder
+    ))
+  }, [markFolderChanged, updateFolders])
+  
+  const deleteFolder = useCallback((id: string) => {
+    const folder = foldersRef.current.find(f => f.id === id)
+    if (!folder) return
+    
+    // Keep the contents by moving them up one level
+    foldersRef.current
+      .filter(child => child.parentId === id)
+      .forEach(child => markFolderChanged(child.id))
+    markFolderRemoved(id)
+    updateFolders(prev => prev
+      .filter(f => f.id !== id)
+      .map(child => child.parentId === id ? { ...child, parentId: folder.parentId, updatedAt: Date.now() } : child)
+    )
+    
+    documentsRef.current
+      .filter(doc => doc.folderId === id)
+      .forEach(doc => markChanged(doc.id))
+    setDocuments(prev => {
+      const updated = prev.map(doc => doc.folderId === id ? withFolder(doc, folder.parentId) : doc)
+      saveDocuments(updated)
+      return updated
+    })
+  }, [markChanged, markFolderChanged, markFolderRemoved, updateFolders, saveDocuments])
   
   const updateDocumentContent = useCallback((content: string) => {
     if (!activeDocumentId) return
     
+    const previous = documentsRef.current.find(doc => doc.id === activeDocumentId)
+    if (previous && previous.content !== content) {
+      recordEdit(previous)
+    }
+    
+    markChanged(activeDocumentId)
     setDocuments(prev => {
       const updated = prev.map(doc =>
         doc.id === activeDocumentId ? { ...doc, content, updatedAt: Date.now() } : doc
@@ -186,10 +713,14 @@ export function useDocuments(options: UseDocumentsOptions = {}): UseDocumentsRes
       saveDocuments(updated)
       return updated
     })
-  }, [activeDocumentId, saveDocuments])
+  }, [activeDocumentId, markChanged, recordEdit, saveDocuments])
   
   // Immediate save function for manual save (Ctrl+S)
   const saveNow = useCallback(() => {
+    const active = documentsRef.current.find(doc => doc.id === activeDocumentId)
+    if (active) {
+      takeSnapshot(active, 'manual')
+    }
     setDocuments(prev => {
       saveDocuments(prev, true)
       return prev
@@ -200,22 +731,96 @@ export function useDocuments(options: UseDocumentsOptions = {}): UseDocumentsRes
     setTimeout(() => {
       setSaveFeedback({ show: false, message: '' })
     }, 2000)
-  }, [saveDocuments])
+  }, [activeDocumentId, saveDocuments, takeSnapshot])
+  
+  // Replace the active document's content with a snapshot,
+  // keeping the current content in history so the restore can be undone
+  const restoreSnapshot = useCallback((snapshotId: string) => {
+    const snapshot = history.find(s => s.id === snapshotId)
+    const current = documentsRef.current.find(doc => doc.id === snapshot?.documentId)
+    if (!snapshot || !current) return
+    
+    takeSnapshot(current, 'restore')
+    markChanged(current.id)
+    setDocuments(prev => {
+      const updated = prev.map(doc =>
+        doc.id === snapshot.documentId ? { ...doc, content: snapshot.content, updatedAt: Date.now() } : doc
+      )
+      saveDocuments(updated, true)
+      return updated
+    })
+  }, [history, markChanged, saveDocuments, takeSnapshot])
+  
+  // Read from the store, since snapshots are only kept for stored documents
+  // and the documents may not have loaded yet
+  const listAllSnapshots = useCallback(async () => {
+    const stored = await store.list()
+    const perDocument = await Promise.all(stored.map(doc => store.listSnapshots(doc.id)))
+    return perDocument.flat()
+  }, [store])
+  
+  const resolveConflict = useCallback((documentId: string, resolution: ConflictResolution) => {
+    const conflict = conflicts.find(c => c.documentId === documentId)
+    if (!conflict) return
+    
+    setConflicts(prev => prev.filter(c => c.documentId !== documentId))
+    conflictIdsRef.current.delete(documentId)
+    // Either version is written now, so the store and other tabs end up with the chosen one
+    markChanged(documentId)
+    
+    if (resolution === 'theirs') {
+      // Drop the local edits in favour of the other tab's version
+      setDocuments(prev => {
+        const updated = prev.map(doc => doc.id === documentId ? conflict.theirs : doc)
+        saveDocuments(updated, true)
+        return updated
+      })
+    } else {
+      setDocuments(prev => {
+        saveDocuments(prev, true)
+        return prev
+      })
+    }
+  }, [conflicts, markChanged, saveDocuments])
   
-  const activeDocument = documents.find(doc => doc.id === activeDocumentId) || null
+  const visibleDocuments = documents.filter(doc => doc.deletedAt === undefined)
+  const trashedDocuments = documents
+    .filter(doc => doc.deletedAt !== undefined)
+    .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0))
+  const activeDocument = visibleDocuments.find(doc => doc.id === activeDocumentId) || null
   
   return {
-    documents,
+    documents: visibleDocuments,
+    trashedDocuments,
     activeDocumentId,
     activeDocument,
+    folders,
     setActiveDocument,
     createDocument,
+    importDocuments,
+    restoreBackup,
     renameDocument,
+    setDocumentTags,
+    renameTag,
     deleteDocument,
+    restoreDocument,
+    purgeDocument,
+    emptyTrash,
+    moveDocument,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
     updateDocumentContent,
     saveNow,
+    history,
+    restoreSnapshot,
+    listAllSnapshots,
+    conflicts,
+    resolveConflict,
     status,
     error,
+    isStorageFull,
     saveFeedback,
   }
 }
@@ -0,0 +1,150 @@
+import { useState, useMemo, useCallback } from 'react'
+import { findMatches, replaceMatch, replaceAllMatches, type FindOptions, type FindQuery } from '../utils/find'
+import type { SearchRange } from '../utils/search'
+
+interface UseFindReplaceOptions {
+  content: string
+  onChange: (content: string) => void
+  /** Show a match in the editor, e.g. by selecting it */
+  onRevealMatch: (range: SearchRange) => void
+}
+
+export interface FindReplaceState {
+  isOpen: boolean
+  showReplace: boolean
+  /** Changes whenever the bar is opened, so it can refocus its input */
+  focusToken: number
+  query: string
+  replacement: string
+  options: FindOptions
+  matches: SearchRange[]
+  /** Index of the current match, or -1 without matches */
+  activeIndex: number
+  /** Set when the query is not a valid regular expression */
+  error: string | null
+  /** The search while the bar is open, for highlighting matches elsewhere */
+  activeQuery: FindQuery | null
+  open: (showReplace: boolean, initialQuery?: string) => void
+  close: () => void
+  setShowReplace: (showReplace: boolean) => void
+  setQuery: (query: string) => void
+  setReplacement: (replacement: string) => void
+  toggleOption: (option: keyof FindOptions) => void
+  findNext: () => void
+  findPrevious: () => void
+  replaceCurrent: () => void
+  replaceAll: () => void
+}
+
+const DEFAULT_OPTIONS: FindOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+}
+
+/**
+ * Custom hook holding the state of the find and replace bar.
+ *
+ * @param options - The searched content and editor callbacks
+ * @returns Search state, matches, and navigation and replace actions
+ */
+export function useFindReplace({ content, onChange, onRevealMatch }: UseFindReplaceOptions): FindReplaceState {
+  const [isOpen, setIsOpen] = useState(false)
+  const [showReplace, setShowReplace] = useState(false)
+  const [focusToken, setFocusToken] = useState(0)
+  const [query, setQueryState] = useState('')
+  const [replacement, setReplacement] = useState('')
+  const [options, setOptions] = useState<FindOptions>(DEFAULT_OPTIONS)
+  const [currentIndex, setCurrentIndex] = useState(0)
+
+  const find = useMemo<FindQuery>(() => ({ query, ...options }), [query, options])
+  const { ranges: matches, error } = useMemo(() => findMatches(content, find), [content, find])
+  const activeIndex = matches.length > 0 ? Math.min(currentIndex, matches.length - 1) : -1
+
+  // Jump to the first match of a changed search
+  const search = useCallback((next: FindQuery) => {
+    setCurrentIndex(0)
+    const [first] = findMatches(content, next).ranges
+    if (first) onRevealMatch(first)
+  }, [content, onRevealMatch])
+
+  const open = useCallback((withReplace: boolean, initialQuery?: string) => {
+    setIsOpen(true)
+    setShowReplace(withReplace)
+    setFocusToken(token => token + 1)
+    if (initialQuery) {
+      setQueryState(initialQuery)
+      search({ ...find, query: initialQuery })
+    }
+  }, [find, search])
+
+  const close = useCallback(() => {
+    setIsOpen(false)
+  }, [])
+
+  const setQuery = useCallback((next: string) => {
+    setQueryState(next)
+    search({ ...find, query: next })
+  }, [find, search])
+
+  const toggleOption = useCallback((option: keyof FindOptions) => {
+    const next = { ...options, [option]: !options[option] }
+    setOptions(next)
+    search({ query, ...next })
+  }, [options, query, search])
+
+  const goTo = useCallback((index: number) => {
+    if (matches.length === 0) return
+    const wrapped = (index + matches.length) % matches.length
+    setCurrentIndex(wrapped)
+    onRevealMatch(matches[wrapped])
+  }, [matches, onRevealMatch])
+
+  const findNext = useCallback(() => goTo(activeIndex + 1), [goTo, activeIndex])
+  const findPrevious = useCallback(() => goTo(activeIndex - 1), [goTo, activeIndex])
+
+  const replaceCurrent = useCallback(() => {
+    const range = matches[activeIndex]
+    if (!range) return
+
+    const updated = replaceMatch(content, range, find, replacement)
+    onChange(updated)
+
+    // Continue after the inserted text so a replacement containing the
+    // query is not matched again
+    const insertedEnd = range.end + updated.length - content.length
+    const remaining = findMatches(updated, find).ranges
+    const nextIndex = Math.max(0, remaining.findIndex(r => r.start >= insertedEnd))
+    setCurrentIndex(nextIndex)
+    if (remaining[nextIndex]) onRevealMatch(remaining[nextIndex])
+  }, [matches, activeIndex, content, find, replacement, onChange, onRevealMatch])
+
+  const replaceAll = useCallback(() => {
+    if (matches.length === 0) return
+    onChange(replaceAllMatches(content, find, replacement).text)
+    setCurrentIndex(0)
+  }, [matches, content, find, replacement, onChange])
+
+  return {
+    isOpen,
+    showReplace,
+    focusToken,
+    query,
+    replacement,
+    options,
+    matches,
+    activeIndex,
+    error,
+    activeQuery: isOpen && query && !error ? find : null,
+    open,
+    close,
+    setShowReplace,
+    setQuery,
+    setReplacement,
+    toggleOption,
+    findNext,
+    findPrevious,
+    replaceCurrent,
+    replaceAll,
+  }
+}
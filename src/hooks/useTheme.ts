@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react'
 
-type Theme = 'light' | 'dark'
+export type Theme = 'light' | 'dark'
 
 const STORAGE_KEY = 'markdown-notepad-theme'
 
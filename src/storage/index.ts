@@ -0,0 +1,40 @@
+/**
+ * Document store selection
+ */
+import type { DocumentStore, DocumentStoreKind } from './types'
+import { createIndexedDbStore, isIndexedDbAvailable } from './indexedDbStore'
+import { createLocalStorageStore } from './localStorageStore'
+import { createMemoryStore } from './memoryStore'
+
+export type { Asset, AssetStore, Document, DocumentSnapshot, DocumentStore, DocumentStoreChange, DocumentStoreKind, Folder, SnapshotReason } from './types'
+export { createIndexedDbStore, createLocalStorageStore, createMemoryStore }
+
+/**
+ * Create a document store of the given kind.
+ * Without a kind (or when IndexedDB is unavailable) IndexedDB is preferred
+ * and localStorage is used as the fallback.
+ */
+export function createDocumentStore(kind?: DocumentStoreKind | string): DocumentStore {
+  switch (kind) {
+    case 'memory':
+      return createMemoryStore()
+    case 'localstorage':
+      return createLocalStorageStore()
+    case 'indexeddb':
+    default:
+      return isIndexedDbAvailable() ? createIndexedDbStore() : createLocalStorageStore()
+  }
+}
+
+let defaultStore: DocumentStore | null = null
+
+/**
+ * Store used when none is passed to useDocuments,
+ * selected at startup by the VITE_DOCUMENT_STORE environment variable
+ */
+export function getDefaultDocumentStore(): DocumentStore {
+  if (!defaultStore) {
+    defaultStore = createDocumentStore(import.meta.env.VITE_DOCUMENT_STORE)
+  }
+  return defaultStore
+}
@@ -0,0 +1,193 @@
+/**
+ * IndexedDB document store.
+ * Each document is stored as its own record so saves only touch what changed.
+ */
+import type { Asset, Document, DocumentSnapshot, DocumentStore, Folder } from './types'
+import { LOCAL_STORAGE_KEY } from './localStorageStore'
+import { createSyncChannel } from './syncChannel'
+
+const DB_NAME = 'markdown-notepad'
+const DB_VERSION = 4
+const DOCUMENTS_STORE = 'documents'
+const SNAPSHOTS_STORE = 'snapshots'
+const FOLDERS_STORE = 'folders'
+const ASSETS_STORE = 'assets'
+
+/**
+ * Check whether IndexedDB can be used in the current environment
+ */
+export function isIndexedDbAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null
+  } catch {
+    // Accessing indexedDB can throw in some sandboxed contexts
+    return false
+  }
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Resolve once a transaction has committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'))
+  })
+}
+
+/**
+ * Open the notepad database, creating the object stores on first use
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+      db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' })
+    }
+    if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+      const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' })
+      snapshots.createIndex('documentId', 'documentId')
+    }
+    if (!db.objectStoreNames.contains(FOLDERS_STORE)) {
+      db.createObjectStore(FOLDERS_STORE, { keyPath: 'id' })
+    }
+    if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+      db.createObjectStore(ASSETS_STORE, { keyPath: 'id' })
+    }
+  }
+  return requestToPromise(request)
+}
+
+/**
+ * Documents saved by an older version, or null when the saved value cannot be read
+ */
+function parseLegacyDocuments(stored: string): Document[] | null {
+  try {
+    const parsed: unknown = JSON.parse(stored)
+    const valid = Array.isArray(parsed) && parsed.every(doc =>
+      typeof doc === 'object' && doc !== null && typeof doc.id === 'string'
+    )
+    return valid ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Move documents saved by older versions from localStorage into IndexedDB.
+ * The legacy key is only removed once the documents have been committed,
+ * and is left alone when it cannot be read so the data can still be recovered.
+ */
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+  const stored = localStorage.getItem(LOCAL_STORAGE_KEY)
+  if (!stored) return
+
+  const legacyDocs = parseLegacyDocuments(stored)
+  if (!legacyDocs) {
+    console.warn('Failed to migrate documents from localStorage: the saved data is unreadable')
+    return
+  }
+  const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite')
+  const store = transaction.objectStore(DOCUMENTS_STORE)
+  legacyDocs.forEach(doc => store.put(doc))
+  await transactionDone(transaction)
+  localStorage.removeItem(LOCAL_STORAGE_KEY)
+}
+
+export function createIndexedDbStore(): DocumentStore {
+  let dbPromise: Promise<IDBDatabase> | null = null
+  const sync = createSyncChannel(DB_NAME)
+
+  // Open lazily and migrate legacy data before the first read or write
+  const getDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().then(async (db) => {
+        await migrateFromLocalStorage(db)
+        return db
+      })
+      // Allow a later call to retry if opening failed
+      dbPromise.catch(() => {
+        dbPromise = null
+      })
+    }
+    return dbPromise
+  }
+
+  const write = async (storeName: string, apply: (store: IDBObjectStore) => void): Promise<void> => {
+    const db = await getDb()
+    const transaction = db.transaction(storeName, 'readwrite')
+    apply(transaction.objectStore(storeName))
+    await transactionDone(transaction)
+  }
+
+  return {
+    list: async () => {
+      const db = await getDb()
+      const transaction = db.transaction(DOCUMENTS_STORE, 'readonly')
+      return requestToPromise(transaction.objectStore(DOCUMENTS_STORE).getAll() as IDBRequest<Document[]>)
+    },
+    load: async (id) => {
+      const db = await getDb()
+      const transaction = db.transaction(DOCUMENTS_STORE, 'readonly')
+      const doc = await requestToPromise(transaction.objectStore(DOCUMENTS_STORE).get(id) as IDBRequest<Document | undefined>)
+      return doc ?? null
+    },
+    save: async (doc) => {
+      await write(DOCUMENTS_STORE, store => store.put(doc))
+      sync.publish({ saved: [doc], removed: [] })
+    },
+    delete: async (id) => {
+      await write(DOCUMENTS_STORE, store => store.delete(id))
+      sync.publish({ saved: [], removed: [id] })
+    },
+    listSnapshots: async (documentId) => {
+      const db = await getDb()
+      const transaction = db.transaction(SNAPSHOTS_STORE, 'readonly')
+      const index = transaction.objectStore(SNAPSHOTS_STORE).index('documentId')
+      return requestToPromise(index.getAll(documentId) as IDBRequest<DocumentSnapshot[]>)
+    },
+    saveSnapshot: (snapshot) => write(SNAPSHOTS_STORE, store => store.put(snapshot)),
+    deleteSnapshot: (id) => write(SNAPSHOTS_STORE, store => store.delete(id)),
+    listFolders: async () => {
+      const db = await getDb()
+      const transaction = db.transaction(FOLDERS_STORE, 'readonly')
+      return requestToPromise(transaction.objectStore(FOLDERS_STORE).getAll() as IDBRequest<Folder[]>)
+    },
+    saveFolder: async (folder) => {
+      await write(FOLDERS_STORE, store => store.put(folder))
+      sync.publish({ saved: [], removed: [], savedFolders: [folder] })
+    },
+    deleteFolder: async (id) => {
+      await write(FOLDERS_STORE, store => store.delete(id))
+      sync.publish({ saved: [], removed: [], removedFolders: [id] })
+    },
+    subscribe: sync.subscribe,
+    assets: {
+      list: async () => {
+        const db = await getDb()
+        const transaction = db.transaction(ASSETS_STORE, 'readonly')
+        return requestToPromise(transaction.objectStore(ASSETS_STORE).getAll() as IDBRequest<Asset[]>)
+      },
+      load: async (id) => {
+        const db = await getDb()
+        const transaction = db.transaction(ASSETS_STORE, 'readonly')
+        const asset = await requestToPromise(transaction.objectStore(ASSETS_STORE).get(id) as IDBRequest<Asset | undefined>)
+        return asset ?? null
+      },
+      save: (asset) => write(ASSETS_STORE, store => store.put(asset)),
+      delete: (id) => write(ASSETS_STORE, store => store.delete(id)),
+    },
+  }
+}
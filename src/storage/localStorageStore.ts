@@ -0,0 +1,93 @@
+/**
+ * localStorage document store.
+ * All documents share one JSON entry, so this backend is limited by the
+ * browser's localStorage quota and is mainly a fallback for IndexedDB.
+ */
+import type { Document, DocumentSnapshot, DocumentStore, Folder } from './types'
+import { createSyncChannel } from './syncChannel'
+
+export const LOCAL_STORAGE_KEY = 'markdown-notepad-documents'
+export const HISTORY_STORAGE_KEY = 'markdown-notepad-history'
+export const FOLDERS_STORAGE_KEY = 'markdown-notepad-folders'
+
+export function createLocalStorageStore(
+  storageKey: string = LOCAL_STORAGE_KEY,
+  historyKey: string = HISTORY_STORAGE_KEY,
+  foldersKey: string = FOLDERS_STORAGE_KEY,
+): DocumentStore {
+  const sync = createSyncChannel(storageKey)
+
+  const readAll = (): Document[] => {
+    const stored = localStorage.getItem(storageKey)
+    return stored ? JSON.parse(stored) as Document[] : []
+  }
+
+  const writeAll = (docs: Document[]) => {
+    localStorage.setItem(storageKey, JSON.stringify(docs))
+  }
+
+  const readSnapshots = (): DocumentSnapshot[] => {
+    const stored = localStorage.getItem(historyKey)
+    return stored ? JSON.parse(stored) as DocumentSnapshot[] : []
+  }
+
+  const writeSnapshots = (snapshots: DocumentSnapshot[]) => {
+    localStorage.setItem(historyKey, JSON.stringify(snapshots))
+  }
+
+  const readFolders = (): Folder[] => {
+    const stored = localStorage.getItem(foldersKey)
+    return stored ? JSON.parse(stored) as Folder[] : []
+  }
+
+  const writeFolders = (folders: Folder[]) => {
+    localStorage.setItem(foldersKey, JSON.stringify(folders))
+  }
+
+  return {
+    list: async () => readAll(),
+    load: async (id) => readAll().find(doc => doc.id === id) ?? null,
+    save: async (doc) => {
+      const docs = readAll()
+      const index = docs.findIndex(existing => existing.id === doc.id)
+      if (index === -1) {
+        docs.unshift(doc)
+      } else {
+        docs[index] = doc
+      }
+      writeAll(docs)
+      sync.publish({ saved: [doc], removed: [] })
+    },
+    delete: async (id) => {
+      const docs = readAll()
+      if (docs.some(doc => doc.id === id)) {
+        writeAll(docs.filter(doc => doc.id !== id))
+        sync.publish({ saved: [], removed: [id] })
+      }
+    },
+    listSnapshots: async (documentId) =>
+      readSnapshots().filter(snapshot => snapshot.documentId === documentId),
+    saveSnapshot: async (snapshot) => {
+      writeSnapshots([...readSnapshots(), snapshot])
+    },
+    deleteSnapshot: async (id) => {
+      const snapshots = readSnapshots()
+      if (snapshots.some(snapshot => snapshot.id === id)) {
+        writeSnapshots(snapshots.filter(snapshot => snapshot.id !== id))
+      }
+    },
+    listFolders: async () => readFolders(),
+    saveFolder: async (folder) => {
+      writeFolders([...readFolders().filter(existing => existing.id !== folder.id), folder])
+      sync.publish({ saved: [], removed: [], savedFolders: [folder] })
+    },
+    deleteFolder: async (id) => {
+      const folders = readFolders()
+      if (folders.some(folder => folder.id === id)) {
+        writeFolders(folders.filter(folder => folder.id !== id))
+        sync.publish({ saved: [], removed: [], removedFolders: [id] })
+      }
+    },
+    subscribe: sync.subscribe,
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * In-memory document store.
+ * Nothing survives a page reload; useful for tests and embedding.
+ */
+import type { Asset, Document, DocumentSnapshot, DocumentStore, Folder } from './types'
+
+function cloneAsset(asset: Asset): Asset {
+  return { ...asset, data: asset.data.slice(0) }
+}
+
+// Copy documents so callers cannot change stored records, tag list included
+function cloneDocument(doc: Document): Document {
+  return doc.tags ? { ...doc, tags: [...doc.tags] } : { ...doc }
+}
+
+export function createMemoryStore(
+  initialDocuments: Document[] = [],
+  initialFolders: Folder[] = [],
+): DocumentStore {
+  const records = new Map<string, Document>(
+    initialDocuments.map(doc => [doc.id, cloneDocument(doc)])
+  )
+  const snapshots = new Map<string, DocumentSnapshot>()
+  const folders = new Map<string, Folder>(
+    initialFolders.map(folder => [folder.id, { ...folder }])
+  )
+  const assets = new Map<string, Asset>()
+
+  return {
+    list: async () => Array.from(records.values(), cloneDocument),
+    load: async (id) => {
+      const doc = records.get(id)
+      return doc ? cloneDocument(doc) : null
+    },
+    save: async (doc) => {
+      records.set(doc.id, cloneDocument(doc))
+    },
+    delete: async (id) => {
+      records.delete(id)
+    },
+    listSnapshots: async (documentId) =>
+      Array.from(snapshots.values())
+        .filter(snapshot => snapshot.documentId === documentId)
+        .map(snapshot => ({ ...snapshot })),
+    saveSnapshot: async (snapshot) => {
+      snapshots.set(snapshot.id, { ...snapshot })
+    },
+    deleteSnapshot: async (id) => {
+      snapshots.delete(id)
+    },
+    listFolders: async () => Array.from(folders.values(), folder => ({ ...folder })),
+    saveFolder: async (folder) => {
+      folders.set(folder.id, { ...folder })
+    },
+    deleteFolder: async (id) => {
+      folders.delete(id)
+    },
+    assets: {
+      list: async () => Array.from(assets.values(), cloneAsset),
+      load: async (id) => {
+        const asset = assets.get(id)
+        return asset ? cloneAsset(asset) : null
+      },
+      save: async (asset) => {
+        assets.set(asset.id, cloneAsset(asset))
+      },
+      delete: async (id) => {
+        assets.delete(id)
+      },
+    },
+  }
+}
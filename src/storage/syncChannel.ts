@@ -0,0 +1,91 @@
+/**
+ * Cross-tab change notifications for shared document stores.
+ * Uses BroadcastChannel where available and falls back to localStorage
+ * storage events, which other tabs of the same origin also receive.
+ */
+import type { DocumentStoreChange } from './types'
+
+export interface SyncChannel {
+  /** Notify other tabs about a change */
+  publish: (change: DocumentStoreChange) => void
+  /** Listen for changes published by other tabs; returns an unsubscribe function */
+  subscribe: (listener: (change: DocumentStoreChange) => void) => () => void
+}
+
+type Listener = (change: DocumentStoreChange) => void
+
+function createBroadcastSyncChannel(name: string): SyncChannel {
+  const listeners = new Set<Listener>()
+  // Only kept open while someone is listening
+  let channel: BroadcastChannel | null = null
+
+  const handleMessage = (event: MessageEvent<DocumentStoreChange>) => {
+    listeners.forEach(listener => listener(event.data))
+  }
+
+  return {
+    publish: (change) => {
+      if (channel) {
+        channel.postMessage(change)
+        return
+      }
+      const temporary = new BroadcastChannel(name)
+      temporary.postMessage(change)
+      temporary.close()
+    },
+    subscribe: (listener) => {
+      if (!channel) {
+        channel = new BroadcastChannel(name)
+        channel.addEventListener('message', handleMessage)
+      }
+      listeners.add(listener)
+
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0 && channel) {
+          channel.removeEventListener('message', handleMessage)
+          channel.close()
+          channel = null
+        }
+      }
+    },
+  }
+}
+
+function createStorageEventSyncChannel(name: string): SyncChannel {
+  const key = `${name}:sync`
+
+  return {
+    publish: (change) => {
+      try {
+        // The nonce makes repeated identical changes still fire an event
+        localStorage.setItem(key, JSON.stringify({ change, nonce: Math.random() }))
+        localStorage.removeItem(key)
+      } catch (err) {
+        console.warn('Failed to notify other tabs:', err)
+      }
+    },
+    subscribe: (listener) => {
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key !== key || !event.newValue) return
+        try {
+          listener((JSON.parse(event.newValue) as { change: DocumentStoreChange }).change)
+        } catch (err) {
+          console.warn('Ignoring malformed sync message:', err)
+        }
+      }
+
+      window.addEventListener('storage', handleStorage)
+      return () => window.removeEventListener('storage', handleStorage)
+    },
+  }
+}
+
+/**
+ * Create a channel that connects every tab using the same channel name
+ */
+export function createSyncChannel(name: string): SyncChannel {
+  return typeof BroadcastChannel !== 'undefined'
+    ? createBroadcastSyncChannel(name)
+    : createStorageEventSyncChannel(name)
+}
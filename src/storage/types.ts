@@ -0,0 +1,120 @@
+/**
+ * Storage types shared by all document store implementations
+ */
+
+export interface Document {
+  id: string
+  name: string
+  content: string
+  updatedAt: number
+  /** Set when the document has been moved to the trash */
+  deletedAt?: number
+  /** Containing folder; documents without one are at the top level */
+  folderId?: string
+  /** Tags set on the document itself, in addition to those written in its content */
+  tags?: string[]
+}
+
+/**
+ * A folder grouping documents and other folders
+ */
+export interface Folder {
+  id: string
+  name: string
+  /** Containing folder, or null at the top level */
+  parentId: string | null
+  updatedAt: number
+}
+
+export type SnapshotReason = 'manual' | 'auto' | 'restore' | 'import' | 'backup'
+
+/**
+ * A saved copy of a document's content at a point in time
+ */
+export interface DocumentSnapshot {
+  id: string
+  documentId: string
+  name: string
+  content: string
+  createdAt: number
+  /** What triggered the snapshot */
+  reason: SnapshotReason
+}
+
+/**
+ * A file stored alongside the documents, such as a pasted image,
+ * referenced from markdown as notepad-asset://<id>
+ */
+export interface Asset {
+  id: string
+  /** Original file name */
+  name: string
+  /** MIME type, like image/png */
+  type: string
+  /** Size of the data in bytes */
+  size: number
+  data: ArrayBuffer
+  createdAt: number
+}
+
+/**
+ * Persistence for assets, kept apart from documents since they are large and rarely change
+ */
+export interface AssetStore {
+  /** Read every stored asset */
+  list: () => Promise<Asset[]>
+  /** Read a single asset, or null if it does not exist */
+  load: (id: string) => Promise<Asset | null>
+  /** Create or replace a single asset */
+  save: (asset: Asset) => Promise<void>
+  /** Remove a single asset; removing a missing asset is not an error */
+  delete: (id: string) => Promise<void>
+}
+
+/**
+ * Documents written or deleted through another store instance,
+ * typically the same store open in another browser tab
+ */
+export interface DocumentStoreChange {
+  saved: Document[]
+  removed: string[]
+  savedFolders?: Folder[]
+  removedFolders?: string[]
+}
+
+/**
+ * Persistence backend used by useDocuments.
+ * Implementations store documents individually so a save only
+ * touches the document that changed.
+ */
+export interface DocumentStore {
+  /** Read every stored document */
+  list: () => Promise<Document[]>
+  /** Read a single document, or null if it does not exist */
+  load: (id: string) => Promise<Document | null>
+  /** Create or replace a single document */
+  save: (doc: Document) => Promise<void>
+  /** Remove a single document; removing a missing document is not an error */
+  delete: (id: string) => Promise<void>
+  /** Read every snapshot of a document, in no particular order */
+  listSnapshots: (documentId: string) => Promise<DocumentSnapshot[]>
+  /** Store a new snapshot */
+  saveSnapshot: (snapshot: DocumentSnapshot) => Promise<void>
+  /** Remove a single snapshot */
+  deleteSnapshot: (id: string) => Promise<void>
+  /** Read every folder */
+  listFolders: () => Promise<Folder[]>
+  /** Create or replace a single folder */
+  saveFolder: (folder: Folder) => Promise<void>
+  /** Remove a single folder; documents inside it are not touched */
+  deleteFolder: (id: string) => Promise<void>
+  /**
+   * Listen for changes made by other tabs; returns an unsubscribe function.
+   * Stores that are not shared between tabs leave this out.
+   */
+  subscribe?: (listener: (change: DocumentStoreChange) => void) => () => void
+  /** Stored files; stores that cannot hold binary data leave this out */
+  assets?: AssetStore
+}
+
+export type DocumentStoreKind = 'indexeddb' | 'localstorage' | 'memory'
@@ -0,0 +1,155 @@
+/**
+ * Files stored alongside documents, such as pasted images, and the
+ * notepad-asset://<id> URLs that markdown uses to reference them
+ */
+import type { Asset, Document, DocumentSnapshot } from '../storage/types'
+import { findInProse } from './markdownText'
+
+/** An asset without its data, for listing */
+export type AssetInfo = Omit<Asset, 'data'>
+
+export interface AssetUsage {
+  asset: AssetInfo
+  /** Documents referencing the asset, including those in the trash */
+  documents: Document[]
+  /** Snapshots referencing the asset, which need it if they are restored */
+  snapshots: DocumentSnapshot[]
+}
+
+export const ASSET_PROTOCOL = 'notepad-asset:'
+
+const ASSET_URL_PATTERN = /^notepad-asset:\/\/([\w-]+)$/
+/**
+ * Any asset URL: in images and links, reference definitions like
+ * [chart]: notepad-asset://id, and raw HTML like <img src="notepad-asset://id">
+ */
+const ASSET_REFERENCE_PATTERN = /notepad-asset:\/\/([\w-]+)/g
+
+/**
+ * The URL that references an asset from markdown
+ */
+export function assetUrl(id: string): string {
+  return `${ASSET_PROTOCOL}//${id}`
+}
+
+/**
+ * The id of the asset a URL references, or null for other URLs
+ */
+export function parseAssetUrl(url: string): string | null {
+  return ASSET_URL_PATTERN.exec(url.trim())?.[1] ?? null
+}
+
+/**
+ * Ids of the assets referenced outside of code, without duplicates
+ */
+export function findAssetReferences(content: string): string[] {
+  const ids = findInProse(content, ASSET_REFERENCE_PATTERN).map(({ match }) => match[1])
+  return Array.from(new Set(ids))
+}
+
+/**
+ * Each asset with the documents and snapshots that reference it, in the order of the assets
+ */
+export function findAssetUsage(
+  assets: AssetInfo[],
+  documents: Document[],
+  snapshots: DocumentSnapshot[] = []
+): AssetUsage[] {
+  const references = new Map([...documents, ...snapshots].map(item => [item, new Set(findAssetReferences(item.content))]))
+  return assets.map(asset => ({
+    asset,
+    documents: documents.filter(doc => references.get(doc)!.has(asset.id)),
+    snapshots: snapshots.filter(snapshot => references.get(snapshot)!.has(asset.id)),
+  }))
+}
+
+/**
+ * A size in bytes for display, like 512 B or 1.4 MB
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB']
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return unit === 0 ? `${value} ${units[0]}` : `${value.toFixed(1)} ${units[unit]}`
+}
+
+/**
+ * Markdown for an image asset, with the file name, minus its extension, as alt text
+ */
+export function assetImageMarkdown(asset: Pick<Asset, 'id' | 'name'>): string {
+  const alt = asset.name.replace(/\.[^.]+$/, '').replace(/[[\]\\]/g, '\\$&')
+  return `![${alt}](${assetUrl(asset.id)})`
+}
+
+/**
+ * Read a file into an asset record
+ */
+export async function createAsset(file: File, id: string): Promise<Asset> {
+  const data = await file.arrayBuffer()
+  return {
+    id,
+    name: file.name || 'image',
+    type: file.type || 'application/octet-stream',
+    size: data.byteLength,
+    data,
+    createdAt: Date.now(),
+  }
+}
+
+/**
+ * Encode binary data as base64
+ */
+export function encodeBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data)
+  let binary = ''
+  // Converted in chunks, since spreading a large array exceeds the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Decode base64 into binary data. Throws if the text is not valid base64.
+ */
+export function decodeBase64(text: string): ArrayBuffer {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes.buffer
+}
+
+/**
+ * The asset's data as a base64 data: URI
+ */
+export function assetToDataUri(asset: Asset): string {
+  return `data:${asset.type};base64,${encodeBase64(asset.data)}`
+}
+
+/**
+ * Replace asset URLs of images in rendered HTML with data: URIs, for exported
+ * files that must display without the store. Missing assets keep their URL.
+ */
+export async function embedAssets(html: string, loadAsset: (id: string) => Promise<Asset | null>): Promise<string> {
+  const parsed = new DOMParser().parseFromString(html, 'text/html')
+  const images = Array.from(parsed.body.querySelectorAll('img'))
+    .map(image => ({ image, id: parseAssetUrl(image.getAttribute('src') ?? '') }))
+    .filter(({ id }) => id !== null)
+  if (images.length === 0) return html
+
+  for (const { image, id } of images) {
+    try {
+      const asset = await loadAsset(id!)
+      if (asset) image.setAttribute('src', assetToDataUri(asset))
+    } catch {
+      // The image is left as it was, like a broken link
+    }
+  }
+  return parsed.body.innerHTML
+}
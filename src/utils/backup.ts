@@ -0,0 +1,184 @@
+/**
+ * ZIP backups of the whole notepad: every document as a .md file in its
+ * folder, attachments, and a manifest to restore them from
+ */
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate'
+import type { Asset, Document, Folder } from '../storage/types'
+import type { AssetInfo } from './assets'
+import { downloadFile, sanitizeFilename } from './export'
+import { getFolderPath } from './folders'
+import {
+  ASSET_INFO_SCHEMA, DOCUMENT_INFO_SCHEMA, FOLDER_SCHEMA, checkField, checkList, describeProblems, isRecord,
+  type FieldSchema,
+} from './schema'
+
+export const BACKUP_FORMAT = 'markdown-notepad-backup'
+export const BACKUP_VERSION = 1
+
+const MANIFEST_PATH = 'manifest.json'
+
+export interface Backup {
+  createdAt: number
+  /** Documents including those in the trash */
+  documents: Document[]
+  folders: Folder[]
+  assets: Asset[]
+}
+
+/** A document in the manifest; its content is the file at `path` */
+type ManifestDocument = Omit<Document, 'content'> & { path: string }
+/** An attachment in the manifest; its data is the file at `path` */
+type ManifestAsset = AssetInfo & { path: string }
+
+const MANIFEST_DOCUMENT_SCHEMA: Record<keyof ManifestDocument, FieldSchema> = {
+  ...DOCUMENT_INFO_SCHEMA,
+  path: { type: 'string' },
+}
+
+const MANIFEST_ASSET_SCHEMA: Record<keyof ManifestAsset, FieldSchema> = {
+  ...ASSET_INFO_SCHEMA,
+  path: { type: 'string' },
+}
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT
+  version: number
+  createdAt: number
+  folders: Folder[]
+  documents: ManifestDocument[]
+  assets: ManifestAsset[]
+}
+
+/**
+ * Reserve a path in the archive, numbering it like "Notes (2).md" when taken
+ */
+function claimPath(taken: Set<string>, directory: string, name: string, extension = ''): string {
+  let path = `${directory}/${name}${extension}`
+  for (let copy = 2; taken.has(path.toLowerCase()); copy++) {
+    path = `${directory}/${name} (${copy})${extension}`
+  }
+  taken.add(path.toLowerCase())
+  return path
+}
+
+/**
+ * Write a backup as a ZIP archive. Documents are placed under documents/ in
+ * their folders, trashed ones under trash/, and attachments under assets/.
+ */
+export function createBackup({ createdAt, documents, folders, assets }: Backup): Uint8Array {
+  const files: Zippable = {}
+  const taken = new Set<string>()
+
+  const manifestDocuments = documents.map(({ content, ...doc }) => {
+    const directory = doc.deletedAt === undefined
+      ? ['documents', ...getFolderPath(folders, doc.folderId).map(sanitizeFilename)].join('/')
+      : 'trash'
+    const path = claimPath(taken, directory, sanitizeFilename(doc.name), '.md')
+    files[path] = strToU8(content)
+    return { ...doc, path }
+  })
+
+  const manifestAssets = assets.map(({ data, ...asset }) => {
+    const path = claimPath(taken, 'assets', `${asset.id}-${sanitizeFilename(asset.name)}`)
+    // Images are already compressed
+    files[path] = [new Uint8Array(data), { level: 0 }]
+    return { ...asset, path }
+  })
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt,
+    folders,
+    documents: manifestDocuments,
+    assets: manifestAssets,
+  }
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2))
+
+  return zipSync(files)
+}
+
+/**
+ * Check the manifest with the schemas shared with workspace files, keeping
+ * only the fields they know
+ */
+function validateManifest(value: unknown): BackupManifest {
+  if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a Markdown Notepad backup')
+  }
+  const { version } = value
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('This backup has no valid version')
+  }
+  if (version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of Markdown Notepad')
+  }
+  const problems: string[] = []
+  checkField(value.createdAt, { type: 'number' }, 'createdAt', problems)
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version,
+    createdAt: value.createdAt as number,
+    documents: checkList(value.documents, MANIFEST_DOCUMENT_SCHEMA, 'documents', problems),
+    folders: checkList(value.folders, FOLDER_SCHEMA, 'folders', problems),
+    // Backups without attachments may leave the list out
+    assets: value.assets === undefined ? [] : checkList(value.assets, MANIFEST_ASSET_SCHEMA, 'assets', problems),
+  }
+  if (problems.length > 0) {
+    throw new Error(`The backup manifest is damaged: ${describeProblems(problems)}`)
+  }
+  return manifest
+}
+
+/**
+ * Read a backup made by createBackup.
+ * Throws an error with a message for the user when the file cannot be restored.
+ */
+export function readBackup(data: Uint8Array): Backup {
+  let files: Record<string, Uint8Array>
+  try {
+    files = unzipSync(data)
+  } catch {
+    throw new Error('This file is not a valid ZIP archive')
+  }
+  if (!files[MANIFEST_PATH]) {
+    throw new Error('This file is not a Markdown Notepad backup')
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(strFromU8(files[MANIFEST_PATH]))
+  } catch {
+    throw new Error('The backup manifest is damaged')
+  }
+  const manifest = validateManifest(parsed)
+
+  const readFile = (path: string) => {
+    const file = files[path]
+    if (!file) throw new Error(`The backup is missing ${path}`)
+    return file
+  }
+
+  return {
+    createdAt: manifest.createdAt,
+    folders: manifest.folders,
+    documents: manifest.documents.map(({ path, ...doc }) => ({ ...doc, content: strFromU8(readFile(path)) })),
+    assets: manifest.assets.map(({ path, ...asset }) => {
+      const file = readFile(path)
+      // Copied, since the unzipped file may be a view into a larger buffer
+      return { ...asset, data: file.slice().buffer }
+    }),
+  }
+}
+
+/**
+ * Download a backup of everything, named after the current date
+ */
+export function exportBackup(backup: Omit<Backup, 'createdAt'>): void {
+  const createdAt = Date.now()
+  const data = createBackup({ ...backup, createdAt })
+  const date = new Date(createdAt).toISOString().slice(0, 10)
+  // fflate always allocates plain ArrayBuffers
+  const blob = new Blob([data as Uint8Array<ArrayBuffer>], { type: 'application/zip' })
+  downloadFile(blob, `markdown-notepad-backup-${date}.zip`)
+}
@@ -0,0 +1,45 @@
+/**
+ * Options written after the language of a fenced code block, like
+ * ```ts title="api.ts" {3-5,8} showLineNumbers
+ */
+
+/** First and last 1-based line of a range, inclusive */
+export type LineRange = [start: number, end: number]
+
+export interface CodeMeta {
+  /** File name or caption shown in the header */
+  title?: string
+  /** Lines to highlight, kept as ranges since they can be far longer than the code */
+  highlightLines: LineRange[]
+  showLineNumbers: boolean
+}
+
+const TITLE_PATTERN = /\b(?:title|filename)=(?:"([^"]*)"|'([^']*)'|(\S+))/
+const LINE_RANGES_PATTERN = /\{([\d\s,-]+)\}/
+const LINE_NUMBERS_PATTERN = /\b(?:showLineNumbers|lineNumbers)\b/
+
+/**
+ * Lines listed as numbers and ranges, like 3-5,8
+ */
+function parseLineRanges(ranges: string): LineRange[] {
+  return ranges.split(',').flatMap((range): LineRange[] => {
+    const [start, end = start] = range.split('-').map(part => Number.parseInt(part, 10))
+    if (!Number.isInteger(start) || !Number.isInteger(end)) return []
+    const first = Math.max(1, start)
+    return first <= end ? [[first, end]] : []
+  })
+}
+
+export function isLineInRanges(ranges: LineRange[], line: number): boolean {
+  return ranges.some(([start, end]) => line >= start && line <= end)
+}
+
+export function parseCodeMeta(meta: string | null | undefined): CodeMeta {
+  const title = meta ? TITLE_PATTERN.exec(meta) : null
+  const ranges = meta ? LINE_RANGES_PATTERN.exec(meta) : null
+  return {
+    title: title ? title[1] ?? title[2] ?? title[3] : undefined,
+    highlightLines: ranges ? parseLineRanges(ranges[1]) : [],
+    showLineNumbers: meta ? LINE_NUMBERS_PATTERN.test(meta) : false,
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Line-based text diffing for comparing document versions
+ */
+
+export type DiffLineType = 'added' | 'removed' | 'unchanged'
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+}
+
+// Above this many LCS cells the changed region is reported as a plain
+// replacement instead of computing a minimal diff
+const MAX_LCS_CELLS = 4_000_000
+
+/**
+ * Compute a line diff that turns `oldText` into `newText`.
+ * Uses a longest-common-subsequence table on the region between the
+ * shared prefix and suffix.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n')
+  const newLines = newText.split('\n')
+
+  // Trim the common prefix and suffix, which covers most edits cheaply
+  let prefix = 0
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix)
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix)
+
+  const unchanged = (text: string): DiffLine => ({ type: 'unchanged', text })
+
+  return [
+    ...oldLines.slice(0, prefix).map(unchanged),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...oldLines.slice(oldLines.length - suffix).map(unchanged),
+  ]
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  const rows = oldLines.length
+  const cols = newLines.length
+
+  if (rows * cols > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map((text): DiffLine => ({ type: 'removed', text })),
+      ...newLines.map((text): DiffLine => ({ type: 'added', text })),
+    ]
+  }
+
+  // lengths[i * (cols + 1) + j] = LCS length of oldLines[i:] and newLines[j:]
+  const width = cols + 1
+  const lengths = new Uint32Array((rows + 1) * width)
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * width + j] = oldLines[i] === newLines[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', text: oldLines[i] })
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i] })
+      i++
+    } else {
+      result.push({ type: 'added', text: newLines[j] })
+      j++
+    }
+  }
+  while (i < rows) {
+    result.push({ type: 'removed', text: oldLines[i++] })
+  }
+  while (j < cols) {
+    result.push({ type: 'added', text: newLines[j++] })
+  }
+  return result
+}
+
+/**
+ * Count added and removed lines in a diff
+ */
+export function summarizeDiff(diff: DiffLine[]): { added: number; removed: number } {
+  return diff.reduce(
+    (summary, line) => {
+      if (line.type === 'added') summary.added++
+      if (line.type === 'removed') summary.removed++
+      return summary
+    },
+    { added: 0, removed: 0 }
+  )
+}
@@ -1,16 +1,26 @@
 /**
  * Export utility functions for downloading documents
  */
+import type { Asset } from '../storage/types'
+import { embedAssets } from './assets'
+import { escapeHtml, loadLanguages } from './highlight'
+import { findCodeLanguages } from './markdownText'
+import { extractFrontMatter } from './frontMatter'
+import { embedMermaidDiagrams } from './mermaid'
+import { renderMarkdownToHtml } from './renderMarkdown'
 
 export interface ExportOptions {
   content: string
+  /** Used when the front matter has no title */
   filename: string
+  /** Reads images stored as assets, which HTML exports embed */
+  loadAsset?: (id: string) => Promise<Asset | null>
 }
 
 /**
  * Sanitize a filename by removing invalid characters
  */
-function sanitizeFilename(name: string): string {
+export function sanitizeFilename(name: string): string {
   return name
     .replace(/[<>:"/\\|?*]/g, '')
     .replace(/\s+/g, ' ')
@@ -20,7 +30,7 @@ function sanitizeFilename(name: string): string {
 /**
  * Trigger a file download using the Blob API
  */
-function downloadFile(blob: Blob, filename: string): void {
+export function downloadFile(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob)
   const link = document.createElement('a')
   link.href = url
@@ -33,35 +43,49 @@ function downloadFile(blob: Blob, filename: string): void {
 }
 
 /**
- * Export content as a Markdown file (.md)
+ * Export content as a Markdown file (.md), named after the front matter title if there is one
  */
 export function exportAsMarkdown({ content, filename }: ExportOptions): void {
-  const sanitizedName = sanitizeFilename(filename)
+  const { metadata } = extractFrontMatter(content)
+  const sanitizedName = sanitizeFilename(metadata?.title ?? filename)
   const blob = new Blob([content], { type: 'text/markdown;charset=utf-8' })
   downloadFile(blob, `${sanitizedName}.md`)
 }
 
 /**
  * Export content as an HTML file (.html)
- * Wraps the content in a basic HTML template with styles
+ * Renders the markdown the same way as the preview and wraps it in a
+ * standalone HTML document with inlined styles. The front matter is not
+ * rendered; its title, tags and description become document metadata.
+ * Mermaid diagrams are embedded as SVG, and stored images as data: URIs,
+ * so the file displays them offline.
  */
-export function exportAsHtml({ content, filename }: ExportOptions): void {
-  const sanitizedName = sanitizeFilename(filename)
-  
-  // Convert markdown content to escaped HTML for display
-  const escapedContent = content
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;')
+export async function exportAsHtml({ content, filename, loadAsset }: ExportOptions): Promise<void> {
+  const { metadata, body } = extractFrontMatter(content)
+  const title = metadata?.title ?? filename
+  const sanitizedName = sanitizeFilename(title)
+  try {
+    await loadLanguages(findCodeLanguages(body))
+  } catch (err) {
+    // Code in languages whose grammar could not be loaded is exported as plain text
+    console.warn('Failed to load code highlighting for export:', err)
+  }
+  let renderedContent = await embedMermaidDiagrams(renderMarkdownToHtml(body))
+  if (loadAsset) {
+    renderedContent = await embedAssets(renderedContent, loadAsset)
+  }
+  const description = metadata?.fields.find(field => field.key === 'description')?.value
+  const metaTags = [
+    metadata?.tags.length ? `<meta name="keywords" content="${escapeHtml(metadata.tags.join(', '))}">` : '',
+    typeof description === 'string' ? `<meta name="description" content="${escapeHtml(description)}">` : '',
+  ].filter(Boolean).map(tag => `\n  ${tag}`).join('')
 
   const htmlTemplate = `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${sanitizedName}</title>
+  <title>${escapeHtml(title)}</title>${metaTags}
   <style>
     * {
       box-sizing: border-box;
@@ -141,28 +165,95 @@ export function exportAsHtml({ content, filename }: ExportOptions): void {
       max-width: 100%;
       height: auto;
     }
-    .markdown-source {
-      background: #f8f8f8;
-      border: 1px solid #e1e4e8;
+    li.task-list-item {
+      list-style: none;
+    }
+    li.task-list-item input[type="checkbox"] {
+      margin: 0 0.5em 0 -1.5em;
+      vertical-align: middle;
+    }
+    .table-wrapper {
+      overflow-x: auto;
+    }
+    .katex-display {
+      display: block;
+      margin: 1em 0;
+      overflow-x: auto;
+    }
+    math {
+      font-size: 1.1em;
+    }
+    .mermaid-diagram {
+      margin: 1em 0;
+      text-align: center;
+      overflow-x: auto;
+    }
+    .code-block {
+      margin: 1em 0;
+      border: 1px solid #292524;
       border-radius: 6px;
-      padding: 1rem;
-      margin-top: 2rem;
-      white-space: pre-wrap;
+      overflow: hidden;
+      background: #1c1917;
+    }
+    .code-block-header {
+      padding: 0.4em 1em;
+      border-bottom: 1px solid #44403c;
+      background: #292524;
+      color: #a8a29e;
       font-family: 'SF Mono', Monaco, Consolas, monospace;
-      font-size: 0.85em;
-      line-height: 1.5;
+      font-size: 0.75em;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
     }
-    .markdown-source-label {
-      font-weight: 600;
-      color: #666;
-      margin-bottom: 0.5rem;
-      font-size: 0.9em;
+    .code-block-title {
+      margin-left: 1em;
+      color: #e7e5e4;
+      text-transform: none;
+      letter-spacing: normal;
+    }
+    .code-block pre {
+      margin: 0;
+      border-radius: 0;
+      background: #1c1917;
+    }
+    .code-line {
+      display: block;
+      margin: 0 -1em;
+      padding: 0 1em;
+    }
+    .code-line.highlighted {
+      background: rgba(16, 185, 129, 0.15);
+      box-shadow: inset 3px 0 0 #059669;
+    }
+    pre.line-numbers .code-line::before {
+      content: attr(data-line-number);
+      display: inline-block;
+      width: 2.5ch;
+      margin-right: 1em;
+      color: #57534e;
+      text-align: right;
     }
+    .hljs { color: #e7e5e4; }
+    .hljs-comment, .hljs-quote { color: #78716c; font-style: italic; }
+    .hljs-keyword, .hljs-selector-tag, .hljs-subst { color: #f472b6; }
+    .hljs-built_in, .hljs-type { color: #22d3ee; }
+    .hljs-string, .hljs-title, .hljs-section, .hljs-attribute, .hljs-literal,
+    .hljs-template-tag, .hljs-template-variable, .hljs-addition { color: #a3e635; }
+    .hljs-number, .hljs-symbol, .hljs-bullet, .hljs-link { color: #fbbf24; }
+    .hljs-function .hljs-title, .hljs-class .hljs-title { color: #60a5fa; }
+    .hljs-variable, .hljs-params, .hljs-regexp, .hljs-deletion { color: #fca5a5; }
+    .hljs-class, .hljs-meta { color: #c4b5fd; }
+    .hljs-operator, .hljs-tag { color: #94a3b8; }
+    .hljs-tag .hljs-name { color: #f472b6; }
+    .hljs-tag .hljs-attr { color: #7dd3fc; }
+    .hljs-emphasis { font-style: italic; }
+    .hljs-strong { font-weight: 700; }
   </style>
 </head>
 <body>
-  <div class="markdown-source-label">Markdown Source:</div>
-  <pre class="markdown-source">${escapedContent}</pre>
+  <article class="markdown-body">
+${renderedContent}
+  </article>
 </body>
 </html>`
 
@@ -0,0 +1,135 @@
+/**
+ * Find and replace within a single document
+ */
+import type { SearchRange } from './search'
+
+export interface FindOptions {
+  caseSensitive: boolean
+  wholeWord: boolean
+  /** Treat the query as a regular expression */
+  regex: boolean
+}
+
+export interface FindQuery extends FindOptions {
+  query: string
+}
+
+export interface FindResult {
+  ranges: SearchRange[]
+  /** Set when the query is not a valid regular expression */
+  error: string | null
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Build the regular expression for a query.
+ * `^` and `$` match at line boundaries, like in most editors.
+ *
+ * @throws SyntaxError when a regex query is invalid
+ */
+export function createFindPattern({ query, caseSensitive, wholeWord, regex }: FindQuery, flags = 'g'): RegExp {
+  let source = regex ? query : escapeRegExp(query)
+  if (wholeWord) {
+    source = `\\b(?:${source})\\b`
+  }
+  return new RegExp(source, `${flags}m${caseSensitive ? '' : 'i'}`)
+}
+
+/**
+ * Find every non-empty match of the query in the text
+ */
+export function findMatches(text: string, find: FindQuery): FindResult {
+  if (!find.query) return { ranges: [], error: null }
+
+  let pattern: RegExp
+  try {
+    pattern = createFindPattern(find)
+  } catch (err) {
+    return { ranges: [], error: err instanceof Error ? err.message : 'Invalid regular expression' }
+  }
+
+  const ranges: SearchRange[] = []
+  for (const match of text.matchAll(pattern)) {
+    // Zero-length matches such as `^` or `a*` are not useful to select
+    if (match[0].length > 0) {
+      ranges.push({ start: match.index, end: match.index + match[0].length })
+    }
+  }
+  return { ranges, error: null }
+}
+
+/**
+ * Expand `$1`, `$<name>`, `$&`, `` $` ``, `$'` and `$$` in a replacement the way
+ * String.prototype.replace does, for one match. References to groups that do
+ * not exist are inserted literally.
+ */
+function expandReplacement(match: RegExpExecArray, replacement: string): string {
+  const groupCount = match.length - 1
+  return replacement.replace(/\$(\$|&|`|'|\d\d?|<[^>]*>)/g, (token, reference: string) => {
+    if (reference === '$') return '$'
+    if (reference === '&') return match[0]
+    if (reference === '`') return match.input.slice(0, match.index)
+    if (reference === "'") return match.input.slice(match.index + match[0].length)
+    if (reference.startsWith('<')) {
+      return match.groups ? match.groups[reference.slice(1, -1)] ?? '' : token
+    }
+    // Two digits name a group when there are that many, otherwise the first digit does
+    const group = Number(reference)
+    if (group >= 1 && group <= groupCount) return match[group] ?? ''
+    const firstDigit = Number(reference[0])
+    if (reference.length === 2 && firstDigit >= 1 && firstDigit <= groupCount) {
+      return (match[firstDigit] ?? '') + reference[1]
+    }
+    return token
+  })
+}
+
+/**
+ * Replace a single match found by findMatches
+ */
+export function replaceMatch(text: string, range: SearchRange, find: FindQuery, replacement: string): string {
+  let replaced = replacement
+  if (find.regex) {
+    // A sticky pattern matches exactly at lastIndex
+    const pattern = createFindPattern(find, 'y')
+    pattern.lastIndex = range.start
+    const match = pattern.exec(text)
+    if (match) replaced = expandReplacement(match, replacement)
+  }
+  return text.slice(0, range.start) + replaced + text.slice(range.end)
+}
+
+/**
+ * Replace every match of the query in one pass. Zero-length matches are left
+ * as they are, since findMatches does not report them.
+ */
+export function replaceAllMatches(
+  text: string,
+  find: FindQuery,
+  replacement: string
+): { text: string; count: number } {
+  if (!find.query) return { text, count: 0 }
+
+  let pattern: RegExp
+  try {
+    pattern = createFindPattern(find)
+  } catch {
+    return { text, count: 0 }
+  }
+
+  let result = ''
+  let cursor = 0
+  let count = 0
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length === 0) continue
+    result += text.slice(cursor, match.index) + (find.regex ? expandReplacement(match, replacement) : replacement)
+    cursor = match.index + match[0].length
+    count++
+  }
+  result += text.slice(cursor)
+
+  return { text: result, count }
+}
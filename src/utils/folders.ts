@@ -0,0 +1,81 @@
+/**
+ * Helpers for the folder hierarchy
+ */
+import type { Document, Folder } from '../storage/types'
+
+export interface FolderTreeNode {
+  folder: Folder
+  children: FolderTreeNode[]
+  documents: Document[]
+}
+
+export interface FolderTree {
+  /** Folders at the top level */
+  folders: FolderTreeNode[]
+  /** Documents at the top level */
+  documents: Document[]
+}
+
+/**
+ * Whether `folderId` is `ancestorId` or nested anywhere inside it
+ */
+export function isWithinFolder(folders: Folder[], folderId: string | null, ancestorId: string): boolean {
+  const seen = new Set<string>()
+  let current = folderId
+  while (current && !seen.has(current)) {
+    if (current === ancestorId) return true
+    seen.add(current)
+    current = folders.find(folder => folder.id === current)?.parentId ?? null
+  }
+  return false
+}
+
+/**
+ * Names of a folder and the folders containing it, outermost first.
+ * Empty for the top level, and stops at a missing or circular parent.
+ */
+export function getFolderPath(folders: Folder[], folderId: string | null | undefined): string[] {
+  const path: string[] = []
+  const seen = new Set<string>()
+  let current = folderId ?? null
+  while (current && !seen.has(current)) {
+    seen.add(current)
+    const folder = folders.find(candidate => candidate.id === current)
+    if (!folder) break
+    path.unshift(folder.name)
+    current = folder.parentId
+  }
+  return path
+}
+
+const byName = (a: { name: string }, b: { name: string }) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true })
+
+/**
+ * Arrange folders and documents into a tree sorted by name.
+ * Items whose folder no longer exists are placed at the top level.
+ */
+export function buildFolderTree(folders: Folder[], documents: Document[]): FolderTree {
+  const folderIds = new Set(folders.map(folder => folder.id))
+  const parentOf = (folder: Folder) =>
+    folder.parentId && folderIds.has(folder.parentId) && !isWithinFolder(folders, folder.parentId, folder.id)
+      ? folder.parentId
+      : null
+  const folderOf = (doc: Document) =>
+    doc.folderId && folderIds.has(doc.folderId) ? doc.folderId : null
+
+  const buildLevel = (parentId: string | null): FolderTreeNode[] =>
+    folders
+      .filter(folder => parentOf(folder) === parentId)
+      .sort(byName)
+      .map(folder => ({
+        folder,
+        children: buildLevel(folder.id),
+        documents: documents.filter(doc => folderOf(doc) === folder.id).sort(byName),
+      }))
+
+  return {
+    folders: buildLevel(null),
+    documents: documents.filter(doc => folderOf(doc) === null).sort(byName),
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * YAML front matter at the start of a markdown document
+ */
+import { parseDocument, type Document as YamlDocument } from 'yaml'
+
+export interface DocumentMetadata {
+  title?: string
+  /** As written in the front matter, not normalized */
+  tags: string[]
+  date?: string
+  /** Every other field, in source order */
+  fields: { key: string; value: unknown }[]
+}
+
+export interface ExtractedFrontMatter {
+  /** Null when there is no front matter or it is not valid */
+  metadata: DocumentMetadata | null
+  /** Set when the front matter is not valid YAML */
+  error: string | null
+  /** The markdown with the front matter blanked out, keeping line numbers */
+  body: string
+}
+
+export interface FrontMatter {
+  /** The YAML source between the delimiters */
+  source: string
+  /** Offsets of the whole block, delimiters included, within the content */
+  start: number
+  end: number
+}
+
+const FRONT_MATTER_PATTERN = /^---[ \t]*\r?\n([\s\S]*?)\r?\n?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/
+
+/**
+ * Find the front matter block, if the content starts with one
+ */
+export function findFrontMatter(content: string): FrontMatter | null {
+  const match = FRONT_MATTER_PATTERN.exec(content)
+  if (!match) return null
+  return { source: match[1], start: 0, end: match[0].length }
+}
+
+/**
+ * Parse the front matter as YAML.
+ * Returns null when there is none or it is not a valid mapping.
+ */
+export function parseFrontMatter(content: string): YamlDocument | null {
+  const frontMatter = findFrontMatter(content)
+  if (!frontMatter) return null
+
+  const doc = parseDocument(frontMatter.source)
+  if (doc.errors.length > 0) return null
+  const data: unknown = doc.toJS()
+  return data !== null && typeof data === 'object' && !Array.isArray(data) ? doc : null
+}
+
+/**
+ * Replace the front matter with the given YAML document
+ */
+export function replaceFrontMatter(content: string, doc: YamlDocument): string {
+  const frontMatter = findFrontMatter(content)
+  const rest = frontMatter ? content.slice(frontMatter.end) : content
+  return `---\n${doc.toString()}---\n${rest}`
+}
+
+/**
+ * Tags given as a YAML list or a comma separated string
+ */
+function readTags(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(',').map(tag => tag.trim()).filter(Boolean)
+  }
+  if (Array.isArray(value)) {
+    return value.filter(tag => tag !== null && typeof tag !== 'object').map(String)
+  }
+  return []
+}
+
+function readText(value: unknown): string | undefined {
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  if (typeof value === 'string' || typeof value === 'number') return String(value).trim() || undefined
+  return undefined
+}
+
+/**
+ * Split the front matter from the markdown and read its well-known fields.
+ * A leading block that is not a YAML mapping, like a thematic break
+ * followed by a heading, is left in the markdown.
+ */
+export function extractFrontMatter(content: string): ExtractedFrontMatter {
+  const frontMatter = findFrontMatter(content)
+  if (!frontMatter) return { metadata: null, error: null, body: content }
+
+  const blank = content.slice(frontMatter.start, frontMatter.end).replace(/[^\n]/g, '')
+  const body = blank + content.slice(frontMatter.end)
+
+  const doc = parseDocument(frontMatter.source)
+  if (doc.errors.length > 0) {
+    return { metadata: null, error: doc.errors[0].message, body }
+  }
+
+  const data: unknown = doc.toJS()
+  if (data === null && frontMatter.source.trim() === '') {
+    return { metadata: { tags: [], fields: [] }, error: null, body }
+  }
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    return { metadata: null, error: null, body: content }
+  }
+
+  const { title, tags, date, ...rest } = data as Record<string, unknown>
+  return {
+    metadata: {
+      title: readText(title),
+      tags: readTags(tags),
+      date: readText(date),
+      fields: Object.entries(rest).map(([key, value]) => ({ key, value })),
+    },
+    error: null,
+    body,
+  }
+}
+
+/**
+ * The title from the front matter, or the fallback
+ */
+export function getDocumentTitle(content: string, fallback: string): string {
+  return extractFrontMatter(content).metadata?.title ?? fallback
+}
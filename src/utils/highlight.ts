@@ -0,0 +1,363 @@
+/**
+ * Shared highlight.js instance. Grammars are loaded on first use, keyed by the
+ * language of a code block, so only the languages a document uses are downloaded.
+ */
+import hljs from 'highlight.js/lib/core'
+import type { LanguageFn } from 'highlight.js'
+
+// One chunk per grammar. Each import needs a literal path so the bundler can find it.
+const grammarLoaders: Record<string, () => Promise<{ default: LanguageFn }>> = {
+  '1c': () => import('highlight.js/lib/languages/1c'),
+  abnf: () => import('highlight.js/lib/languages/abnf'),
+  accesslog: () => import('highlight.js/lib/languages/accesslog'),
+  actionscript: () => import('highlight.js/lib/languages/actionscript'),
+  ada: () => import('highlight.js/lib/languages/ada'),
+  angelscript: () => import('highlight.js/lib/languages/angelscript'),
+  apache: () => import('highlight.js/lib/languages/apache'),
+  applescript: () => import('highlight.js/lib/languages/applescript'),
+  arcade: () => import('highlight.js/lib/languages/arcade'),
+  arduino: () => import('highlight.js/lib/languages/arduino'),
+  armasm: () => import('highlight.js/lib/languages/armasm'),
+  asciidoc: () => import('highlight.js/lib/languages/asciidoc'),
+  aspectj: () => import('highlight.js/lib/languages/aspectj'),
+  autohotkey: () => import('highlight.js/lib/languages/autohotkey'),
+  autoit: () => import('highlight.js/lib/languages/autoit'),
+  avrasm: () => import('highlight.js/lib/languages/avrasm'),
+  awk: () => import('highlight.js/lib/languages/awk'),
+  axapta: () => import('highlight.js/lib/languages/axapta'),
+  bash: () => import('highlight.js/lib/languages/bash'),
+  basic: () => import('highlight.js/lib/languages/basic'),
+  bnf: () => import('highlight.js/lib/languages/bnf'),
+  brainfuck: () => import('highlight.js/lib/languages/brainfuck'),
+  c: () => import('highlight.js/lib/languages/c'),
+  cal: () => import('highlight.js/lib/languages/cal'),
+  capnproto: () => import('highlight.js/lib/languages/capnproto'),
+  ceylon: () => import('highlight.js/lib/languages/ceylon'),
+  clean: () => import('highlight.js/lib/languages/clean'),
+  clojure: () => import('highlight.js/lib/languages/clojure'),
+  'clojure-repl': () => import('highlight.js/lib/languages/clojure-repl'),
+  cmake: () => import('highlight.js/lib/languages/cmake'),
+  coffeescript: () => import('highlight.js/lib/languages/coffeescript'),
+  coq: () => import('highlight.js/lib/languages/coq'),
+  cos: () => import('highlight.js/lib/languages/cos'),
+  cpp: () => import('highlight.js/lib/languages/cpp'),
+  crmsh: () => import('highlight.js/lib/languages/crmsh'),
+  crystal: () => import('highlight.js/lib/languages/crystal'),
+  csharp: () => import('highlight.js/lib/languages/csharp'),
+  csp: () => import('highlight.js/lib/languages/csp'),
+  css: () => import('highlight.js/lib/languages/css'),
+  d: () => import('highlight.js/lib/languages/d'),
+  dart: () => import('highlight.js/lib/languages/dart'),
+  delphi: () => import('highlight.js/lib/languages/delphi'),
+  diff: () => import('highlight.js/lib/languages/diff'),
+  django: () => import('highlight.js/lib/languages/django'),
+  dns: () => import('highlight.js/lib/languages/dns'),
+  dockerfile: () => import('highlight.js/lib/languages/dockerfile'),
+  dos: () => import('highlight.js/lib/languages/dos'),
+  dsconfig: () => import('highlight.js/lib/languages/dsconfig'),
+  dts: () => import('highlight.js/lib/languages/dts'),
+  dust: () => import('highlight.js/lib/languages/dust'),
+  ebnf: () => import('highlight.js/lib/languages/ebnf'),
+  elixir: () => import('highlight.js/lib/languages/elixir'),
+  elm: () => import('highlight.js/lib/languages/elm'),
+  erb: () => import('highlight.js/lib/languages/erb'),
+  erlang: () => import('highlight.js/lib/languages/erlang'),
+  'erlang-repl': () => import('highlight.js/lib/languages/erlang-repl'),
+  excel: () => import('highlight.js/lib/languages/excel'),
+  fix: () => import('highlight.js/lib/languages/fix'),
+  flix: () => import('highlight.js/lib/languages/flix'),
+  fortran: () => import('highlight.js/lib/languages/fortran'),
+  fsharp: () => import('highlight.js/lib/languages/fsharp'),
+  gams: () => import('highlight.js/lib/languages/gams'),
+  gauss: () => import('highlight.js/lib/languages/gauss'),
+  gcode: () => import('highlight.js/lib/languages/gcode'),
+  gherkin: () => import('highlight.js/lib/languages/gherkin'),
+  glsl: () => import('highlight.js/lib/languages/glsl'),
+  gml: () => import('highlight.js/lib/languages/gml'),
+  go: () => import('highlight.js/lib/languages/go'),
+  golo: () => import('highlight.js/lib/languages/golo'),
+  gradle: () => import('highlight.js/lib/languages/gradle'),
+  graphql: () => import('highlight.js/lib/languages/graphql'),
+  groovy: () => import('highlight.js/lib/languages/groovy'),
+  haml: () => import('highlight.js/lib/languages/haml'),
+  handlebars: () => import('highlight.js/lib/languages/handlebars'),
+  haskell: () => import('highlight.js/lib/languages/haskell'),
+  haxe: () => import('highlight.js/lib/languages/haxe'),
+  hsp: () => import('highlight.js/lib/languages/hsp'),
+  http: () => import('highlight.js/lib/languages/http'),
+  hy: () => import('highlight.js/lib/languages/hy'),
+  inform7: () => import('highlight.js/lib/languages/inform7'),
+  ini: () => import('highlight.js/lib/languages/ini'),
+  irpf90: () => import('highlight.js/lib/languages/irpf90'),
+  isbl: () => import('highlight.js/lib/languages/isbl'),
+  java: () => import('highlight.js/lib/languages/java'),
+  javascript: () => import('highlight.js/lib/languages/javascript'),
+  'jboss-cli': () => import('highlight.js/lib/languages/jboss-cli'),
+  json: () => import('highlight.js/lib/languages/json'),
+  julia: () => import('highlight.js/lib/languages/julia'),
+  'julia-repl': () => import('highlight.js/lib/languages/julia-repl'),
+  kotlin: () => import('highlight.js/lib/languages/kotlin'),
+  lasso: () => import('highlight.js/lib/languages/lasso'),
+  latex: () => import('highlight.js/lib/languages/latex'),
+  ldif: () => import('highlight.js/lib/languages/ldif'),
+  leaf: () => import('highlight.js/lib/languages/leaf'),
+  less: () => import('highlight.js/lib/languages/less'),
+  lisp: () => import('highlight.js/lib/languages/lisp'),
+  livecodeserver: () => import('highlight.js/lib/languages/livecodeserver'),
+  livescript: () => import('highlight.js/lib/languages/livescript'),
+  llvm: () => import('highlight.js/lib/languages/llvm'),
+  lsl: () => import('highlight.js/lib/languages/lsl'),
+  lua: () => import('highlight.js/lib/languages/lua'),
+  makefile: () => import('highlight.js/lib/languages/makefile'),
+  markdown: () => import('highlight.js/lib/languages/markdown'),
+  mathematica: () => import('highlight.js/lib/languages/mathematica'),
+  matlab: () => import('highlight.js/lib/languages/matlab'),
+  maxima: () => import('highlight.js/lib/languages/maxima'),
+  mel: () => import('highlight.js/lib/languages/mel'),
+  mercury: () => import('highlight.js/lib/languages/mercury'),
+  mipsasm: () => import('highlight.js/lib/languages/mipsasm'),
+  mizar: () => import('highlight.js/lib/languages/mizar'),
+  mojolicious: () => import('highlight.js/lib/languages/mojolicious'),
+  monkey: () => import('highlight.js/lib/languages/monkey'),
+  moonscript: () => import('highlight.js/lib/languages/moonscript'),
+  n1ql: () => import('highlight.js/lib/languages/n1ql'),
+  nestedtext: () => import('highlight.js/lib/languages/nestedtext'),
+  nginx: () => import('highlight.js/lib/languages/nginx'),
+  nim: () => import('highlight.js/lib/languages/nim'),
+  nix: () => import('highlight.js/lib/languages/nix'),
+  'node-repl': () => import('highlight.js/lib/languages/node-repl'),
+  nsis: () => import('highlight.js/lib/languages/nsis'),
+  objectivec: () => import('highlight.js/lib/languages/objectivec'),
+  ocaml: () => import('highlight.js/lib/languages/ocaml'),
+  openscad: () => import('highlight.js/lib/languages/openscad'),
+  oxygene: () => import('highlight.js/lib/languages/oxygene'),
+  parser3: () => import('highlight.js/lib/languages/parser3'),
+  perl: () => import('highlight.js/lib/languages/perl'),
+  pf: () => import('highlight.js/lib/languages/pf'),
+  pgsql: () => import('highlight.js/lib/languages/pgsql'),
+  php: () => import('highlight.js/lib/languages/php'),
+  'php-template': () => import('highlight.js/lib/languages/php-template'),
+  plaintext: () => import('highlight.js/lib/languages/plaintext'),
+  pony: () => import('highlight.js/lib/languages/pony'),
+  powershell: () => import('highlight.js/lib/languages/powershell'),
+  processing: () => import('highlight.js/lib/languages/processing'),
+  profile: () => import('highlight.js/lib/languages/profile'),
+  prolog: () => import('highlight.js/lib/languages/prolog'),
+  properties: () => import('highlight.js/lib/languages/properties'),
+  protobuf: () => import('highlight.js/lib/languages/protobuf'),
+  puppet: () => import('highlight.js/lib/languages/puppet'),
+  purebasic: () => import('highlight.js/lib/languages/purebasic'),
+  python: () => import('highlight.js/lib/languages/python'),
+  'python-repl': () => import('highlight.js/lib/languages/python-repl'),
+  q: () => import('highlight.js/lib/languages/q'),
+  qml: () => import('highlight.js/lib/languages/qml'),
+  r: () => import('highlight.js/lib/languages/r'),
+  reasonml: () => import('highlight.js/lib/languages/reasonml'),
+  rib: () => import('highlight.js/lib/languages/rib'),
+  roboconf: () => import('highlight.js/lib/languages/roboconf'),
+  routeros: () => import('highlight.js/lib/languages/routeros'),
+  rsl: () => import('highlight.js/lib/languages/rsl'),
+  ruby: () => import('highlight.js/lib/languages/ruby'),
+  ruleslanguage: () => import('highlight.js/lib/languages/ruleslanguage'),
+  rust: () => import('highlight.js/lib/languages/rust'),
+  sas: () => import('highlight.js/lib/languages/sas'),
+  scala: () => import('highlight.js/lib/languages/scala'),
+  scheme: () => import('highlight.js/lib/languages/scheme'),
+  scilab: () => import('highlight.js/lib/languages/scilab'),
+  scss: () => import('highlight.js/lib/languages/scss'),
+  shell: () => import('highlight.js/lib/languages/shell'),
+  smali: () => import('highlight.js/lib/languages/smali'),
+  smalltalk: () => import('highlight.js/lib/languages/smalltalk'),
+  sml: () => import('highlight.js/lib/languages/sml'),
+  sqf: () => import('highlight.js/lib/languages/sqf'),
+  sql: () => import('highlight.js/lib/languages/sql'),
+  stan: () => import('highlight.js/lib/languages/stan'),
+  stata: () => import('highlight.js/lib/languages/stata'),
+  step21: () => import('highlight.js/lib/languages/step21'),
+  stylus: () => import('highlight.js/lib/languages/stylus'),
+  subunit: () => import('highlight.js/lib/languages/subunit'),
+  swift: () => import('highlight.js/lib/languages/swift'),
+  taggerscript: () => import('highlight.js/lib/languages/taggerscript'),
+  tap: () => import('highlight.js/lib/languages/tap'),
+  tcl: () => import('highlight.js/lib/languages/tcl'),
+  thrift: () => import('highlight.js/lib/languages/thrift'),
+  tp: () => import('highlight.js/lib/languages/tp'),
+  twig: () => import('highlight.js/lib/languages/twig'),
+  typescript: () => import('highlight.js/lib/languages/typescript'),
+  vala: () => import('highlight.js/lib/languages/vala'),
+  vbnet: () => import('highlight.js/lib/languages/vbnet'),
+  vbscript: () => import('highlight.js/lib/languages/vbscript'),
+  'vbscript-html': () => import('highlight.js/lib/languages/vbscript-html'),
+  verilog: () => import('highlight.js/lib/languages/verilog'),
+  vhdl: () => import('highlight.js/lib/languages/vhdl'),
+  vim: () => import('highlight.js/lib/languages/vim'),
+  wasm: () => import('highlight.js/lib/languages/wasm'),
+  wren: () => import('highlight.js/lib/languages/wren'),
+  x86asm: () => import('highlight.js/lib/languages/x86asm'),
+  xl: () => import('highlight.js/lib/languages/xl'),
+  xml: () => import('highlight.js/lib/languages/xml'),
+  xquery: () => import('highlight.js/lib/languages/xquery'),
+  yaml: () => import('highlight.js/lib/languages/yaml'),
+  zephir: () => import('highlight.js/lib/languages/zephir'),
+}
+
+/** Fence languages that name a grammar differently */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  'c#': 'csharp',
+  'c++': 'cpp',
+  cc: 'cpp',
+  cjs: 'javascript',
+  clj: 'clojure',
+  cs: 'csharp',
+  docker: 'dockerfile',
+  erl: 'erlang',
+  ex: 'elixir',
+  exs: 'elixir',
+  fs: 'fsharp',
+  gql: 'graphql',
+  golang: 'go',
+  h: 'c',
+  hpp: 'cpp',
+  hs: 'haskell',
+  html: 'xml',
+  js: 'javascript',
+  jsonc: 'json',
+  jsx: 'javascript',
+  kt: 'kotlin',
+  make: 'makefile',
+  md: 'markdown',
+  mjs: 'javascript',
+  objc: 'objectivec',
+  patch: 'diff',
+  pl: 'perl',
+  postgres: 'pgsql',
+  proto: 'protobuf',
+  ps1: 'powershell',
+  py: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+  sh: 'bash',
+  shell: 'bash',
+  svg: 'xml',
+  tex: 'latex',
+  text: 'plaintext',
+  toml: 'ini',
+  ts: 'typescript',
+  tsx: 'typescript',
+  txt: 'plaintext',
+  yml: 'yaml',
+  zsh: 'bash',
+}
+
+/** Languages considered when a code block does not name one */
+const AUTO_DETECT_LANGUAGES = [
+  'bash', 'c', 'cpp', 'csharp', 'css', 'diff', 'go', 'java', 'javascript', 'json', 'kotlin',
+  'markdown', 'php', 'python', 'ruby', 'rust', 'sql', 'swift', 'typescript', 'xml', 'yaml',
+]
+
+/** Below this, auto-detection is a guess and the code is left plain */
+const MIN_DETECTION_RELEVANCE = 5
+
+export interface HighlightResult {
+  html: string
+  /** The detected language, for code without one */
+  language?: string
+}
+
+/**
+ * The grammar for a fence language, or undefined if highlight.js has none
+ */
+export function resolveLanguage(language: string): string | undefined {
+  const name = language.toLowerCase()
+  const grammar = LANGUAGE_ALIASES[name] ?? name
+  return Object.hasOwn(grammarLoaders, grammar) ? grammar : undefined
+}
+
+async function loadGrammar(grammar: string): Promise<void> {
+  if (hljs.getLanguage(grammar)) return
+  const { default: definition } = await grammarLoaders[grammar]()
+  hljs.registerLanguage(grammar, definition)
+}
+
+/**
+ * Whether code in a language can be highlighted without loading anything,
+ * including languages that will never be highlighted.
+ * Without a language, whether auto-detection is ready.
+ */
+export function isLanguageReady(language?: string): boolean {
+  if (!language) return AUTO_DETECT_LANGUAGES.every(grammar => hljs.getLanguage(grammar))
+  const grammar = resolveLanguage(language)
+  return !grammar || Boolean(hljs.getLanguage(grammar))
+}
+
+/**
+ * Load the grammars for code blocks in these languages. An empty string
+ * stands for a block without a language, which needs every auto-detected grammar.
+ */
+export async function loadLanguages(languages: string[]): Promise<void> {
+  const grammars = new Set<string>()
+  languages.forEach(language => {
+    if (!language) {
+      AUTO_DETECT_LANGUAGES.forEach(grammar => grammars.add(grammar))
+      return
+    }
+    const grammar = resolveLanguage(language)
+    if (grammar) grammars.add(grammar)
+  })
+  await Promise.all(Array.from(grammars, loadGrammar))
+}
+
+/**
+ * Escape HTML special characters
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;')
+}
+
+/**
+ * Highlight code to an HTML string with the grammars loaded so far.
+ * Without a language, the most likely one is detected.
+ * Falls back to escaped plain text for unknown or unloaded languages.
+ */
+export function highlightCode(code: string, language?: string): HighlightResult {
+  if (!language) {
+    const detected = hljs.highlightAuto(code, AUTO_DETECT_LANGUAGES.filter(grammar => hljs.getLanguage(grammar)))
+    return detected.language && detected.relevance >= MIN_DETECTION_RELEVANCE
+      ? { html: detected.value, language: detected.language }
+      : { html: escapeHtml(code) }
+  }
+
+  const grammar = resolveLanguage(language)
+  if (grammar && hljs.getLanguage(grammar)) {
+    return { html: hljs.highlight(code, { language: grammar, ignoreIllegals: true }).value }
+  }
+  return { html: escapeHtml(code) }
+}
+
+/**
+ * Split highlighted HTML into lines, closing the spans still open at the end
+ * of a line and reopening them on the next, for multi-line strings and comments
+ */
+export function splitHighlightedLines(html: string): string[] {
+  const lines: string[] = []
+  const open: string[] = []
+  let line = ''
+
+  for (const [token] of html.matchAll(/<span[^>]*>|<\/span>|[^<\n]+|\n/g)) {
+    if (token === '\n') {
+      lines.push(line + '</span>'.repeat(open.length))
+      line = open.join('')
+    } else {
+      if (token.startsWith('<span')) open.push(token)
+      else if (token === '</span>') open.pop()
+      line += token
+    }
+  }
+  lines.push(line)
+  return lines
+}
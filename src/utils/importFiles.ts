@@ -0,0 +1,95 @@
+/**
+ * Reading markdown and text files into documents, and matching them
+ * against existing documents so duplicates are not added unnoticed
+ */
+import type { Document } from '../storage/types'
+import { getDocumentTitle } from './frontMatter'
+
+/** Extensions accepted by the file picker and when dropping files */
+export const IMPORT_EXTENSIONS = ['.md', '.markdown', '.txt']
+
+export type DuplicateResolution = 'skip' | 'overwrite' | 'keep-both'
+
+export interface ImportCandidate {
+  fileName: string
+  /** Front matter title, or the file name without its extension */
+  name: string
+  content: string
+  /** Existing document with the same name or content */
+  duplicate?: Document
+}
+
+/** A document to create from a file, or to write into an existing one */
+export interface ImportedDocument {
+  name: string
+  content: string
+  /** Document whose content is replaced instead of creating a new one */
+  replaceId?: string
+}
+
+export function isImportableFile(file: File): boolean {
+  const name = file.name.toLowerCase()
+  return IMPORT_EXTENSIONS.some(extension => name.endsWith(extension))
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+/**
+ * The existing document an import would duplicate, by name or title, or by identical content
+ */
+export function findDuplicate(candidate: Pick<ImportCandidate, 'name' | 'content'>, documents: Document[]): Document | undefined {
+  const content = candidate.content.trimEnd()
+  return documents.find(doc =>
+    sameName(doc.name, candidate.name) ||
+    sameName(getDocumentTitle(doc.content, doc.name), candidate.name) ||
+    (content !== '' && doc.content.trimEnd() === content)
+  )
+}
+
+/**
+ * Read files as import candidates, in the order given, each checked for a duplicate
+ */
+export async function readImportFiles(files: File[], documents: Document[]): Promise<ImportCandidate[]> {
+  return Promise.all(files.map(async file => {
+    // Windows line endings would show up as changes in history diffs
+    const content = (await file.text()).replace(/\r\n?/g, '\n')
+    const name = getDocumentTitle(content, file.name.replace(/\.[^.]+$/, '') || file.name)
+    const candidate: ImportCandidate = { fileName: file.name, name, content }
+    const duplicate = findDuplicate(candidate, documents)
+    return duplicate ? { ...candidate, duplicate } : candidate
+  }))
+}
+
+/**
+ * A name not used by any of the documents, numbering copies like "Notes (2)"
+ */
+export function uniqueName(name: string, documents: Pick<Document, 'name'>[]): string {
+  const taken = (candidate: string) => documents.some(doc => sameName(doc.name, candidate))
+  if (!taken(name)) return name
+  let copy = 2
+  while (taken(`${name} (${copy})`)) copy++
+  return `${name} (${copy})`
+}
+
+/**
+ * Documents to import for the candidates, applying a resolution to each duplicate.
+ * Kept copies are renamed so names stay unique among documents and imports.
+ */
+export function resolveImports(
+  candidates: ImportCandidate[],
+  resolutions: DuplicateResolution[],
+  documents: Document[]
+): ImportedDocument[] {
+  const imported: ImportedDocument[] = []
+  candidates.forEach((candidate, index) => {
+    const { name, content, duplicate } = candidate
+    const resolution = duplicate ? resolutions[index] ?? 'skip' : 'keep-both'
+    if (resolution === 'skip') return
+    if (resolution === 'overwrite' && duplicate) {
+      imported.push({ name: duplicate.name, content, replaceId: duplicate.id })
+      return
+    }
+    imported.push({ name: uniqueName(name, [...documents, ...imported]), content })
+  })
+  return imported
+}
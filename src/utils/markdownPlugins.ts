@@ -0,0 +1,45 @@
+/**
+ * Markdown processing plugins shared by the preview and HTML export,
+ * so both render documents identically.
+ */
+import { defaultUrlTransform, type Options } from 'react-markdown'
+import rehypeKatex from 'rehype-katex'
+import rehypeSlug from 'rehype-slug'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import { ASSET_PROTOCOL } from './assets'
+import { remarkWikiLinks } from './remarkWikiLinks'
+
+type RehypePlugins = NonNullable<Options['rehypePlugins']>
+
+/**
+ * Added to heading ids in the preview, as GitHub does, so they cannot clash
+ * with ids used by the app. Links name headings without it, like #installation.
+ */
+export const HEADING_ID_PREFIX = 'user-content-'
+
+/** GFM, $inline$ and $$block$$ math, and [[wiki links]] */
+export const remarkPlugins: NonNullable<Options['remarkPlugins']> = [remarkGfm, remarkMath, remarkWikiLinks]
+
+/**
+ * GitHub-compatible heading ids, so #fragment links work, and math typeset with
+ * KaTeX. Formulas that fail to parse are shown in place with the error as a tooltip.
+ */
+export const rehypePlugins: RehypePlugins = [
+  [rehypeSlug, { prefix: HEADING_ID_PREFIX }],
+  [rehypeKatex, { output: 'htmlAndMathml' }],
+]
+
+/**
+ * Exported files have no KaTeX stylesheet or fonts, so math is written as
+ * MathML, which browsers display natively. Heading ids are not prefixed, since
+ * nothing else in the file has an id.
+ */
+export const exportRehypePlugins: RehypePlugins = [rehypeSlug, [rehypeKatex, { output: 'mathml' }]]
+
+/**
+ * Keep notepad-asset: URLs, which the default transform strips as unsafe,
+ * so stored images can be resolved when displayed or exported
+ */
+export const urlTransform: NonNullable<Options['urlTransform']> = (url) =>
+  url.startsWith(ASSET_PROTOCOL) ? url : defaultUrlTransform(url)
@@ -0,0 +1,76 @@
+/**
+ * Scanning markdown source for inline syntax written in prose,
+ * skipping front matter and code where the same characters mean something else
+ */
+import { findFrontMatter } from './frontMatter'
+
+export interface ProseMatch {
+  /** The regular expression match, with `index` relative to its line */
+  match: RegExpMatchArray
+  /** Offsets of the match within the whole content */
+  start: number
+  end: number
+  /** 0-based line of the match */
+  line: number
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)/
+
+/**
+ * Find matches of a global pattern outside of front matter, fenced code and inline code.
+ * Matches never span lines.
+ */
+export function findInProse(content: string, pattern: RegExp): ProseMatch[] {
+  const matches: ProseMatch[] = []
+  const frontMatter = findFrontMatter(content)
+  let offset = frontMatter?.end ?? 0
+  let lineNumber = frontMatter ? content.slice(0, frontMatter.end).split('\n').length - 1 : 0
+  let fence: string | null = null
+
+  content.slice(offset).split('\n').forEach(line => {
+    const fenceMatch = FENCE_PATTERN.exec(line)
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null
+      }
+    } else if (fenceMatch) {
+      fence = fenceMatch[1]
+    } else {
+      // Blank out inline code so offsets stay the same
+      const text = line.replace(/(`+)[^`]+?\1/g, code => ' '.repeat(code.length))
+      for (const match of text.matchAll(pattern)) {
+        matches.push({
+          match,
+          start: offset + match.index,
+          end: offset + match.index + match[0].length,
+          line: lineNumber,
+        })
+      }
+    }
+    offset += line.length + 1
+    lineNumber++
+  })
+
+  return matches
+}
+
+/**
+ * The language of each fenced code block, or an empty string for blocks without one
+ */
+export function findCodeLanguages(content: string): string[] {
+  const languages: string[] = []
+  let fence: string | null = null
+
+  content.split('\n').forEach(line => {
+    const fenceMatch = FENCE_PATTERN.exec(line)
+    if (!fenceMatch) return
+    if (!fence) {
+      fence = fenceMatch[1]
+      languages.push(fenceMatch[2])
+    } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length && !fenceMatch[2]) {
+      fence = null
+    }
+  })
+
+  return languages
+}
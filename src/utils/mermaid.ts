@@ -0,0 +1,65 @@
+/**
+ * Rendering of ```mermaid code blocks to SVG diagrams. Mermaid is large,
+ * so it is only loaded once a document contains a diagram.
+ */
+import type { Mermaid } from 'mermaid'
+
+export type DiagramTheme = 'default' | 'dark'
+
+let mermaidPromise: Promise<Mermaid> | null = null
+let diagramCount = 0
+// The theme is part of mermaid's global config, so each diagram is
+// configured and rendered before the next one starts
+let renderQueue: Promise<unknown> = Promise.resolve()
+
+function loadMermaid(): Promise<Mermaid> {
+  mermaidPromise ??= import('mermaid').then(({ default: mermaid }) => mermaid)
+  return mermaidPromise
+}
+
+/**
+ * Render a diagram definition to an SVG string.
+ * Rejects with mermaid's description of the problem when the definition is invalid.
+ */
+export function renderMermaid(source: string, theme: DiagramTheme = 'default'): Promise<string> {
+  const rendered = renderQueue.then(async () => {
+    const mermaid = await loadMermaid()
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: 'strict',
+      suppressErrorRendering: true,
+      theme,
+    })
+    diagramCount += 1
+    const { svg } = await mermaid.render(`mermaid-diagram-${diagramCount}`, source)
+    return svg
+  })
+  // A diagram that fails to render does not hold up the ones after it
+  renderQueue = rendered.catch(() => {})
+  return rendered
+}
+
+/**
+ * Replace the code blocks of mermaid diagrams in rendered HTML with their SVG,
+ * for exported files that should not depend on mermaid. Diagrams that fail to
+ * render keep their source.
+ */
+export async function embedMermaidDiagrams(html: string): Promise<string> {
+  const parsed = new DOMParser().parseFromString(html, 'text/html')
+  const blocks = Array.from(parsed.body.querySelectorAll('code.language-mermaid'))
+  if (blocks.length === 0) return html
+
+  for (const code of blocks) {
+    const block = code.closest('.code-block') ?? code
+    try {
+      const svg = await renderMermaid(code.textContent ?? '')
+      const diagram = parsed.createElement('div')
+      diagram.className = 'mermaid-diagram'
+      diagram.innerHTML = svg
+      block.replaceWith(diagram)
+    } catch {
+      // The source is still readable in the export
+    }
+  }
+  return parsed.body.innerHTML
+}
@@ -0,0 +1,136 @@
+/**
+ * The outline of a document, built from its ATX headings,
+ * and moving whole sections within the markdown source
+ */
+import { findInProse } from './markdownText'
+
+export interface OutlineHeading {
+  /** 1 to 6 */
+  level: number
+  /** The heading as plain text, without inline markup */
+  text: string
+  /** 0-based source line */
+  line: number
+  /** Offsets of the heading text within the content */
+  start: number
+  end: number
+}
+
+export interface OutlineNode {
+  heading: OutlineHeading
+  /** Position of the heading in the flat list */
+  index: number
+  children: OutlineNode[]
+}
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/g
+
+/**
+ * Remove inline markup so headings read as they are rendered
+ */
+function toPlainText(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[\[([^\]|#]+)(?:#[^\]|]+)?(?:\|([^\]]+))?\]\]/g, (_, target: string, alias?: string) => alias ?? target)
+    .replace(/(\*{1,3}|_{1,3}|~~|`+)(\S(?:.*?\S)?)\1/g, '$2')
+    .trim()
+}
+
+/**
+ * Every heading outside of front matter and code, in document order
+ */
+export function parseOutline(content: string): OutlineHeading[] {
+  return findInProse(content, HEADING_PATTERN).map(({ start, end, line }) => {
+    // Match again on the source line, since inline code is blanked out when scanning
+    const source = content.slice(start, end)
+    const [whole, hashes, text] = new RegExp(HEADING_PATTERN.source).exec(source)!
+    const textStart = start + whole.indexOf(text, hashes.length)
+    return {
+      level: hashes.length,
+      text: toPlainText(text),
+      line,
+      start: textStart,
+      end: textStart + text.length,
+    }
+  })
+}
+
+/**
+ * Nest headings under the closest preceding heading of a higher level.
+ * Skipped levels, like a ### directly under a #, nest one step deeper.
+ */
+export function buildOutlineTree(headings: OutlineHeading[]): OutlineNode[] {
+  const roots: OutlineNode[] = []
+  const stack: OutlineNode[] = []
+
+  headings.forEach((heading, index) => {
+    const node: OutlineNode = { heading, index, children: [] }
+    while (stack.length > 0 && stack[stack.length - 1].heading.level >= heading.level) {
+      stack.pop()
+    }
+    const parent = stack[stack.length - 1]
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+    stack.push(node)
+  })
+
+  return roots
+}
+
+/**
+ * Index of the heading after the section of the given one,
+ * or the number of headings when the section runs to the end
+ */
+export function getSectionEnd(headings: OutlineHeading[], index: number): number {
+  const { level } = headings[index]
+  const next = headings.findIndex((heading, i) => i > index && heading.level <= level)
+  return next === -1 ? headings.length : next
+}
+
+/**
+ * The heading whose section contains a line, if any
+ */
+export function findHeadingAtLine(headings: OutlineHeading[], line: number): number {
+  let found = -1
+  headings.forEach((heading, index) => {
+    if (heading.line <= line) found = index
+  })
+  return found
+}
+
+/**
+ * Whether a section can be moved before another heading, or to the end for null.
+ * A section cannot move into itself, or to where it already is.
+ */
+export function canMoveSection(headings: OutlineHeading[], from: number, to: number | null): boolean {
+  const end = getSectionEnd(headings, from)
+  const target = to ?? headings.length
+  return target < from || target > end
+}
+
+/**
+ * Move the section of a heading, with everything nested under it,
+ * before another heading or to the end of the document for null
+ */
+export function moveSection(content: string, headings: OutlineHeading[], from: number, to: number | null): string {
+  if (!canMoveSection(headings, from, to)) return content
+
+  const lines = content.split('\n')
+  // A trailing newline stays at the end of the document rather than moving with the last section
+  const trailingNewline = lines.length > 1 && lines[lines.length - 1] === ''
+  if (trailingNewline) lines.pop()
+
+  const end = getSectionEnd(headings, from)
+  const sectionStart = headings[from].line
+  const sectionEnd = end < headings.length ? headings[end].line : lines.length
+  const targetLine = to === null ? lines.length : headings[to].line
+
+  const section = lines.splice(sectionStart, sectionEnd - sectionStart)
+  const insertAt = targetLine > sectionStart ? targetLine - section.length : targetLine
+  lines.splice(insertAt, 0, ...section)
+
+  return lines.join('\n') + (trailingNewline ? '\n' : '')
+}
@@ -0,0 +1,64 @@
+/**
+ * Rehype plugin that wraps find matches in the rendered preview in <mark>
+ */
+import type { Element, ElementContent, Root } from 'hast'
+
+interface RehypeFindHighlightOptions {
+  /** Global pattern whose matches are highlighted */
+  pattern: RegExp
+}
+
+function highlightText(value: string, pattern: RegExp): ElementContent[] {
+  const nodes: ElementContent[] = []
+  let cursor = 0
+
+  for (const match of value.matchAll(pattern)) {
+    if (match[0].length === 0) continue
+    if (match.index > cursor) {
+      nodes.push({ type: 'text', value: value.slice(cursor, match.index) })
+    }
+    nodes.push({
+      type: 'element',
+      tagName: 'mark',
+      properties: { className: ['find-highlight'] },
+      children: [{ type: 'text', value: match[0] }],
+    })
+    cursor = match.index + match[0].length
+  }
+
+  if (cursor === 0) return [{ type: 'text', value }]
+  if (cursor < value.length) {
+    nodes.push({ type: 'text', value: value.slice(cursor) })
+  }
+  return nodes
+}
+
+function isMath(element: Element): boolean {
+  const { className } = element.properties
+  return Array.isArray(className) && className.some(name => String(name).startsWith('katex'))
+}
+
+function highlightChildren(parent: Root | Element, pattern: RegExp): void {
+  const children: ElementContent[] = []
+
+  parent.children.forEach(child => {
+    if (child.type === 'text') {
+      children.push(...highlightText(child.value, pattern))
+      return
+    }
+    // Code blocks are highlighted by CodeBlock, which expects plain text,
+    // and typeset math no longer reads like its source
+    if (child.type === 'element' && child.tagName !== 'pre' && !isMath(child)) {
+      highlightChildren(child, pattern)
+    }
+    children.push(child as ElementContent)
+  })
+
+  parent.children = children
+}
+
+export function rehypeFindHighlight({ pattern }: RehypeFindHighlightOptions) {
+  return (tree: Root) => {
+    highlightChildren(tree, pattern)
+  }
+}
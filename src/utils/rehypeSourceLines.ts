@@ -0,0 +1,26 @@
+/**
+ * Rehype plugin that marks rendered blocks with the 0-based source line they
+ * start on, as data-source-line, for scroll synchronization
+ */
+import type { Element, Root } from 'hast'
+
+const BLOCK_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li', 'blockquote', 'pre', 'table', 'tr', 'hr',
+])
+
+function markChildren(parent: Root | Element): void {
+  parent.children.forEach(child => {
+    if (child.type !== 'element') return
+    if (BLOCK_TAGS.has(child.tagName) && child.position) {
+      child.properties.dataSourceLine = child.position.start.line - 1
+    }
+    markChildren(child)
+  })
+}
+
+export function rehypeSourceLines() {
+  return (tree: Root) => {
+    markChildren(tree)
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Remark plugin that turns [[wiki links]] in text into link elements.
+ * The links carry their target in data attributes rather than an href,
+ * so the preview decides how to resolve and open them.
+ */
+import type { Parent, PhrasingContent, Root, RootContent, Text } from 'mdast'
+import { matchWikiLinks, type WikiLinkMatch } from './wikiLinks'
+
+// Link text and code are left as written
+const SKIPPED_TYPES = new Set(['link', 'linkReference', 'inlineCode', 'code', 'html'])
+
+function toLinkNode(link: WikiLinkMatch): Text {
+  const label = link.alias ?? (link.heading ? `${link.target} › ${link.heading}` : link.target)
+  return {
+    type: 'text',
+    value: label,
+    data: {
+      hName: 'a',
+      hProperties: {
+        className: ['wiki-link'],
+        dataWikiTarget: link.target,
+        ...(link.heading ? { dataWikiHeading: link.heading } : {}),
+      },
+      hChildren: [{ type: 'text', value: label }],
+    },
+  }
+}
+
+function splitText(value: string): PhrasingContent[] {
+  const links = matchWikiLinks(value)
+  if (links.length === 0) return [{ type: 'text', value }]
+
+  const nodes: PhrasingContent[] = []
+  let cursor = 0
+  links.forEach(link => {
+    if (link.start > cursor) {
+      nodes.push({ type: 'text', value: value.slice(cursor, link.start) })
+    }
+    nodes.push(toLinkNode(link))
+    cursor = link.end
+  })
+  if (cursor < value.length) {
+    nodes.push({ type: 'text', value: value.slice(cursor) })
+  }
+  return nodes
+}
+
+function transformChildren(parent: Parent): void {
+  parent.children = parent.children.flatMap<RootContent>(child => {
+    if (child.type === 'text') return splitText(child.value)
+    if ('children' in child && !SKIPPED_TYPES.has(child.type)) {
+      transformChildren(child)
+    }
+    return [child]
+  }) as Parent['children']
+}
+
+export function remarkWikiLinks() {
+  return (tree: Root) => {
+    transformChildren(tree)
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Static markdown rendering for exports
+ */
+import { renderToStaticMarkup } from 'react-dom/server'
+import ReactMarkdown, { type Components } from 'react-markdown'
+import { isLineInRanges, parseCodeMeta } from './codeMeta'
+import { highlightCode, splitHighlightedLines } from './highlight'
+import { exportRehypePlugins, remarkPlugins, urlTransform } from './markdownPlugins'
+
+/**
+ * Components mirroring the preview output without client-side effects.
+ * Code blocks are highlighted up front since effects never run when
+ * rendering to a string, with the grammars loaded so far.
+ */
+const staticComponents: Components = {
+  code: ({ children, className, node }) => {
+    const codeContent = String(children)
+    // Code blocks have newlines or language class, inline code doesn't
+    const isInline = !className && !codeContent.includes('\n')
+
+    if (isInline) {
+      return <code>{children}</code>
+    }
+
+    const language = className?.replace('language-', '') || undefined
+    const highlighted = highlightCode(codeContent.replace(/\n$/, ''), language)
+    const label = language ?? highlighted.language ?? 'text'
+    const { title, highlightLines, showLineNumbers } = parseCodeMeta(node?.data?.meta)
+    // Lines are only wrapped when the fence asks for numbers or highlighting
+    const html = highlightLines.length > 0 || showLineNumbers
+      ? splitHighlightedLines(highlighted.html).map((line, index) => {
+          const lineClass = isLineInRanges(highlightLines, index + 1) ? 'code-line highlighted' : 'code-line'
+          return `<span class="${lineClass}" data-line-number="${index + 1}">${line}\n</span>`
+        }).join('')
+      : highlighted.html
+    return (
+      <div className="code-block">
+        <div className="code-block-header">
+          {label === 'text' ? 'plain text' : label}
+          {title && <span className="code-block-title">{title}</span>}
+        </div>
+        <pre className={showLineNumbers ? 'line-numbers' : undefined}>
+          <code
+            className={`hljs ${className || ''}`}
+            dangerouslySetInnerHTML={{ __html: html }}
+          />
+        </pre>
+      </div>
+    )
+  },
+  pre: ({ children }) => <>{children}</>,
+  table: ({ children }) => (
+    <div className="table-wrapper">
+      <table>{children}</table>
+    </div>
+  ),
+}
+
+/**
+ * Render markdown content to an HTML string using the same
+ * plugins as the preview, with math as MathML.
+ */
+export function renderMarkdownToHtml(content: string): string {
+  return renderToStaticMarkup(
+    <ReactMarkdown
+      remarkPlugins={remarkPlugins}
+      rehypePlugins={exportRehypePlugins}
+      components={staticComponents}
+      urlTransform={urlTransform}
+    >
+      {content}
+    </ReactMarkdown>
+  )
+}
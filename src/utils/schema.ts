@@ -0,0 +1,124 @@
+/**
+ * Schemas for checking documents, folders and attachments read from files,
+ * shared by backups and workspace files
+ */
+import type { Document, Folder } from '../storage/types'
+import type { AssetInfo } from './assets'
+
+export interface FieldSchema {
+  type: 'string' | 'number' | 'boolean' | 'string[]'
+  optional?: boolean
+  nullable?: boolean
+  /** Allowed values of a string field */
+  values?: readonly string[]
+}
+
+// Keyed by every field, so changing Document, Folder or Asset fails to compile until the schema follows
+
+/** A document without its content, which backups keep in a file of its own */
+export const DOCUMENT_INFO_SCHEMA: Record<keyof Omit<Document, 'content'>, FieldSchema> = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  updatedAt: { type: 'number' },
+  deletedAt: { type: 'number', optional: true },
+  folderId: { type: 'string', optional: true },
+  tags: { type: 'string[]', optional: true },
+}
+
+export const DOCUMENT_SCHEMA: Record<keyof Document, FieldSchema> = {
+  ...DOCUMENT_INFO_SCHEMA,
+  content: { type: 'string' },
+}
+
+export const FOLDER_SCHEMA: Record<keyof Folder, FieldSchema> = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  parentId: { type: 'string', nullable: true },
+  updatedAt: { type: 'number' },
+}
+
+/** An attachment without its data, which each file format stores its own way */
+export const ASSET_INFO_SCHEMA: Record<keyof AssetInfo, FieldSchema> = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  type: { type: 'string' },
+  size: { type: 'number' },
+  createdAt: { type: 'number' },
+}
+
+/** Problems reported in an error message; the rest are counted */
+const MAX_REPORTED_PROBLEMS = 3
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const describeType = (field: FieldSchema) =>
+  field.values
+    ? `one of ${field.values.map(value => `"${value}"`).join(', ')}`
+    : field.type === 'string[]' ? 'a list of strings' : `a ${field.type}`
+
+export function checkField(value: unknown, field: FieldSchema, path: string, problems: string[]): void {
+  if (value === undefined && field.optional) return
+  if (value === null && field.nullable) return
+  const valid = field.type === 'string[]'
+    ? Array.isArray(value) && value.every(item => typeof item === 'string')
+    : typeof value === field.type && (!field.values || field.values.includes(value as string))
+  if (!valid) {
+    problems.push(value === undefined ? `${path} is missing` : `${path} must be ${describeType(field)}`)
+  }
+}
+
+/**
+ * Check a record against a schema, returning only the fields the schema knows
+ */
+export function checkRecord<T>(
+  value: unknown,
+  schema: Record<keyof T, FieldSchema>,
+  path: string,
+  problems: string[]
+): T {
+  if (!isRecord(value)) {
+    problems.push(`${path} must be an object`)
+    return {} as T
+  }
+  const record: Record<string, unknown> = {}
+  Object.entries<FieldSchema>(schema).forEach(([key, field]) => {
+    checkField(value[key], field, `${path}.${key}`, problems)
+    if (value[key] !== undefined) record[key] = value[key]
+  })
+  return record as T
+}
+
+/**
+ * Check a list of records against a schema, including that no id is used twice
+ */
+export function checkList<T>(
+  value: unknown,
+  schema: Record<keyof T, FieldSchema>,
+  path: string,
+  problems: string[]
+): T[] {
+  if (!Array.isArray(value)) {
+    problems.push(value === undefined ? `${path} is missing` : `${path} must be a list`)
+    return []
+  }
+  const ids = new Set<string>()
+  return value.map((item, index) => {
+    const record = checkRecord(item, schema, `${path}[${index}]`, problems)
+    const id = (record as { id?: unknown }).id
+    if (typeof id === 'string') {
+      if (ids.has(id)) problems.push(`${path}[${index}].id "${id}" is used more than once`)
+      ids.add(id)
+    }
+    return record
+  })
+}
+
+/**
+ * The first few problems for an error message, with a count of the rest
+ */
+export function describeProblems(problems: string[]): string {
+  const reported = problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ')
+  const more = problems.length - MAX_REPORTED_PROBLEMS
+  return `${reported}${more > 0 ? ` and ${more} more` : ''}`
+}
@@ -0,0 +1,117 @@
+/**
+ * Mapping between scroll offsets and source lines, so the editor and preview
+ * can show the same part of a document even when rendered blocks like images
+ * and tables are much taller or shorter than their markdown
+ */
+
+export interface LineAnchor {
+  /** 0-based source line */
+  line: number
+  /** Offset of the line from the top of the scrolled content, in pixels */
+  top: number
+}
+
+const START: LineAnchor = { line: 0, top: 0 }
+
+/**
+ * The source line, with a fraction, shown at a scroll offset.
+ * Anchors must be in order of both line and offset.
+ */
+export function lineAtOffset(anchors: LineAnchor[], offset: number): number {
+  let index = -1
+  while (index + 1 < anchors.length && anchors[index + 1].top <= offset) index++
+
+  const previous = anchors[index] ?? START
+  const next = anchors[index + 1]
+  if (!next) return previous.line
+  if (next.top === previous.top) return previous.line
+  return previous.line + (next.line - previous.line) * (offset - previous.top) / (next.top - previous.top)
+}
+
+/**
+ * The scroll offset that shows a source line, the inverse of lineAtOffset
+ */
+export function offsetOfLine(anchors: LineAnchor[], line: number): number {
+  let index = -1
+  while (index + 1 < anchors.length && anchors[index + 1].line <= line) index++
+
+  const previous = anchors[index] ?? START
+  const next = anchors[index + 1]
+  if (!next) return previous.top
+  if (next.line === previous.line) return previous.top
+  return previous.top + (next.top - previous.top) * (line - previous.line) / (next.line - previous.line)
+}
+
+/**
+ * Keep only anchors that move forward in both line and offset,
+ * such as a list and then its first item, which share a line
+ */
+function monotonic(anchors: LineAnchor[]): LineAnchor[] {
+  const result: LineAnchor[] = []
+  anchors.forEach(anchor => {
+    const last = result[result.length - 1]
+    if (!last || (anchor.line > last.line && anchor.top >= last.top)) {
+      result.push(anchor)
+    }
+  })
+  return result
+}
+
+/**
+ * Offsets of each line of a textarea, measured in a hidden copy with the same
+ * text layout so wrapped lines are accounted for. Falls back to a fixed line
+ * height where there is no layout, as in tests.
+ */
+export function measureTextareaLines(textarea: HTMLTextAreaElement): LineAnchor[] {
+  const style = getComputedStyle(textarea)
+  const lineHeight = parseFloat(style.lineHeight) || 24
+  const lines = textarea.value.split('\n')
+
+  const mirror = document.createElement('div')
+  const copied = [
+    'boxSizing', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+    'fontFamily', 'fontSize', 'fontWeight', 'letterSpacing', 'lineHeight', 'tabSize',
+  ] as const
+  copied.forEach(property => {
+    mirror.style[property] = style[property]
+  })
+  Object.assign(mirror.style, {
+    position: 'absolute',
+    top: '0',
+    left: '-9999px',
+    visibility: 'hidden',
+    width: `${textarea.clientWidth}px`,
+    border: '0',
+    whiteSpace: 'pre-wrap',
+    overflowWrap: 'break-word',
+  })
+  lines.forEach(line => {
+    const row = document.createElement('div')
+    row.textContent = line || ' '
+    mirror.appendChild(row)
+  })
+
+  document.body.appendChild(mirror)
+  const rows = Array.from(mirror.children as HTMLCollectionOf<HTMLElement>)
+  const measured = rows.some(row => row.offsetTop > 0)
+  const anchors = rows.map((row, line) => ({
+    line,
+    top: measured ? row.offsetTop : line * lineHeight,
+  }))
+  mirror.remove()
+  return anchors
+}
+
+/**
+ * Offsets of the rendered elements marked with the source line they start on
+ */
+export function measurePreviewLines(container: HTMLElement): LineAnchor[] {
+  const containerTop = container.getBoundingClientRect().top - container.scrollTop
+  const anchors = Array.from(container.querySelectorAll<HTMLElement>('[data-source-line]'))
+    .map(element => ({
+      line: Number(element.dataset.sourceLine),
+      top: element.getBoundingClientRect().top - containerTop,
+    }))
+    .filter(anchor => Number.isFinite(anchor.line))
+  return monotonic(anchors)
+}
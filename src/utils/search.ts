@@ -0,0 +1,161 @@
+/**
+ * Full-text search across document names and content
+ */
+import type { Document } from '../storage/types'
+
+export interface SearchRange {
+  start: number
+  end: number
+}
+
+export interface SearchMatch {
+  /** 1-based line number of the match */
+  line: number
+  /** Offsets of the first match on the line within the document content */
+  start: number
+  end: number
+  /** The matching line, shortened around the match */
+  snippet: string
+  /** Matched terms within the snippet */
+  highlights: SearchRange[]
+}
+
+export interface SearchResult {
+  document: Document
+  score: number
+  /** Matched terms within the document name */
+  nameHighlights: SearchRange[]
+  /** Matching lines, in document order, up to the requested limit */
+  matches: SearchMatch[]
+  /** Number of matching lines in the whole document */
+  matchCount: number
+}
+
+interface SearchOptions {
+  /** Maximum number of matching lines returned per document */
+  maxMatches?: number
+}
+
+const SNIPPET_LENGTH = 80
+const SNIPPET_CONTEXT = 24
+
+/**
+ * Split a query into lowercase terms, ignoring extra whitespace
+ */
+function parseQuery(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))]
+}
+
+/**
+ * Find every occurrence of each term in the text, merged into non-overlapping ranges
+ */
+function findRanges(text: string, terms: string[]): SearchRange[] {
+  const lower = text.toLowerCase()
+  const ranges: SearchRange[] = []
+
+  terms.forEach(term => {
+    let index = lower.indexOf(term)
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length })
+      index = lower.indexOf(term, index + term.length)
+    }
+  })
+
+  ranges.sort((a, b) => a.start - b.start)
+  return ranges.reduce<SearchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+    return merged
+  }, [])
+}
+
+/**
+ * Shorten a long line to a window around its first match
+ */
+function buildSnippet(line: string, ranges: SearchRange[]): Pick<SearchMatch, 'snippet' | 'highlights'> {
+  if (line.length <= SNIPPET_LENGTH) {
+    return { snippet: line, highlights: ranges }
+  }
+
+  const windowStart = Math.max(0, Math.min(ranges[0].start - SNIPPET_CONTEXT, line.length - SNIPPET_LENGTH))
+  const windowEnd = windowStart + SNIPPET_LENGTH
+  const prefix = windowStart > 0 ? '…' : ''
+  const suffix = windowEnd < line.length ? '…' : ''
+  const offset = prefix.length - windowStart
+
+  return {
+    snippet: prefix + line.slice(windowStart, windowEnd) + suffix,
+    highlights: ranges
+      .filter(range => range.end > windowStart && range.start < windowEnd)
+      .map(range => ({
+        start: Math.max(range.start, windowStart) + offset,
+        end: Math.min(range.end, windowEnd) + offset,
+      })),
+  }
+}
+
+/**
+ * Search documents for every term of the query.
+ * A document matches when each term appears in its name or content.
+ * Results are ranked by name matches first, then by how often the
+ * terms occur in the content, with recently updated documents breaking ties.
+ */
+export function searchDocuments(
+  documents: Document[],
+  query: string,
+  { maxMatches = 3 }: SearchOptions = {}
+): SearchResult[] {
+  const terms = parseQuery(query)
+  if (terms.length === 0) return []
+
+  const normalizedQuery = terms.join(' ')
+  const results: SearchResult[] = []
+
+  documents.forEach(document => {
+    const name = document.name.toLowerCase()
+    const content = document.content.toLowerCase()
+    if (!terms.every(term => name.includes(term) || content.includes(term))) return
+
+    let score = 0
+    if (name === normalizedQuery) {
+      score += 100
+    } else if (name.startsWith(normalizedQuery)) {
+      score += 50
+    }
+    score += terms.filter(term => name.includes(term)).length * 20
+
+    const matches: SearchMatch[] = []
+    let matchCount = 0
+    let lineStart = 0
+    document.content.split('\n').forEach((line, index) => {
+      const ranges = findRanges(line, terms)
+      if (ranges.length > 0) {
+        matchCount++
+        score += Math.min(ranges.length, 5)
+        if (matches.length < maxMatches) {
+          matches.push({
+            line: index + 1,
+            start: lineStart + ranges[0].start,
+            end: lineStart + ranges[0].end,
+            ...buildSnippet(line, ranges),
+          })
+        }
+      }
+      lineStart += line.length + 1
+    })
+
+    results.push({
+      document,
+      score,
+      nameHighlights: findRanges(document.name, terms),
+      matches,
+      matchCount,
+    })
+  })
+
+  return results.sort((a, b) => b.score - a.score || b.document.updatedAt - a.document.updatedAt)
+}
@@ -0,0 +1,131 @@
+/**
+ * Document tags, set explicitly or written in the content as
+ * #hashtags or a `tags` list in the YAML front matter
+ */
+import { isMap, isScalar, isSeq } from 'yaml'
+import type { Document } from '../storage/types'
+import { extractFrontMatter, parseFrontMatter, replaceFrontMatter } from './frontMatter'
+import { findInProse } from './markdownText'
+
+export interface TagCount {
+  tag: string
+  count: number
+}
+
+interface HashtagMatch {
+  tag: string
+  start: number
+  end: number
+}
+
+// Not part of a word, URL fragment, HTML entity or link target like [text](#anchor)
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_&#/\\])(?<!\]\()#([\p{L}\p{N}_][\p{L}\p{N}_/-]*)/gu
+
+/**
+ * Tags compare case-insensitively and cannot contain spaces
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-')
+}
+
+function uniqueTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))]
+}
+
+/**
+ * Find #hashtags outside of front matter and code.
+ * Tags need at least one letter, so issue numbers like #42 are ignored.
+ */
+function scanHashtags(content: string): HashtagMatch[] {
+  return findInProse(content, HASHTAG_PATTERN)
+    .filter(({ match }) => /\p{L}/u.test(match[1]))
+    .map(({ match, start, end }) => ({ tag: normalizeTag(match[1]), start, end }))
+}
+
+/**
+ * Every tag of a document, sorted by name
+ */
+export function getDocumentTags(doc: Document): string[] {
+  return uniqueTags([
+    ...(doc.tags ?? []),
+    ...(extractFrontMatter(doc.content).metadata?.tags ?? []),
+    ...scanHashtags(doc.content).map(match => match.tag),
+  ]).sort()
+}
+
+/**
+ * How many documents use each tag, sorted by tag
+ */
+export function countTags(documents: Document[]): TagCount[] {
+  const counts = new Map<string, number>()
+  documents.forEach(doc => {
+    getDocumentTags(doc).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+  })
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => a.tag.localeCompare(b.tag))
+}
+
+/**
+ * Rename the tag in the front matter `tags` entry
+ */
+function renameFrontMatterTag(content: string, from: string, to: string): string {
+  const yaml = parseFrontMatter(content)
+  const node = yaml?.contents
+  if (!yaml || !isMap(node)) return content
+
+  const tags: unknown = node.get('tags', true)
+  if (isSeq(tags)) {
+    const hasTag = (item: unknown) => isScalar(item) && normalizeTag(String(item.value)) === from
+    if (!tags.items.some(hasTag)) return content
+    const alreadyTagged = tags.items.some(item => isScalar(item) && normalizeTag(String(item.value)) === to)
+    tags.items = tags.items.flatMap(item => {
+      if (!hasTag(item) || !isScalar(item)) return [item]
+      if (alreadyTagged) return []
+      item.value = to
+      return [item]
+    })
+  } else if (isScalar(tags) && typeof tags.value === 'string') {
+    const names = tags.value.split(',').map(name => name.trim())
+    if (!names.some(name => normalizeTag(name) === from)) return content
+    tags.value = uniqueTags(names.map(name => normalizeTag(name) === from ? to : name)).join(', ')
+  } else {
+    return content
+  }
+
+  return replaceFrontMatter(content, yaml)
+}
+
+/**
+ * Rename a tag wherever it appears in a document.
+ * Renaming to a tag the document already has merges the two.
+ * Returns the same document when it does not have the tag.
+ */
+export function renameTagInDocument(doc: Document, fromTag: string, toTag: string): Document {
+  const from = normalizeTag(fromTag)
+  const to = normalizeTag(toTag)
+  if (!from || !to || from === to) return doc
+
+  const tags = doc.tags?.some(tag => normalizeTag(tag) === from)
+    ? uniqueTags(doc.tags.map(tag => normalizeTag(tag) === from ? to : tag))
+    : doc.tags
+
+  let content = doc.content
+  // Replace from the end so earlier offsets stay valid
+  scanHashtags(content)
+    .filter(match => match.tag === from)
+    .reverse()
+    .forEach(match => {
+      content = content.slice(0, match.start) + `#${to}` + content.slice(match.end)
+    })
+  content = renameFrontMatterTag(content, from, to)
+
+  if (tags === doc.tags && content === doc.content) return doc
+  return { ...doc, ...(tags ? { tags } : {}), content }
+}
+
+/**
+ * Parse tags typed as a comma or space separated list
+ */
+export function parseTagInput(input: string): string[] {
+  return uniqueTags(input.split(/[,\s]+/))
+}
@@ -0,0 +1,35 @@
+/**
+ * GFM task list items, like - [ ] and - [x], in the markdown source
+ */
+import { findInProse } from './markdownText'
+
+export interface TaskProgress {
+  done: number
+  total: number
+}
+
+// List markers may be nested in blockquotes, like > - [ ] item
+const TASK_PATTERN = /^((?:[ \t]*>)*[ \t]*(?:[-*+]|\d{1,9}[.)])[ \t]+\[)([ xX])(\](?=[ \t]|$))/
+
+/**
+ * Check or uncheck the task on a 0-based line. Lines without a task are left unchanged.
+ */
+export function toggleTask(content: string, line: number, checked: boolean): string {
+  const lines = content.split('\n')
+  const source = lines[line]
+  if (source === undefined || !TASK_PATTERN.test(source)) return content
+
+  lines[line] = source.replace(TASK_PATTERN, `$1${checked ? 'x' : ' '}$3`)
+  return lines.join('\n')
+}
+
+/**
+ * How many tasks are checked, outside of front matter and code
+ */
+export function countTasks(content: string): TaskProgress {
+  const tasks = findInProse(content, new RegExp(TASK_PATTERN.source, 'g'))
+  return {
+    done: tasks.filter(({ match }) => match[2] !== ' ').length,
+    total: tasks.length,
+  }
+}
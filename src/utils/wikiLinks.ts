@@ -0,0 +1,147 @@
+/**
+ * Links between documents written as [[Document Name]],
+ * optionally with a heading, [[Document Name#Heading]], and a label, [[Document Name|label]]
+ */
+import type { Document } from '../storage/types'
+import { findInProse } from './markdownText'
+import { parseOutline } from './outline'
+
+export interface WikiLinkMatch {
+  /** The name of the linked document, as written */
+  target: string
+  heading?: string
+  alias?: string
+  /** Offsets of the whole link, brackets included, within the text */
+  start: number
+  end: number
+}
+
+export interface WikiLink extends WikiLinkMatch {
+  /** 0-based line of the link */
+  line: number
+}
+
+export interface Backlink {
+  document: Document
+  /** The line of the first link to the document, shortened around it */
+  snippet: string
+  /** Number of links to the document */
+  count: number
+}
+
+const WIKI_LINK_PATTERN = /\[\[([^[\]|#\n]+)(?:#([^[\]|\n]+))?(?:\|([^[\]\n]+))?\]\]/g
+
+const SNIPPET_LENGTH = 80
+const SNIPPET_CONTEXT = 24
+
+/**
+ * Document names compare case-insensitively, ignoring surrounding whitespace
+ */
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+function toWikiLink(match: RegExpMatchArray): Pick<WikiLink, 'target' | 'heading' | 'alias'> | null {
+  const target = match[1].trim()
+  if (!target) return null
+  const heading = match[2]?.trim()
+  const alias = match[3]?.trim()
+  return {
+    target,
+    ...(heading ? { heading } : {}),
+    ...(alias ? { alias } : {}),
+  }
+}
+
+/**
+ * Find wiki links in plain text, such as a text node of parsed markdown
+ */
+export function matchWikiLinks(text: string): WikiLinkMatch[] {
+  return [...text.matchAll(WIKI_LINK_PATTERN)].flatMap(match => {
+    const link = toWikiLink(match)
+    return link ? [{ ...link, start: match.index, end: match.index + match[0].length }] : []
+  })
+}
+
+/**
+ * Find every wiki link outside of front matter and code
+ */
+export function findWikiLinks(content: string): WikiLink[] {
+  return findInProse(content, WIKI_LINK_PATTERN).flatMap(({ match, start, end, line }) => {
+    const link = toWikiLink(match)
+    return link ? [{ ...link, start, end, line }] : []
+  })
+}
+
+/**
+ * The document a link points to, matching names case-insensitively.
+ * Documents in the trash are not linked to.
+ */
+export function resolveWikiLink(documents: Document[], target: string): Document | undefined {
+  const name = normalizeName(target)
+  return documents.find(doc => doc.deletedAt === undefined && normalizeName(doc.name) === name)
+}
+
+/**
+ * Point links to a renamed document at its new name, keeping their heading and label.
+ * Returns the content unchanged when it has no such links.
+ */
+export function renameWikiLinks(content: string, oldName: string, newName: string): string {
+  const name = normalizeName(oldName)
+  const links = findWikiLinks(content).filter(link => normalizeName(link.target) === name)
+  if (links.length === 0) return content
+
+  let result = ''
+  let position = 0
+  links.forEach(link => {
+    const heading = link.heading ? `#${link.heading}` : ''
+    const alias = link.alias ? `|${link.alias}` : ''
+    result += content.slice(position, link.start) + `[[${newName.trim()}${heading}${alias}]]`
+    position = link.end
+  })
+  return result + content.slice(position)
+}
+
+/**
+ * Offsets of the text of the first heading matching a link's heading, ignoring case
+ */
+export function findHeading(content: string, heading: string): { start: number; end: number } | null {
+  const name = normalizeName(heading)
+  const found = parseOutline(content).find(({ text }) => normalizeName(text) === name)
+  return found ? { start: found.start, end: found.end } : null
+}
+
+function buildSnippet(line: string, start: number): string {
+  const text = line.trim()
+  const offset = start - (line.length - line.trimStart().length)
+  if (text.length <= SNIPPET_LENGTH) return text
+
+  const windowStart = Math.max(0, Math.min(offset - SNIPPET_CONTEXT, text.length - SNIPPET_LENGTH))
+  const windowEnd = windowStart + SNIPPET_LENGTH
+  return (windowStart > 0 ? '…' : '') + text.slice(windowStart, windowEnd) + (windowEnd < text.length ? '…' : '')
+}
+
+/**
+ * Every other document with a link to the given one, most recently updated first
+ */
+export function findBacklinks(documents: Document[], target: Document): Backlink[] {
+  const name = normalizeName(target.name)
+  const backlinks: Backlink[] = []
+
+  documents.forEach(document => {
+    if (document.id === target.id || document.deletedAt !== undefined) return
+    const links = findWikiLinks(document.content).filter(link => normalizeName(link.target) === name)
+    if (links.length === 0) return
+
+    const [first] = links
+    const lines = document.content.split('\n')
+    const lineStart = lines.slice(0, first.line).reduce((total, line) => total + line.length + 1, 0)
+    backlinks.push({
+      document,
+      snippet: buildSnippet(lines[first.line], first.start - lineStart),
+      count: links.length,
+    })
+  })
+
+  return backlinks.sort((a, b) => b.document.updatedAt - a.document.updatedAt)
+}
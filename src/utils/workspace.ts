@@ -0,0 +1,193 @@
+/**
+ * The workspace file: documents, folders, attachments and settings in one
+ * versioned JSON file, for moving a setup between machines. Files from older
+ * versions are migrated forward, and files are checked against a schema before use.
+ */
+import type { Theme } from '../hooks/useTheme'
+import type { Asset, Document, Folder } from '../storage/types'
+import { decodeBase64, encodeBase64 } from './assets'
+import { downloadFile } from './export'
+import {
+  ASSET_INFO_SCHEMA, DOCUMENT_SCHEMA, FOLDER_SCHEMA, checkField, checkList, checkRecord, describeProblems, isRecord,
+  type FieldSchema,
+} from './schema'
+
+export const WORKSPACE_FORMAT = 'markdown-notepad-workspace'
+
+/** Which panels are shown and whether the editor and preview scroll together */
+export interface LayoutPreferences {
+  showSidebar: boolean
+  showOutline: boolean
+  scrollSync: boolean
+}
+
+export interface WorkspaceSettings {
+  theme: Theme
+  layout: LayoutPreferences
+}
+
+export interface Workspace {
+  exportedAt: number
+  /** Documents including those in the trash */
+  documents: Document[]
+  folders: Folder[]
+  assets: Asset[]
+  settings: WorkspaceSettings
+}
+
+/** An attachment in the file, with its data in base64 */
+type WorkspaceAsset = Omit<Asset, 'data'> & { data: string }
+
+/** Upgrades the parsed contents of a file by one version */
+export type WorkspaceMigration = (workspace: Record<string, unknown>) => Record<string, unknown>
+
+/**
+ * Migrations by the version they upgrade from: the first turns a version 1
+ * file into version 2, and so on. When Document or another stored shape
+ * changes, update its schema and add a migration here.
+ */
+export const WORKSPACE_MIGRATIONS: WorkspaceMigration[] = [
+  // Version 1 files had no attachments
+  workspace => ({ ...workspace, assets: [] }),
+]
+
+export const WORKSPACE_VERSION = WORKSPACE_MIGRATIONS.length + 1
+
+const ASSET_SCHEMA: Record<keyof WorkspaceAsset, FieldSchema> = {
+  ...ASSET_INFO_SCHEMA,
+  data: { type: 'string' },
+}
+
+const LAYOUT_SCHEMA: Record<keyof LayoutPreferences, FieldSchema> = {
+  showSidebar: { type: 'boolean' },
+  showOutline: { type: 'boolean' },
+  scrollSync: { type: 'boolean' },
+}
+
+const THEME_SCHEMA: FieldSchema = { type: 'string', values: ['light', 'dark'] }
+
+/**
+ * Move folders and documents whose folder is missing to the root. Folders
+ * whose parents loop back on themselves are moved to the root too, one per loop.
+ */
+function reattachToRoot(documents: Document[], folders: Folder[]): Pick<Workspace, 'documents' | 'folders'> {
+  const parents = new Map(folders.map(folder => [folder.id, folder.parentId]))
+  folders.forEach(({ id, parentId }) => {
+    if (parentId !== null && !parents.has(parentId)) parents.set(id, null)
+  })
+  folders.forEach(({ id }) => {
+    const seen = new Set([id])
+    for (let parentId = parents.get(id); parentId; parentId = parents.get(parentId)) {
+      if (seen.has(parentId)) {
+        parents.set(parentId, null)
+        break
+      }
+      seen.add(parentId)
+    }
+  })
+
+  return {
+    documents: documents.map(doc => {
+      if (doc.folderId === undefined || parents.has(doc.folderId)) return doc
+      const atRoot = { ...doc }
+      delete atRoot.folderId
+      return atRoot
+    }),
+    folders: folders.map(folder => ({ ...folder, parentId: parents.get(folder.id) ?? null })),
+  }
+}
+
+/**
+ * Upgrade the parsed contents of a file from its version to the latest one
+ */
+export function migrateWorkspace(
+  workspace: Record<string, unknown>,
+  fromVersion: number,
+  migrations: WorkspaceMigration[] = WORKSPACE_MIGRATIONS
+): Record<string, unknown> {
+  return migrations
+    .slice(fromVersion - 1)
+    .reduce((migrated, migrate) => migrate(migrated), workspace)
+}
+
+/**
+ * Serialize a workspace in the latest version of the format
+ */
+export function serializeWorkspace({ exportedAt, documents, folders, assets, settings }: Workspace): string {
+  const fileAssets: WorkspaceAsset[] = assets.map(({ data, ...asset }) => ({ ...asset, data: encodeBase64(data) }))
+  return JSON.stringify({
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    exportedAt,
+    documents,
+    folders,
+    assets: fileAssets,
+    settings,
+  }, null, 2)
+}
+
+/**
+ * Read a workspace file, migrating it from older versions. Documents and
+ * folders in a missing folder are placed at the root.
+ * Throws an error with a message for the user when the file cannot be used.
+ */
+export function parseWorkspace(json: string): Workspace {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error('This file is not valid JSON')
+  }
+  if (!isRecord(parsed) || parsed.format !== WORKSPACE_FORMAT) {
+    throw new Error('This file is not a Markdown Notepad workspace')
+  }
+  const { version } = parsed
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('This workspace file has no valid version')
+  }
+  if (version > WORKSPACE_VERSION) {
+    throw new Error('This workspace was exported by a newer version of Markdown Notepad')
+  }
+
+  const workspace = migrateWorkspace(parsed, version)
+  const problems: string[] = []
+  checkField(workspace.exportedAt, { type: 'number' }, 'exportedAt', problems)
+  const documents = checkList(workspace.documents, DOCUMENT_SCHEMA, 'documents', problems)
+  const folders = checkList(workspace.folders, FOLDER_SCHEMA, 'folders', problems)
+  const assets = checkList(workspace.assets, ASSET_SCHEMA, 'assets', problems).map((asset, index) => {
+    let data = new ArrayBuffer(0)
+    if (typeof asset.data === 'string') {
+      try {
+        data = decodeBase64(asset.data)
+      } catch {
+        problems.push(`assets[${index}].data must be base64`)
+      }
+    }
+    return { ...asset, data }
+  })
+  let settings = { theme: 'light', layout: {} } as WorkspaceSettings
+  if (isRecord(workspace.settings)) {
+    checkField(workspace.settings.theme, THEME_SCHEMA, 'settings.theme', problems)
+    settings = {
+      theme: workspace.settings.theme as Theme,
+      layout: checkRecord(workspace.settings.layout, LAYOUT_SCHEMA, 'settings.layout', problems),
+    }
+  } else {
+    problems.push(workspace.settings === undefined ? 'settings is missing' : 'settings must be an object')
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`This workspace file is invalid: ${describeProblems(problems)}`)
+  }
+  return { exportedAt: workspace.exportedAt as number, ...reattachToRoot(documents, folders), assets, settings }
+}
+
+/**
+ * Download the workspace as JSON, named after the current date
+ */
+export function exportWorkspace(workspace: Omit<Workspace, 'exportedAt'>): void {
+  const exportedAt = Date.now()
+  const date = new Date(exportedAt).toISOString().slice(0, 10)
+  const blob = new Blob([serializeWorkspace({ ...workspace, exportedAt })], { type: 'application/json;charset=utf-8' })
+  downloadFile(blob, `markdown-notepad-workspace-${date}.json`)
+}